@@ -0,0 +1,7 @@
+-- AlterTable
+-- Existing sessions get the current time as deadline so the sweeper releases their seats
+ALTER TABLE "sessions" ADD COLUMN     "expiresAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE "sessions" ALTER COLUMN "expiresAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "sessions_status_expiresAt_idx" ON "sessions"("status", "expiresAt");
@@ -0,0 +1,28 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[scheduleId,seatId]` on the table `seats_sessions` will be added. Duplicate holds are removed, keeping the earliest one.
+  - Added the required column `scheduleId` to the `seats_sessions` table, backfilled from `sessions`.
+
+*/
+-- AlterTable
+ALTER TABLE "seats_sessions" ADD COLUMN     "scheduleId" TEXT;
+
+UPDATE "seats_sessions" ss SET "scheduleId" = s."scheduleId" FROM "sessions" s WHERE ss."sessionId" = s."id";
+
+ALTER TABLE "seats_sessions" ALTER COLUMN "scheduleId" SET NOT NULL;
+
+-- Remove duplicate holds
+DELETE FROM "seats_sessions" a USING "seats_sessions" b
+WHERE a."scheduleId" = b."scheduleId"
+  AND a."seatId" = b."seatId"
+  AND (a."createdAt" > b."createdAt" OR (a."createdAt" = b."createdAt" AND a."id" > b."id"));
+
+-- CreateIndex
+CREATE INDEX "seats_sessions_sessionId_idx" ON "seats_sessions"("sessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seats_sessions_scheduleId_seatId_key" ON "seats_sessions"("scheduleId", "seatId");
+
+-- AddForeignKey
+ALTER TABLE "seats_sessions" ADD CONSTRAINT "seats_sessions_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
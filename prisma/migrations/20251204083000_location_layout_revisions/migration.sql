@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "location_seats" ADD COLUMN     "retiredAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "location_layout_revisions" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "config" JSONB NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locationId" TEXT NOT NULL,
+
+    CONSTRAINT "location_layout_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "location_layout_revisions_locationId_version_key" ON "location_layout_revisions"("locationId", "version");
+
+-- CreateIndex
+CREATE INDEX "location_seats_retiredAt_idx" ON "location_seats"("retiredAt");
+
+-- AddForeignKey
+ALTER TABLE "location_layout_revisions" ADD CONSTRAINT "location_layout_revisions_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
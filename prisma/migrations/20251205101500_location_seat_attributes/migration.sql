@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "location_seats" ADD COLUMN     "isAccessible" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isAisle" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isBlocked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isCompanion" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isObstructedView" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "location_seats_isBlocked_idx" ON "location_seats"("isBlocked");
@@ -0,0 +1,82 @@
+-- Zones and sections become venue-specific: the global zones table and the
+-- ZoneType / SectionPosition enums are replaced by codes and names per location.
+-- Existing data keeps its codes (VVIP, VIP, ... and C, L, R) so seat labels stay valid.
+
+-- AlterTable
+ALTER TABLE "location_zones" ADD COLUMN     "code" TEXT,
+ADD COLUMN     "name" JSONB,
+ADD COLUMN     "color" TEXT,
+ADD COLUMN     "displayOrder" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "priority" INTEGER;
+
+UPDATE "location_zones" AS lz
+SET "code" = z."type"::TEXT,
+    "name" = jsonb_build_object('en', z."type"::TEXT),
+    "priority" = z."priority",
+    "displayOrder" = z."priority"
+FROM "zones" AS z
+WHERE z."id" = lz."zoneId";
+
+ALTER TABLE "location_zones" ALTER COLUMN "code" SET NOT NULL,
+ALTER COLUMN "name" SET NOT NULL,
+ALTER COLUMN "priority" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "location_sections" ADD COLUMN     "code" TEXT,
+ADD COLUMN     "name" JSONB,
+ADD COLUMN     "displayOrder" INTEGER NOT NULL DEFAULT 0;
+
+UPDATE "location_sections"
+SET "code" = CASE "position" WHEN 'CENTER' THEN 'C' WHEN 'LEFT' THEN 'L' ELSE 'R' END,
+    "name" = jsonb_build_object('en', CASE "position" WHEN 'CENTER' THEN 'Center' WHEN 'LEFT' THEN 'Left' ELSE 'Right' END),
+    "displayOrder" = CASE "position" WHEN 'CENTER' THEN 1 WHEN 'LEFT' THEN 2 ELSE 3 END;
+
+ALTER TABLE "location_sections" ALTER COLUMN "code" SET NOT NULL,
+ALTER COLUMN "name" SET NOT NULL,
+DROP COLUMN "position";
+
+-- AlterTable
+ALTER TABLE "booking_seats" ADD COLUMN     "zoneCode" TEXT,
+ADD COLUMN     "zoneName" JSONB,
+ADD COLUMN     "sectionCode" TEXT,
+ADD COLUMN     "sectionName" JSONB;
+
+UPDATE "booking_seats"
+SET "zoneCode" = "zoneType"::TEXT,
+    "zoneName" = jsonb_build_object('en', "zoneType"::TEXT),
+    "sectionCode" = CASE "sectionPosition" WHEN 'CENTER' THEN 'C' WHEN 'LEFT' THEN 'L' ELSE 'R' END,
+    "sectionName" = jsonb_build_object('en', CASE "sectionPosition" WHEN 'CENTER' THEN 'Center' WHEN 'LEFT' THEN 'Left' ELSE 'Right' END);
+
+ALTER TABLE "booking_seats" ALTER COLUMN "zoneCode" SET NOT NULL,
+ALTER COLUMN "zoneName" SET NOT NULL,
+ALTER COLUMN "sectionCode" SET NOT NULL,
+ALTER COLUMN "sectionName" SET NOT NULL,
+DROP COLUMN "zoneType",
+DROP COLUMN "sectionPosition";
+
+-- DropForeignKey
+ALTER TABLE "location_zones" DROP CONSTRAINT "location_zones_zoneId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "zone_pricings" DROP CONSTRAINT "zone_pricings_zoneId_fkey";
+
+-- DropIndex
+DROP INDEX "location_zones_locationId_zoneId_key";
+
+-- AlterTable
+ALTER TABLE "location_zones" DROP COLUMN "zoneId";
+
+-- AlterTable
+ALTER TABLE "zone_pricings" DROP COLUMN "zoneId";
+
+-- DropTable
+DROP TABLE "zones";
+
+-- DropEnum
+DROP TYPE "ZoneType";
+
+-- DropEnum
+DROP TYPE "SectionPosition";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "location_zones_locationId_code_key" ON "location_zones"("locationId", "code");
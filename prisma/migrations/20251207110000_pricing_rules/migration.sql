@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "PricingRuleType" AS ENUM ('EARLY_BIRD', 'LAST_MINUTE', 'OCCUPANCY', 'DAY_OF_WEEK');
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "pricingRuleId" TEXT;
+
+-- AlterTable
+ALTER TABLE "booking_seats" ADD COLUMN     "price" DOUBLE PRECISION,
+ADD COLUMN     "pricingRuleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "pricing_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "PricingRuleType" NOT NULL,
+    "adjustmentPercent" DOUBLE PRECISION NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "hoursBeforeStart" INTEGER,
+    "occupancyThreshold" DOUBLE PRECISION,
+    "daysOfWeek" INTEGER[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "locationZoneId" TEXT,
+
+    CONSTRAINT "pricing_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_eventId_active_idx" ON "pricing_rules"("eventId", "active");
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_locationZoneId_idx" ON "pricing_rules"("locationZoneId");
+
+-- CreateIndex
+CREATE INDEX "bookings_pricingRuleId_idx" ON "bookings"("pricingRuleId");
+
+-- AddForeignKey
+ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_locationZoneId_fkey" FOREIGN KEY ("locationZoneId") REFERENCES "location_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_pricingRuleId_fkey" FOREIGN KEY ("pricingRuleId") REFERENCES "pricing_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_seats" ADD CONSTRAINT "booking_seats_pricingRuleId_fkey" FOREIGN KEY ("pricingRuleId") REFERENCES "pricing_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "schedules" ADD COLUMN     "capacity" INTEGER,
+ADD COLUMN     "soldQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: general-admission schedules start with their location capacity
+UPDATE "schedules" s
+SET "capacity" = l."capacity"
+FROM "events" e
+JOIN "locations" l ON l."id" = e."locationId"
+WHERE s."eventId" = e."id" AND e."haveSeats" = false;
+
+-- Backfill: count tickets already sold per general-admission schedule
+UPDATE "schedules" s
+SET "soldQuantity" = sold."quantity"
+FROM (
+    SELECT b."scheduleId", SUM(b."quantity") AS "quantity"
+    FROM "bookings" b
+    WHERE b."scheduleId" IS NOT NULL
+      AND b."status" IN ('PENDING', 'CONFIRMED', 'COMPLETED')
+      AND NOT EXISTS (SELECT 1 FROM "booking_seats" bs WHERE bs."bookingId" = b."id")
+    GROUP BY b."scheduleId"
+) sold
+WHERE s."id" = sold."scheduleId";
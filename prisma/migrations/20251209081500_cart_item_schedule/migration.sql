@@ -0,0 +1,14 @@
+-- DropIndex
+DROP INDEX "cart_items_cartId_eventId_key";
+
+-- AlterTable
+ALTER TABLE "cart_items" ADD COLUMN     "scheduleId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "cart_items_scheduleId_idx" ON "cart_items"("scheduleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_items_cartId_eventId_scheduleId_key" ON "cart_items"("cartId", "eventId", "scheduleId");
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
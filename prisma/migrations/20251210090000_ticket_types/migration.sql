@@ -0,0 +1,96 @@
+-- AlterTable
+ALTER TABLE "booking_seats" ADD COLUMN     "ticketTypeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ticket_types" (
+    "id" TEXT NOT NULL,
+    "name" JSONB NOT NULL,
+    "description" JSONB,
+    "originalPrice" DOUBLE PRECISION NOT NULL,
+    "discountedPrice" DOUBLE PRECISION,
+    "admitCount" INTEGER NOT NULL DEFAULT 1,
+    "minQuantity" INTEGER NOT NULL DEFAULT 1,
+    "maxQuantity" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "locationZoneId" TEXT,
+    "requiresTicketTypeId" TEXT,
+
+    CONSTRAINT "ticket_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cart_item_tickets" (
+    "id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "cartItemId" TEXT NOT NULL,
+    "ticketTypeId" TEXT NOT NULL,
+
+    CONSTRAINT "cart_item_tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "booking_items" (
+    "id" TEXT NOT NULL,
+    "name" JSONB NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "admitCount" INTEGER NOT NULL DEFAULT 1,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "totalPrice" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bookingId" TEXT NOT NULL,
+    "ticketTypeId" TEXT,
+    "pricingRuleId" TEXT,
+
+    CONSTRAINT "booking_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ticket_types_eventId_active_idx" ON "ticket_types"("eventId", "active");
+
+-- CreateIndex
+CREATE INDEX "ticket_types_locationZoneId_idx" ON "ticket_types"("locationZoneId");
+
+-- CreateIndex
+CREATE INDEX "cart_item_tickets_ticketTypeId_idx" ON "cart_item_tickets"("ticketTypeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_item_tickets_cartItemId_ticketTypeId_key" ON "cart_item_tickets"("cartItemId", "ticketTypeId");
+
+-- CreateIndex
+CREATE INDEX "booking_items_bookingId_idx" ON "booking_items"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "booking_items_ticketTypeId_idx" ON "booking_items"("ticketTypeId");
+
+-- AddForeignKey
+ALTER TABLE "ticket_types" ADD CONSTRAINT "ticket_types_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_types" ADD CONSTRAINT "ticket_types_locationZoneId_fkey" FOREIGN KEY ("locationZoneId") REFERENCES "location_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_types" ADD CONSTRAINT "ticket_types_requiresTicketTypeId_fkey" FOREIGN KEY ("requiresTicketTypeId") REFERENCES "ticket_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_item_tickets" ADD CONSTRAINT "cart_item_tickets_cartItemId_fkey" FOREIGN KEY ("cartItemId") REFERENCES "cart_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_item_tickets" ADD CONSTRAINT "cart_item_tickets_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "ticket_types"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_seats" ADD CONSTRAINT "booking_seats_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "ticket_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_items" ADD CONSTRAINT "booking_items_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_items" ADD CONSTRAINT "booking_items_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "ticket_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_items" ADD CONSTRAINT "booking_items_pricingRuleId_fkey" FOREIGN KEY ("pricingRuleId") REFERENCES "pricing_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
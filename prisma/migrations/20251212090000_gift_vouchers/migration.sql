@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "GiftVoucherStatus" AS ENUM ('ACTIVE', 'REDEEMED', 'VOIDED');
+
+-- CreateTable
+CREATE TABLE "gift_voucher_batches" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "clientName" TEXT,
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "gift_voucher_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "gift_vouchers" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "GiftVoucherStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3),
+    "issuedBy" TEXT,
+    "redeemedAt" TIMESTAMP(3),
+    "voidedAt" TIMESTAMP(3),
+    "voidedBy" TEXT,
+    "voidReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "batchId" TEXT,
+    "redeemedById" TEXT,
+    "transactionId" TEXT,
+
+    CONSTRAINT "gift_vouchers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gift_vouchers_code_key" ON "gift_vouchers"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gift_vouchers_transactionId_key" ON "gift_vouchers"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "gift_vouchers_status_idx" ON "gift_vouchers"("status");
+
+-- CreateIndex
+CREATE INDEX "gift_vouchers_batchId_idx" ON "gift_vouchers"("batchId");
+
+-- CreateIndex
+CREATE INDEX "gift_vouchers_redeemedById_idx" ON "gift_vouchers"("redeemedById");
+
+-- AddForeignKey
+ALTER TABLE "gift_vouchers" ADD CONSTRAINT "gift_vouchers_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "gift_voucher_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gift_vouchers" ADD CONSTRAINT "gift_vouchers_redeemedById_fkey" FOREIGN KEY ("redeemedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gift_vouchers" ADD CONSTRAINT "gift_vouchers_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "BookingTransferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "booking_transfers" (
+    "id" TEXT NOT NULL,
+    "status" "BookingTransferStatus" NOT NULL DEFAULT 'PENDING',
+    "recipientEmail" TEXT,
+    "recipientPhoneNumber" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT,
+
+    CONSTRAINT "booking_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_transfers_bookingId_status_idx" ON "booking_transfers"("bookingId", "status");
+
+-- CreateIndex
+CREATE INDEX "booking_transfers_fromUserId_idx" ON "booking_transfers"("fromUserId");
+
+-- CreateIndex
+CREATE INDEX "booking_transfers_toUserId_idx" ON "booking_transfers"("toUserId");
+
+-- CreateIndex
+CREATE INDEX "booking_transfers_recipientEmail_idx" ON "booking_transfers"("recipientEmail");
+
+-- CreateIndex
+CREATE INDEX "booking_transfers_recipientPhoneNumber_idx" ON "booking_transfers"("recipientPhoneNumber");
+
+-- AddForeignKey
+ALTER TABLE "booking_transfers" ADD CONSTRAINT "booking_transfers_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_transfers" ADD CONSTRAINT "booking_transfers_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_transfers" ADD CONSTRAINT "booking_transfers_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
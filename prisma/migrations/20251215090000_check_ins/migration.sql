@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "CheckInMethod" AS ENUM ('QR_SCAN', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "check_ins" (
+    "id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "method" "CheckInMethod" NOT NULL,
+    "deviceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bookingId" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "workerId" TEXT,
+
+    CONSTRAINT "check_ins_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "check_ins_bookingId_idx" ON "check_ins"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "check_ins_scheduleId_createdAt_idx" ON "check_ins"("scheduleId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "check_ins_workerId_idx" ON "check_ins"("workerId");
+
+-- AddForeignKey
+ALTER TABLE "check_ins" ADD CONSTRAINT "check_ins_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "check_ins" ADD CONSTRAINT "check_ins_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "check_ins" ADD CONSTRAINT "check_ins_workerId_fkey" FOREIGN KEY ("workerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "CheckInMethod" ADD VALUE 'OFFLINE_SYNC';
+
+-- AlterTable
+ALTER TABLE "check_ins" ADD COLUMN     "clientScanId" TEXT,
+ADD COLUMN     "scannedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill
+UPDATE "check_ins" SET "scannedAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "check_ins_scheduleId_scannedAt_idx" ON "check_ins"("scheduleId", "scannedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "check_ins_deviceId_clientScanId_key" ON "check_ins"("deviceId", "clientScanId");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "booking_seats" ADD COLUMN     "admittedAt" TIMESTAMP(3),
+ADD COLUMN     "checkInId" TEXT,
+ADD COLUMN     "qrCode" TEXT;
+
+-- Backfill: seats of bookings already checked in are admitted in seat order up to usedQuantity
+UPDATE "booking_seats" bs
+SET "admittedAt" = b."checkedInAt"
+FROM (
+    SELECT
+        id,
+        ROW_NUMBER() OVER (
+            PARTITION BY "bookingId"
+            ORDER BY "zoneCode", "sectionCode", "rowNumberSnapshot", "seatNumberSnapshot"
+        ) AS position
+    FROM "booking_seats"
+    WHERE "bookingId" IS NOT NULL
+) ranked, "bookings" b
+WHERE ranked.id = bs.id
+  AND b.id = bs."bookingId"
+  AND b."checkedInAt" IS NOT NULL
+  AND ranked.position <= b."usedQuantity";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_seats_qrCode_key" ON "booking_seats"("qrCode");
+
+-- CreateIndex
+CREATE INDEX "booking_seats_checkInId_idx" ON "booking_seats"("checkInId");
+
+-- AddForeignKey
+ALTER TABLE "booking_seats" ADD CONSTRAINT "booking_seats_checkInId_fkey" FOREIGN KEY ("checkInId") REFERENCES "check_ins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
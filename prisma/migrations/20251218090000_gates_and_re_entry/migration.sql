@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "CheckInDirection" AS ENUM ('IN', 'OUT');
+
+-- CreateEnum
+CREATE TYPE "ReEntryPolicy" AS ENUM ('NONE', 'UNLIMITED', 'LIMITED');
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "maxReEntries" INTEGER,
+ADD COLUMN     "reEntryPolicy" "ReEntryPolicy" NOT NULL DEFAULT 'NONE';
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "insideQuantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "reEntryCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "booking_seats" ADD COLUMN     "isInside" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "check_ins" ADD COLUMN     "direction" "CheckInDirection" NOT NULL DEFAULT 'IN',
+ADD COLUMN     "isReEntry" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "locationGateId" TEXT;
+
+-- Backfill: everyone admitted so far is inside
+UPDATE "bookings" SET "insideQuantity" = "usedQuantity" WHERE "usedQuantity" > 0;
+UPDATE "booking_seats" SET "isInside" = true WHERE "admittedAt" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "location_gates" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" JSONB NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "allowsGeneralAdmission" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "locationId" TEXT NOT NULL,
+
+    CONSTRAINT "location_gates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "location_gate_zones" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locationGateId" TEXT NOT NULL,
+    "locationZoneId" TEXT NOT NULL,
+
+    CONSTRAINT "location_gate_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "location_gates_locationId_code_key" ON "location_gates"("locationId", "code");
+
+-- CreateIndex
+CREATE INDEX "location_gate_zones_locationZoneId_idx" ON "location_gate_zones"("locationZoneId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "location_gate_zones_locationGateId_locationZoneId_key" ON "location_gate_zones"("locationGateId", "locationZoneId");
+
+-- CreateIndex
+CREATE INDEX "check_ins_locationGateId_idx" ON "check_ins"("locationGateId");
+
+-- AddForeignKey
+ALTER TABLE "location_gates" ADD CONSTRAINT "location_gates_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "location_gate_zones" ADD CONSTRAINT "location_gate_zones_locationGateId_fkey" FOREIGN KEY ("locationGateId") REFERENCES "location_gates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "location_gate_zones" ADD CONSTRAINT "location_gate_zones_locationZoneId_fkey" FOREIGN KEY ("locationZoneId") REFERENCES "location_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "check_ins" ADD CONSTRAINT "check_ins_locationGateId_fkey" FOREIGN KEY ("locationGateId") REFERENCES "location_gates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
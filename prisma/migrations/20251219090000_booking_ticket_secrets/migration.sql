@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "booking_ticket_secrets" (
+    "id" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bookingId" TEXT NOT NULL,
+
+    CONSTRAINT "booking_ticket_secrets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_ticket_secrets_bookingId_key" ON "booking_ticket_secrets"("bookingId");
+
+-- AddForeignKey
+ALTER TABLE "booking_ticket_secrets" ADD CONSTRAINT "booking_ticket_secrets_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
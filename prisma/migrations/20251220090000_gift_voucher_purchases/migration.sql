@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "gift_vouchers" ADD COLUMN     "purchaseTransactionId" TEXT,
+ADD COLUMN     "purchasedById" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gift_vouchers_purchaseTransactionId_key" ON "gift_vouchers"("purchaseTransactionId");
+
+-- CreateIndex
+CREATE INDEX "gift_vouchers_purchasedById_idx" ON "gift_vouchers"("purchasedById");
+
+-- AddForeignKey
+ALTER TABLE "gift_vouchers" ADD CONSTRAINT "gift_vouchers_purchasedById_fkey" FOREIGN KEY ("purchasedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gift_vouchers" ADD CONSTRAINT "gift_vouchers_purchaseTransactionId_fkey" FOREIGN KEY ("purchaseTransactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
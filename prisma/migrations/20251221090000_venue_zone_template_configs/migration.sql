@@ -0,0 +1,67 @@
+-- Layout template configs saved before venue-specific zones still use the old shape
+--   { "Center": { "zones": [{ "zone": "VIP", "rows": [...] }] }, "Left": {...}, "Right": {...} }
+-- and are converted to
+--   { "zones": [{ "code": "VIP", "name": {...}, "priority": 2, ... }], "sections": [{ "code": "C", ..., "zones": [...] }] }
+-- Zone details come from the location's zones (migrated from the global zones table) when they exist.
+-- Section keys map to the codes the zone migration gave existing sections (C, L and R).
+
+CREATE FUNCTION "venue_zone_template_config"(location_id TEXT, config JSONB) RETURNS JSONB AS $$
+    WITH "sections" AS (
+        SELECT upper(s.key) AS "position", s.value -> 'zones' AS "zones"
+        FROM jsonb_each(config) AS s
+    ),
+    "zoneCodes" AS (
+        SELECT DISTINCT zb ->> 'zone' AS "code"
+        FROM "sections", jsonb_array_elements("sections"."zones") AS zb
+    ),
+    "zones" AS (
+        SELECT zc."code",
+            lz."name",
+            lz."color",
+            lz."displayOrder",
+            COALESCE(
+                lz."priority",
+                CASE zc."code" WHEN 'VVIP' THEN 1 WHEN 'VIP' THEN 2 WHEN 'REGULAR' THEN 3 ELSE 4 END
+            ) AS "priority"
+        FROM "zoneCodes" AS zc
+        LEFT JOIN "location_zones" AS lz ON lz."locationId" = location_id AND lz."code" = zc."code"
+    )
+    SELECT jsonb_build_object(
+        'zones', (
+            SELECT jsonb_agg(
+                jsonb_strip_nulls(jsonb_build_object(
+                    'code', z."code",
+                    'name', COALESCE(z."name", jsonb_build_object('en', z."code")),
+                    'color', z."color",
+                    'displayOrder', COALESCE(z."displayOrder", z."priority"),
+                    'priority', z."priority"
+                ))
+                ORDER BY z."priority", z."code"
+            )
+            FROM "zones" AS z
+        ),
+        'sections', (
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'code', CASE s."position" WHEN 'CENTER' THEN 'C' WHEN 'LEFT' THEN 'L' ELSE 'R' END,
+                    'name', jsonb_build_object('en', CASE s."position" WHEN 'CENTER' THEN 'Center' WHEN 'LEFT' THEN 'Left' ELSE 'Right' END),
+                    'displayOrder', CASE s."position" WHEN 'CENTER' THEN 1 WHEN 'LEFT' THEN 2 ELSE 3 END,
+                    'zones', s."zones"
+                )
+                ORDER BY CASE s."position" WHEN 'CENTER' THEN 1 WHEN 'LEFT' THEN 2 ELSE 3 END
+            )
+            FROM "sections" AS s
+        )
+    );
+$$ LANGUAGE SQL STABLE;
+
+-- Old-shape configs are the ones without a "sections" array
+UPDATE "location_templates"
+SET "config" = "venue_zone_template_config"("locationId", "config")
+WHERE jsonb_typeof("config") = 'object' AND NOT ("config" ? 'sections');
+
+UPDATE "location_layout_revisions"
+SET "config" = "venue_zone_template_config"("locationId", "config")
+WHERE jsonb_typeof("config") = 'object' AND NOT ("config" ? 'sections');
+
+DROP FUNCTION "venue_zone_template_config"(TEXT, JSONB);
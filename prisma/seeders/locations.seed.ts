@@ -1,4 +1,3 @@
-import { ZoneType, SectionPosition } from "@prisma/client";
 import { prisma } from "../../src/utils/prisma.client";
 
 // ============================================
@@ -6,26 +5,30 @@ import { prisma } from "../../src/utils/prisma.client";
 // ============================================
 
 // Zone configuration with priorities (lower = higher priority)
-const ZONE_CONFIG: { type: ZoneType; priority: number; rowRange: [number, number] }[] = [
-    { type: "VVIP", priority: 1, rowRange: [1, 2] },      // Rows 1-2
-    { type: "VIP", priority: 2, rowRange: [3, 5] },       // Rows 3-5
-    { type: "REGULAR", priority: 3, rowRange: [6, 8] },   // Rows 6-8
-    { type: "ECONOMY", priority: 4, rowRange: [9, 14] },  // Rows 9-14
+const ZONE_CONFIG: {
+    code: string;
+    name: { en: string; ar: string };
+    color: string;
+    priority: number;
+    rowRange: [number, number];
+}[] = [
+    { code: "VVIP", name: { en: "VVIP", ar: "كبار الشخصيات المميزين" }, color: "#8E44AD", priority: 1, rowRange: [1, 2] },   // Rows 1-2
+    { code: "VIP", name: { en: "VIP", ar: "كبار الشخصيات" }, color: "#D4AF37", priority: 2, rowRange: [3, 5] },              // Rows 3-5
+    { code: "REGULAR", name: { en: "Regular", ar: "عادي" }, color: "#2E86C1", priority: 3, rowRange: [6, 8] },               // Rows 6-8
+    { code: "ECONOMY", name: { en: "Economy", ar: "اقتصادي" }, color: "#7F8C8D", priority: 4, rowRange: [9, 14] },           // Rows 9-14
 ];
 
-// Section position mapping for seat labels
-const SECTION_LABEL_MAP: Record<SectionPosition, string> = {
-    CENTER: "C",
-    LEFT: "L",
-    RIGHT: "R",
-};
-
-// Seat counts per row for each section (14 rows each)
-const SEAT_COUNTS: Record<SectionPosition, number[]> = {
-    CENTER: [60, 62, 64, 66, 68, 70, 72, 74, 74, 76, 76, 76, 76, 76],
-    LEFT: [8, 12, 11, 14, 15, 17, 18, 15, 8, 8, 12, 16, 17, 18],
-    RIGHT: [8, 12, 11, 14, 15, 17, 18, 15, 8, 8, 12, 16, 17, 18],
-};
+// Sections with seat counts per row (14 rows each)
+const SECTION_CONFIG: {
+    code: string;
+    name: { en: string; ar: string };
+    displayOrder: number;
+    seats: number[];
+}[] = [
+    { code: "C", name: { en: "Center", ar: "الوسط" }, displayOrder: 1, seats: [60, 62, 64, 66, 68, 70, 72, 74, 74, 76, 76, 76, 76, 76] },
+    { code: "L", name: { en: "Left", ar: "اليسار" }, displayOrder: 2, seats: [8, 12, 11, 14, 15, 17, 18, 15, 8, 8, 12, 16, 17, 18] },
+    { code: "R", name: { en: "Right", ar: "اليمين" }, displayOrder: 3, seats: [8, 12, 11, 14, 15, 17, 18, 15, 8, 8, 12, 16, 17, 18] },
+];
 
 const TOTAL_ROWS = 14;
 
@@ -34,44 +37,46 @@ const TOTAL_ROWS = 14;
 // ============================================
 
 /**
- * Generate seat label in format: ZONE-SECTION-ROW-SEAT
+ * Generate seat label in format: ZONE_CODE-SECTION_CODE-ROW-SEAT
  * Example: VVIP-C-1-1, VIP-L-3-5, ECONOMY-R-14-18
  */
 function generateSeatLabel(
-    zoneType: ZoneType,
-    sectionPosition: SectionPosition,
+    zoneCode: string,
+    sectionCode: string,
     rowNumber: number,
     seatNumber: number
 ): string {
-    const sectionLabel = SECTION_LABEL_MAP[sectionPosition];
-    return `${zoneType}-${sectionLabel}-${rowNumber}-${seatNumber}`;
+    return `${zoneCode}-${sectionCode}-${rowNumber}-${seatNumber}`;
 }
 
 /**
  * Build the template config JSON for LocationTemplate
  */
 function buildTemplateConfig() {
-    const config: Record<string, { zones: { zone: string; rows: { rowNumber: number; seats: number }[] }[] }> = {};
-
-    for (const section of Object.keys(SEAT_COUNTS) as SectionPosition[]) {
-        const sectionKey = section.charAt(0) + section.slice(1).toLowerCase(); // CENTER -> Center
-        const zones: { zone: string; rows: { rowNumber: number; seats: number }[] }[] = [];
-
-        for (const zoneConfig of ZONE_CONFIG) {
-            const rows: { rowNumber: number; seats: number }[] = [];
-            for (let row = zoneConfig.rowRange[0]; row <= zoneConfig.rowRange[1]; row++) {
-                rows.push({
-                    rowNumber: row,
-                    seats: SEAT_COUNTS[section][row - 1], // 0-indexed array
-                });
-            }
-            zones.push({ zone: zoneConfig.type, rows });
-        }
-
-        config[sectionKey] = { zones };
-    }
-
-    return config;
+    return {
+        zones: ZONE_CONFIG.map((zoneConfig, index) => ({
+            code: zoneConfig.code,
+            name: zoneConfig.name,
+            color: zoneConfig.color,
+            displayOrder: index + 1,
+            priority: zoneConfig.priority,
+        })),
+        sections: SECTION_CONFIG.map((sectionConfig) => ({
+            code: sectionConfig.code,
+            name: sectionConfig.name,
+            displayOrder: sectionConfig.displayOrder,
+            zones: ZONE_CONFIG.map((zoneConfig) => {
+                const rows: { rowNumber: number; seats: number }[] = [];
+                for (let row = zoneConfig.rowRange[0]; row <= zoneConfig.rowRange[1]; row++) {
+                    rows.push({
+                        rowNumber: row,
+                        seats: sectionConfig.seats[row - 1], // 0-indexed array
+                    });
+                }
+                return { zone: zoneConfig.code, rows };
+            }),
+        })),
+    };
 }
 
 // ============================================
@@ -101,90 +106,79 @@ export async function seedLocations() {
     console.log(`Location created: ${location.id}\n`);
 
     // ========================================
-    // 2. CREATE ZONES (global, not location-specific)
-    // ========================================
-    console.log("Creating Zones...");
-    const zones: Record<ZoneType, string> = {} as Record<ZoneType, string>;
-
-    for (const zoneConfig of ZONE_CONFIG) {
-        const zone = await prisma.zone.upsert({
-            where: { type: zoneConfig.type },
-            update: { priority: zoneConfig.priority },
-            create: {
-                type: zoneConfig.type,
-                priority: zoneConfig.priority,
-            },
-        });
-        zones[zoneConfig.type] = zone.id;
-        console.log(`"Zone ${zoneConfig.type} (priority: ${zoneConfig.priority}) - ${zone.id}`);
-    }
-    console.log("");
-
-    // ========================================
-    // 3. CREATE LOCATION ZONES (pivot table)
+    // 2. CREATE LOCATION ZONES (venue-specific)
     // ========================================
-    console.log("🔗 Creating Location-Zone relationships...");
-    const locationZones: Record<ZoneType, string> = {} as Record<ZoneType, string>;
-
-    for (const zoneType of Object.keys(zones) as ZoneType[]) {
+    console.log("Creating Location Zones...");
+    const locationZones: Record<string, string> = {};
+
+    for (const [index, zoneConfig] of ZONE_CONFIG.entries()) {
+        const zoneData = {
+            name: zoneConfig.name,
+            color: zoneConfig.color,
+            displayOrder: index + 1,
+            priority: zoneConfig.priority,
+        };
         const locationZone = await prisma.locationZone.upsert({
             where: {
-                locationId_zoneId: {
+                locationId_code: {
                     locationId: location.id,
-                    zoneId: zones[zoneType],
+                    code: zoneConfig.code,
                 },
             },
-            update: {},
+            update: zoneData,
             create: {
                 locationId: location.id,
-                zoneId: zones[zoneType],
+                code: zoneConfig.code,
+                ...zoneData,
             },
         });
-        locationZones[zoneType] = locationZone.id;
-        console.log(`"LocationZone for ${zoneType} - ${locationZone.id}`);
+        locationZones[zoneConfig.code] = locationZone.id;
+        console.log(`LocationZone ${zoneConfig.code} (priority: ${zoneConfig.priority}) - ${locationZone.id}`);
     }
     console.log("");
 
     // ========================================
-    // 4. CREATE SECTIONS, ROWS, AND SEATS
+    // 3. CREATE SECTIONS, ROWS, AND SEATS
     // ========================================
     console.log("Creating Sections, Rows, and Seats...\n");
 
     let totalSeatsCreated = 0;
     let globalRowOrder = 1; // Global row order counter across all sections/zones
 
-    for (const sectionPosition of Object.keys(SEAT_COUNTS) as SectionPosition[]) {
-        console.log(`Section: ${sectionPosition}`);
+    for (const sectionConfig of SECTION_CONFIG) {
+        console.log(`Section: ${sectionConfig.code}`);
 
         // Group rows by zone for this section
         for (const zoneConfig of ZONE_CONFIG) {
-            const zoneType = zoneConfig.type;
-            const locationZoneId = locationZones[zoneType];
+            const zoneCode = zoneConfig.code;
+            const locationZoneId = locationZones[zoneCode];
             const rowsInZone = zoneConfig.rowRange[1] - zoneConfig.rowRange[0] + 1;
 
             // Check if section already exists
             let section = await prisma.locationSection.findFirst({
                 where: {
                     locationZoneId,
-                    position: sectionPosition,
+                    code: sectionConfig.code,
                 },
             });
 
             if (!section) {
                 section = await prisma.locationSection.create({
                     data: {
-                        position: sectionPosition,
+                        code: sectionConfig.code,
+                        name: sectionConfig.name,
+                        displayOrder: sectionConfig.displayOrder,
                         numberOfRows: rowsInZone,
                         locationZoneId,
                     },
                 });
             }
 
-            console.log(`Zone ${zoneType} (${rowsInZone} rows) - Section ID: ${section.id}`);
+            console.log(`Zone ${zoneCode} (${rowsInZone} rows) - Section ID: ${section.id}`);
 
             // Create rows for this zone-section combination
             for (let rowNumber = zoneConfig.rowRange[0]; rowNumber <= zoneConfig.rowRange[1]; rowNumber++) {
-                const seatCount = SEAT_COUNTS[sectionPosition][rowNumber - 1]; // 0-indexed array
+                const seatCount = sectionConfig.seats[rowNumber - 1]; // 0-indexed array
 
                 // Upsert row
                 let row = await prisma.locationRow.findUnique({
@@ -209,7 +203,7 @@ export async function seedLocations() {
                 // Create seats for this row
                 const seatsToCreate = [];
                 for (let seatNumber = 1; seatNumber <= seatCount; seatNumber++) {
-                    const seatLabel = generateSeatLabel(zoneType, sectionPosition, rowNumber, seatNumber);
+                    const seatLabel = generateSeatLabel(zoneCode, sectionConfig.code, rowNumber, seatNumber);
                     seatsToCreate.push({
                         seatNumber,
                         seatLabel,
@@ -233,7 +227,7 @@ export async function seedLocations() {
     }
 
     // ========================================
-    // 5. CREATE LOCATION TEMPLATE
+    // 4. CREATE LOCATION TEMPLATE
     // ========================================
     console.log("Creating Location Template...");
     const templateConfig = buildTemplateConfig();
@@ -251,9 +245,9 @@ export async function seedLocations() {
     console.log("Location Template created\n");
 
     // ========================================
-    // 6. UPDATE LOCATION CAPACITY
+    // 5. UPDATE LOCATION CAPACITY
     // ========================================
-    const totalCapacity = Object.values(SEAT_COUNTS).flat().reduce((sum, count) => sum + count, 0);
+    const totalCapacity = SECTION_CONFIG.flatMap((section) => section.seats).reduce((sum, count) => sum + count, 0);
     await prisma.location.update({
         where: { id: location.id },
         data: { capacity: totalCapacity },
@@ -267,7 +261,7 @@ export async function seedLocations() {
     console.log("═".repeat(50));
     console.log(`   Location: ${location.locationSlug}`);
     console.log(`   Zones: ${ZONE_CONFIG.length}`);
-    console.log(`   Sections: ${Object.keys(SEAT_COUNTS).length} (Center, Left, Right)`);
+    console.log(`   Sections: ${SECTION_CONFIG.length} (${SECTION_CONFIG.map((section) => section.name.en).join(", ")})`);
     console.log(`   Rows per section: ${TOTAL_ROWS}`);
     console.log(`   Total capacity: ${totalCapacity} seats`);
     console.log(`   Seats created in this run: ${totalSeatsCreated}`);
@@ -275,20 +269,20 @@ export async function seedLocations() {
 
     // Detailed breakdown
     console.log("\nSEAT BREAKDOWN BY SECTION:");
-    for (const section of Object.keys(SEAT_COUNTS) as SectionPosition[]) {
-        const sectionTotal = SEAT_COUNTS[section].reduce((sum, count) => sum + count, 0);
-        console.log(`   ${section}: ${sectionTotal} seats`);
+    for (const section of SECTION_CONFIG) {
+        const sectionTotal = section.seats.reduce((sum, count) => sum + count, 0);
+        console.log(`   ${section.code}: ${sectionTotal} seats`);
     }
 
     console.log("\nSEAT BREAKDOWN BY ZONE:");
     for (const zoneConfig of ZONE_CONFIG) {
         let zoneTotal = 0;
-        for (const section of Object.keys(SEAT_COUNTS) as SectionPosition[]) {
+        for (const section of SECTION_CONFIG) {
             for (let row = zoneConfig.rowRange[0]; row <= zoneConfig.rowRange[1]; row++) {
-                zoneTotal += SEAT_COUNTS[section][row - 1];
+                zoneTotal += section.seats[row - 1];
             }
         }
-        console.log(`   ${zoneConfig.type}: ${zoneTotal} seats (rows ${zoneConfig.rowRange[0]}-${zoneConfig.rowRange[1]})`);
+        console.log(`   ${zoneConfig.code}: ${zoneTotal} seats (rows ${zoneConfig.rowRange[0]}-${zoneConfig.rowRange[1]})`);
     }
 
     console.log("Stage Location seeding completed successfully!");
@@ -57,6 +57,7 @@ export const permissionsData: PermissionData[] = [
     { name: 'locations:delete', resource: 'locations', action: 'delete' },
     { name: 'locations:toggle-active', resource: 'locations', action: 'toggle-active' },
     { name: 'locations:set-zone-pricing', resource: 'locations', action: 'set-zone-pricing' },
+    { name: 'locations:manage-layout', resource: 'locations', action: 'manage-layout' },
 
     // Events
     { name: 'events:create', resource: 'events', action: 'create' },
@@ -71,6 +72,35 @@ export const permissionsData: PermissionData[] = [
     { name: 'schedules:update', resource: 'schedules', action: 'update' },
     { name: 'schedules:delete', resource: 'schedules', action: 'delete' },
 
+    // Admissions
+    { name: 'admissions:read', resource: 'admissions', action: 'read' },
+
+    // Pricing Rules
+    { name: 'pricing-rules:create', resource: 'pricing-rules', action: 'create' },
+    { name: 'pricing-rules:read', resource: 'pricing-rules', action: 'read' },
+    { name: 'pricing-rules:update', resource: 'pricing-rules', action: 'update' },
+    { name: 'pricing-rules:delete', resource: 'pricing-rules', action: 'delete' },
+
+    // Ticket Types
+    { name: 'ticket-types:create', resource: 'ticket-types', action: 'create' },
+    { name: 'ticket-types:read', resource: 'ticket-types', action: 'read' },
+    { name: 'ticket-types:update', resource: 'ticket-types', action: 'update' },
+    { name: 'ticket-types:delete', resource: 'ticket-types', action: 'delete' },
+
+    // Promo Codes
+    { name: 'promo-codes:create', resource: 'promo-codes', action: 'create' },
+    { name: 'promo-codes:read', resource: 'promo-codes', action: 'read' },
+    { name: 'promo-codes:update', resource: 'promo-codes', action: 'update' },
+    { name: 'promo-codes:delete', resource: 'promo-codes', action: 'delete' },
+
+    // Gift Vouchers
+    { name: 'gift-vouchers:create', resource: 'gift-vouchers', action: 'create' },
+    { name: 'gift-vouchers:read', resource: 'gift-vouchers', action: 'read' },
+    { name: 'gift-vouchers:update', resource: 'gift-vouchers', action: 'update' },
+
+    // Waitlist
+    { name: 'waitlist:read', resource: 'waitlist', action: 'read' },
+
     // Schedule Workers
     { name: 'schedule-workers:create', resource: 'schedule-workers', action: 'create' },
     { name: 'schedule-workers:read', resource: 'schedule-workers', action: 'read' },
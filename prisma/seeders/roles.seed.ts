@@ -51,6 +51,7 @@ export const rolesData: RoleData[] = [
             'locations:update',
             'locations:delete',
             'locations:toggle-active',
+            'locations:manage-layout',
             'events:create',
             'events:read',
             'events:update',
@@ -77,6 +78,23 @@ export const rolesData: RoleData[] = [
             'bookings:delete',
             'bookings:assign',
             'bookings:pre-reserve',
+            'pricing-rules:create',
+            'pricing-rules:read',
+            'pricing-rules:update',
+            'pricing-rules:delete',
+            'ticket-types:create',
+            'ticket-types:read',
+            'ticket-types:update',
+            'ticket-types:delete',
+            'promo-codes:create',
+            'promo-codes:read',
+            'promo-codes:update',
+            'promo-codes:delete',
+            'waitlist:read',
+            'admissions:read',
+            'gift-vouchers:create',
+            'gift-vouchers:read',
+            'gift-vouchers:update',
         ],
     },
     {
@@ -105,6 +123,29 @@ export const rolesData: RoleData[] = [
             'application-features:delete',
             // Activity Logs: read only
             'activity_logs:read',
+            // Pricing Rules: full access
+            'pricing-rules:create',
+            'pricing-rules:read',
+            'pricing-rules:update',
+            'pricing-rules:delete',
+            // Ticket Types: full access
+            'ticket-types:create',
+            'ticket-types:read',
+            'ticket-types:update',
+            'ticket-types:delete',
+            // Promo Codes: full access
+            'promo-codes:create',
+            'promo-codes:read',
+            'promo-codes:update',
+            'promo-codes:delete',
+            // Waitlist: read only
+            'waitlist:read',
+            // Admissions: read only
+            'admissions:read',
+            // Gift Vouchers: create, read and update
+            'gift-vouchers:create',
+            'gift-vouchers:read',
+            'gift-vouchers:update',
         ],
     },
     {
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 import path from 'path';
 
@@ -15,6 +16,10 @@ interface Config {
   JWT_ACCESS_EXPIRATION: number;
   JWT_REFRESH_EXPIRATION: number;
 
+  // Tickets
+  TICKET_SIGNING_SECRET: string;
+  TICKET_MANIFEST_PRIVATE_KEY: string;
+
   // Database
   DATABASE_URL: string;
 
@@ -32,6 +37,28 @@ interface Config {
   // Client URLs
   CLIENT_SESSION_URL: string;
 
+  // Seat Sessions
+  SESSION_HOLD_DURATION: number;
+  SESSION_MAX_HOLD_DURATION: number;
+  SESSION_SWEEP_INTERVAL: number;
+
+  // Waitlist
+  WAITLIST_OFFER_DURATION: number;
+  WAITLIST_SWEEP_INTERVAL: number;
+
+  // Booking Transfers
+  BOOKING_TRANSFER_DURATION: number;
+
+  // Check-in
+  CHECK_IN_OPENS_BEFORE_START: number;
+  CHECK_IN_CLOSES_AFTER_END: number;
+  ROTATING_TICKET_CODE_PERIOD: number;
+  ROTATING_TICKET_CODE_DRIFT: number;
+  ROTATING_TICKET_CODE_MAX_SYNC_AGE: number;
+
+  // Pricing
+  PRICING_UTC_OFFSET_MINUTES: number;
+
   // Email Service
   RESEND_API_KEY: string;
 }
@@ -41,6 +68,8 @@ const requiredEnvVars = [
   'PORT',
   'JWT_ACCESS_SECRET',
   'JWT_REFRESH_SECRET',
+  'TICKET_SIGNING_SECRET',
+  'TICKET_MANIFEST_PRIVATE_KEY',
   'DATABASE_URL'
 ];
 
@@ -51,6 +80,22 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
+// Ticket codes are signed with their own key, so leaking it cannot forge tokens (and vice versa)
+if ([process.env.JWT_ACCESS_SECRET, process.env.JWT_REFRESH_SECRET].includes(process.env.TICKET_SIGNING_SECRET)) {
+  throw new Error('TICKET_SIGNING_SECRET must differ from the JWT secrets');
+}
+
+// Offline manifests are signed with an Ed25519 key; gate devices only get its public key
+// (PEM, with newlines written as \n when the value is kept on one line)
+const ticketManifestPrivateKey = process.env.TICKET_MANIFEST_PRIVATE_KEY!.replace(/\\n/g, '\n');
+try {
+  if (crypto.createPrivateKey(ticketManifestPrivateKey).asymmetricKeyType !== 'ed25519') {
+    throw new Error('not an Ed25519 key');
+  }
+} catch (error) {
+  throw new Error(`TICKET_MANIFEST_PRIVATE_KEY must be an Ed25519 private key in PEM format (${(error as Error).message})`);
+}
+
 const config: Config = {
   NODE_ENV: process.env.NODE_ENV || 'development',
   PORT: parseInt(process.env.PORT || '8000', 10),
@@ -62,6 +107,10 @@ const config: Config = {
   JWT_ACCESS_EXPIRATION: parseInt(process.env.JWT_ACCESS_EXPIRATION || '3600', 10),
   JWT_REFRESH_EXPIRATION: parseInt(process.env.JWT_REFRESH_EXPIRATION || '2592000', 10),
 
+  // Tickets (secret signing QR codes, kept apart from the token secrets; key signing offline manifests)
+  TICKET_SIGNING_SECRET: process.env.TICKET_SIGNING_SECRET!,
+  TICKET_MANIFEST_PRIVATE_KEY: ticketManifestPrivateKey,
+
   // Database
   DATABASE_URL: process.env.DATABASE_URL!,
 
@@ -79,6 +128,31 @@ const config: Config = {
   // Client URLs
   CLIENT_SESSION_URL: process.env.CLIENT_SESSION_URL || 'https://winterland.ae/seats',
 
+  // Seat Sessions (seconds)
+  SESSION_HOLD_DURATION: parseInt(process.env.SESSION_HOLD_DURATION || '600', 10),
+  SESSION_MAX_HOLD_DURATION: parseInt(process.env.SESSION_MAX_HOLD_DURATION || '1800', 10),
+  SESSION_SWEEP_INTERVAL: parseInt(process.env.SESSION_SWEEP_INTERVAL || '60', 10),
+
+  // Waitlist (seconds)
+  WAITLIST_OFFER_DURATION: parseInt(process.env.WAITLIST_OFFER_DURATION || '900', 10),
+  WAITLIST_SWEEP_INTERVAL: parseInt(process.env.WAITLIST_SWEEP_INTERVAL || '60', 10),
+
+  // Booking Transfers (seconds; transfers are blocked once check-in opens)
+  BOOKING_TRANSFER_DURATION: parseInt(process.env.BOOKING_TRANSFER_DURATION || '172800', 10),
+
+  // Check-in window around a schedule (seconds before startAt / after endAt)
+  CHECK_IN_OPENS_BEFORE_START: parseInt(process.env.CHECK_IN_OPENS_BEFORE_START || '7200', 10),
+  CHECK_IN_CLOSES_AFTER_END: parseInt(process.env.CHECK_IN_CLOSES_AFTER_END || '3600', 10),
+
+  // Rotating ticket codes (seconds each code is shown; steps of clock drift accepted either way;
+  // seconds back an offline scan's scannedAt is trusted on sync)
+  ROTATING_TICKET_CODE_PERIOD: parseInt(process.env.ROTATING_TICKET_CODE_PERIOD || '30', 10),
+  ROTATING_TICKET_CODE_DRIFT: parseInt(process.env.ROTATING_TICKET_CODE_DRIFT || '1', 10),
+  ROTATING_TICKET_CODE_MAX_SYNC_AGE: parseInt(process.env.ROTATING_TICKET_CODE_MAX_SYNC_AGE || '3600', 10),
+
+  // Pricing (venue UTC offset used for weekday rules, default UTC+4)
+  PRICING_UTC_OFFSET_MINUTES: parseInt(process.env.PRICING_UTC_OFFSET_MINUTES || '240', 10),
+
   // Email Service
   RESEND_API_KEY: process.env.RESEND_API_KEY || '',
 };
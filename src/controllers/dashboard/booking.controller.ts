@@ -9,6 +9,7 @@ import {
     PreReserveBookingInput,
     UpdateBookingStatusInput,
 } from '../../schemas/dashboard-booking.schema';
+import { bookingTransferService } from '../../services/booking-transfer.service';
 import dashboardBookingService from '../../services/dashboard-booking.service';
 
 /**
@@ -110,6 +111,26 @@ export class DashboardBookingController {
         }
     };
 
+    /**
+     * Get the transfer history of a booking
+     * GET /api/v1/dashboard/bookings/:id/transfers
+     */
+    getBookingTransfers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { id } = req.params;
+
+            const transfers = await bookingTransferService.getBookingTransfers(id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Booking transfers retrieved successfully',
+                data: transfers,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
     /**
      * Update booking status
      * PATCH /api/v1/dashboard/bookings/:id/status
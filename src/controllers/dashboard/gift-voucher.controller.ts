@@ -0,0 +1,153 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { GetGiftVoucherRedemptionsQuery, GetGiftVouchersQuery } from '../../schemas/gift-voucher.schema';
+import { giftVoucherService } from '../../services/gift-voucher.service';
+
+export class DashboardGiftVoucherController {
+    /**
+     * Issue a single gift voucher
+     */
+    async createVoucher(req: Request, res: Response, next: NextFunction) {
+        try {
+            const voucher = await giftVoucherService.createVoucher(req.body, req.user?.id ?? null);
+
+            res.status(201).json({
+                success: true,
+                message: 'Gift voucher created successfully',
+                data: voucher,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Generate a batch of gift vouchers
+     */
+    async createBatch(req: Request, res: Response, next: NextFunction) {
+        try {
+            const result = await giftVoucherService.createBatch(req.body, req.user?.id ?? null);
+
+            res.status(201).json({
+                success: true,
+                message: `${result.vouchers.length} gift voucher(s) generated successfully`,
+                data: result,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get all gift vouchers with filters and pagination
+     */
+    async getAllVouchers(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { page, limit } = (req as any).pagination;
+            const query = req.query as unknown as GetGiftVouchersQuery;
+
+            const result = await giftVoucherService.getAllVouchers(page, limit, {
+                status: query.status,
+                batchId: query.batchId,
+                expired: query.expired !== undefined ? query.expired === 'true' : undefined,
+                search: query.search,
+            });
+
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get the gift voucher redemption history
+     */
+    async getRedemptions(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { page, limit } = (req as any).pagination;
+            const query = req.query as unknown as GetGiftVoucherRedemptionsQuery;
+
+            const result = await giftVoucherService.getRedemptions(page, limit, {
+                batchId: query.batchId,
+                userId: query.userId,
+                from: query.from ? new Date(query.from) : undefined,
+                to: query.to ? new Date(query.to) : undefined,
+            });
+
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get gift voucher batches
+     */
+    async getBatches(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { page, limit } = (req as any).pagination;
+
+            const result = await giftVoucherService.getBatches(page, limit);
+
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Void the unused vouchers of a batch
+     */
+    async voidBatch(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const result = await giftVoucherService.voidBatch(id, req.user?.id ?? null, req.body.reason);
+
+            res.status(200).json({
+                success: true,
+                message: `${result.voidedCount} unused gift voucher(s) voided successfully`,
+                data: result,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get gift voucher by ID
+     */
+    async getVoucherById(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const voucher = await giftVoucherService.getVoucherById(id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Gift voucher retrieved successfully',
+                data: voucher,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Void an unused gift voucher
+     */
+    async voidVoucher(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const voucher = await giftVoucherService.voidVoucher(id, req.user?.id ?? null, req.body.reason);
+
+            res.status(200).json({
+                success: true,
+                message: 'Gift voucher voided successfully',
+                data: voucher,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export const dashboardGiftVoucherController = new DashboardGiftVoucherController();
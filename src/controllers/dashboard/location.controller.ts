@@ -1,12 +1,20 @@
 import { NextFunction, Request, Response } from 'express';
 
 import {
+    BulkZonePricingInput,
+    CreateLocationGateInput,
     CreateLocationInput,
+    GenerateLayoutInput,
     GetLocationsQuery,
     GetLocationZonesQuery,
+    LocationGateParam,
+    LocationZoneParam,
     SetZonePricingInput,
     ToggleLocationActiveInput,
+    UpdateLocationGateInput,
     UpdateLocationInput,
+    UpdateLocationZoneInput,
+    UpdateSeatAttributesInput,
 } from '../../schemas/location.schema';
 import { locationService } from '../../services/location.service';
 
@@ -177,6 +185,192 @@ export class DashboardLocationController {
         }
     }
 
+    /**
+     * Preview the seat layout generated from a template config (dry run)
+     * POST /api/v1/dashboard/locations/:identifier/layout/preview
+     */
+    async previewSeatLayout(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier } = req.params;
+            const data: GenerateLayoutInput = req.body;
+
+            const preview = await locationService.previewSeatLayout(identifier, data);
+
+            return res.status(200).json({
+                success: true,
+                message: 'Seat layout preview generated successfully',
+                data: preview,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Generate the seat layout of a location from a template config, as a new layout revision
+     * POST /api/v1/dashboard/locations/:identifier/layout
+     */
+    async generateSeatLayout(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier } = req.params;
+            const data: GenerateLayoutInput = req.body;
+            const adminId = req.user?.id;
+
+            const layout = await locationService.generateSeatLayout(identifier, data, adminId);
+
+            return res.status(201).json({
+                success: true,
+                message: `Seat layout revision ${layout.version} applied successfully`,
+                data: layout,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get the layout revision history of a location
+     * GET /api/v1/dashboard/locations/:identifier/layout/revisions
+     */
+    async getLayoutRevisions(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier } = req.params;
+
+            const revisions = await locationService.getLayoutRevisions(identifier);
+
+            return res.status(200).json({
+                success: true,
+                message: 'Layout revisions retrieved successfully',
+                data: revisions,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Set attribute flags on seats of a location
+     * PATCH /api/v1/dashboard/locations/:identifier/seats/attributes
+     */
+    async updateSeatAttributes(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier } = req.params;
+            const data: UpdateSeatAttributesInput = req.body;
+
+            const result = await locationService.updateSeatAttributes(identifier, data);
+
+            return res.status(200).json({
+                success: true,
+                message: 'Seat attributes updated successfully',
+                data: result,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Update a location zone's display details
+     * PATCH /api/v1/dashboard/locations/:identifier/zones/:locationZoneId
+     */
+    async updateLocationZone(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier, locationZoneId } = req.params as LocationZoneParam;
+            const data: UpdateLocationZoneInput = req.body;
+
+            const zone = await locationService.updateLocationZone(identifier, locationZoneId, data);
+
+            return res.status(200).json({
+                success: true,
+                message: 'Location zone updated successfully',
+                data: zone,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get the gates of a location with their zones
+     * GET /api/v1/dashboard/locations/:identifier/gates
+     */
+    async getLocationGates(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier } = req.params;
+
+            const gates = await locationService.getLocationGates(identifier);
+
+            return res.status(200).json({
+                success: true,
+                message: 'Location gates retrieved successfully',
+                data: gates,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Create a gate in a location
+     * POST /api/v1/dashboard/locations/:identifier/gates
+     */
+    async createLocationGate(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier } = req.params;
+            const data: CreateLocationGateInput = req.body;
+
+            const gate = await locationService.createLocationGate(identifier, data);
+
+            return res.status(201).json({
+                success: true,
+                message: 'Location gate created successfully',
+                data: gate,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Update a gate of a location
+     * PATCH /api/v1/dashboard/locations/:identifier/gates/:locationGateId
+     */
+    async updateLocationGate(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier, locationGateId } = req.params as LocationGateParam;
+            const data: UpdateLocationGateInput = req.body;
+
+            const gate = await locationService.updateLocationGate(identifier, locationGateId, data);
+
+            return res.status(200).json({
+                success: true,
+                message: 'Location gate updated successfully',
+                data: gate,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Delete a gate of a location
+     * DELETE /api/v1/dashboard/locations/:identifier/gates/:locationGateId
+     */
+    async deleteLocationGate(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier, locationGateId } = req.params as LocationGateParam;
+
+            await locationService.deleteLocationGate(identifier, locationGateId);
+
+            return res.status(200).json({
+                success: true,
+                message: 'Location gate deleted successfully',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * Get location zones with details and optional pricing info
      * GET /api/v1/dashboard/locations/:identifier/zones
@@ -228,6 +422,48 @@ export class DashboardLocationController {
             next(error);
         }
     }
+
+    /**
+     * Preview a bulk zone pricing change (dry run)
+     * POST /api/v1/dashboard/locations/:identifier/zone-pricing/bulk/preview
+     */
+    async previewBulkZonePricing(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier } = req.params;
+            const data: BulkZonePricingInput = req.body;
+
+            const preview = await locationService.previewBulkZonePricing(identifier, data);
+
+            return res.status(200).json({
+                success: true,
+                message: 'Bulk zone pricing preview generated successfully',
+                data: preview,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Apply a bulk zone pricing change
+     * POST /api/v1/dashboard/locations/:identifier/zone-pricing/bulk
+     */
+    async applyBulkZonePricing(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { identifier } = req.params;
+            const data: BulkZonePricingInput = req.body;
+
+            const result = await locationService.applyBulkZonePricing(identifier, data);
+
+            return res.status(200).json({
+                success: true,
+                message: 'Bulk zone pricing applied successfully',
+                data: result,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
 }
 
 export const dashboardLocationController = new DashboardLocationController();
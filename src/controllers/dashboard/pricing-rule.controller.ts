@@ -0,0 +1,95 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { pricingRuleService } from '../../services/pricing-rule.service';
+
+export class DashboardPricingRuleController {
+    /**
+     * Create a new pricing rule
+     */
+    async createRule(req: Request, res: Response, next: NextFunction) {
+        try {
+            const rule = await pricingRuleService.createRule(req.body);
+
+            res.status(201).json({
+                success: true,
+                message: 'Pricing rule created successfully',
+                data: rule,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get pricing rules of an event
+     */
+    async getEventRules(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { eventId } = req.params;
+            const rules = await pricingRuleService.getEventRules(eventId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Pricing rules retrieved successfully',
+                data: rules,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get pricing rule by ID
+     */
+    async getRuleById(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const rule = await pricingRuleService.getRuleById(id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Pricing rule retrieved successfully',
+                data: rule,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Update pricing rule
+     */
+    async updateRule(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const rule = await pricingRuleService.updateRule(id, req.body);
+
+            res.status(200).json({
+                success: true,
+                message: 'Pricing rule updated successfully',
+                data: rule,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Delete pricing rule
+     */
+    async deleteRule(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            await pricingRuleService.deleteRule(id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Pricing rule deleted successfully',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export const dashboardPricingRuleController = new DashboardPricingRuleController();
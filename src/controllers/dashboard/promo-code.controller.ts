@@ -0,0 +1,114 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { GetPromoCodesQuery } from '../../schemas/promo-code.schema';
+import { promoCodeService } from '../../services/promo-code.service';
+
+export class DashboardPromoCodeController {
+    /**
+     * Create a new promo code
+     */
+    async createPromoCode(req: Request, res: Response, next: NextFunction) {
+        try {
+            const promoCode = await promoCodeService.createPromoCode(req.body);
+
+            res.status(201).json({
+                success: true,
+                message: 'Promo code created successfully',
+                data: promoCode,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get all promo codes with filters and pagination
+     */
+    async getAllPromoCodes(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { page, limit } = (req as any).pagination;
+            const query = req.query as unknown as GetPromoCodesQuery;
+
+            const result = await promoCodeService.getAllPromoCodes(page, limit, {
+                active: query.active !== undefined ? query.active === 'true' : undefined,
+                eventId: query.eventId,
+                search: query.search,
+            });
+
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get promo code by ID
+     */
+    async getPromoCodeById(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const promoCode = await promoCodeService.getPromoCodeById(id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Promo code retrieved successfully',
+                data: promoCode,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get redemptions of a promo code
+     */
+    async getRedemptions(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const { page, limit } = (req as any).pagination;
+
+            const result = await promoCodeService.getRedemptions(id, page, limit);
+
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Update promo code
+     */
+    async updatePromoCode(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const promoCode = await promoCodeService.updatePromoCode(id, req.body);
+
+            res.status(200).json({
+                success: true,
+                message: 'Promo code updated successfully',
+                data: promoCode,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Delete promo code
+     */
+    async deletePromoCode(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            await promoCodeService.deletePromoCode(id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Promo code deleted successfully',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export const dashboardPromoCodeController = new DashboardPromoCodeController();
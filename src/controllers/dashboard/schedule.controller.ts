@@ -1,5 +1,6 @@
 import { NextFunction, Request, Response } from 'express';
 
+import { admissionService } from '../../services/admission.service';
 import { scheduleService } from '../../services/schedule.service';
 
 export class DashboardScheduleController {
@@ -129,6 +130,23 @@ export class DashboardScheduleController {
             next(error);
         }
     }
+
+    /**
+     * Get the live admission dashboard of a schedule
+     */
+    async getScheduleAdmissions(req: Request, res: Response, next: NextFunction) {
+        try {
+            const admissions = await admissionService.getScheduleAdmissions(req.params.id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Schedule admissions retrieved successfully',
+                data: admissions,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
 }
 
 export const dashboardScheduleController = new DashboardScheduleController();
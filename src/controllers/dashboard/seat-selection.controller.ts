@@ -9,9 +9,11 @@ import {
     GetSeatsParams,
     GetSectionsParams,
     GetZonesParams,
+    SeatAttributeFilterQuery,
     ValidateSeatsBody,
 } from '../../schemas/seat-selection.schema';
 import seatSelectionService from '../../services/seat-selection.service';
+import { openSeatChangeStream } from '../../utils/seat-events.util';
 
 /**
  * Dashboard Seat Selection Controller
@@ -84,12 +86,14 @@ export class DashboardSeatSelectionController {
      * GET /api/v1/dashboard/seat-selection/schedules/:scheduleId/rows/:rowId/seats
      * 
      * Fourth (final) level - shows individual seats with availability
+     * Query: isAccessible, isCompanion, isObstructedView, isAisle (true/false)
      */
     getSeats = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             const { scheduleId, rowId } = req.params as unknown as GetSeatsParams;
+            const filters = seatSelectionService.parseSeatAttributeFilter(req.query as SeatAttributeFilterQuery);
 
-            const result = await seatSelectionService.getSeatsForRow(scheduleId, rowId);
+            const result = await seatSelectionService.getSeatsForRow(scheduleId, rowId, filters);
 
             res.status(200).json(result);
         } catch (error) {
@@ -102,12 +106,14 @@ export class DashboardSeatSelectionController {
      * GET /api/v1/dashboard/seat-selection/schedules/:scheduleId/seat-map
      * 
      * Returns complete hierarchy in one call - useful for rendering full seat map UI
+     * Query: isAccessible, isCompanion, isObstructedView, isAisle (true/false)
      */
     getSeatMap = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             const { scheduleId } = req.params as unknown as GetSeatMapParams;
+            const filters = seatSelectionService.parseSeatAttributeFilter(req.query as SeatAttributeFilterQuery);
 
-            const result = await seatSelectionService.getFullSeatMap(scheduleId);
+            const result = await seatSelectionService.getFullSeatMap(scheduleId, filters);
 
             res.status(200).json(result);
         } catch (error) {
@@ -115,6 +121,24 @@ export class DashboardSeatSelectionController {
         }
     };
 
+    /**
+     * Stream live seat changes for a schedule (Server-Sent Events)
+     * GET /api/v1/dashboard/seat-selection/schedules/:scheduleId/seat-map/stream
+     * 
+     * Load the seat map once, then apply `seats` events to keep it current
+     */
+    streamSeatMap = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { scheduleId } = req.params as unknown as GetSeatMapParams;
+
+            await seatSelectionService.validateScheduleForStream(scheduleId);
+
+            openSeatChangeStream(req, res, scheduleId);
+        } catch (error) {
+            next(error);
+        }
+    };
+
     /**
      * Check availability of specific seats
      * POST /api/v1/dashboard/seat-selection/schedules/:scheduleId/check-availability
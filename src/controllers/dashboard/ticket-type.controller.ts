@@ -0,0 +1,95 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { ticketTypeService } from '../../services/ticket-type.service';
+
+export class DashboardTicketTypeController {
+    /**
+     * Create a new ticket type
+     */
+    async createTicketType(req: Request, res: Response, next: NextFunction) {
+        try {
+            const ticketType = await ticketTypeService.createTicketType(req.body);
+
+            res.status(201).json({
+                success: true,
+                message: 'Ticket type created successfully',
+                data: ticketType,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get ticket types of an event
+     */
+    async getEventTicketTypes(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { eventId } = req.params;
+            const ticketTypes = await ticketTypeService.getEventTicketTypes(eventId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Ticket types retrieved successfully',
+                data: ticketTypes,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get ticket type by ID
+     */
+    async getTicketTypeById(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const ticketType = await ticketTypeService.getTicketTypeById(id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Ticket type retrieved successfully',
+                data: ticketType,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Update ticket type
+     */
+    async updateTicketType(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            const ticketType = await ticketTypeService.updateTicketType(id, req.body);
+
+            res.status(200).json({
+                success: true,
+                message: 'Ticket type updated successfully',
+                data: ticketType,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Delete ticket type
+     */
+    async deleteTicketType(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { id } = req.params;
+            await ticketTypeService.deleteTicketType(id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Ticket type deleted successfully',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export const dashboardTicketTypeController = new DashboardTicketTypeController();
@@ -0,0 +1,47 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { GetScheduleWaitlistQuery } from '../../schemas/waitlist.schema';
+import { waitlistService } from '../../services/waitlist.service';
+
+export class DashboardWaitlistController {
+    /**
+     * Get the waitlist length per schedule (and zone) of an event
+     */
+    async getEventSummary(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { eventId } = req.params;
+
+            const summary = await waitlistService.getEventSummary(eventId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Waitlist summary retrieved successfully',
+                data: summary,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get the waitlist entries of a schedule with pagination
+     */
+    async getScheduleEntries(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { scheduleId } = req.params;
+            const { page, limit } = (req as any).pagination;
+            const query = req.query as unknown as GetScheduleWaitlistQuery;
+
+            const result = await waitlistService.getScheduleEntries(scheduleId, page, limit, {
+                status: query.status,
+                locationZoneId: query.locationZoneId,
+            });
+
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export const dashboardWaitlistController = new DashboardWaitlistController();
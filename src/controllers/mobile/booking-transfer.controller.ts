@@ -0,0 +1,158 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { bookingTransferService } from '../../services/booking-transfer.service';
+import { getPreferredLanguage, localizeObject, SupportedLanguage } from '../../utils/i18n.util';
+
+/**
+ * Mobile Booking Transfer Controller
+ * Handles HTTP requests for handing bookings over between users (mobile app)
+ */
+export class MobileBookingTransferController {
+    /**
+     * Localize the event name of a transfer
+     */
+    private localizeTransfer(transfer: any, language: SupportedLanguage): any {
+        if (!transfer?.booking?.event) return transfer;
+
+        return {
+            ...transfer,
+            booking: {
+                ...transfer.booking,
+                event: localizeObject(transfer.booking.event, ['name'], language),
+            },
+        };
+    }
+
+    /**
+     * Start transferring a booking to another user
+     * POST /api/v1/mobile/booking-transfers
+     */
+    startTransfer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+
+            const transfer = await bookingTransferService.startTransfer(userId, req.body);
+
+            res.status(201).json({
+                success: true,
+                message: 'Booking transfer started successfully',
+                data: this.localizeTransfer(transfer, getPreferredLanguage(req)),
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Get the pending transfers sent to the user
+     * GET /api/v1/mobile/booking-transfers/incoming
+     */
+    getIncomingTransfers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const language = getPreferredLanguage(req);
+
+            const transfers = await bookingTransferService.getIncomingTransfers(userId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Incoming transfers retrieved successfully',
+                data: transfers.map((transfer: any) => this.localizeTransfer(transfer, language)),
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Get the transfers the user started
+     * GET /api/v1/mobile/booking-transfers/outgoing
+     */
+    getOutgoingTransfers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const language = getPreferredLanguage(req);
+
+            const transfers = await bookingTransferService.getOutgoingTransfers(userId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Outgoing transfers retrieved successfully',
+                data: transfers.map((transfer: any) => this.localizeTransfer(transfer, language)),
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Accept a transfer sent to the user
+     * POST /api/v1/mobile/booking-transfers/:id/accept
+     */
+    acceptTransfer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const { id } = req.params;
+            const language = getPreferredLanguage(req);
+
+            const booking = await bookingTransferService.acceptTransfer(userId, id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Booking transferred to your account successfully',
+                data: booking
+                    ? {
+                        ...booking,
+                        event: localizeObject(booking.event, ['name', 'description'], language),
+                    }
+                    : null,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Decline a transfer sent to the user
+     * POST /api/v1/mobile/booking-transfers/:id/decline
+     */
+    declineTransfer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const { id } = req.params;
+
+            const transfer = await bookingTransferService.declineTransfer(userId, id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Booking transfer declined',
+                data: this.localizeTransfer(transfer, getPreferredLanguage(req)),
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Cancel a transfer the user started
+     * POST /api/v1/mobile/booking-transfers/:id/cancel
+     */
+    cancelTransfer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const { id } = req.params;
+
+            const transfer = await bookingTransferService.cancelTransfer(userId, id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Booking transfer cancelled',
+                data: this.localizeTransfer(transfer, getPreferredLanguage(req)),
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+export default new MobileBookingTransferController();
@@ -2,6 +2,7 @@ import { NextFunction, Request, Response } from 'express';
 
 import { GetBookingsQuery } from '../../schemas/booking.schema';
 import bookingService from '../../services/booking.service';
+import { ticketService } from '../../services/ticket.service';
 import { getPreferredLanguage, localizeArray, localizeObject, SupportedLanguage } from '../../utils/i18n.util';
 
 /**
@@ -32,11 +33,12 @@ export class MobileBookingController {
             paymentMethod: booking.paymentMethod
                 ? localizeObject(booking.paymentMethod, ['name', 'description'], language)
                 : null,
+            bookingItems: booking.bookingItems?.map((item: any) => localizeObject(item, ['name'], language)),
         };
     }
 
     /**
-     * Checkout - handles both direct event and cart checkout
+     * Checkout - handles direct event, cart and seat-selection session checkout
      * POST /api/v1/mobile/bookings/checkout
      */
     checkout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -50,7 +52,7 @@ export class MobileBookingController {
             const language = getPreferredLanguage(req);
 
             if ('booking' in result.data) {
-                // Direct checkout - single booking
+                // Direct or session checkout - single booking
                 result.data.booking = this.localizeBooking(result.data.booking, language);
             } else if ('bookings' in result.data) {
                 // Cart checkout - multiple bookings
@@ -86,6 +88,10 @@ export class MobileBookingController {
                 filters.eventId = query.eventId;
             }
 
+            if (query.scheduleId) {
+                filters.scheduleId = query.scheduleId;
+            }
+
             if (query.startDate) {
                 filters.startDate = new Date(query.startDate);
             }
@@ -108,6 +114,7 @@ export class MobileBookingController {
                             location: undefined, // Remove nested for list view
                         }
                         : null,
+                    bookingItems: booking.bookingItems?.map((item: any) => localizeObject(item, ['name'], language)),
                 })),
                 ['event.name', 'event.description', 'paymentMethod.name'],
                 language
@@ -125,9 +132,10 @@ export class MobileBookingController {
      */
     getBookingById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
+            const userId = req.user.id;
             const { id } = req.params;
 
-            const result = await bookingService.getBookingById(id);
+            const result = await bookingService.getBookingById(id, userId);
 
             // Localize the response
             const language = getPreferredLanguage(req);
@@ -139,6 +147,24 @@ export class MobileBookingController {
         }
     };
 
+    /**
+     * Get the secret the app shows rotating ticket codes from
+     * GET /api/v1/mobile/bookings/:id/ticket-secret
+     */
+    getTicketSecret = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const ticketSecret = await ticketService.getTicketSecret(req.params.id, req.user.id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Ticket secret retrieved successfully',
+                data: ticketSecret,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
     /**
      * Update booking used quantity (workers only)
      * PATCH /api/v1/mobile/bookings/:id/update-quantity
@@ -146,9 +172,17 @@ export class MobileBookingController {
     updateBookingQuantity = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             const { id } = req.params;
-            const { quantity } = req.body;
-
-            const result = await bookingService.updateBookingQuantity(id, quantity);
+            const { quantity, deviceId, locationGateId } = req.body;
+
+            const result = await bookingService.updateBookingQuantity(
+                id,
+                quantity,
+                {
+                    workerId: req.user.id,
+                    deviceId,
+                },
+                locationGateId
+            );
 
             // Localize the response
             const language = getPreferredLanguage(req);
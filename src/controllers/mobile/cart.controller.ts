@@ -29,6 +29,10 @@ export class MobileCartController {
                         ? localizeObject(item.event.location, ['name', 'description'], language)
                         : null,
                 },
+                tickets: item.tickets?.map((ticket: any) => ({
+                    ...ticket,
+                    ticketType: localizeObject(ticket.ticketType, ['name'], language),
+                })),
             })),
         };
     }
@@ -40,9 +44,9 @@ export class MobileCartController {
     addToCart = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             const userId = req.user.id;
-            const { eventId, quantity } = req.body;
+            const { eventId, scheduleId, quantity, tickets } = req.body;
 
-            const cart = await cartService.addToCart(userId, eventId, quantity);
+            const cart = await cartService.addToCart(userId, eventId, quantity, scheduleId, tickets);
 
             // Localize the response
             const language = getPreferredLanguage(req);
@@ -133,6 +137,55 @@ export class MobileCartController {
         }
     };
 
+    /**
+     * Apply a promo code to the cart
+     * POST /api/v1/mobile/cart/promo-code
+     */
+    applyPromoCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const { code } = req.body;
+
+            const cart = await cartService.applyPromoCode(userId, code);
+
+            // Localize the response
+            const language = getPreferredLanguage(req);
+            const localizedCart = this.localizeCart(cart, language);
+
+            res.status(200).json({
+                success: true,
+                message: 'Promo code applied successfully',
+                data: localizedCart,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Remove the promo code from the cart
+     * DELETE /api/v1/mobile/cart/promo-code
+     */
+    removePromoCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+
+            const cart = await cartService.removePromoCode(userId);
+
+            // Localize the response
+            const language = getPreferredLanguage(req);
+            const localizedCart = this.localizeCart(cart, language);
+
+            res.status(200).json({
+                success: true,
+                message: 'Promo code removed successfully',
+                data: localizedCart,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
 }
 
 export default new MobileCartController();
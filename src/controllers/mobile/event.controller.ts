@@ -108,6 +108,13 @@ export class MobileEventController {
                 localizedEvent.location = localizeObject(localizedEvent.location, ['name', 'description'], language);
             }
 
+            // Localize ticket types if present
+            if (localizedEvent.ticketTypes && localizedEvent.ticketTypes.length > 0) {
+                localizedEvent.ticketTypes = localizedEvent.ticketTypes.map((ticketType: any) =>
+                    localizeObject(ticketType, ['name', 'description'], language)
+                );
+            }
+
             res.status(200).json({
                 success: true,
                 message: 'Event retrieved successfully',
@@ -0,0 +1,74 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { GetNotificationsQuery } from '../../schemas/notification.schema';
+import { notificationService } from '../../services/notification.service';
+
+/**
+ * Mobile Notification Controller
+ * Handles HTTP requests for in-app notification endpoints (mobile app)
+ */
+export class MobileNotificationController {
+    /**
+     * Get the user's notifications
+     * GET /api/v1/mobile/notifications
+     */
+    getNotifications = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const { page, limit } = (req as any).pagination;
+            const query = req.query as unknown as GetNotificationsQuery;
+
+            const result = await notificationService.getUserNotifications(
+                userId,
+                page,
+                limit,
+                query.unread === 'true'
+            );
+
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Mark all notifications as read
+     * PATCH /api/v1/mobile/notifications/read-all
+     */
+    markAllAsRead = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+
+            const count = await notificationService.markAllAsRead(userId);
+
+            res.status(200).json({
+                success: true,
+                message: `${count} notification(s) marked as read`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Mark a notification as read
+     * PATCH /api/v1/mobile/notifications/:id/read
+     */
+    markAsRead = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const { id } = req.params;
+
+            await notificationService.markAsRead(userId, id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Notification marked as read',
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+export default new MobileNotificationController();
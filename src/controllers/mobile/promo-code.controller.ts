@@ -0,0 +1,31 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { promoCodeService } from '../../services/promo-code.service';
+
+/**
+ * Mobile Promo Code Controller
+ * Handles HTTP requests for promo code endpoints (mobile app)
+ */
+export class MobilePromoCodeController {
+    /**
+     * Check a promo code against a direct checkout
+     * POST /api/v1/mobile/promo-codes/validate
+     */
+    validatePromoCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+
+            const result = await promoCodeService.validateForDirectCheckout(userId, req.body);
+
+            res.status(200).json({
+                success: true,
+                message: 'Promo code is valid',
+                data: result,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+export default new MobilePromoCodeController();
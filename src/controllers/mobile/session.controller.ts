@@ -1,7 +1,10 @@
 import { NextFunction, Request, Response } from 'express';
 
-import { ToggleSeatInput } from '../../schemas/session.schema';
+import { SeatAttributeFilterQuery } from '../../schemas/seat-selection.schema';
+import { BestAvailableInput, ToggleSeatInput } from '../../schemas/session.schema';
+import seatSelectionService from '../../services/seat-selection.service';
 import { SessionService } from '../../services/session.service';
+import { openSeatChangeStream } from '../../utils/seat-events.util';
 
 export class SessionController {
     private sessionService = new SessionService();
@@ -26,6 +29,26 @@ export class SessionController {
         }
     };
 
+    /**
+     * Create (or refill) a session with the best available seats
+     * POST /api/v1/mobile/sessions/best-available
+     */
+    bestAvailable = async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const input: BestAvailableInput = req.body;
+            const userId = req.user.id;
+
+            const result = await this.sessionService.bestAvailable(userId, input);
+
+            res.status(result.isExisting ? 200 : 201).json({
+                success: true,
+                data: result,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
     /**
      * Get session by ID with all seat details
      * GET /api/v1/mobile/sessions/:sessionId
@@ -45,6 +68,42 @@ export class SessionController {
         }
     };
 
+    /**
+     * Get the seat map of the session's schedule, optionally filtered by seat attributes
+     * GET /api/v1/mobile/sessions/:sessionId/seat-map
+     */
+    getSeatMap = async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { sessionId } = req.params;
+            const filters = seatSelectionService.parseSeatAttributeFilter(req.query as SeatAttributeFilterQuery);
+
+            const result = await this.sessionService.getSessionSeatMap(sessionId, filters);
+
+            res.status(200).json({
+                success: true,
+                data: result,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Stream live seat changes for the session's schedule (Server-Sent Events)
+     * GET /api/v1/mobile/sessions/:sessionId/seat-map/stream
+     */
+    streamSeatMap = async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { sessionId } = req.params;
+
+            const scheduleId = await this.sessionService.getSessionScheduleId(sessionId);
+
+            openSeatChangeStream(req, res, scheduleId);
+        } catch (error) {
+            next(error);
+        }
+    };
+
     /**
      * Toggle seat in session (add if not exists, remove if exists)
      * POST /api/v1/mobile/sessions/:sessionId/seats/toggle
@@ -0,0 +1,107 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { ticketService } from '../../services/ticket.service';
+import { getPreferredLanguage, localizeObject } from '../../utils/i18n.util';
+
+/**
+ * Mobile Ticket Controller
+ * Handles HTTP requests for gate ticket scanning (worker app)
+ */
+export class MobileTicketController {
+    /**
+     * Scan a ticket QR code and let its holder(s) in or out
+     * POST /api/v1/mobile/tickets/scan
+     */
+    scanTicket = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const result = await ticketService.scanTicket(req.body, {
+                workerId: req.user.id,
+                deviceId: req.body.deviceId,
+            });
+
+            // Localize the response
+            const language = getPreferredLanguage(req);
+            const ticket = {
+                ...result.ticket,
+                event: localizeObject(result.ticket.event, ['name'], language),
+                bookingItems: result.ticket.bookingItems.map((item: any) => localizeObject(item, ['name'], language)),
+            };
+
+            res.status(200).json({
+                success: true,
+                message: result.isReEntry
+                    ? `${result.admitted} re-entered`
+                    : result.exited > 0 ? `${result.exited} exited` : `${result.admitted} admitted`,
+                data: {
+                    direction: result.direction,
+                    isReEntry: result.isReEntry,
+                    admitted: result.admitted,
+                    exited: result.exited,
+                    checkInId: result.checkInId,
+                    seatIds: result.seatIds,
+                    ticket,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Get the public key offline manifests are signed with
+     * GET /api/v1/mobile/tickets/manifest-key
+     */
+    getManifestKey = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            res.status(200).json({
+                success: true,
+                message: 'Manifest key retrieved successfully',
+                data: ticketService.getManifestKey(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Download the signed offline manifest of a schedule
+     * GET /api/v1/mobile/tickets/manifest/:scheduleId
+     */
+    getManifest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const language = getPreferredLanguage(req);
+            const manifest = await ticketService.getManifest(req.params.scheduleId, req.user.id, language);
+
+            res.status(200).json({
+                success: true,
+                message: 'Manifest retrieved successfully',
+                data: manifest,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Upload scans made offline and get a per-scan result report
+     * POST /api/v1/mobile/tickets/sync
+     */
+    syncScans = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const report = await ticketService.syncScans(req.body, {
+                workerId: req.user.id,
+                deviceId: req.body.deviceId,
+            });
+
+            res.status(200).json({
+                success: true,
+                message: `${report.summary.admitted} of ${report.summary.total} scan(s) admitted`,
+                data: report,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+export default new MobileTicketController();
@@ -0,0 +1,88 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { GetMyWaitlistQuery } from '../../schemas/waitlist.schema';
+import { waitlistService } from '../../services/waitlist.service';
+import { getPreferredLanguage, localizeObject, SupportedLanguage } from '../../utils/i18n.util';
+
+/**
+ * Mobile Waitlist Controller
+ * Handles HTTP requests for waitlist endpoints (mobile app)
+ */
+export class MobileWaitlistController {
+    /**
+     * Localize the event and zone names of a waitlist entry
+     */
+    private localizeEntry(entry: any, language: SupportedLanguage): any {
+        return {
+            ...entry,
+            event: entry.event ? localizeObject(entry.event, ['name'], language) : entry.event,
+            locationZone: entry.locationZone ? localizeObject(entry.locationZone, ['name'], language) : null,
+        };
+    }
+
+    /**
+     * Join the waitlist of a sold-out schedule
+     * POST /api/v1/mobile/waitlist
+     */
+    joinWaitlist = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+
+            const entry = await waitlistService.joinWaitlist(userId, req.body);
+
+            res.status(201).json({
+                success: true,
+                message: 'Joined the waitlist successfully',
+                data: entry,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Get the user's waitlist entries
+     * GET /api/v1/mobile/waitlist
+     */
+    getMyEntries = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const query = req.query as unknown as GetMyWaitlistQuery;
+
+            const entries = await waitlistService.getMyEntries(userId, query.active === 'true');
+
+            const language = getPreferredLanguage(req);
+
+            res.status(200).json({
+                success: true,
+                message: 'Waitlist entries retrieved successfully',
+                data: entries.map((entry) => this.localizeEntry(entry, language)),
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Leave the waitlist
+     * DELETE /api/v1/mobile/waitlist/:id
+     */
+    leaveWaitlist = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const userId = req.user.id;
+            const { id } = req.params;
+
+            const entry = await waitlistService.leaveWaitlist(userId, id);
+
+            res.status(200).json({
+                success: true,
+                message: 'Left the waitlist successfully',
+                data: entry,
+            });
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+export default new MobileWaitlistController();
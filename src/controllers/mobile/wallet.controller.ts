@@ -1,5 +1,6 @@
 import { NextFunction, Request, Response } from 'express';
 
+import { PurchaseGiftVoucherInput, RedeemGiftVoucherInput } from '../../schemas/gift-voucher.schema';
 import { WalletTopUpInput } from '../../schemas/transaction.schema';
 import { WalletService } from '../../services/wallet.service';
 
@@ -59,6 +60,62 @@ export class MobileWalletController {
         }
     }
 
+    /**
+     * Redeem a gift voucher into the wallet
+     * @route POST /mobile/wallet/redeem-voucher
+     */
+    async redeemGiftVoucher(req: Request, res: Response, next: NextFunction) {
+        try {
+            const userId = req.user?.id;
+            const redeemData: RedeemGiftVoucherInput = req.body;
+
+            const result = await walletService.redeemGiftVoucher(userId, redeemData);
+
+            res.status(200).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Buy a gift voucher with the wallet balance
+     * @route POST /mobile/wallet/purchase-voucher
+     */
+    async purchaseGiftVoucher(req: Request, res: Response, next: NextFunction) {
+        try {
+            const userId = req.user?.id;
+            const purchaseData: PurchaseGiftVoucherInput = req.body;
+
+            const result = await walletService.purchaseGiftVoucher(userId, purchaseData);
+
+            res.status(201).json(result);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get the gift vouchers bought by the user
+     * @route GET /mobile/wallet/purchased-vouchers
+     */
+    async getPurchasedGiftVouchers(req: Request, res: Response, next: NextFunction) {
+        try {
+            const userId = req.user?.id;
+            const { page, limit } = (req as any).pagination;
+
+            const result = await walletService.getPurchasedGiftVouchers(userId, page, limit);
+
+            res.status(200).json({
+                success: true,
+                message: 'Purchased gift vouchers retrieved successfully',
+                data: result.data,
+                pagination: result.pagination,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * Get wallet transactions
      * @route GET /mobile/wallet/:walletId/transactions
@@ -15,6 +15,8 @@ export interface EventResponseDto {
     location?: LocationSummaryDto;
     media?: MediaDto[];
     schedules?: ScheduleDto[];
+    isSoldOut?: boolean; // Every upcoming schedule is sold out (general admission)
+    ticketTypes?: TicketTypeDto[]; // Active ticket types; when present, non-seated events are bought by type
 }
 
 export interface CategorySummaryDto {
@@ -100,11 +102,29 @@ export interface ScheduleDto {
     startAt: string;
     endAt: string;
     details?: any; // JSON object for schedule details
+    capacity: number | null; // General-admission tickets, null = unlimited
+    soldQuantity: number;
+    remainingCapacity?: number | null;
+    isSoldOut?: boolean;
     createdAt: string;
     updatedAt: string;
     scheduleWorkers?: ScheduleWorkerDto[];
 }
 
+export interface TicketTypeDto {
+    id: string;
+    name: any; // JSON i18n object or localized string
+    description?: any;
+    originalPrice: number;
+    discountedPrice: number | null;
+    admitCount: number; // People admitted per ticket
+    minQuantity: number;
+    maxQuantity: number | null;
+    locationZoneId: string | null; // Seated events: type sold only for seats of this zone
+    requiresTicketTypeId: string | null; // Must be bought together with this type
+    sortOrder: number;
+}
+
 export interface ScheduleWorkerDto {
     id: string;
     createdAt: string;
@@ -77,7 +77,9 @@ export interface LocationRowResponseDto {
  */
 export interface LocationSectionResponseDto {
     id: string;
-    position: string;
+    code: string;
+    name: any;
+    displayOrder: number;
     numberOfRows: number;
     rows: LocationRowResponseDto[];
 }
@@ -87,12 +89,11 @@ export interface LocationSectionResponseDto {
  */
 export interface ZoneDetailsResponseDto {
     id: string;
-    zoneId: string;
-    zone: {
-        id: string;
-        type: string;
-        priority: number;
-    };
+    code: string;
+    name: any;
+    color: string | null;
+    displayOrder: number;
+    priority: number;
     totalSections: number;
     totalSeats: number;
     sections: LocationSectionResponseDto[];
@@ -119,7 +120,6 @@ export interface SetZonePricingResponseDto {
     pricings: Array<{
         id: string;
         locationZoneId: string;
-        zoneId: string;
         originalPrice: number;
         discountedPrice: number | null;
         createdAt: Date;
@@ -9,6 +9,8 @@ export interface ScheduleResponseDto {
         en?: string;
         ar?: string;
     } | null;
+    capacity: number | null; // General-admission tickets, null = unlimited
+    soldQuantity: number;
     createdAt: string;
     updatedAt: string;
     eventId: string;
@@ -46,3 +46,39 @@ export interface WalletTopUpResponse {
         transaction: TransactionDataResponse;
     };
 }
+
+export interface GiftVoucherRedemptionDataResponse {
+    code: string;
+    amount: number;
+    currency: string;
+    redeemedAt: Date;
+}
+
+export interface GiftVoucherPurchaseDataResponse {
+    id: string;
+    code: string;
+    amount: number;
+    currency: string;
+    expiresAt: Date | null;
+    createdAt: Date;
+}
+
+export interface WalletVoucherPurchaseResponse {
+    success: boolean;
+    message: string;
+    data: {
+        wallet: WalletDataResponse;
+        transaction: TransactionDataResponse;
+        voucher: GiftVoucherPurchaseDataResponse;
+    };
+}
+
+export interface WalletVoucherRedemptionResponse {
+    success: boolean;
+    message: string;
+    data: {
+        wallet: WalletDataResponse;
+        transaction: TransactionDataResponse;
+        voucher: GiftVoucherRedemptionDataResponse;
+    };
+}
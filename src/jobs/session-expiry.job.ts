@@ -0,0 +1,26 @@
+import { config, logger } from '../config';
+import { SessionService } from '../services/session.service';
+
+const sessionService = new SessionService();
+
+/**
+ * Periodically cancel expired seat-selection sessions and release their held seats
+ * Runs every SESSION_SWEEP_INTERVAL seconds
+ */
+export function startSessionExpiryJob(): ReturnType<typeof setInterval> {
+  const intervalMs = config.SESSION_SWEEP_INTERVAL * 1000;
+
+  const timer = setInterval(async () => {
+    try {
+      await sessionService.expireStaleSessions();
+    } catch (error) {
+      logger.error('Session expiry job failed:', error);
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+
+  logger.info(`Session expiry job started (every ${config.SESSION_SWEEP_INTERVAL}s)`);
+  return timer;
+}
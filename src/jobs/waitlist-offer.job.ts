@@ -0,0 +1,25 @@
+import { config, logger } from '../config';
+import { waitlistService } from '../services/waitlist.service';
+
+/**
+ * Periodically expire waitlist offers whose purchase window has passed
+ * and offer their tickets to the next people in line
+ * Runs every WAITLIST_SWEEP_INTERVAL seconds
+ */
+export function startWaitlistOfferJob(): ReturnType<typeof setInterval> {
+  const intervalMs = config.WAITLIST_SWEEP_INTERVAL * 1000;
+
+  const timer = setInterval(async () => {
+    try {
+      await waitlistService.expireStaleOffers();
+    } catch (error) {
+      logger.error('Waitlist offer job failed:', error);
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+
+  logger.info(`Waitlist offer job started (every ${config.WAITLIST_SWEEP_INTERVAL}s)`);
+  return timer;
+}
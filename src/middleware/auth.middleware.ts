@@ -87,7 +87,8 @@ export const authMiddleware = async (
         email: user.email,
         roles: user.userRoles.map((ur: any) => ({
           id: ur.role.id,
-          name: ur.role.name
+          name: ur.role.name,
+          roleType: ur.role.roleType
         })),
       };
       req.permissions = permissions;
@@ -196,3 +197,38 @@ export const roleMiddleware = (roles: string[]) => {
     }
   };
 };
+
+/**
+ * Middleware to check if user has a WORKER role (gate staff, operations)
+ */
+export const workerMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Check if user exists in request (should be set by authMiddleware)
+    if (!req.user) {
+      return next(new UnauthorizedException('User not authenticated'));
+    }
+
+    const isWorker = req.user.roles.some((role: { roleType: string }) => role.roleType === 'WORKER');
+
+    if (!isWorker) {
+      // Log unauthorized access attempt
+      (prisma.activityLog as any).create({
+        data: {
+          userId: req.user.id,
+          action: 'UNAUTHORIZED_ROLE_ACCESS',
+          description: 'User attempted to access a worker resource without a WORKER role',
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent') || 'unknown',
+          resourceType: req.path.split('/')[1],
+        }
+      }).catch((err: any) => logger.error('Error logging unauthorized role access:', err));
+
+      return next(new ForbiddenException('Only workers can access this resource'));
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Worker check error:', error);
+    return next(new ForbiddenException('Role check failed'));
+  }
+};
@@ -0,0 +1,240 @@
+import { BookingStatus, BookingTransfer, BookingTransferStatus, Prisma } from '@prisma/client';
+
+import { prisma } from '../utils/prisma.client';
+
+const transferDetailsInclude = {
+    booking: {
+        select: {
+            id: true,
+            bookingNumber: true,
+            quantity: true,
+            status: true,
+            event: {
+                select: {
+                    id: true,
+                    name: true,
+                    eventSlug: true,
+                },
+            },
+            schedule: {
+                select: {
+                    id: true,
+                    startAt: true,
+                    endAt: true,
+                },
+            },
+        },
+    },
+    fromUser: {
+        select: {
+            id: true,
+            name: true,
+        },
+    },
+    toUser: {
+        select: {
+            id: true,
+            name: true,
+        },
+    },
+};
+
+export class BookingTransferRepository {
+    /**
+     * Create a pending transfer
+     */
+    async create(data: Prisma.BookingTransferUncheckedCreateInput): Promise<BookingTransfer> {
+        return await prisma.bookingTransfer.create({ data });
+    }
+
+    /**
+     * Find transfer by ID
+     */
+    async findById(id: string): Promise<BookingTransfer | null> {
+        return await prisma.bookingTransfer.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Find transfer by ID with its booking and users
+     */
+    async findByIdWithDetails(id: string) {
+        return await prisma.bookingTransfer.findUnique({
+            where: { id },
+            include: transferDetailsInclude,
+        });
+    }
+
+    /**
+     * Find the open transfer of a booking
+     */
+    async findPendingByBookingId(bookingId: string): Promise<BookingTransfer | null> {
+        return await prisma.bookingTransfer.findFirst({
+            where: {
+                bookingId,
+                status: BookingTransferStatus.PENDING,
+                expiresAt: { gt: new Date() },
+            },
+        });
+    }
+
+    /**
+     * Find the open transfers addressed to a user, by account or by the email / phone number entered
+     */
+    async findIncoming(user: { id: string; email: string | null; phoneNumber: string | null }) {
+        const recipientFilters: Prisma.BookingTransferWhereInput[] = [{ toUserId: user.id }];
+        if (user.email) {
+            recipientFilters.push({ recipientEmail: { equals: user.email, mode: 'insensitive' } });
+        }
+        if (user.phoneNumber) {
+            recipientFilters.push({ recipientPhoneNumber: user.phoneNumber });
+        }
+
+        return await prisma.bookingTransfer.findMany({
+            where: {
+                status: BookingTransferStatus.PENDING,
+                expiresAt: { gt: new Date() },
+                fromUserId: { not: user.id },
+                OR: recipientFilters,
+            },
+            orderBy: {
+                createdAt: 'desc',
+            },
+            include: transferDetailsInclude,
+        });
+    }
+
+    /**
+     * Find the transfers a user started (newest first)
+     */
+    async findOutgoing(userId: string) {
+        return await prisma.bookingTransfer.findMany({
+            where: {
+                fromUserId: userId,
+            },
+            orderBy: {
+                createdAt: 'desc',
+            },
+            include: transferDetailsInclude,
+        });
+    }
+
+    /**
+     * Find the transfer history of a booking (newest first)
+     */
+    async findByBookingId(bookingId: string) {
+        return await prisma.bookingTransfer.findMany({
+            where: { bookingId },
+            orderBy: {
+                createdAt: 'desc',
+            },
+            include: {
+                fromUser: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                        phoneNumber: true,
+                    },
+                },
+                toUser: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                        phoneNumber: true,
+                    },
+                },
+            },
+        });
+    }
+
+    /**
+     * Close a pending transfer (accepted, declined or cancelled)
+     * Only succeeds while the transfer is still pending and not past its expiry
+     */
+    async close(
+        id: string,
+        status: BookingTransferStatus,
+        data: { toUserId?: string } = {},
+        tx: any = prisma
+    ): Promise<boolean> {
+        const now = new Date();
+
+        const result = await tx.bookingTransfer.updateMany({
+            where: {
+                id,
+                status: BookingTransferStatus.PENDING,
+                expiresAt: { gt: now },
+            },
+            data: {
+                status,
+                respondedAt: now,
+                ...data,
+            },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Move a booking and its seats to a new owner with a new QR code
+     * The old seat codes and the rotating code secret are revoked
+     * Only succeeds while the booking is confirmed, owned by fromUserId and nobody has been admitted on it
+     */
+    async moveBooking(
+        bookingId: string,
+        fromUserId: string,
+        toUserId: string,
+        qrCode: string,
+        tx: any = prisma
+    ): Promise<boolean> {
+        const result = await tx.booking.updateMany({
+            where: {
+                id: bookingId,
+                userId: fromUserId,
+                status: BookingStatus.CONFIRMED,
+                isActive: true,
+                usedQuantity: 0,
+                checkedInAt: null,
+            },
+            data: {
+                userId: toUserId,
+                qrCode,
+            },
+        });
+        if (result.count === 0) {
+            return false;
+        }
+
+        // Seat codes and the rotating code secret are issued again on the new owner's next read
+        await tx.bookingSeat.updateMany({
+            where: { bookingId },
+            data: { userId: toUserId, qrCode: null },
+        });
+        await tx.bookingTicketSecret.deleteMany({
+            where: { bookingId },
+        });
+
+        return true;
+    }
+
+    /**
+     * Expire pending transfers whose window has passed
+     */
+    async expireStale(now: Date): Promise<number> {
+        const result = await prisma.bookingTransfer.updateMany({
+            where: {
+                status: BookingTransferStatus.PENDING,
+                expiresAt: { lte: now },
+            },
+            data: {
+                status: BookingTransferStatus.EXPIRED,
+                respondedAt: now,
+            },
+        });
+        return result.count;
+    }
+}
+
+export const bookingTransferRepository = new BookingTransferRepository();
@@ -1,7 +1,120 @@
-import { Booking, BookingStatus, SectionPosition, ZoneType } from '@prisma/client';
+import { Booking, BookingStatus, SeatsSessionStatus } from '@prisma/client';
 
 import { createPaginatedResponse, PaginatedResponse } from '../utils/pagination.util';
 import { prisma } from '../utils/prisma.client';
+import { promoCodeRepository } from './promo-code.repository';
+import { scheduleRepository } from './schedule.repository';
+
+/**
+ * Seat to book with the zone/section snapshot stored on its BookingSeat
+ * price and pricingRuleId record what the seat was charged and which pricing rule produced it
+ */
+export interface BookingSeatSnapshot {
+    seatId: string;
+    zoneCode: string;
+    zoneName: any;
+    sectionCode: string;
+    sectionName: any;
+    rowNumber: number;
+    seatNumber: number;
+    price?: number;
+    pricingRuleId?: string | null;
+    ticketTypeId?: string | null;
+}
+
+/**
+ * Ticket line stored on a booking (one per ticket type bought)
+ * name is the ticket type name at booking time
+ */
+export interface BookingLineItem {
+    ticketTypeId: string | null;
+    name: any;
+    quantity: number;
+    admitCount: number;
+    unitPrice: number;
+    totalPrice: number;
+    pricingRuleId: string | null;
+}
+
+/**
+ * Booking line items in a booking create
+ */
+export const bookingItemsCreate = (items?: BookingLineItem[]) =>
+    items && items.length > 0 ? { bookingItems: { create: items } } : {};
+
+/**
+ * Booking line items returned with booking details
+ */
+const bookingItemsSelect = {
+    select: {
+        id: true,
+        ticketTypeId: true,
+        name: true,
+        quantity: true,
+        admitCount: true,
+        unitPrice: true,
+        totalPrice: true,
+        pricingRuleId: true,
+    },
+    orderBy: { createdAt: 'asc' as const },
+};
+
+/**
+ * Booking details a gate check-in shows (holder, schedule, ticket types and seats)
+ */
+const checkInDetailsInclude = {
+    event: {
+        select: {
+            id: true,
+            name: true,
+            eventSlug: true,
+            locationId: true,
+            reEntryPolicy: true,
+            maxReEntries: true,
+        },
+    },
+    schedule: {
+        select: {
+            id: true,
+            startAt: true,
+            endAt: true,
+        },
+    },
+    user: {
+        select: {
+            id: true,
+            name: true,
+            phoneNumber: true,
+        },
+    },
+    bookingItems: bookingItemsSelect,
+    bookingSeats: {
+        select: {
+            id: true,
+            zoneCode: true,
+            zoneName: true,
+            sectionCode: true,
+            sectionName: true,
+            rowNumberSnapshot: true,
+            seatNumberSnapshot: true,
+            admittedAt: true,
+            isInside: true,
+            seat: {
+                select: {
+                    id: true,
+                    seatLabel: true,
+                },
+            },
+        },
+        // Seat order, in which a group scan admits seats
+        orderBy: [
+            { zoneCode: 'asc' },
+            { sectionCode: 'asc' },
+            { rowNumberSnapshot: 'asc' },
+            { seatNumberSnapshot: 'asc' },
+        ],
+    },
+};
 
 export class BookingRepository {
     /**
@@ -114,6 +227,7 @@ export class BookingRepository {
         bookingNumber: string;
         userId: string;
         eventId: string;
+        scheduleId?: string;
         quantity: number;
         unitPrice: number;
         totalPrice: number;
@@ -123,12 +237,88 @@ export class BookingRepository {
         paymentMethodId?: string;
         cartId?: string;
         cartItemId?: string;
-    }): Promise<Booking> {
-        return await prisma.booking.create({
-            data,
+        pricingRuleId?: string | null;
+        discountAmount?: number;
+        promoRedemptionId?: string | null;
+        items?: BookingLineItem[];
+    }, tx: any = prisma): Promise<Booking> {
+        const { items, ...booking } = data;
+
+        return await tx.booking.create({
+            data: {
+                ...booking,
+                ...bookingItemsCreate(items),
+            },
         });
     }
 
+    /**
+     * Create booking with seat reservations from a seat-selection session
+     * Runs in the checkout transaction that claimed the session (see SessionRepository.claimForCheckout)
+     */
+    async createBookingWithSeatsFromSession(data: {
+        bookingNumber: string;
+        userId: string;
+        eventId: string;
+        scheduleId: string;
+        quantity: number;
+        unitPrice: number;
+        totalPrice: number;
+        currency: string;
+        status: BookingStatus;
+        transactionId: string;
+        paymentMethodId: string;
+        pricingRuleId?: string | null;
+        discountAmount?: number;
+        promoRedemptionId?: string | null;
+        items?: BookingLineItem[];
+        seats: BookingSeatSnapshot[];
+    }, tx: any): Promise<Booking> {
+        // Create booking
+        const booking = await tx.booking.create({
+            data: {
+                bookingNumber: data.bookingNumber,
+                userId: data.userId,
+                eventId: data.eventId,
+                scheduleId: data.scheduleId,
+                quantity: data.quantity,
+                unitPrice: data.unitPrice,
+                totalPrice: data.totalPrice,
+                currency: data.currency,
+                status: data.status,
+                transactionId: data.transactionId,
+                paymentMethodId: data.paymentMethodId,
+                pricingRuleId: data.pricingRuleId ?? null,
+                discountAmount: data.discountAmount ?? 0,
+                promoRedemptionId: data.promoRedemptionId ?? null,
+                ...bookingItemsCreate(data.items),
+            },
+        });
+
+        // Create booking seats (unique scheduleId+seatId rejects double booking)
+        await tx.bookingSeat.createMany({
+            data: data.seats.map((seat) => ({
+                seatId: seat.seatId,
+                scheduleId: data.scheduleId,
+                userId: data.userId,
+                bookingId: booking.id,
+                isAdminLocked: false,
+                isReserved: true,
+                zoneCode: seat.zoneCode,
+                zoneName: seat.zoneName,
+                sectionCode: seat.sectionCode,
+                sectionName: seat.sectionName,
+                rowNumberSnapshot: seat.rowNumber,
+                seatNumberSnapshot: seat.seatNumber,
+                price: seat.price ?? null,
+                pricingRuleId: seat.pricingRuleId ?? null,
+                ticketTypeId: seat.ticketTypeId ?? null,
+            })),
+        });
+
+        return booking;
+    }
+
     /**
      * Find booking by ID with all details
      */
@@ -205,6 +395,33 @@ export class BookingRepository {
                         phoneNumber: true,
                     },
                 },
+                schedule: {
+                    select: {
+                        id: true,
+                        startAt: true,
+                        endAt: true,
+                    },
+                },
+                bookingItems: bookingItemsSelect,
+                bookingSeats: {
+                    select: {
+                        id: true,
+                        zoneCode: true,
+                        zoneName: true,
+                        sectionCode: true,
+                        sectionName: true,
+                        rowNumberSnapshot: true,
+                        seatNumberSnapshot: true,
+                        qrCode: true,
+                        admittedAt: true,
+                        seat: {
+                            select: {
+                                id: true,
+                                seatLabel: true,
+                            },
+                        },
+                    },
+                },
             },
         });
     }
@@ -228,6 +445,7 @@ export class BookingRepository {
         filters?: {
             status?: BookingStatus;
             eventId?: string;
+            scheduleId?: string;
             startDate?: Date;
             endDate?: Date;
         }
@@ -247,6 +465,10 @@ export class BookingRepository {
             where.eventId = filters.eventId;
         }
 
+        if (filters?.scheduleId) {
+            where.scheduleId = filters.scheduleId;
+        }
+
         // Date range filter (by booking creation date)
         if (filters?.startDate || filters?.endDate) {
             where.createdAt = {};
@@ -291,6 +513,14 @@ export class BookingRepository {
                             },
                         },
                     },
+                    schedule: {
+                        select: {
+                            id: true,
+                            startAt: true,
+                            endAt: true,
+                        },
+                    },
+                    bookingItems: bookingItemsSelect,
                     paymentMethod: {
                         select: {
                             id: true,
@@ -306,21 +536,267 @@ export class BookingRepository {
     }
 
     /**
-     * Update booking used quantity
+     * Set the QR code of a booking that has none yet
+     * Returns false when another request issued one first
+     */
+    async setQrCodeIfMissing(bookingId: string, qrCode: string): Promise<boolean> {
+        const result = await prisma.booking.updateMany({
+            where: { id: bookingId, qrCode: null },
+            data: { qrCode },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Find booking by its QR code with what a gate check-in shows
+     */
+    async findByQrCode(qrCode: string) {
+        return await prisma.booking.findUnique({
+            where: { qrCode },
+            include: checkInDetailsInclude,
+        });
+    }
+
+    /**
+     * Find booking by ID with what a gate check-in shows
      */
-    async updateUsedQuantity(
+    async findForCheckIn(bookingId: string) {
+        return await prisma.booking.findUnique({
+            where: { id: bookingId },
+            include: checkInDetailsInclude,
+        });
+    }
+
+    /**
+     * Set the QR code of a booking seat that has none yet
+     * Returns false when another request issued one first
+     */
+    async setSeatQrCodeIfMissing(bookingSeatId: string, qrCode: string): Promise<boolean> {
+        const result = await prisma.bookingSeat.updateMany({
+            where: { id: bookingSeatId, qrCode: null },
+            data: { qrCode },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Find the QR code of a booking seat
+     */
+    async findSeatQrCode(bookingSeatId: string): Promise<string | null> {
+        const seat = await prisma.bookingSeat.findUnique({
+            where: { id: bookingSeatId },
+            select: { qrCode: true },
+        });
+        return seat?.qrCode ?? null;
+    }
+
+    /**
+     * Store the rotating code secret of a booking that has none yet
+     * The booking gets the new static QR code and its seat codes are cleared (issued again on the
+     * next read), so copies of the codes shown before stop working.
+     * Returns false when another request stored one first
+     */
+    async createTicketSecretIfMissing(bookingId: string, secret: string, qrCode: string): Promise<boolean> {
+        return await prisma.$transaction(async (tx: any) => {
+            const result = await tx.bookingTicketSecret.createMany({
+                data: [{ bookingId, secret }],
+                skipDuplicates: true,
+            });
+            if (result.count === 0) {
+                return false;
+            }
+
+            await tx.booking.update({
+                where: { id: bookingId },
+                data: { qrCode },
+            });
+            await tx.bookingSeat.updateMany({
+                where: { bookingId },
+                data: { qrCode: null },
+            });
+
+            return true;
+        });
+    }
+
+    /**
+     * Find the rotating code secret of a booking
+     */
+    async findTicketSecret(bookingId: string): Promise<string | null> {
+        const ticketSecret = await prisma.bookingTicketSecret.findUnique({
+            where: { bookingId },
+            select: { secret: true },
+        });
+        return ticketSecret?.secret ?? null;
+    }
+
+    /**
+     * Find which of the given bookings have a rotating code secret
+     */
+    async findIdsWithTicketSecret(bookingIds: string[]): Promise<string[]> {
+        const ticketSecrets = await prisma.bookingTicketSecret.findMany({
+            where: { bookingId: { in: bookingIds } },
+            select: { bookingId: true },
+        });
+        return ticketSecrets.map((ticketSecret: { bookingId: string }) => ticketSecret.bookingId);
+    }
+
+    /**
+     * Find the booking of a seat QR code with what a gate check-in shows
+     */
+    async findBySeatQrCode(qrCode: string) {
+        return await prisma.booking.findFirst({
+            where: {
+                bookingSeats: {
+                    some: { qrCode },
+                },
+            },
+            include: checkInDetailsInclude,
+        });
+    }
+
+    /**
+     * Mark seats of a booking as admitted (and inside) by a check-in
+     * Only seats not admitted yet are updated; returns how many were
+     */
+    async admitSeats(bookingSeatIds: string[], checkInId: string, admittedAt: Date, tx: any = prisma): Promise<number> {
+        const result = await tx.bookingSeat.updateMany({
+            where: {
+                id: { in: bookingSeatIds },
+                admittedAt: null,
+            },
+            data: {
+                admittedAt,
+                checkInId,
+                isInside: true,
+            },
+        });
+        return result.count;
+    }
+
+    /**
+     * Mark admitted seats as inside or out after a re-entry or exit scan
+     * Only seats not already in that state are updated; returns how many were
+     */
+    async setSeatsInside(bookingSeatIds: string[], isInside: boolean, tx: any = prisma): Promise<number> {
+        const result = await tx.bookingSeat.updateMany({
+            where: {
+                id: { in: bookingSeatIds },
+                admittedAt: { not: null },
+                isInside: !isInside,
+            },
+            data: { isInside },
+        });
+        return result.count;
+    }
+
+    /**
+     * Find the bookings of a schedule a gate could still see (paid, possibly already used)
+     */
+    async findForManifest(scheduleId: string) {
+        return await prisma.booking.findMany({
+            where: {
+                scheduleId,
+                isActive: true,
+                status: { in: [BookingStatus.CONFIRMED, BookingStatus.COMPLETED] },
+            },
+            orderBy: {
+                createdAt: 'asc',
+            },
+            select: {
+                id: true,
+                bookingNumber: true,
+                scheduleId: true,
+                status: true,
+                quantity: true,
+                usedQuantity: true,
+                insideQuantity: true,
+                reEntryCount: true,
+                qrCode: true,
+                user: {
+                    select: {
+                        name: true,
+                    },
+                },
+                bookingItems: {
+                    select: {
+                        name: true,
+                        quantity: true,
+                    },
+                },
+                bookingSeats: {
+                    select: {
+                        id: true,
+                        zoneCode: true,
+                        sectionCode: true,
+                        rowNumberSnapshot: true,
+                        seatNumberSnapshot: true,
+                        qrCode: true,
+                        admittedAt: true,
+                        isInside: true,
+                    },
+                },
+                ticketSecret: {
+                    select: {
+                        bookingId: true,
+                    },
+                },
+            },
+        });
+    }
+
+    /**
+     * Admit people on a confirmed booking
+     * Only applies while usedQuantity is still the value the caller read, so two gates
+     * scanning the same ticket at once cannot both admit the last entries
+     */
+    async recordAdmission(
         bookingId: string,
+        expectedUsedQuantity: number,
         usedQuantity: number,
-        status?: BookingStatus
-    ): Promise<Booking> {
-        return await prisma.booking.update({
-            where: { id: bookingId },
+        status: BookingStatus,
+        checkedInAt: Date,
+        tx: any = prisma
+    ): Promise<boolean> {
+        const result = await tx.booking.updateMany({
+            where: {
+                id: bookingId,
+                status: BookingStatus.CONFIRMED,
+                usedQuantity: expectedUsedQuantity,
+            },
             data: {
                 usedQuantity,
-                ...(status && { status }),
-                updatedAt: new Date(),
+                status,
+                checkedInAt,
+                insideQuantity: { increment: usedQuantity - expectedUsedQuantity },
+            },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Record people leaving or coming back in on an admitted booking
+     * Only applies while insideQuantity is still the value the caller read
+     */
+    async recordPresence(
+        bookingId: string,
+        expectedInsideQuantity: number,
+        insideQuantity: number,
+        reEntries: number,
+        tx: any = prisma
+    ): Promise<boolean> {
+        const result = await tx.booking.updateMany({
+            where: {
+                id: bookingId,
+                status: { in: [BookingStatus.CONFIRMED, BookingStatus.COMPLETED] },
+                insideQuantity: expectedInsideQuantity,
+            },
+            data: {
+                insideQuantity,
+                reEntryCount: { increment: reEntries },
             },
         });
+        return result.count > 0;
     }
 
     /**
@@ -389,8 +865,8 @@ export class BookingRepository {
         isAdminBooking: boolean;
         bookedByAdminId: string;
         scheduleId?: string;
-    }): Promise<Booking> {
-        return await prisma.booking.create({
+    }, tx: any = prisma): Promise<Booking> {
+        return await tx.booking.create({
             data,
         });
     }
@@ -410,13 +886,7 @@ export class BookingRepository {
         status: BookingStatus;
         isAdminBooking: boolean;
         bookedByAdminId: string;
-        seats: Array<{
-            seatId: string;
-            zoneType: ZoneType;
-            sectionPosition: SectionPosition;
-            rowNumber: number;
-            seatNumber: number;
-        }>;
+        seats: BookingSeatSnapshot[];
     }): Promise<Booking> {
         return await prisma.$transaction(async (tx: any) => {
             // Create booking
@@ -445,10 +915,14 @@ export class BookingRepository {
                     bookingId: booking.id,
                     isAdminLocked: true,
                     isReserved: true,
-                    zoneType: seat.zoneType,
-                    sectionPosition: seat.sectionPosition,
+                    zoneCode: seat.zoneCode,
+                    zoneName: seat.zoneName,
+                    sectionCode: seat.sectionCode,
+                    sectionName: seat.sectionName,
                     rowNumberSnapshot: seat.rowNumber,
                     seatNumberSnapshot: seat.seatNumber,
+                    price: seat.price ?? null,
+                    pricingRuleId: seat.pricingRuleId ?? null,
                 })),
             });
 
@@ -457,11 +931,13 @@ export class BookingRepository {
     }
 
     /**
-     * Check if seats are already reserved for a schedule
+     * Check if seats are blocked, already reserved or held by an active session for a schedule
+     * Holds belonging to excludeSessionId (the session being checked out) are ignored
      */
     async checkSeatsAvailability(
         seatIds: string[],
-        scheduleId: string
+        scheduleId: string,
+        excludeSessionId?: string
     ): Promise<{ available: boolean; reservedSeats: string[] }> {
         const reservedSeats = await prisma.bookingSeat.findMany({
             where: {
@@ -479,9 +955,44 @@ export class BookingRepository {
             },
         });
 
+        const heldSeats = await prisma.seatsSession.findMany({
+            where: {
+                seatId: { in: seatIds },
+                scheduleId,
+                ...(excludeSessionId && { sessionId: { not: excludeSessionId } }),
+                session: {
+                    status: SeatsSessionStatus.PENDING,
+                    expiresAt: { gt: new Date() },
+                },
+            },
+            select: {
+                seatId: true,
+                seat: {
+                    select: {
+                        seatLabel: true,
+                    },
+                },
+            },
+        });
+
+        const blockedSeats = await prisma.locationSeat.findMany({
+            where: {
+                id: { in: seatIds },
+                isBlocked: true,
+            },
+            select: {
+                id: true,
+                seatLabel: true,
+            },
+        });
+
+        const unavailableSeats = new Map<string, string>();
+        [...reservedSeats, ...heldSeats].forEach((s: any) => unavailableSeats.set(s.seatId, s.seat.seatLabel));
+        blockedSeats.forEach((s: { id: string; seatLabel: string }) => unavailableSeats.set(s.id, s.seatLabel));
+
         return {
-            available: reservedSeats.length === 0,
-            reservedSeats: reservedSeats.map((s: any) => s.seat.seatLabel),
+            available: unavailableSeats.size === 0,
+            reservedSeats: Array.from(unavailableSeats.values()),
         };
     }
 
@@ -498,13 +1009,12 @@ export class BookingRepository {
                 rowNumber: number;
                 section: {
                     id: string;
-                    position: SectionPosition;
+                    code: string;
+                    name: any;
                     locationZone: {
                         id: string;
-                        zone: {
-                            id: string;
-                            type: ZoneType;
-                        };
+                        code: string;
+                        name: any;
                     };
                 };
             };
@@ -513,6 +1023,7 @@ export class BookingRepository {
         return await prisma.locationSeat.findMany({
             where: {
                 id: { in: seatIds },
+                retiredAt: null,
             },
             select: {
                 id: true,
@@ -525,16 +1036,13 @@ export class BookingRepository {
                         section: {
                             select: {
                                 id: true,
-                                position: true,
+                                code: true,
+                                name: true,
                                 locationZone: {
                                     select: {
                                         id: true,
-                                        zone: {
-                                            select: {
-                                                id: true,
-                                                type: true,
-                                            },
-                                        },
+                                        code: true,
+                                        name: true,
                                     },
                                 },
                             },
@@ -691,8 +1199,10 @@ export class BookingRepository {
                     bookingSeats: {
                         select: {
                             id: true,
-                            zoneType: true,
-                            sectionPosition: true,
+                            zoneCode: true,
+                            zoneName: true,
+                            sectionCode: true,
+                            sectionName: true,
                             rowNumberSnapshot: true,
                             seatNumberSnapshot: true,
                             seat: {
@@ -810,14 +1320,29 @@ export class BookingRepository {
                         },
                     },
                 },
+                bookingItems: bookingItemsSelect,
                 bookingSeats: {
                     select: {
                         id: true,
-                        zoneType: true,
-                        sectionPosition: true,
+                        zoneCode: true,
+                        zoneName: true,
+                        sectionCode: true,
+                        sectionName: true,
                         rowNumberSnapshot: true,
                         seatNumberSnapshot: true,
                         isAdminLocked: true,
+                        price: true,
+                        qrCode: true,
+                        admittedAt: true,
+                        checkInId: true,
+                        pricingRule: {
+                            select: {
+                                id: true,
+                                name: true,
+                                type: true,
+                                adjustmentPercent: true,
+                            },
+                        },
                         seat: {
                             select: {
                                 id: true,
@@ -827,6 +1352,38 @@ export class BookingRepository {
                         },
                     },
                 },
+                pricingRule: {
+                    select: {
+                        id: true,
+                        name: true,
+                        type: true,
+                        adjustmentPercent: true,
+                    },
+                },
+                promoRedemption: {
+                    select: {
+                        id: true,
+                        discountAmount: true,
+                        releasedAt: true,
+                        promoCode: {
+                            select: {
+                                id: true,
+                                code: true,
+                            },
+                        },
+                    },
+                },
+                checkIns: {
+                    orderBy: { createdAt: 'asc' },
+                    include: {
+                        worker: {
+                            select: {
+                                id: true,
+                                name: true,
+                            },
+                        },
+                    },
+                },
             },
         });
 
@@ -853,11 +1410,13 @@ export class BookingRepository {
 
     /**
      * Cancel booking and release seats
+     * General-admission bookings (no seats) give their tickets back to the schedule
+     * and the promo redemption is released once all bookings sharing it are cancelled or refunded
      */
     async cancelBookingWithSeats(
         bookingId: string,
         cancelReason: string
-    ): Promise<Booking> {
+    ): Promise<{ booking: Booking; releasedSeats: Array<{ seatId: string; scheduleId: string }> }> {
         return await prisma.$transaction(async (tx: any) => {
             // Update booking status
             const booking = await tx.booking.update({
@@ -870,10 +1429,48 @@ export class BookingRepository {
             });
 
             // Release all seats associated with this booking
+            const releasedSeats = await tx.bookingSeat.findMany({
+                where: { bookingId },
+                select: { seatId: true, scheduleId: true },
+            });
+
             await tx.bookingSeat.deleteMany({
                 where: { bookingId },
             });
 
+            if (releasedSeats.length === 0 && booking.scheduleId) {
+                await scheduleRepository.releaseCapacity(booking.scheduleId, booking.quantity, tx);
+            }
+
+            await promoCodeRepository.releaseForBookings([bookingId], tx);
+
+            return { booking, releasedSeats };
+        });
+    }
+
+    /**
+     * Mark booking as refunded
+     * General-admission bookings (no seats) give their tickets back to the schedule
+     * and the promo redemption is released once all bookings sharing it are cancelled or refunded
+     */
+    async refundBooking(bookingId: string): Promise<Booking> {
+        return await prisma.$transaction(async (tx: any) => {
+            const booking = await tx.booking.update({
+                where: { id: bookingId },
+                data: { status: 'REFUNDED' },
+                include: {
+                    _count: {
+                        select: { bookingSeats: true },
+                    },
+                },
+            });
+
+            if (booking._count.bookingSeats === 0 && booking.scheduleId) {
+                await scheduleRepository.releaseCapacity(booking.scheduleId, booking.quantity, tx);
+            }
+
+            await promoCodeRepository.releaseForBookings([bookingId], tx);
+
             return booking;
         });
     }
@@ -910,6 +1507,7 @@ export class BookingRepository {
             bookingNumber: string;
             userId: string;
             eventId: string;
+            scheduleId?: string;
             quantity: number;
             unitPrice: number;
             totalPrice: number;
@@ -918,16 +1516,19 @@ export class BookingRepository {
             isAdminBooking: boolean;
             bookedByAdminId: string;
             isPreReserved: boolean;
-        }>
+        }>,
+        tx: any = prisma
     ): Promise<Booking[]> {
-        return await prisma.$transaction(async (tx: any) => {
-            const bookings: Booking[] = [];
-            for (const data of bookingsData) {
-                const booking = await tx.booking.create({ data });
-                bookings.push(booking);
-            }
-            return bookings;
-        });
+        if (tx === prisma) {
+            return await prisma.$transaction((innerTx: any) => this.createBulkPreReservedBookings(bookingsData, innerTx));
+        }
+
+        const bookings: Booking[] = [];
+        for (const data of bookingsData) {
+            const booking = await tx.booking.create({ data });
+            bookings.push(booking);
+        }
+        return bookings;
     }
 
     /**
@@ -946,13 +1547,7 @@ export class BookingRepository {
         isAdminBooking: boolean;
         bookedByAdminId: string;
         isPreReserved: boolean;
-        seat: {
-            seatId: string;
-            zoneType: ZoneType;
-            sectionPosition: SectionPosition;
-            rowNumber: number;
-            seatNumber: number;
-        };
+        seat: BookingSeatSnapshot;
     }): Promise<Booking> {
         return await prisma.$transaction(async (tx: any) => {
             // Create booking
@@ -982,10 +1577,14 @@ export class BookingRepository {
                     bookingId: booking.id,
                     isAdminLocked: true,
                     isReserved: true,
-                    zoneType: data.seat.zoneType,
-                    sectionPosition: data.seat.sectionPosition,
+                    zoneCode: data.seat.zoneCode,
+                    zoneName: data.seat.zoneName,
+                    sectionCode: data.seat.sectionCode,
+                    sectionName: data.seat.sectionName,
                     rowNumberSnapshot: data.seat.rowNumber,
                     seatNumberSnapshot: data.seat.seatNumber,
+                    price: data.seat.price ?? null,
+                    pricingRuleId: data.seat.pricingRuleId ?? null,
                 },
             });
 
@@ -995,11 +1594,13 @@ export class BookingRepository {
 
     /**
      * Assign booking to a user (transfer from guest user)
+     * The booking gets the new QR code qrCode, so codes printed or shared for the guest stop working.
      * Returns the previous guest user ID for cleanup
      */
     async assignBookingToUser(
         bookingId: string,
-        newUserId: string
+        newUserId: string,
+        qrCode: string
     ): Promise<{ booking: Booking; previousUserId: string }> {
         return await prisma.$transaction(async (tx: any) => {
             // Get current booking
@@ -1019,14 +1620,20 @@ export class BookingRepository {
                 where: { id: bookingId },
                 data: {
                     userId: newUserId,
+                    qrCode,
                     isPreReserved: false, // No longer pre-reserved after assignment
                 },
             });
 
-            // Update booking seats if any
+            // Update booking seats if any; their codes are issued again on the new holder's next read
             await tx.bookingSeat.updateMany({
                 where: { bookingId },
-                data: { userId: newUserId },
+                data: { userId: newUserId, qrCode: null },
+            });
+
+            // Rotating codes of the previous holder stop working; the new holder gets a new secret
+            await tx.bookingTicketSecret.deleteMany({
+                where: { bookingId },
             });
 
             return { booking, previousUserId };
@@ -1091,6 +1698,63 @@ export class BookingRepository {
             data: { name },
         });
     }
+
+    /**
+     * Tickets sold, admitted and inside, and re-entries, on the paid bookings of a schedule
+     */
+    async getAdmissionTotals(scheduleId: string) {
+        const where = {
+            scheduleId,
+            isActive: true,
+            status: { in: [BookingStatus.CONFIRMED, BookingStatus.COMPLETED] },
+        };
+
+        const [totals, arrivedBookings] = await Promise.all([
+            prisma.booking.aggregate({
+                where,
+                _count: { _all: true },
+                _sum: { quantity: true, usedQuantity: true, insideQuantity: true, reEntryCount: true },
+            }),
+            prisma.booking.count({
+                where: { ...where, checkedInAt: { not: null } },
+            }),
+        ]);
+
+        return {
+            bookings: totals._count._all as number,
+            arrivedBookings: arrivedBookings as number,
+            sold: (totals._sum.quantity ?? 0) as number,
+            admitted: (totals._sum.usedQuantity ?? 0) as number,
+            inside: (totals._sum.insideQuantity ?? 0) as number,
+            reEntries: (totals._sum.reEntryCount ?? 0) as number,
+        };
+    }
+
+    /**
+     * Seats sold and admitted per zone on the paid bookings of a schedule
+     */
+    async getZoneAdmissions(scheduleId: string): Promise<Array<{ zoneCode: string; seats: number; admitted: number }>> {
+        const zones = await prisma.$queryRaw<Array<{ zoneCode: string; seats: bigint; admitted: bigint }>>`
+            SELECT
+                bs."zoneCode" AS "zoneCode",
+                COUNT(*) AS seats,
+                COUNT(bs."admittedAt") AS admitted
+            FROM booking_seats bs
+            JOIN bookings b ON b.id = bs."bookingId"
+            WHERE bs."scheduleId" = ${scheduleId}
+                AND bs."isReserved" = true
+                AND b."isActive" = true
+                AND b.status IN ('CONFIRMED', 'COMPLETED')
+            GROUP BY bs."zoneCode"
+            ORDER BY bs."zoneCode"
+        `;
+
+        return zones.map((zone: { zoneCode: string; seats: bigint; admitted: bigint }) => ({
+            zoneCode: zone.zoneCode,
+            seats: Number(zone.seats),
+            admitted: Number(zone.admitted),
+        }));
+    }
 }
 
 export default new BookingRepository();
@@ -2,6 +2,36 @@ import { CartStatus } from '@prisma/client';
 
 import { prisma } from '../utils/prisma.client';
 
+/**
+ * Ticket types chosen for a cart item
+ */
+const cartItemTicketsInclude = {
+    include: {
+        ticketType: {
+            select: {
+                id: true,
+                name: true,
+                originalPrice: true,
+                discountedPrice: true,
+                admitCount: true,
+            },
+        },
+    },
+};
+
+/**
+ * Promo code applied to a cart
+ */
+const cartPromoCodeSelect = {
+    select: {
+        id: true,
+        code: true,
+        description: true,
+        discountType: true,
+        discountValue: true,
+    },
+};
+
 export class CartRepository {
     /**
      * Find user's active cart with all items and event details
@@ -33,8 +63,17 @@ export class CartRepository {
                                 location: true,
                             },
                         },
+                        schedule: {
+                            select: {
+                                id: true,
+                                startAt: true,
+                                endAt: true,
+                            },
+                        },
+                        tickets: cartItemTicketsInclude,
                     },
                 },
+                promoCode: cartPromoCodeSelect,
             },
         });
     }
@@ -66,8 +105,17 @@ export class CartRepository {
                                 location: true,
                             },
                         },
+                        schedule: {
+                            select: {
+                                id: true,
+                                startAt: true,
+                                endAt: true,
+                            },
+                        },
+                        tickets: cartItemTicketsInclude,
                     },
                 },
+                promoCode: cartPromoCodeSelect,
             },
         });
     }
@@ -93,15 +141,14 @@ export class CartRepository {
     }
 
     /**
-     * Find cart item by cart and event ID
+     * Find cart item by cart, event and schedule ID
      */
-    async findCartItem(cartId: string, eventId: string) {
-        return await prisma.cartItem.findUnique({
+    async findCartItem(cartId: string, eventId: string, scheduleId: string | null) {
+        return await prisma.cartItem.findFirst({
             where: {
-                cartId_eventId: {
-                    cartId,
-                    eventId,
-                },
+                cartId,
+                eventId,
+                scheduleId,
             },
         });
     }
@@ -115,31 +162,71 @@ export class CartRepository {
             include: {
                 cart: true,
                 event: true,
+                tickets: true,
             },
         });
     }
 
     /**
-     * Add item to cart (or replace quantity if exists)
+     * Add item to cart (or replace quantity if exists for the same schedule)
+     * Chosen ticket types replace the ones the item had
      */
-    async addItemToCart(cartId: string, eventId: string, quantity: number) {
-        return await prisma.cartItem.upsert({
-            where: {
-                cartId_eventId: {
+    async addItemToCart(
+        cartId: string,
+        eventId: string,
+        scheduleId: string | null,
+        quantity: number,
+        tickets: Array<{ ticketTypeId: string; quantity: number }> = []
+    ) {
+        let item;
+        if (scheduleId) {
+            item = await prisma.cartItem.upsert({
+                where: {
+                    cartId_eventId_scheduleId: {
+                        cartId,
+                        eventId,
+                        scheduleId,
+                    },
+                },
+                update: {
+                    quantity,
+                    updatedAt: new Date(),
+                },
+                create: {
                     cartId,
                     eventId,
+                    scheduleId,
+                    quantity,
                 },
-            },
-            update: {
-                quantity,
-                updatedAt: new Date(),
-            },
-            create: {
-                cartId,
-                eventId,
-                quantity,
-            },
-        });
+            });
+        } else {
+            // Items without a schedule are not covered by the unique constraint
+            const existingItem = await this.findCartItem(cartId, eventId, null);
+            item = existingItem
+                ? await this.updateCartItemQuantity(existingItem.id, quantity)
+                : await prisma.cartItem.create({
+                    data: {
+                        cartId,
+                        eventId,
+                        quantity,
+                    },
+                });
+        }
+
+        await prisma.$transaction([
+            prisma.cartItemTicket.deleteMany({
+                where: { cartItemId: item.id },
+            }),
+            prisma.cartItemTicket.createMany({
+                data: tickets.map((ticket) => ({
+                    cartItemId: item.id,
+                    ticketTypeId: ticket.ticketTypeId,
+                    quantity: ticket.quantity,
+                })),
+            }),
+        ]);
+
+        return item;
     }
 
     /**
@@ -178,6 +265,30 @@ export class CartRepository {
         });
     }
 
+    /**
+     * Get the promo code applied to a cart
+     */
+    async getCartPromoCode(cartId: string) {
+        const cart = await prisma.cart.findUnique({
+            where: { id: cartId },
+            select: { promoCode: cartPromoCodeSelect },
+        });
+        return cart?.promoCode ?? null;
+    }
+
+    /**
+     * Apply a promo code to a cart (null removes it)
+     */
+    async setPromoCode(cartId: string, promoCodeId: string | null) {
+        return await prisma.cart.update({
+            where: { id: cartId },
+            data: {
+                promoCodeId,
+                updatedAt: new Date(),
+            },
+        });
+    }
+
     /**
      * Get all cart items for a cart
      */
@@ -186,6 +297,16 @@ export class CartRepository {
             where: { cartId },
             include: {
                 event: true,
+                schedule: {
+                    select: {
+                        id: true,
+                        startAt: true,
+                        endAt: true,
+                        capacity: true,
+                        soldQuantity: true,
+                    },
+                },
+                tickets: cartItemTicketsInclude,
             },
         });
     }
@@ -205,15 +326,13 @@ export class CartRepository {
     }
 
     /**
-     * Check if event is already in cart
+     * Check if event is already in cart (for any schedule)
      */
     async isEventInCart(cartId: string, eventId: string): Promise<boolean> {
-        const item = await prisma.cartItem.findUnique({
+        const item = await prisma.cartItem.findFirst({
             where: {
-                cartId_eventId: {
-                    cartId,
-                    eventId,
-                },
+                cartId,
+                eventId,
             },
         });
         return !!item;
@@ -229,18 +348,53 @@ export class CartRepository {
     }
 
     /**
-     * Delete all expired cart items (where event has ended)
+     * Delete all expired cart items (where event or schedule has ended)
+     * Items that can no longer be bought as chosen are removed too: a chosen ticket type was
+     * deactivated, or the event started selling ticket types after the item was added
      */
     async deleteExpiredCartItems(cartId: string) {
         const now = new Date();
         return await prisma.cartItem.deleteMany({
             where: {
                 cartId,
-                event: {
-                    endAt: {
-                        lt: now,
+                OR: [
+                    {
+                        event: {
+                            endAt: {
+                                lt: now,
+                            },
+                        },
                     },
-                },
+                    {
+                        schedule: {
+                            endAt: {
+                                lt: now,
+                            },
+                        },
+                    },
+                    {
+                        tickets: {
+                            some: {
+                                ticketType: {
+                                    active: false,
+                                },
+                            },
+                        },
+                    },
+                    {
+                        tickets: {
+                            none: {},
+                        },
+                        event: {
+                            haveSeats: false,
+                            ticketTypes: {
+                                some: {
+                                    active: true,
+                                },
+                            },
+                        },
+                    },
+                ],
             },
         });
     }
@@ -0,0 +1,109 @@
+import { CheckIn, CheckInDirection, CheckInMethod } from '@prisma/client';
+
+import { prisma } from '../utils/prisma.client';
+
+export class CheckInRepository {
+    /**
+     * Record an admission at the gate
+     */
+    async create(
+        data: {
+            bookingId: string;
+            scheduleId: string;
+            workerId: string;
+            quantity: number;
+            method: CheckInMethod;
+            direction?: CheckInDirection;
+            isReEntry?: boolean;
+            locationGateId?: string | null;
+            deviceId?: string | null;
+            scannedAt?: Date;
+            clientScanId?: string | null;
+        },
+        tx: any = prisma
+    ): Promise<CheckIn> {
+        return await tx.checkIn.create({ data });
+    }
+
+    /**
+     * Find the check-ins a device already synced for some of its scan IDs
+     */
+    async findByClientScanIds(deviceId: string, clientScanIds: string[]): Promise<CheckIn[]> {
+        return await prisma.checkIn.findMany({
+            where: {
+                deviceId,
+                clientScanId: { in: clientScanIds },
+            },
+        });
+    }
+
+    /**
+     * Find the latest admission of a booking (to explain a conflicting scan)
+     */
+    async findLatestByBookingId(bookingId: string): Promise<CheckIn | null> {
+        return await prisma.checkIn.findFirst({
+            where: { bookingId },
+            orderBy: { scannedAt: 'desc' },
+        });
+    }
+
+    /**
+     * People admitted to a schedule per device and per worker (first admissions only),
+     * and people let in and out per gate and direction
+     */
+    async getScheduleBreakdown(scheduleId: string) {
+        const admissions = { scheduleId, direction: CheckInDirection.IN, isReEntry: false };
+
+        const [byDevice, byWorker, byGate] = await Promise.all([
+            prisma.checkIn.groupBy({
+                by: ['deviceId'],
+                where: admissions,
+                _count: { _all: true },
+                _sum: { quantity: true },
+                _max: { scannedAt: true },
+            }),
+            prisma.checkIn.groupBy({
+                by: ['workerId'],
+                where: admissions,
+                _count: { _all: true },
+                _sum: { quantity: true },
+                _max: { scannedAt: true },
+            }),
+            prisma.checkIn.groupBy({
+                by: ['locationGateId', 'direction', 'isReEntry'],
+                where: { scheduleId },
+                _count: { _all: true },
+                _sum: { quantity: true },
+                _max: { scannedAt: true },
+            }),
+        ]);
+
+        return { byDevice, byWorker, byGate };
+    }
+
+    /**
+     * People admitted to a schedule for the first time per minute since a time
+     * (minutes without admissions are left out)
+     */
+    async getAdmissionsPerMinute(scheduleId: string, since: Date): Promise<Array<{ minute: Date; admitted: number }>> {
+        const minutes = await prisma.$queryRaw<Array<{ minute: Date; admitted: bigint }>>`
+            SELECT
+                date_trunc('minute', "scannedAt") AS minute,
+                SUM(quantity) AS admitted
+            FROM check_ins
+            WHERE "scheduleId" = ${scheduleId}
+                AND "scannedAt" >= ${since}
+                AND direction = 'IN'
+                AND "isReEntry" = false
+            GROUP BY 1
+            ORDER BY 1
+        `;
+
+        return minutes.map((row: { minute: Date; admitted: bigint }) => ({
+            minute: row.minute,
+            admitted: Number(row.admitted),
+        }));
+    }
+}
+
+export const checkInRepository = new CheckInRepository();
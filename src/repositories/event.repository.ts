@@ -1,3 +1,5 @@
+import { ReEntryPolicy } from '@prisma/client';
+
 import { createPaginatedResponse, PaginatedResponse } from '../utils/pagination.util';
 import { prisma } from '../utils/prisma.client';
 
@@ -12,6 +14,8 @@ export class EventRepository {
         startAt: Date;
         endAt: Date;
         haveSeats?: boolean;
+        reEntryPolicy?: ReEntryPolicy;
+        maxReEntries?: number;
         originalPrice?: number;
         discountedPrice?: number;
         locationId: string;
@@ -78,6 +82,10 @@ export class EventRepository {
                         },
                     },
                 },
+                ticketTypes: {
+                    where: { active: true },
+                    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+                },
             } : undefined,
         });
     }
@@ -139,6 +147,10 @@ export class EventRepository {
                         },
                     },
                 },
+                ticketTypes: {
+                    where: { active: true },
+                    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+                },
             } : undefined,
         });
     }
@@ -310,6 +322,8 @@ export class EventRepository {
             startAt?: Date;
             endAt?: Date;
             haveSeats?: boolean;
+            reEntryPolicy?: ReEntryPolicy;
+            maxReEntries?: number | null;
             originalPrice?: number | null;
             discountedPrice?: number | null;
             locationId?: string;
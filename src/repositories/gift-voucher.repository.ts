@@ -0,0 +1,451 @@
+import { GiftVoucher, GiftVoucherBatch, GiftVoucherStatus, Prisma, Transaction, Wallet } from '@prisma/client';
+
+import { createPaginatedResponse, PaginatedResponse } from '../utils/pagination.util';
+import { prisma } from '../utils/prisma.client';
+
+/**
+ * Transaction channel of wallet deposits made by redeeming a gift voucher,
+ * and of wallet payments for buying one
+ */
+export const GIFT_VOUCHER_CHANNEL = 'GIFT_VOUCHER';
+
+const redeemedBySelect = {
+    select: {
+        id: true,
+        name: true,
+        email: true,
+        phoneNumber: true,
+    },
+};
+
+const batchSelect = {
+    select: {
+        id: true,
+        name: true,
+        clientName: true,
+    },
+};
+
+export class GiftVoucherRepository {
+    /**
+     * Create a single gift voucher
+     */
+    async create(data: Prisma.GiftVoucherUncheckedCreateInput): Promise<GiftVoucher> {
+        return await prisma.giftVoucher.create({ data });
+    }
+
+    /**
+     * Create a batch and its vouchers in one transaction
+     */
+    async createBatch(
+        batch: { name: string; clientName: string | null; notes: string | null; createdBy: string | null },
+        vouchers: Array<Omit<Prisma.GiftVoucherCreateManyInput, 'batchId'>>
+    ): Promise<GiftVoucherBatch> {
+        return await prisma.$transaction(async (tx: any) => {
+            const created = await tx.giftVoucherBatch.create({ data: batch });
+
+            await tx.giftVoucher.createMany({
+                data: vouchers.map((voucher) => ({ ...voucher, batchId: created.id })),
+            });
+
+            return created;
+        });
+    }
+
+    /**
+     * Find which of the given codes already exist
+     */
+    async findExistingCodes(codes: string[]): Promise<string[]> {
+        const vouchers = await prisma.giftVoucher.findMany({
+            where: { code: { in: codes } },
+            select: { code: true },
+        });
+        return vouchers.map((voucher: { code: string }) => voucher.code);
+    }
+
+    /**
+     * Find gift voucher by ID with its batch, buyer, redeemer and deposit transaction
+     */
+    async findById(id: string) {
+        return await prisma.giftVoucher.findUnique({
+            where: { id },
+            include: {
+                batch: batchSelect,
+                purchasedBy: redeemedBySelect,
+                redeemedBy: redeemedBySelect,
+                transaction: {
+                    select: {
+                        id: true,
+                        amount: true,
+                        currency: true,
+                        channel: true,
+                        status: true,
+                        walletId: true,
+                        createdAt: true,
+                    },
+                },
+            },
+        });
+    }
+
+    /**
+     * Find gift voucher by code (codes are stored uppercase)
+     */
+    async findByCode(code: string): Promise<GiftVoucher | null> {
+        return await prisma.giftVoucher.findUnique({
+            where: { code: code.toUpperCase() },
+        });
+    }
+
+    /**
+     * Find gift vouchers with filters and pagination (newest first)
+     * expired: ACTIVE vouchers past their expiry (true) or still redeemable ones (false)
+     */
+    async findAll(
+        page: number,
+        limit: number,
+        filters?: {
+            status?: GiftVoucherStatus;
+            batchId?: string;
+            expired?: boolean;
+            search?: string;
+        }
+    ): Promise<PaginatedResponse<GiftVoucher>> {
+        const skip = (page - 1) * limit;
+        const now = new Date();
+
+        const where: Prisma.GiftVoucherWhereInput = {};
+
+        if (filters?.status) {
+            where.status = filters.status;
+        }
+
+        if (filters?.batchId) {
+            where.batchId = filters.batchId;
+        }
+
+        if (filters?.expired === true) {
+            where.status = GiftVoucherStatus.ACTIVE;
+            where.expiresAt = { lte: now };
+        } else if (filters?.expired === false) {
+            where.OR = [{ expiresAt: null }, { expiresAt: { gt: now } }];
+        }
+
+        if (filters?.search) {
+            where.code = { contains: filters.search.toUpperCase() };
+        }
+
+        const [vouchers, total] = await Promise.all([
+            prisma.giftVoucher.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: {
+                    createdAt: 'desc',
+                },
+                include: {
+                    batch: batchSelect,
+                },
+            }),
+            prisma.giftVoucher.count({ where }),
+        ]);
+
+        return createPaginatedResponse(vouchers, total, page, limit);
+    }
+
+    /**
+     * Find redeemed vouchers with their redeemer and deposit transaction (latest redemption first)
+     */
+    async findRedemptions(
+        page: number,
+        limit: number,
+        filters?: {
+            batchId?: string;
+            userId?: string;
+            from?: Date;
+            to?: Date;
+        }
+    ) {
+        const skip = (page - 1) * limit;
+
+        const where: Prisma.GiftVoucherWhereInput = {
+            status: GiftVoucherStatus.REDEEMED,
+        };
+
+        if (filters?.batchId) {
+            where.batchId = filters.batchId;
+        }
+
+        if (filters?.userId) {
+            where.redeemedById = filters.userId;
+        }
+
+        if (filters?.from || filters?.to) {
+            where.redeemedAt = {
+                ...(filters.from && { gte: filters.from }),
+                ...(filters.to && { lte: filters.to }),
+            };
+        }
+
+        const [vouchers, total] = await Promise.all([
+            prisma.giftVoucher.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: {
+                    redeemedAt: 'desc',
+                },
+                include: {
+                    batch: batchSelect,
+                    redeemedBy: redeemedBySelect,
+                    transaction: {
+                        select: {
+                            id: true,
+                            walletId: true,
+                            status: true,
+                            createdAt: true,
+                        },
+                    },
+                },
+            }),
+            prisma.giftVoucher.count({ where }),
+        ]);
+
+        return createPaginatedResponse(vouchers, total, page, limit);
+    }
+
+    /**
+     * Find batches with voucher counts per status (newest first)
+     */
+    async findBatches(page: number, limit: number) {
+        const skip = (page - 1) * limit;
+
+        const [batches, total] = await Promise.all([
+            prisma.giftVoucherBatch.findMany({
+                skip,
+                take: limit,
+                orderBy: {
+                    createdAt: 'desc',
+                },
+            }),
+            prisma.giftVoucherBatch.count(),
+        ]);
+
+        const counts = await prisma.giftVoucher.groupBy({
+            by: ['batchId', 'status'],
+            where: { batchId: { in: batches.map((batch: GiftVoucherBatch) => batch.id) } },
+            _count: { _all: true },
+        });
+
+        const data = batches.map((batch: GiftVoucherBatch) => {
+            const statusCounts = { ACTIVE: 0, REDEEMED: 0, VOIDED: 0 } as Record<GiftVoucherStatus, number>;
+            counts
+                .filter((count: { batchId: string | null }) => count.batchId === batch.id)
+                .forEach((count: { status: GiftVoucherStatus; _count: { _all: number } }) => {
+                    statusCounts[count.status] = count._count._all;
+                });
+            return { ...batch, voucherCounts: statusCounts };
+        });
+
+        return createPaginatedResponse(data, total, page, limit);
+    }
+
+    /**
+     * Find batch by ID
+     */
+    async findBatchById(id: string): Promise<GiftVoucherBatch | null> {
+        return await prisma.giftVoucherBatch.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Void unused vouchers (ACTIVE ones) matching a filter
+     * Returns the number of vouchers voided
+     */
+    async voidUnused(
+        where: { id?: string; batchId?: string },
+        data: { voidedBy: string | null; voidReason: string | null }
+    ): Promise<number> {
+        const result = await prisma.giftVoucher.updateMany({
+            where: {
+                ...where,
+                status: GiftVoucherStatus.ACTIVE,
+            },
+            data: {
+                ...data,
+                status: GiftVoucherStatus.VOIDED,
+                voidedAt: new Date(),
+            },
+        });
+        return result.count;
+    }
+
+    /**
+     * Find the vouchers a user bought (newest first)
+     */
+    async findPurchasedBy(userId: string, page: number, limit: number): Promise<PaginatedResponse<GiftVoucher>> {
+        const skip = (page - 1) * limit;
+        const where = { purchasedById: userId };
+
+        const [vouchers, total] = await Promise.all([
+            prisma.giftVoucher.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: {
+                    createdAt: 'desc',
+                },
+            }),
+            prisma.giftVoucher.count({ where }),
+        ]);
+
+        return createPaginatedResponse(vouchers, total, page, limit);
+    }
+
+    /**
+     * Sell a voucher to a user, paid from their wallet of the voucher currency
+     * The wallet is debited with a conditional update, so concurrent purchases cannot overdraw it.
+     * Returns null when the user has no active wallet in that currency with enough balance
+     */
+    async purchase(
+        userId: string,
+        data: { code: string; amount: number; currency: string; expiresAt: Date | null }
+    ): Promise<{ voucher: GiftVoucher; wallet: Wallet; transaction: Transaction } | null> {
+        return await prisma.$transaction(async (tx: any) => {
+            const debited = await tx.$executeRaw`
+                UPDATE "wallets"
+                SET "previousAmount" = "amount",
+                    "amount" = "amount" - ${data.amount},
+                    "updatedAt" = NOW()
+                WHERE "userId" = ${userId}
+                    AND "currency" = ${data.currency}
+                    AND "active" = true
+                    AND "amount" >= ${data.amount}
+            `;
+            if (debited === 0) {
+                return null;
+            }
+
+            const wallet = await tx.wallet.findUnique({
+                where: {
+                    userId_currency: {
+                        userId,
+                        currency: data.currency,
+                    },
+                },
+            });
+
+            const now = new Date();
+            const transaction = await tx.transaction.create({
+                data: {
+                    userId,
+                    amount: data.amount,
+                    currency: data.currency,
+                    platform: 'mobile',
+                    channel: GIFT_VOUCHER_CHANNEL,
+                    action: 'PURCHASE',
+                    status: 'COMPLETED',
+                    walletId: wallet.id,
+                    completedBy: userId,
+                    completedAt: now,
+                },
+            });
+
+            const voucher = await tx.giftVoucher.create({
+                data: {
+                    ...data,
+                    purchasedById: userId,
+                    purchaseTransactionId: transaction.id,
+                },
+            });
+
+            return { voucher, wallet, transaction };
+        });
+    }
+
+    /**
+     * Redeem a voucher into the user's wallet of the voucher currency
+     * The voucher is claimed with a conditional update, so concurrent redemptions cannot credit it twice.
+     * The wallet is created if the user has none in that currency.
+     * Returns null when the voucher is no longer redeemable
+     */
+    async redeem(
+        voucherId: string,
+        userId: string
+    ): Promise<{ voucher: GiftVoucher; wallet: Wallet; transaction: Transaction } | null> {
+        return await prisma.$transaction(async (tx: any) => {
+            const now = new Date();
+
+            const claimed = await tx.giftVoucher.updateMany({
+                where: {
+                    id: voucherId,
+                    status: GiftVoucherStatus.ACTIVE,
+                    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+                },
+                data: {
+                    status: GiftVoucherStatus.REDEEMED,
+                    redeemedAt: now,
+                    redeemedById: userId,
+                },
+            });
+            if (claimed.count === 0) {
+                return null;
+            }
+
+            const voucher = await tx.giftVoucher.findUnique({ where: { id: voucherId } });
+
+            const existingWallet = await tx.wallet.upsert({
+                where: {
+                    userId_currency: {
+                        userId,
+                        currency: voucher.currency,
+                    },
+                },
+                create: {
+                    userId,
+                    currency: voucher.currency,
+                    amount: 0,
+                    previousAmount: 0,
+                    active: true,
+                },
+                update: {},
+            });
+
+            await tx.$executeRaw`
+                UPDATE "wallets"
+                SET "previousAmount" = "amount",
+                    "amount" = "amount" + ${voucher.amount},
+                    "updatedAt" = NOW()
+                WHERE "id" = ${existingWallet.id}
+            `;
+
+            const transaction = await tx.transaction.create({
+                data: {
+                    userId,
+                    amount: voucher.amount,
+                    currency: voucher.currency,
+                    platform: 'mobile',
+                    channel: GIFT_VOUCHER_CHANNEL,
+                    action: 'DEPOSIT',
+                    status: 'COMPLETED',
+                    walletId: existingWallet.id,
+                    completedBy: userId,
+                    completedAt: now,
+                },
+            });
+
+            const [redeemedVoucher, wallet] = await Promise.all([
+                tx.giftVoucher.update({
+                    where: { id: voucherId },
+                    data: { transactionId: transaction.id },
+                }),
+                tx.wallet.findUnique({ where: { id: existingWallet.id } }),
+            ]);
+
+            return { voucher: redeemedVoucher, wallet, transaction };
+        });
+    }
+}
+
+export const giftVoucherRepository = new GiftVoucherRepository();
@@ -0,0 +1,151 @@
+import { LocationGate, Prisma } from '@prisma/client';
+
+import { prisma } from '../utils/prisma.client';
+
+/**
+ * Gate with the zones it admits to
+ */
+export interface LocationGateWithZones extends LocationGate {
+    gateZones: Array<{
+        locationZone: {
+            id: string;
+            code: string;
+            name: Prisma.JsonValue;
+        };
+    }>;
+}
+
+const gateDetailsInclude = {
+    gateZones: {
+        select: {
+            locationZone: {
+                select: {
+                    id: true,
+                    code: true,
+                    name: true,
+                },
+            },
+        },
+    },
+};
+
+export class LocationGateRepository {
+    /**
+     * Create a gate linked to zones of its location
+     */
+    async create(
+        data: {
+            locationId: string;
+            code: string;
+            name: Prisma.InputJsonValue;
+            active?: boolean;
+            allowsGeneralAdmission?: boolean;
+        },
+        locationZoneIds: string[]
+    ): Promise<LocationGateWithZones> {
+        return await prisma.locationGate.create({
+            data: {
+                ...data,
+                gateZones: {
+                    create: locationZoneIds.map((locationZoneId) => ({ locationZoneId })),
+                },
+            },
+            include: gateDetailsInclude,
+        });
+    }
+
+    /**
+     * Find gate by ID with its zones
+     */
+    async findById(id: string): Promise<LocationGateWithZones | null> {
+        return await prisma.locationGate.findUnique({
+            where: { id },
+            include: gateDetailsInclude,
+        });
+    }
+
+    /**
+     * Find the gates of a location with their zones
+     */
+    async findByLocationId(locationId: string, activeOnly = false): Promise<LocationGateWithZones[]> {
+        return await prisma.locationGate.findMany({
+            where: {
+                locationId,
+                ...(activeOnly && { active: true }),
+            },
+            orderBy: {
+                code: 'asc',
+            },
+            include: gateDetailsInclude,
+        });
+    }
+
+    /**
+     * Check if a location has active gates
+     */
+    async hasActiveGates(locationId: string): Promise<boolean> {
+        const count = await prisma.locationGate.count({
+            where: {
+                locationId,
+                active: true,
+            },
+        });
+        return count > 0;
+    }
+
+    /**
+     * Check if a gate code is taken in a location
+     */
+    async codeExists(locationId: string, code: string, excludeId?: string): Promise<boolean> {
+        const count = await prisma.locationGate.count({
+            where: {
+                locationId,
+                code,
+                ...(excludeId && { id: { not: excludeId } }),
+            },
+        });
+        return count > 0;
+    }
+
+    /**
+     * Update a gate; its zones are replaced when locationZoneIds is given
+     */
+    async update(
+        id: string,
+        data: {
+            code?: string;
+            name?: Prisma.InputJsonValue;
+            active?: boolean;
+            allowsGeneralAdmission?: boolean;
+        },
+        locationZoneIds?: string[]
+    ): Promise<LocationGateWithZones> {
+        return await prisma.$transaction(async (tx: any) => {
+            if (locationZoneIds) {
+                await tx.locationGateZone.deleteMany({
+                    where: { locationGateId: id },
+                });
+                await tx.locationGateZone.createMany({
+                    data: locationZoneIds.map((locationZoneId) => ({ locationGateId: id, locationZoneId })),
+                });
+            }
+
+            return await tx.locationGate.update({
+                where: { id },
+                data,
+                include: gateDetailsInclude,
+            });
+        });
+    }
+
+    /**
+     * Delete a gate (check-ins made at it keep their record without the gate)
+     */
+    async delete(id: string): Promise<void> {
+        await prisma.locationGate.delete({
+            where: { id },
+        });
+    }
+}
+
+export const locationGateRepository = new LocationGateRepository();
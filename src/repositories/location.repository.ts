@@ -2,6 +2,7 @@ import { Prisma } from '@prisma/client';
 
 import { createPaginatedResponse, PaginatedResponse } from '../utils/pagination.util';
 import prisma from '../utils/prisma.client';
+import { SeatAttributes } from './seat-selection.repository';
 
 /**
  * Location with its relations
@@ -42,6 +43,81 @@ export interface LocationWithRelations {
     };
 }
 
+/**
+ * Zone of a generated seat layout
+ */
+export interface LayoutZonePlan {
+    code: string;
+    name: Prisma.InputJsonValue;
+    color: string | null;
+    displayOrder: number;
+    priority: number;
+}
+
+/**
+ * Section of a generated seat layout (the rows of one zone in one section), ready to be written
+ */
+export interface LayoutSectionPlan {
+    code: string;
+    name: Prisma.InputJsonValue;
+    displayOrder: number;
+    zoneCode: string;
+    rows: Array<{
+        rowNumber: number;
+        order: number;
+        seats: Array<{
+            seatNumber: number;
+            seatLabel: string;
+        }>;
+    }>;
+}
+
+/**
+ * Key of a row within a location layout (rows are unique per section code)
+ */
+export const layoutRowKey = (sectionCode: string, rowNumber: number): string =>
+    `${sectionCode}:${rowNumber}`;
+
+/**
+ * Key of a seat within a location layout
+ */
+export const layoutSeatKey = (sectionCode: string, rowNumber: number, seatNumber: number): string =>
+    `${sectionCode}:${rowNumber}:${seatNumber}`;
+
+/**
+ * Everything needed to apply a seat layout revision
+ */
+export interface SeatLayoutChangeSet {
+    zones: LayoutZonePlan[];
+    sections: LayoutSectionPlan[];
+    // Existing rows/seats to keep, keyed by layoutRowKey/layoutSeatKey
+    existingRowIds: Record<string, string>;
+    existingSeatIds: Record<string, string>;
+    remaps: Array<{
+        fromSeatId: string;
+        scheduleIds: string[];
+        to: {
+            zoneCode: string;
+            zoneName: Prisma.InputJsonValue;
+            sectionCode: string;
+            sectionName: Prisma.InputJsonValue;
+            rowNumber: number;
+            seatNumber: number;
+        };
+    }>;
+    retireSeatIds: string[];
+    deleteSeatIds: string[];
+    template: {
+        name: string;
+        config: Prisma.InputJsonValue;
+    };
+    revision: {
+        version: number;
+        changes: Prisma.InputJsonValue;
+        createdById: string | null;
+    };
+}
+
 /**
  * Location Repository
  * Handles all database operations for locations
@@ -626,6 +702,386 @@ export class LocationRepository {
         });
     }
 
+    /**
+     * Check if a location already has seats configured
+     */
+    async hasSeatLayout(locationId: string): Promise<boolean> {
+        const seat = await prisma.locationSeat.findFirst({
+            where: {
+                retiredAt: null,
+                row: {
+                    section: {
+                        locationZone: {
+                            locationId,
+                        },
+                    },
+                },
+            },
+            select: { id: true },
+        });
+        return seat !== null;
+    }
+
+    /**
+     * Count active seats of a location among the given seat IDs
+     */
+    async countLocationSeats(locationId: string, seatIds: string[]): Promise<number> {
+        return await prisma.locationSeat.count({
+            where: {
+                id: { in: seatIds },
+                retiredAt: null,
+                row: {
+                    section: {
+                        locationZone: {
+                            locationId,
+                        },
+                    },
+                },
+            },
+        });
+    }
+
+    /**
+     * Set attribute flags on seats of a location
+     */
+    async updateSeatAttributes(
+        locationId: string,
+        seatIds: string[],
+        attributes: Partial<SeatAttributes>
+    ): Promise<number> {
+        const result = await prisma.locationSeat.updateMany({
+            where: {
+                id: { in: seatIds },
+                row: {
+                    section: {
+                        locationZone: {
+                            locationId,
+                        },
+                    },
+                },
+            },
+            data: attributes,
+        });
+        return result.count;
+    }
+
+    /**
+     * Get all rows of a location with their seats (including retired seats)
+     */
+    async getSeatTree(locationId: string): Promise<Array<{
+        id: string;
+        rowNumber: number;
+        section: {
+            code: string;
+            locationZone: {
+                code: string;
+            };
+        };
+        seats: Array<{
+            id: string;
+            seatNumber: number;
+            seatLabel: string;
+            retiredAt: Date | null;
+        }>;
+    }>> {
+        return await prisma.locationRow.findMany({
+            where: {
+                section: {
+                    locationZone: {
+                        locationId,
+                    },
+                },
+            },
+            select: {
+                id: true,
+                rowNumber: true,
+                section: {
+                    select: {
+                        code: true,
+                        locationZone: {
+                            select: {
+                                code: true,
+                            },
+                        },
+                    },
+                },
+                seats: {
+                    select: {
+                        id: true,
+                        seatNumber: true,
+                        seatLabel: true,
+                        retiredAt: true,
+                    },
+                },
+            },
+            orderBy: {
+                order: 'asc',
+            },
+        });
+    }
+
+    /**
+     * Get all booking seats referencing the given seats, with their schedule end
+     */
+    async findBookingSeatsForSeats(seatIds: string[]): Promise<Array<{
+        seatId: string;
+        scheduleId: string;
+        schedule: {
+            endAt: Date;
+        };
+    }>> {
+        if (seatIds.length === 0) {
+            return [];
+        }
+
+        return await prisma.bookingSeat.findMany({
+            where: {
+                seatId: { in: seatIds },
+            },
+            select: {
+                seatId: true,
+                scheduleId: true,
+                schedule: {
+                    select: {
+                        endAt: true,
+                    },
+                },
+            },
+        });
+    }
+
+    /**
+     * Get latest layout revision version of a location (0 if none)
+     */
+    async getLatestLayoutRevisionVersion(locationId: string): Promise<number> {
+        const revision = await prisma.locationLayoutRevision.findFirst({
+            where: { locationId },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+        });
+        return revision?.version ?? 0;
+    }
+
+    /**
+     * Get layout revisions of a location, newest first
+     */
+    async findLayoutRevisions(locationId: string): Promise<Array<{
+        id: string;
+        version: number;
+        config: any;
+        changes: any;
+        createdById: string | null;
+        createdAt: Date;
+    }>> {
+        return await prisma.locationLayoutRevision.findMany({
+            where: { locationId },
+            orderBy: { version: 'desc' },
+            select: {
+                id: true,
+                version: true,
+                config: true,
+                changes: true,
+                createdById: true,
+                createdAt: true,
+            },
+        });
+    }
+
+    /**
+     * Apply a seat layout revision in one transaction
+     * - Zones are upserted by code, sections found by zone and code
+     * - Existing rows and seats are matched by key and kept (moved/relabelled/restored) so bookings stay valid
+     * - Future bookings on removed seats are remapped to their replacement seats
+     * - Removed seats with remaining bookings are retired, the others deleted
+     * - Empty rows and sections are cleaned up, then the template and revision are saved
+     */
+    async applySeatLayout(locationId: string, changeSet: SeatLayoutChangeSet): Promise<void> {
+        await prisma.$transaction(async (tx: any) => {
+            const locationZoneIds = new Map<string, string>();
+            const seatIdsByKey = new Map<string, string>(Object.entries(changeSet.existingSeatIds));
+
+            for (const zone of changeSet.zones) {
+                const locationZone = await tx.locationZone.upsert({
+                    where: {
+                        locationId_code: {
+                            locationId,
+                            code: zone.code,
+                        },
+                    },
+                    update: {
+                        name: zone.name,
+                        color: zone.color,
+                        displayOrder: zone.displayOrder,
+                        priority: zone.priority,
+                    },
+                    create: {
+                        ...zone,
+                        locationId,
+                    },
+                });
+
+                locationZoneIds.set(zone.code, locationZone.id);
+            }
+
+            for (const section of changeSet.sections) {
+                const locationZoneId = locationZoneIds.get(section.zoneCode);
+                const existingSection = await tx.locationSection.findFirst({
+                    where: { locationZoneId, code: section.code },
+                });
+
+                const sectionData = {
+                    name: section.name,
+                    displayOrder: section.displayOrder,
+                    numberOfRows: section.rows.length,
+                };
+
+                const targetSection = existingSection
+                    ? await tx.locationSection.update({
+                        where: { id: existingSection.id },
+                        data: sectionData,
+                    })
+                    : await tx.locationSection.create({
+                        data: {
+                            ...sectionData,
+                            code: section.code,
+                            locationZoneId,
+                        },
+                    });
+
+                for (const row of section.rows) {
+                    const existingRowId = changeSet.existingRowIds[layoutRowKey(section.code, row.rowNumber)];
+
+                    const targetRow = existingRowId
+                        ? await tx.locationRow.update({
+                            where: { id: existingRowId },
+                            data: { order: row.order, sectionId: targetSection.id },
+                        })
+                        : await tx.locationRow.create({
+                            data: {
+                                rowNumber: row.rowNumber,
+                                order: row.order,
+                                sectionId: targetSection.id,
+                            },
+                        });
+
+                    const newSeats = [];
+                    for (const seat of row.seats) {
+                        const key = layoutSeatKey(section.code, row.rowNumber, seat.seatNumber);
+                        const existingSeatId = seatIdsByKey.get(key);
+
+                        if (existingSeatId) {
+                            await tx.locationSeat.update({
+                                where: { id: existingSeatId },
+                                data: { seatLabel: seat.seatLabel, retiredAt: null },
+                            });
+                        } else {
+                            newSeats.push({
+                                seatNumber: seat.seatNumber,
+                                seatLabel: seat.seatLabel,
+                                rowId: targetRow.id,
+                            });
+                        }
+                    }
+
+                    if (newSeats.length > 0) {
+                        await tx.locationSeat.createMany({ data: newSeats });
+                    }
+                }
+            }
+
+            // Move future bookings from removed seats onto their replacement seats
+            for (const remap of changeSet.remaps) {
+                const targetSeat = await tx.locationSeat.findFirst({
+                    where: {
+                        seatNumber: remap.to.seatNumber,
+                        row: {
+                            rowNumber: remap.to.rowNumber,
+                            section: {
+                                code: remap.to.sectionCode,
+                                locationZone: { locationId },
+                            },
+                        },
+                    },
+                    select: { id: true },
+                });
+
+                await tx.bookingSeat.updateMany({
+                    where: {
+                        seatId: remap.fromSeatId,
+                        scheduleId: { in: remap.scheduleIds },
+                    },
+                    data: {
+                        seatId: targetSeat.id,
+                        zoneCode: remap.to.zoneCode,
+                        zoneName: remap.to.zoneName,
+                        sectionCode: remap.to.sectionCode,
+                        sectionName: remap.to.sectionName,
+                        rowNumberSnapshot: remap.to.rowNumber,
+                        seatNumberSnapshot: remap.to.seatNumber,
+                    },
+                });
+            }
+
+            if (changeSet.retireSeatIds.length > 0) {
+                await tx.locationSeat.updateMany({
+                    where: { id: { in: changeSet.retireSeatIds } },
+                    data: { retiredAt: new Date() },
+                });
+            }
+
+            if (changeSet.deleteSeatIds.length > 0) {
+                await tx.locationSeat.deleteMany({
+                    where: { id: { in: changeSet.deleteSeatIds } },
+                });
+            }
+
+            // Drop rows and sections left without seats
+            await tx.locationRow.deleteMany({
+                where: {
+                    section: { locationZone: { locationId } },
+                    seats: { none: {} },
+                },
+            });
+
+            await tx.locationSection.deleteMany({
+                where: {
+                    locationZone: { locationId },
+                    locationRows: { none: {} },
+                },
+            });
+
+            // Zones dropped from the layout go away once they have no sections left
+            await tx.locationZone.deleteMany({
+                where: {
+                    locationId,
+                    code: { notIn: changeSet.zones.map((zone) => zone.code) },
+                    locationSections: { none: {} },
+                },
+            });
+
+            await tx.locationTemplate.upsert({
+                where: { locationId },
+                update: { name: changeSet.template.name, config: changeSet.template.config, active: true },
+                create: {
+                    name: changeSet.template.name,
+                    config: changeSet.template.config,
+                    active: true,
+                    locationId,
+                },
+            });
+
+            await tx.locationLayoutRevision.create({
+                data: {
+                    locationId,
+                    version: changeSet.revision.version,
+                    config: changeSet.template.config,
+                    changes: changeSet.revision.changes,
+                    createdById: changeSet.revision.createdById,
+                },
+            });
+        }, { timeout: 120000 });
+    }
+
     /**
      * Get location zones with optional pricing info
      */
@@ -637,15 +1093,16 @@ export class LocationRepository {
         }
     ): Promise<Array<{
         id: string;
-        zoneId: string;
-        zone: {
-            id: string;
-            type: string;
-            priority: number;
-        };
+        code: string;
+        name: any;
+        color: string | null;
+        displayOrder: number;
+        priority: number;
         locationSections: Array<{
             id: string;
-            position: string;
+            code: string;
+            name: any;
+            displayOrder: number;
             numberOfRows: number;
             locationRows: Array<{
                 id: string;
@@ -686,17 +1143,12 @@ export class LocationRepository {
                 locationId,
             },
             include: {
-                zone: {
-                    select: {
-                        id: true,
-                        type: true,
-                        priority: true,
-                    },
-                },
                 locationSections: {
                     select: {
                         id: true,
-                        position: true,
+                        code: true,
+                        name: true,
+                        displayOrder: true,
                         numberOfRows: true,
                         locationRows: {
                             select: {
@@ -705,7 +1157,7 @@ export class LocationRepository {
                                 order: true,
                                 _count: {
                                     select: {
-                                        seats: true,
+                                        seats: { where: { retiredAt: null } },
                                     },
                                 },
                             },
@@ -714,6 +1166,9 @@ export class LocationRepository {
                             },
                         },
                     },
+                    orderBy: {
+                        displayOrder: 'asc',
+                    },
                 },
                 zonePricings: {
                     where: Object.keys(zonePricingWhere).length > 0 ? zonePricingWhere : undefined,
@@ -738,11 +1193,10 @@ export class LocationRepository {
                     },
                 },
             },
-            orderBy: {
-                zone: {
-                    priority: 'asc',
-                },
-            },
+            orderBy: [
+                { displayOrder: 'asc' },
+                { priority: 'asc' },
+            ],
         });
 
         return locationZones;
@@ -754,25 +1208,43 @@ export class LocationRepository {
     async findLocationZoneById(locationZoneId: string): Promise<{
         id: string;
         locationId: string;
-        zoneId: string;
+        code: string;
     } | null> {
         return await prisma.locationZone.findUnique({
             where: { id: locationZoneId },
             select: {
                 id: true,
                 locationId: true,
-                zoneId: true,
+                code: true,
             },
         });
     }
 
+    /**
+     * Update display details of a location zone
+     */
+    async updateLocationZone(
+        locationZoneId: string,
+        data: {
+            name?: any;
+            color?: string | null;
+            displayOrder?: number;
+            priority?: number;
+        }
+    ) {
+        return await prisma.locationZone.update({
+            where: { id: locationZoneId },
+            data,
+        });
+    }
+
     /**
      * Find multiple location zones by IDs
      */
     async findLocationZonesByIds(locationZoneIds: string[]): Promise<Array<{
         id: string;
         locationId: string;
-        zoneId: string;
+        code: string;
     }>> {
         return await prisma.locationZone.findMany({
             where: {
@@ -781,7 +1253,7 @@ export class LocationRepository {
             select: {
                 id: true,
                 locationId: true,
-                zoneId: true,
+                code: true,
             },
         });
     }
@@ -812,6 +1284,72 @@ export class LocationRepository {
         });
     }
 
+    /**
+     * Find event with its schedules in start order
+     */
+    async findEventWithSchedules(eventId: string): Promise<{
+        id: string;
+        locationId: string;
+        schedules: Array<{
+            id: string;
+            startAt: Date;
+        }>;
+    } | null> {
+        return await prisma.event.findUnique({
+            where: { id: eventId },
+            select: {
+                id: true,
+                locationId: true,
+                schedules: {
+                    select: {
+                        id: true,
+                        startAt: true,
+                    },
+                    orderBy: { startAt: 'asc' },
+                },
+            },
+        });
+    }
+
+    /**
+     * Find all zones of a location
+     */
+    async findLocationZonesByLocationId(locationId: string): Promise<Array<{
+        id: string;
+        code: string;
+    }>> {
+        return await prisma.locationZone.findMany({
+            where: { locationId },
+            select: {
+                id: true,
+                code: true,
+            },
+            orderBy: [{ displayOrder: 'asc' }, { priority: 'asc' }],
+        });
+    }
+
+    /**
+     * Find zone pricings of the given schedules
+     */
+    async findZonePricingsForSchedules(scheduleIds: string[]): Promise<Array<{
+        locationZoneId: string;
+        eventId: string;
+        scheduleId: string;
+        originalPrice: number;
+        discountedPrice: number | null;
+    }>> {
+        return await prisma.zonePricing.findMany({
+            where: { scheduleId: { in: scheduleIds } },
+            select: {
+                locationZoneId: true,
+                eventId: true,
+                scheduleId: true,
+                originalPrice: true,
+                discountedPrice: true,
+            },
+        });
+    }
+
     /**
      * Set zone pricing (upsert - create or update)
      * Uses transaction to ensure atomicity
@@ -819,7 +1357,6 @@ export class LocationRepository {
     async setZonePricing(
         pricings: Array<{
             locationZoneId: string;
-            zoneId: string;
             eventId: string;
             scheduleId: string;
             originalPrice: number;
@@ -828,7 +1365,6 @@ export class LocationRepository {
     ): Promise<Array<{
         id: string;
         locationZoneId: string;
-        zoneId: string;
         eventId: string;
         scheduleId: string;
         originalPrice: number;
@@ -848,7 +1384,6 @@ export class LocationRepository {
                     },
                     create: {
                         locationZoneId: pricing.locationZoneId,
-                        zoneId: pricing.zoneId,
                         eventId: pricing.eventId,
                         scheduleId: pricing.scheduleId,
                         originalPrice: pricing.originalPrice,
@@ -0,0 +1,81 @@
+import { Notification, Prisma } from '@prisma/client';
+
+import { createPaginatedResponse, PaginatedResponse } from '../utils/pagination.util';
+import { prisma } from '../utils/prisma.client';
+
+export class NotificationRepository {
+    /**
+     * Create an in-app notification
+     */
+    async create(
+        data: { userId: string; title: string; message: string; meta?: Prisma.InputJsonValue },
+        tx: any = prisma
+    ): Promise<Notification> {
+        return await tx.notification.create({ data });
+    }
+
+    /**
+     * Find notifications of a user with pagination (newest first)
+     */
+    async findByUserId(
+        userId: string,
+        page: number,
+        limit: number,
+        unreadOnly = false
+    ): Promise<PaginatedResponse<Notification>> {
+        const skip = (page - 1) * limit;
+
+        const where: Prisma.NotificationWhereInput = {
+            userId,
+            ...(unreadOnly && { isRead: false }),
+        };
+
+        const [notifications, total] = await Promise.all([
+            prisma.notification.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: {
+                    createdAt: 'desc',
+                },
+            }),
+            prisma.notification.count({ where }),
+        ]);
+
+        return createPaginatedResponse(notifications, total, page, limit);
+    }
+
+    /**
+     * Count unread notifications of a user
+     */
+    async countUnread(userId: string): Promise<number> {
+        return await prisma.notification.count({
+            where: { userId, isRead: false },
+        });
+    }
+
+    /**
+     * Mark a notification of a user as read
+     * Returns false when the user has no such notification
+     */
+    async markAsRead(id: string, userId: string): Promise<boolean> {
+        const result = await prisma.notification.updateMany({
+            where: { id, userId },
+            data: { isRead: true },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Mark all notifications of a user as read
+     */
+    async markAllAsRead(userId: string): Promise<number> {
+        const result = await prisma.notification.updateMany({
+            where: { userId, isRead: false },
+            data: { isRead: true },
+        });
+        return result.count;
+    }
+}
+
+export const notificationRepository = new NotificationRepository();
@@ -0,0 +1,108 @@
+import { PricingRule, PricingRuleType, Prisma } from '@prisma/client';
+
+import { prisma } from '../utils/prisma.client';
+
+/**
+ * Pricing rule that produced a price, as returned with prices and stored with bookings
+ */
+export interface AppliedPricingRule {
+    id: string;
+    name: string;
+    type: PricingRuleType;
+    adjustmentPercent: number;
+}
+
+export class PricingRuleRepository {
+    /**
+     * Create a new pricing rule
+     */
+    async create(data: Prisma.PricingRuleUncheckedCreateInput): Promise<PricingRule> {
+        return await prisma.pricingRule.create({ data });
+    }
+
+    /**
+     * Find pricing rule by ID
+     */
+    async findById(id: string): Promise<PricingRule | null> {
+        return await prisma.pricingRule.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Find pricing rules of an event (lowest priority first)
+     */
+    async findByEventId(eventId: string, activeOnly = false): Promise<PricingRule[]> {
+        return await prisma.pricingRule.findMany({
+            where: {
+                eventId,
+                ...(activeOnly && { active: true }),
+            },
+            orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+        });
+    }
+
+    /**
+     * Update pricing rule
+     */
+    async update(id: string, data: Prisma.PricingRuleUncheckedUpdateInput): Promise<PricingRule> {
+        return await prisma.pricingRule.update({
+            where: { id },
+            data,
+        });
+    }
+
+    /**
+     * Delete pricing rule
+     * Bookings priced by the rule keep their prices; their rule reference is cleared
+     */
+    async delete(id: string): Promise<void> {
+        await prisma.pricingRule.delete({
+            where: { id },
+        });
+    }
+
+    /**
+     * Count bookings priced by a rule (the booking itself or any of its seats or line items)
+     */
+    async countBookings(id: string): Promise<number> {
+        return await prisma.booking.count({
+            where: {
+                OR: [
+                    { pricingRuleId: id },
+                    { bookingSeats: { some: { pricingRuleId: id } } },
+                    { bookingItems: { some: { pricingRuleId: id } } },
+                ],
+            },
+        });
+    }
+
+    /**
+     * Percentage of seats sold per zone for a schedule
+     * Retired and blocked seats are not counted as sellable
+     */
+    async getZoneOccupancy(scheduleId: string, locationZoneIds: string[]): Promise<Map<string, number>> {
+        const occupancy = new Map<string, number>();
+
+        for (const locationZoneId of locationZoneIds) {
+            const zoneFilter = { row: { section: { locationZoneId } } };
+
+            const [totalSeats, reservedSeats] = await Promise.all([
+                prisma.locationSeat.count({
+                    where: { ...zoneFilter, retiredAt: null, isBlocked: false },
+                }),
+                prisma.bookingSeat.count({
+                    where: { scheduleId, isReserved: true, seat: zoneFilter },
+                }),
+            ]);
+
+            if (totalSeats > 0) {
+                occupancy.set(locationZoneId, (reservedSeats / totalSeats) * 100);
+            }
+        }
+
+        return occupancy;
+    }
+}
+
+export const pricingRuleRepository = new PricingRuleRepository();
@@ -0,0 +1,251 @@
+import { BookingStatus, Prisma, PromoCode, PromoRedemption } from '@prisma/client';
+
+import { createPaginatedResponse, PaginatedResponse } from '../utils/pagination.util';
+import { prisma } from '../utils/prisma.client';
+
+/**
+ * Booking statuses that no longer hold a promo redemption
+ */
+const RELEASING_STATUSES: BookingStatus[] = [BookingStatus.CANCELLED, BookingStatus.REFUNDED];
+
+export class PromoCodeRepository {
+    /**
+     * Create a new promo code
+     */
+    async create(data: Prisma.PromoCodeUncheckedCreateInput): Promise<PromoCode> {
+        return await prisma.promoCode.create({ data });
+    }
+
+    /**
+     * Find promo code by ID
+     */
+    async findById(id: string): Promise<PromoCode | null> {
+        return await prisma.promoCode.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Find promo code by code (codes are stored uppercase)
+     */
+    async findByCode(code: string): Promise<PromoCode | null> {
+        return await prisma.promoCode.findUnique({
+            where: { code: code.toUpperCase() },
+        });
+    }
+
+    /**
+     * Find promo codes with filters and pagination (newest first)
+     */
+    async findAll(
+        page: number,
+        limit: number,
+        filters?: {
+            active?: boolean;
+            eventId?: string;
+            search?: string;
+        }
+    ): Promise<PaginatedResponse<PromoCode>> {
+        const skip = (page - 1) * limit;
+
+        const where: Prisma.PromoCodeWhereInput = {};
+
+        if (filters?.active !== undefined) {
+            where.active = filters.active;
+        }
+
+        if (filters?.eventId) {
+            where.eventIds = { has: filters.eventId };
+        }
+
+        if (filters?.search) {
+            where.code = { contains: filters.search.toUpperCase() };
+        }
+
+        const [promoCodes, total] = await Promise.all([
+            prisma.promoCode.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: {
+                    createdAt: 'desc',
+                },
+            }),
+            prisma.promoCode.count({ where }),
+        ]);
+
+        return createPaginatedResponse(promoCodes, total, page, limit);
+    }
+
+    /**
+     * Update promo code
+     */
+    async update(id: string, data: Prisma.PromoCodeUncheckedUpdateInput): Promise<PromoCode> {
+        return await prisma.promoCode.update({
+            where: { id },
+            data,
+        });
+    }
+
+    /**
+     * Delete promo code
+     */
+    async delete(id: string): Promise<void> {
+        await prisma.promoCode.delete({
+            where: { id },
+        });
+    }
+
+    /**
+     * Count the events, categories and location zones a promo code is scoped to that exist
+     */
+    async countScopeTargets(scope: { eventIds: string[]; categoryIds: string[]; locationZoneIds: string[] }) {
+        const [events, categories, locationZones] = await Promise.all([
+            prisma.event.count({ where: { id: { in: scope.eventIds } } }),
+            prisma.category.count({ where: { id: { in: scope.categoryIds } } }),
+            prisma.locationZone.count({ where: { id: { in: scope.locationZoneIds } } }),
+        ]);
+
+        return { events, categories, locationZones };
+    }
+
+    /**
+     * Count redemptions of a promo code, released ones included
+     */
+    async countRedemptions(promoCodeId: string): Promise<number> {
+        return await prisma.promoRedemption.count({
+            where: { promoCodeId },
+        });
+    }
+
+    /**
+     * Count a user's active (not released) redemptions of a promo code
+     */
+    async countUserRedemptions(promoCodeId: string, userId: string, tx: any = prisma): Promise<number> {
+        return await tx.promoRedemption.count({
+            where: { promoCodeId, userId, releasedAt: null },
+        });
+    }
+
+    /**
+     * Find redemptions of a promo code with their bookings (newest first)
+     */
+    async findRedemptions(promoCodeId: string, page: number, limit: number) {
+        const skip = (page - 1) * limit;
+        const where = { promoCodeId };
+
+        const [redemptions, total] = await Promise.all([
+            prisma.promoRedemption.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: {
+                    createdAt: 'desc',
+                },
+                include: {
+                    user: {
+                        select: {
+                            id: true,
+                            name: true,
+                            email: true,
+                            phoneNumber: true,
+                        },
+                    },
+                    bookings: {
+                        select: {
+                            id: true,
+                            bookingNumber: true,
+                            status: true,
+                            totalPrice: true,
+                            discountAmount: true,
+                        },
+                    },
+                },
+            }),
+            prisma.promoRedemption.count({ where }),
+        ]);
+
+        return createPaginatedResponse(redemptions, total, page, limit);
+    }
+
+    /**
+     * Record a redemption of a promo code
+     * Check and increment of the redemption count run as a single statement, so concurrent
+     * checkouts cannot go over the limit. The per-user limit is checked under a lock on the
+     * (promo code, user) pair held until commit. Returns null when either limit is reached
+     */
+    async redeem(
+        data: { promoCodeId: string; userId: string; discountAmount: number },
+        maxRedemptionsPerUser: number | null,
+        tx: any = prisma
+    ): Promise<PromoRedemption | null> {
+        if (tx === prisma) {
+            return await prisma.$transaction((innerTx: any) => this.redeem(data, maxRedemptionsPerUser, innerTx));
+        }
+
+        if (maxRedemptionsPerUser !== null) {
+            await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${data.promoCodeId}), hashtext(${data.userId}))`;
+
+            const userRedemptions = await this.countUserRedemptions(data.promoCodeId, data.userId, tx);
+            if (userRedemptions >= maxRedemptionsPerUser) {
+                return null;
+            }
+        }
+
+        const updated: number = await tx.$executeRaw`
+            UPDATE "promo_codes"
+            SET "redemptionCount" = "redemptionCount" + 1
+            WHERE "id" = ${data.promoCodeId}
+              AND ("maxRedemptions" IS NULL OR "redemptionCount" < "maxRedemptions")
+        `;
+        if (updated === 0) {
+            return null;
+        }
+
+        return await tx.promoRedemption.create({ data });
+    }
+
+    /**
+     * Release the redemptions of cancelled or refunded bookings
+     * A redemption shared by several bookings (cart checkout) is released once all of them are
+     */
+    async releaseForBookings(bookingIds: string[], tx: any = prisma): Promise<void> {
+        if (bookingIds.length === 0) {
+            return;
+        }
+
+        const redemptions = await tx.promoRedemption.findMany({
+            where: {
+                releasedAt: null,
+                bookings: { some: { id: { in: bookingIds } } },
+            },
+            select: {
+                id: true,
+                promoCodeId: true,
+                bookings: { select: { status: true } },
+            },
+        });
+
+        for (const redemption of redemptions) {
+            const stillHeld = redemption.bookings.some(
+                (booking: { status: BookingStatus }) => !RELEASING_STATUSES.includes(booking.status)
+            );
+            if (stillHeld) {
+                continue;
+            }
+
+            await tx.promoRedemption.update({
+                where: { id: redemption.id },
+                data: { releasedAt: new Date() },
+            });
+
+            await tx.$executeRaw`
+                UPDATE "promo_codes"
+                SET "redemptionCount" = GREATEST("redemptionCount" - 1, 0)
+                WHERE "id" = ${redemption.promoCodeId}
+            `;
+        }
+    }
+}
+
+export const promoCodeRepository = new PromoCodeRepository();
@@ -253,6 +253,80 @@ export class ScheduleRepository {
         });
     }
 
+    /**
+     * Find the general-admission inventory of a schedule
+     */
+    async findInventoryById(id: string) {
+        return await prisma.schedule.findUnique({
+            where: { id },
+            select: {
+                id: true,
+                eventId: true,
+                startAt: true,
+                endAt: true,
+                capacity: true,
+                soldQuantity: true,
+            },
+        });
+    }
+
+    /**
+     * Find the general-admission inventory of all schedules of an event
+     */
+    async findInventoryByEventId(eventId: string) {
+        return await prisma.schedule.findMany({
+            where: { eventId },
+            orderBy: { startAt: 'asc' },
+            select: {
+                id: true,
+                eventId: true,
+                startAt: true,
+                endAt: true,
+                capacity: true,
+                soldQuantity: true,
+            },
+        });
+    }
+
+    /**
+     * Take general-admission tickets from a schedule
+     * Check and increment run as a single statement, so concurrent checkouts cannot oversell.
+     * Tickets held by open waitlist offers are not available, except to the user holding the offer
+     * Returns false when the schedule does not have enough tickets left
+     */
+    async reserveCapacity(
+        scheduleId: string,
+        quantity: number,
+        userId: string | null = null,
+        tx: any = prisma
+    ): Promise<boolean> {
+        const updated: number = await tx.$executeRaw`
+            UPDATE "schedules"
+            SET "soldQuantity" = "soldQuantity" + ${quantity}
+            WHERE "id" = ${scheduleId}
+              AND ("capacity" IS NULL OR "soldQuantity" + ${quantity} + (
+                  SELECT COALESCE(SUM("quantity"), 0)
+                  FROM "waitlist_entries"
+                  WHERE "scheduleId" = ${scheduleId}
+                    AND "status" = 'OFFERED'
+                    AND "offerExpiresAt" > NOW()
+                    AND "userId" <> ${userId ?? ''}
+              ) <= "capacity")
+        `;
+        return updated > 0;
+    }
+
+    /**
+     * Give general-admission tickets back to a schedule
+     */
+    async releaseCapacity(scheduleId: string, quantity: number, tx: any = prisma): Promise<void> {
+        await tx.$executeRaw`
+            UPDATE "schedules"
+            SET "soldQuantity" = GREATEST("soldQuantity" - ${quantity}, 0)
+            WHERE "id" = ${scheduleId}
+        `;
+    }
+
     /**
      * Check if schedules overlap for the same event
      */
@@ -1,22 +1,109 @@
-import { SectionPosition, ZoneType } from '@prisma/client';
+import { SeatsSessionStatus } from '@prisma/client';
 
 import prisma from '../utils/prisma.client';
+import { AppliedPricingRule } from './pricing-rule.repository';
 
 /**
- * Zone with pricing and section summary
+ * Seat state for a schedule
+ * - available: free to select
+ * - held: temporarily held by an active seat-selection session
+ * - reserved: booked or locked by admin
+ * - blocked: permanently blocked at the venue, never sellable
+ */
+export type SeatAvailabilityStatus = 'available' | 'held' | 'reserved' | 'blocked';
+
+/**
+ * Per-seat attribute flags
+ */
+export interface SeatAttributes {
+    isAccessible: boolean;
+    isCompanion: boolean;
+    isObstructedView: boolean;
+    isAisle: boolean;
+    isBlocked: boolean;
+}
+
+/**
+ * Seat attribute filter for seat pickers
+ * Only seats matching every given flag are returned
+ */
+export type SeatAttributeFilter = Partial<Omit<SeatAttributes, 'isBlocked'>>;
+
+const SEAT_ATTRIBUTES_SELECT = {
+    isAccessible: true,
+    isCompanion: true,
+    isObstructedView: true,
+    isAisle: true,
+    isBlocked: true,
+} as const;
+
+/**
+ * Venue zone details
  */
-export interface ZoneWithPricing {
+export interface ZoneInfo {
     id: string;
-    locationZoneId: string;
-    type: ZoneType;
+    code: string;
+    name: any;
+    color: string | null;
+    displayOrder: number;
     priority: number;
-    pricing: {
-        originalPrice: number;
-        discountedPrice: number | null;
-    } | null;
-    sections: Array<{
-        id: string;
-        position: SectionPosition;
+}
+
+/**
+ * Venue section details
+ */
+export interface SectionInfo {
+    id: string;
+    code: string;
+    name: any;
+    displayOrder: number;
+}
+
+const ZONE_INFO_SELECT = {
+    id: true,
+    code: true,
+    name: true,
+    color: true,
+    displayOrder: true,
+    priority: true,
+} as const;
+
+const SECTION_INFO_SELECT = {
+    id: true,
+    code: true,
+    name: true,
+    displayOrder: true,
+} as const;
+
+/**
+ * Pick zone details from a location zone selected with ZONE_INFO_SELECT (and relations)
+ */
+const toZoneInfo = (zone: ZoneInfo): ZoneInfo => ({
+    id: zone.id,
+    code: zone.code,
+    name: zone.name,
+    color: zone.color,
+    displayOrder: zone.displayOrder,
+    priority: zone.priority,
+});
+
+/**
+ * Zone price for a schedule
+ * price is the price after pricing rules and pricingRule the rule that produced it (set by the pricing rule service)
+ */
+export interface ZonePrice {
+    originalPrice: number;
+    discountedPrice: number | null;
+    price?: number;
+    pricingRule?: AppliedPricingRule | null;
+}
+
+/**
+ * Zone with pricing and section summary
+ */
+export interface ZoneWithPricing extends ZoneInfo {
+    pricing: ZonePrice | null;
+    sections: Array<SectionInfo & {
         totalSeats: number;
         availableSeats: number;
     }>;
@@ -27,20 +114,11 @@ export interface ZoneWithPricing {
 /**
  * Section with rows summary
  */
-export interface SectionWithRows {
-    id: string;
-    position: SectionPosition;
+export interface SectionWithRows extends SectionInfo {
     numberOfRows: number;
     locationZoneId: string;
-    zone: {
-        id: string;
-        type: ZoneType;
-        priority: number;
-    };
-    pricing: {
-        originalPrice: number;
-        discountedPrice: number | null;
-    } | null;
+    zone: ZoneInfo;
+    pricing: ZonePrice | null;
     rows: Array<{
         id: string;
         rowNumber: number;
@@ -60,27 +138,16 @@ export interface RowWithSeats {
     rowNumber: number;
     order: number;
     sectionId: string;
-    section: {
-        id: string;
-        position: SectionPosition;
-        locationZone: {
-            id: string;
-            zone: {
-                id: string;
-                type: ZoneType;
-                priority: number;
-            };
-        };
+    section: SectionInfo & {
+        locationZone: ZoneInfo;
     };
-    pricing: {
-        originalPrice: number;
-        discountedPrice: number | null;
-    } | null;
-    seats: Array<{
+    pricing: ZonePrice | null;
+    seats: Array<SeatAttributes & {
         id: string;
         seatNumber: number;
         seatLabel: string;
         isAvailable: boolean;
+        status: SeatAvailabilityStatus;
     }>;
     totalSeats: number;
     availableSeats: number;
@@ -89,30 +156,20 @@ export interface RowWithSeats {
 /**
  * Seat with availability
  */
-export interface SeatWithAvailability {
+export interface SeatWithAvailability extends SeatAttributes {
     id: string;
     seatNumber: number;
     seatLabel: string;
     isAvailable: boolean;
+    status: SeatAvailabilityStatus;
     row: {
         id: string;
         rowNumber: number;
-        section: {
-            id: string;
-            position: SectionPosition;
-            locationZone: {
-                id: string;
-                zone: {
-                    id: string;
-                    type: ZoneType;
-                };
-            };
+        section: SectionInfo & {
+            locationZone: ZoneInfo;
         };
     };
-    pricing: {
-        originalPrice: number;
-        discountedPrice: number | null;
-    } | null;
+    pricing: ZonePrice | null;
 }
 
 /**
@@ -122,27 +179,19 @@ export interface SeatMap {
     eventId: string;
     scheduleId: string;
     locationId: string;
-    zones: Array<{
-        id: string;
-        locationZoneId: string;
-        type: ZoneType;
-        priority: number;
-        pricing: {
-            originalPrice: number;
-            discountedPrice: number | null;
-        } | null;
-        sections: Array<{
-            id: string;
-            position: SectionPosition;
+    zones: Array<ZoneInfo & {
+        pricing: ZonePrice | null;
+        sections: Array<SectionInfo & {
             rows: Array<{
                 id: string;
                 rowNumber: number;
                 order: number;
-                seats: Array<{
+                seats: Array<SeatAttributes & {
                     id: string;
                     seatNumber: number;
                     seatLabel: string;
                     isAvailable: boolean;
+                    status: SeatAvailabilityStatus;
                 }>;
             }>;
         }>;
@@ -152,7 +201,9 @@ export interface SeatMap {
     summary: {
         totalSeats: number;
         availableSeats: number;
+        heldSeats: number;
         reservedSeats: number;
+        blockedSeats: number;
     };
 }
 
@@ -161,6 +212,64 @@ export interface SeatMap {
  * Handles database operations for seat selection flow
  */
 export class SeatSelectionRepository {
+    /**
+     * Get seats that are not available for a schedule, keyed by seat ID
+     * Blocked seats take precedence over reserved (booked) seats, which take precedence over held seats
+     * Holds of ignoredSessionId (the caller's own session) don't count
+     */
+    private async getUnavailableSeats(
+        scheduleId: string,
+        seatIds?: string[],
+        ignoredSessionId?: string
+    ): Promise<Map<string, SeatAvailabilityStatus>> {
+        const seatFilter = seatIds ? { seatId: { in: seatIds } } : {};
+
+        const [heldSeats, reservedSeats, blockedSeats] = await Promise.all([
+            prisma.seatsSession.findMany({
+                where: {
+                    scheduleId,
+                    ...seatFilter,
+                    session: {
+                        status: SeatsSessionStatus.PENDING,
+                        expiresAt: { gt: new Date() },
+                        ...(ignoredSessionId && { id: { not: ignoredSessionId } }),
+                    },
+                },
+                select: {
+                    seatId: true,
+                },
+            }),
+            prisma.bookingSeat.findMany({
+                where: {
+                    scheduleId,
+                    ...seatFilter,
+                    isReserved: true,
+                },
+                select: {
+                    seatId: true,
+                },
+            }),
+            prisma.locationSeat.findMany({
+                where: {
+                    isBlocked: true,
+                    ...(seatIds
+                        ? { id: { in: seatIds } }
+                        : { row: { section: { locationZone: { location: { events: { some: { schedules: { some: { id: scheduleId } } } } } } } } }),
+                },
+                select: {
+                    id: true,
+                },
+            }),
+        ]);
+
+        const unavailableSeats = new Map<string, SeatAvailabilityStatus>();
+        heldSeats.forEach((s: { seatId: string }) => unavailableSeats.set(s.seatId, 'held'));
+        reservedSeats.forEach((s: { seatId: string }) => unavailableSeats.set(s.seatId, 'reserved'));
+        blockedSeats.forEach((s: { id: string }) => unavailableSeats.set(s.id, 'blocked'));
+
+        return unavailableSeats;
+    }
+
     /**
      * Get all zones for an event/schedule with availability summary
      * This is the first level of the seat selection hierarchy
@@ -176,21 +285,14 @@ export class SeatSelectionRepository {
                 locationId,
             },
             include: {
-                zone: {
-                    select: {
-                        id: true,
-                        type: true,
-                        priority: true,
-                    },
-                },
                 locationSections: {
                     select: {
-                        id: true,
-                        position: true,
+                        ...SECTION_INFO_SELECT,
                         locationRows: {
                             select: {
                                 id: true,
                                 seats: {
+                                    where: { retiredAt: null },
                                     select: {
                                         id: true,
                                     },
@@ -198,6 +300,9 @@ export class SeatSelectionRepository {
                             },
                         },
                     },
+                    orderBy: {
+                        displayOrder: 'asc',
+                    },
                 },
                 zonePricings: {
                     where: {
@@ -211,36 +316,27 @@ export class SeatSelectionRepository {
                     take: 1,
                 },
             },
-            orderBy: {
-                zone: {
-                    priority: 'asc',
-                },
-            },
+            orderBy: [
+                { displayOrder: 'asc' },
+                { priority: 'asc' },
+            ],
         });
 
         // Get all reserved seats for this schedule
-        const reservedSeats = await prisma.bookingSeat.findMany({
-            where: {
-                scheduleId,
-                isReserved: true,
-            },
-            select: {
-                seatId: true,
-            },
-        });
-
-        const reservedSeatIds = new Set(reservedSeats.map((s: { seatId: string }) => s.seatId));
+        const unavailableSeats = await this.getUnavailableSeats(scheduleId);
 
         // Build zone response with availability
         return locationZones.map((lz: typeof locationZones[number]) => {
             const sections = lz.locationSections.map((section: typeof lz.locationSections[number]) => {
                 const allSeats = section.locationRows.flatMap((row: typeof section.locationRows[number]) => row.seats);
                 const totalSeats = allSeats.length;
-                const availableSeats = allSeats.filter((s: { id: string }) => !reservedSeatIds.has(s.id)).length;
+                const availableSeats = allSeats.filter((s: { id: string }) => !unavailableSeats.has(s.id)).length;
 
                 return {
                     id: section.id,
-                    position: section.position,
+                    code: section.code,
+                    name: section.name,
+                    displayOrder: section.displayOrder,
                     totalSeats,
                     availableSeats,
                 };
@@ -250,10 +346,12 @@ export class SeatSelectionRepository {
             const availableSeats = sections.reduce((sum: number, s: { availableSeats: number }) => sum + s.availableSeats, 0);
 
             return {
-                id: lz.zone.id,
-                locationZoneId: lz.id,
-                type: lz.zone.type,
-                priority: lz.zone.priority,
+                id: lz.id,
+                code: lz.code,
+                name: lz.name,
+                color: lz.color,
+                displayOrder: lz.displayOrder,
+                priority: lz.priority,
                 pricing: lz.zonePricings[0]
                     ? {
                         originalPrice: lz.zonePricings[0].originalPrice,
@@ -282,14 +380,8 @@ export class SeatSelectionRepository {
             },
             include: {
                 locationZone: {
-                    include: {
-                        zone: {
-                            select: {
-                                id: true,
-                                type: true,
-                                priority: true,
-                            },
-                        },
+                    select: {
+                        ...ZONE_INFO_SELECT,
                         zonePricings: {
                             where: {
                                 eventId,
@@ -309,6 +401,7 @@ export class SeatSelectionRepository {
                         rowNumber: true,
                         order: true,
                         seats: {
+                            where: { retiredAt: null },
                             select: {
                                 id: true,
                             },
@@ -320,7 +413,7 @@ export class SeatSelectionRepository {
                 },
             },
             orderBy: {
-                position: 'asc',
+                displayOrder: 'asc',
             },
         });
 
@@ -329,23 +422,12 @@ export class SeatSelectionRepository {
             s.locationRows.flatMap((r: typeof s.locationRows[number]) => r.seats.map((seat: { id: string }) => seat.id))
         );
 
-        const reservedSeats = await prisma.bookingSeat.findMany({
-            where: {
-                scheduleId,
-                seatId: { in: allSeatIds },
-                isReserved: true,
-            },
-            select: {
-                seatId: true,
-            },
-        });
-
-        const reservedSeatIds = new Set(reservedSeats.map((s: { seatId: string }) => s.seatId));
+        const unavailableSeats = await this.getUnavailableSeats(scheduleId, allSeatIds);
 
         return sections.map((section: typeof sections[number]) => {
             const rows = section.locationRows.map((row: typeof section.locationRows[number]) => {
                 const totalSeats = row.seats.length;
-                const availableSeats = row.seats.filter((s: { id: string }) => !reservedSeatIds.has(s.id)).length;
+                const availableSeats = row.seats.filter((s: { id: string }) => !unavailableSeats.has(s.id)).length;
 
                 return {
                     id: row.id,
@@ -361,10 +443,12 @@ export class SeatSelectionRepository {
 
             return {
                 id: section.id,
-                position: section.position,
+                code: section.code,
+                name: section.name,
+                displayOrder: section.displayOrder,
                 numberOfRows: section.numberOfRows,
                 locationZoneId: section.locationZoneId,
-                zone: section.locationZone.zone,
+                zone: toZoneInfo(section.locationZone),
                 pricing: section.locationZone.zonePricings[0]
                     ? {
                         originalPrice: section.locationZone.zonePricings[0].originalPrice,
@@ -395,14 +479,8 @@ export class SeatSelectionRepository {
                 section: {
                     include: {
                         locationZone: {
-                            include: {
-                                zone: {
-                                    select: {
-                                        id: true,
-                                        type: true,
-                                        priority: true,
-                                    },
-                                },
+                            select: {
+                                ...ZONE_INFO_SELECT,
                                 zonePricings: {
                                     where: {
                                         eventId,
@@ -419,10 +497,12 @@ export class SeatSelectionRepository {
                     },
                 },
                 seats: {
+                    where: { retiredAt: null },
                     select: {
                         id: true,
                         seatNumber: true,
                         seatLabel: true,
+                        ...SEAT_ATTRIBUTES_SELECT,
                     },
                     orderBy: {
                         seatNumber: 'asc',
@@ -437,25 +517,20 @@ export class SeatSelectionRepository {
         // Get reserved seats
         const allSeatIds = rows.flatMap((r: typeof rows[number]) => r.seats.map((s: { id: string }) => s.id));
 
-        const reservedSeats = await prisma.bookingSeat.findMany({
-            where: {
-                scheduleId,
-                seatId: { in: allSeatIds },
-                isReserved: true,
-            },
-            select: {
-                seatId: true,
-            },
-        });
-
-        const reservedSeatIds = new Set(reservedSeats.map((s: { seatId: string }) => s.seatId));
+        const unavailableSeats = await this.getUnavailableSeats(scheduleId, allSeatIds);
 
         return rows.map((row: typeof rows[number]) => {
             const seats = row.seats.map((seat: typeof row.seats[number]) => ({
                 id: seat.id,
                 seatNumber: seat.seatNumber,
                 seatLabel: seat.seatLabel,
-                isAvailable: !reservedSeatIds.has(seat.id),
+                isAccessible: seat.isAccessible,
+                isCompanion: seat.isCompanion,
+                isObstructedView: seat.isObstructedView,
+                isAisle: seat.isAisle,
+                isBlocked: seat.isBlocked,
+                isAvailable: !unavailableSeats.has(seat.id),
+                status: unavailableSeats.get(seat.id) ?? 'available',
             }));
 
             const totalSeats = seats.length;
@@ -468,11 +543,10 @@ export class SeatSelectionRepository {
                 sectionId: row.sectionId,
                 section: {
                     id: row.section.id,
-                    position: row.section.position,
-                    locationZone: {
-                        id: row.section.locationZone.id,
-                        zone: row.section.locationZone.zone,
-                    },
+                    code: row.section.code,
+                    name: row.section.name,
+                    displayOrder: row.section.displayOrder,
+                    locationZone: toZoneInfo(row.section.locationZone),
                 },
                 pricing: row.section.locationZone.zonePricings[0]
                     ? {
@@ -490,15 +564,19 @@ export class SeatSelectionRepository {
     /**
      * Get all seats for a specific row with availability
      * Fourth (final) level of seat selection hierarchy
+     * Optional attribute filters narrow the seats returned
      */
     async getSeatsForRow(
         rowId: string,
         eventId: string,
-        scheduleId: string
+        scheduleId: string,
+        filters: SeatAttributeFilter = {}
     ): Promise<SeatWithAvailability[]> {
         const seats = await prisma.locationSeat.findMany({
             where: {
                 rowId,
+                retiredAt: null,
+                ...filters,
             },
             include: {
                 row: {
@@ -506,13 +584,8 @@ export class SeatSelectionRepository {
                         section: {
                             include: {
                                 locationZone: {
-                                    include: {
-                                        zone: {
-                                            select: {
-                                                id: true,
-                                                type: true,
-                                            },
-                                        },
+                                    select: {
+                                        ...ZONE_INFO_SELECT,
                                         zonePricings: {
                                             where: {
                                                 eventId,
@@ -539,34 +612,28 @@ export class SeatSelectionRepository {
         // Get reserved seats
         const seatIds = seats.map((s: { id: string }) => s.id);
 
-        const reservedSeats = await prisma.bookingSeat.findMany({
-            where: {
-                scheduleId,
-                seatId: { in: seatIds },
-                isReserved: true,
-            },
-            select: {
-                seatId: true,
-            },
-        });
-
-        const reservedSeatIds = new Set(reservedSeats.map((s: { seatId: string }) => s.seatId));
+        const unavailableSeats = await this.getUnavailableSeats(scheduleId, seatIds);
 
         return seats.map((seat: typeof seats[number]) => ({
             id: seat.id,
             seatNumber: seat.seatNumber,
             seatLabel: seat.seatLabel,
-            isAvailable: !reservedSeatIds.has(seat.id),
+            isAccessible: seat.isAccessible,
+            isCompanion: seat.isCompanion,
+            isObstructedView: seat.isObstructedView,
+            isAisle: seat.isAisle,
+            isBlocked: seat.isBlocked,
+            isAvailable: !unavailableSeats.has(seat.id),
+            status: unavailableSeats.get(seat.id) ?? 'available',
             row: {
                 id: seat.row.id,
                 rowNumber: seat.row.rowNumber,
                 section: {
                     id: seat.row.section.id,
-                    position: seat.row.section.position,
-                    locationZone: {
-                        id: seat.row.section.locationZone.id,
-                        zone: seat.row.section.locationZone.zone,
-                    },
+                    code: seat.row.section.code,
+                    name: seat.row.section.name,
+                    displayOrder: seat.row.section.displayOrder,
+                    locationZone: toZoneInfo(seat.row.section.locationZone),
                 },
             },
             pricing: seat.row.section.locationZone.zonePricings[0]
@@ -582,34 +649,35 @@ export class SeatSelectionRepository {
      * Get full seat map for an event/schedule
      * Returns complete hierarchy: zones -> sections -> rows -> seats
      * Useful for rendering a complete seat map UI
+     * With attribute filters, only matching seats are returned and rows left empty are dropped
+     * Seats held by ignoredSessionId are reported as available (e.g. to reallocate that session)
      */
     async getFullSeatMap(
         eventId: string,
         scheduleId: string,
-        locationId: string
+        locationId: string,
+        filters: SeatAttributeFilter = {},
+        ignoredSessionId?: string
     ): Promise<SeatMap> {
+        const hasFilters = Object.values(filters).some((value) => value !== undefined);
+
         // Get all location zones with full hierarchy
         const locationZones = await prisma.locationZone.findMany({
             where: {
                 locationId,
             },
             include: {
-                zone: {
-                    select: {
-                        id: true,
-                        type: true,
-                        priority: true,
-                    },
-                },
                 locationSections: {
                     include: {
                         locationRows: {
                             include: {
                                 seats: {
+                                    where: { retiredAt: null, ...filters },
                                     select: {
                                         id: true,
                                         seatNumber: true,
                                         seatLabel: true,
+                                        ...SEAT_ATTRIBUTES_SELECT,
                                     },
                                     orderBy: {
                                         seatNumber: 'asc',
@@ -622,7 +690,7 @@ export class SeatSelectionRepository {
                         },
                     },
                     orderBy: {
-                        position: 'asc',
+                        displayOrder: 'asc',
                     },
                 },
                 zonePricings: {
@@ -637,45 +705,49 @@ export class SeatSelectionRepository {
                     take: 1,
                 },
             },
-            orderBy: {
-                zone: {
-                    priority: 'asc',
-                },
-            },
+            orderBy: [
+                { displayOrder: 'asc' },
+                { priority: 'asc' },
+            ],
         });
 
         // Get all reserved seats for this schedule
-        const reservedSeats = await prisma.bookingSeat.findMany({
-            where: {
-                scheduleId,
-                isReserved: true,
-            },
-            select: {
-                seatId: true,
-            },
-        });
-
-        const reservedSeatIds = new Set(reservedSeats.map((s: { seatId: string }) => s.seatId));
+        const unavailableSeats = await this.getUnavailableSeats(scheduleId, undefined, ignoredSessionId);
 
         let totalSeats = 0;
         let availableSeats = 0;
+        let heldSeats = 0;
+        let blockedSeats = 0;
 
         const zones = locationZones.map((lz: typeof locationZones[number]) => {
             let zoneTotalSeats = 0;
             let zoneAvailableSeats = 0;
 
             const sections = lz.locationSections.map((section: typeof lz.locationSections[number]) => {
-                const rows = section.locationRows.map((row: typeof section.locationRows[number]) => {
+                const sectionRows = hasFilters
+                    ? section.locationRows.filter((row: typeof section.locationRows[number]) => row.seats.length > 0)
+                    : section.locationRows;
+
+                const rows = sectionRows.map((row: typeof section.locationRows[number]) => {
                     const seats = row.seats.map((seat: typeof row.seats[number]) => {
-                        const isAvailable = !reservedSeatIds.has(seat.id);
+                        const status: SeatAvailabilityStatus = unavailableSeats.get(seat.id) ?? 'available';
+                        const isAvailable = status === 'available';
                         zoneTotalSeats++;
                         if (isAvailable) zoneAvailableSeats++;
+                        if (status === 'held') heldSeats++;
+                        if (status === 'blocked') blockedSeats++;
 
                         return {
                             id: seat.id,
                             seatNumber: seat.seatNumber,
                             seatLabel: seat.seatLabel,
+                            isAccessible: seat.isAccessible,
+                            isCompanion: seat.isCompanion,
+                            isObstructedView: seat.isObstructedView,
+                            isAisle: seat.isAisle,
+                            isBlocked: seat.isBlocked,
                             isAvailable,
+                            status,
                         };
                     });
 
@@ -689,7 +761,9 @@ export class SeatSelectionRepository {
 
                 return {
                     id: section.id,
-                    position: section.position,
+                    code: section.code,
+                    name: section.name,
+                    displayOrder: section.displayOrder,
                     rows,
                 };
             });
@@ -698,10 +772,7 @@ export class SeatSelectionRepository {
             availableSeats += zoneAvailableSeats;
 
             return {
-                id: lz.zone.id,
-                locationZoneId: lz.id,
-                type: lz.zone.type,
-                priority: lz.zone.priority,
+                ...toZoneInfo(lz),
                 pricing: lz.zonePricings[0]
                     ? {
                         originalPrice: lz.zonePricings[0].originalPrice,
@@ -722,7 +793,9 @@ export class SeatSelectionRepository {
             summary: {
                 totalSeats,
                 availableSeats,
-                reservedSeats: totalSeats - availableSeats,
+                heldSeats,
+                reservedSeats: totalSeats - availableSeats - heldSeats - blockedSeats,
+                blockedSeats,
             },
         };
     }
@@ -738,14 +811,11 @@ export class SeatSelectionRepository {
             rowNumber: number;
             section: {
                 id: string;
-                position: SectionPosition;
+                code: string;
                 locationZone: {
                     id: string;
                     locationId: string;
-                    zone: {
-                        id: string;
-                        type: ZoneType;
-                    };
+                    code: string;
                 };
             };
         };
@@ -753,6 +823,7 @@ export class SeatSelectionRepository {
         return await prisma.locationSeat.findMany({
             where: {
                 id: { in: seatIds },
+                retiredAt: null,
             },
             select: {
                 id: true,
@@ -764,17 +835,12 @@ export class SeatSelectionRepository {
                         section: {
                             select: {
                                 id: true,
-                                position: true,
+                                code: true,
                                 locationZone: {
                                     select: {
                                         id: true,
                                         locationId: true,
-                                        zone: {
-                                            select: {
-                                                id: true,
-                                                type: true,
-                                            },
-                                        },
+                                        code: true,
                                     },
                                 },
                             },
@@ -787,6 +853,7 @@ export class SeatSelectionRepository {
 
     /**
      * Check seat availability for a schedule
+     * Seats held by an active session, reserved by a booking or blocked are unavailable
      */
     async checkSeatsAvailability(
         seatIds: string[],
@@ -796,29 +863,31 @@ export class SeatSelectionRepository {
         unavailableSeats: Array<{
             seatId: string;
             seatLabel: string;
+            status: SeatAvailabilityStatus;
         }>;
     }> {
-        const reservedSeats = await prisma.bookingSeat.findMany({
+        const unavailableSeats = await this.getUnavailableSeats(scheduleId, seatIds);
+
+        if (unavailableSeats.size === 0) {
+            return { available: true, unavailableSeats: [] };
+        }
+
+        const seats = await prisma.locationSeat.findMany({
             where: {
-                seatId: { in: seatIds },
-                scheduleId,
-                isReserved: true,
+                id: { in: Array.from(unavailableSeats.keys()) },
             },
             select: {
-                seatId: true,
-                seat: {
-                    select: {
-                        seatLabel: true,
-                    },
-                },
+                id: true,
+                seatLabel: true,
             },
         });
 
         return {
-            available: reservedSeats.length === 0,
-            unavailableSeats: reservedSeats.map((s: typeof reservedSeats[number]) => ({
-                seatId: s.seatId,
-                seatLabel: s.seat.seatLabel,
+            available: false,
+            unavailableSeats: seats.map((seat: typeof seats[number]) => ({
+                seatId: seat.id,
+                seatLabel: seat.seatLabel,
+                status: unavailableSeats.get(seat.id) ?? 'reserved',
             })),
         };
     }
@@ -884,25 +953,14 @@ export class SeatSelectionRepository {
     /**
      * Get location zone by ID
      */
-    async getLocationZone(locationZoneId: string): Promise<{
-        id: string;
+    async getLocationZone(locationZoneId: string): Promise<(ZoneInfo & {
         locationId: string;
-        zoneId: string;
-        zone: {
-            type: ZoneType;
-        };
-    } | null> {
+    }) | null> {
         return await prisma.locationZone.findUnique({
             where: { id: locationZoneId },
             select: {
-                id: true,
+                ...ZONE_INFO_SELECT,
                 locationId: true,
-                zoneId: true,
-                zone: {
-                    select: {
-                        type: true,
-                    },
-                },
             },
         });
     }
@@ -910,9 +968,7 @@ export class SeatSelectionRepository {
     /**
      * Get section by ID
      */
-    async getSection(sectionId: string): Promise<{
-        id: string;
-        position: SectionPosition;
+    async getSection(sectionId: string): Promise<SectionInfo & {
         locationZoneId: string;
         locationZone: {
             locationId: string;
@@ -921,8 +977,7 @@ export class SeatSelectionRepository {
         return await prisma.locationSection.findUnique({
             where: { id: sectionId },
             select: {
-                id: true,
-                position: true,
+                ...SECTION_INFO_SELECT,
                 locationZoneId: true,
                 locationZone: {
                     select: {
@@ -976,8 +1031,10 @@ export class SeatSelectionRepository {
         seatId: string;
         isAdminLocked: boolean;
         isReserved: boolean;
-        zoneType: ZoneType;
-        sectionPosition: SectionPosition;
+        zoneCode: string;
+        zoneName: any;
+        sectionCode: string;
+        sectionName: any;
         rowNumberSnapshot: number;
         seatNumberSnapshot: number;
         createdAt: Date;
@@ -988,17 +1045,8 @@ export class SeatSelectionRepository {
             row: {
                 id: string;
                 rowNumber: number;
-                section: {
-                    id: string;
-                    position: SectionPosition;
-                    locationZone: {
-                        id: string;
-                        zone: {
-                            id: string;
-                            type: ZoneType;
-                            priority: number;
-                        };
-                    };
+                section: SectionInfo & {
+                    locationZone: ZoneInfo;
                 };
             };
         };
@@ -1032,8 +1080,10 @@ export class SeatSelectionRepository {
                 seatId: true,
                 isAdminLocked: true,
                 isReserved: true,
-                zoneType: true,
-                sectionPosition: true,
+                zoneCode: true,
+                zoneName: true,
+                sectionCode: true,
+                sectionName: true,
                 rowNumberSnapshot: true,
                 seatNumberSnapshot: true,
                 createdAt: true,
@@ -1048,19 +1098,9 @@ export class SeatSelectionRepository {
                                 rowNumber: true,
                                 section: {
                                     select: {
-                                        id: true,
-                                        position: true,
+                                        ...SECTION_INFO_SELECT,
                                         locationZone: {
-                                            select: {
-                                                id: true,
-                                                zone: {
-                                                    select: {
-                                                        id: true,
-                                                        type: true,
-                                                        priority: true,
-                                                    },
-                                                },
-                                            },
+                                            select: ZONE_INFO_SELECT,
                                         },
                                     },
                                 },
@@ -1095,8 +1135,8 @@ export class SeatSelectionRepository {
                 },
             },
             orderBy: [
-                { seat: { row: { section: { locationZone: { zone: { priority: 'asc' } } } } } },
-                { seat: { row: { section: { position: 'asc' } } } },
+                { seat: { row: { section: { locationZone: { displayOrder: 'asc' } } } } },
+                { seat: { row: { section: { displayOrder: 'asc' } } } },
                 { seat: { row: { rowNumber: 'asc' } } },
                 { seat: { seatNumber: 'asc' } },
             ],
@@ -1,4 +1,4 @@
-import { SeatsSessionStatus, SectionPosition, ZoneType } from '@prisma/client';
+import { SeatsSessionStatus } from '@prisma/client';
 
 import prisma from '../utils/prisma.client';
 
@@ -6,7 +6,7 @@ export class SessionRepository {
     /**
      * Create a new session
      */
-    async create(data: { userId: string; eventId: string; scheduleId: string; code: string }) {
+    async create(data: { userId: string; eventId: string; scheduleId: string; code: string; expiresAt: Date }) {
         return prisma.session.create({
             data,
         });
@@ -41,7 +41,7 @@ export class SessionRepository {
     }
 
     /**
-     * Find pending session for a user on specific event and schedule
+     * Find pending (not yet expired) session for a user on specific event and schedule
      */
     async findPendingSession(userId: string, eventId: string, scheduleId: string) {
         return prisma.session.findFirst({
@@ -50,6 +50,7 @@ export class SessionRepository {
                 eventId,
                 scheduleId,
                 status: SeatsSessionStatus.PENDING,
+                expiresAt: { gt: new Date() },
             },
             include: {
                 seatsSessions: {
@@ -60,11 +61,7 @@ export class SessionRepository {
                                     include: {
                                         section: {
                                             include: {
-                                                locationZone: {
-                                                    include: {
-                                                        zone: true,
-                                                    },
-                                                },
+                                                locationZone: true,
                                             },
                                         },
                                     },
@@ -119,7 +116,6 @@ export class SessionRepository {
                                             include: {
                                                 locationZone: {
                                                     include: {
-                                                        zone: true,
                                                         zonePricings: {
                                                             select: {
                                                                 originalPrice: true,
@@ -153,28 +149,108 @@ export class SessionRepository {
     }
 
     /**
-     * Find seat by location details (zoneType, sectionPosition, rowNumber, seatNumber)
+     * Claim a pending, unexpired session of a user for checkout by completing it
+     * Run in the checkout transaction: a concurrent checkout of the same session waits on the
+     * row and then finds it no longer pending. Returns false when the session cannot be claimed
+     */
+    async claimForCheckout(sessionId: string, userId: string, tx: any): Promise<boolean> {
+        const claimed = await tx.session.updateMany({
+            where: {
+                id: sessionId,
+                userId,
+                status: SeatsSessionStatus.PENDING,
+                expiresAt: { gt: new Date() },
+            },
+            data: { status: SeatsSessionStatus.COMPLETED },
+        });
+        return claimed.count > 0;
+    }
+
+    /**
+     * Update session hold deadline
+     */
+    async updateExpiresAt(sessionId: string, expiresAt: Date) {
+        return prisma.session.update({
+            where: { id: sessionId },
+            data: { expiresAt },
+        });
+    }
+
+    /**
+     * Cancel all pending sessions whose hold deadline has passed and release their seats
+     * Returns the expired sessions with the seats that were released
+     */
+    async expireStaleSessions(now: Date): Promise<Array<{
+        id: string;
+        eventId: string;
+        scheduleId: string;
+        seatIds: string[];
+    }>> {
+        return prisma.$transaction(async (tx: any) => {
+            const staleSessions = await tx.session.findMany({
+                where: {
+                    status: SeatsSessionStatus.PENDING,
+                    expiresAt: { lt: now },
+                },
+                select: {
+                    id: true,
+                    eventId: true,
+                    scheduleId: true,
+                    seatsSessions: {
+                        select: { seatId: true },
+                    },
+                },
+            });
+
+            if (staleSessions.length === 0) {
+                return [];
+            }
+
+            const sessionIds = staleSessions.map((s: { id: string }) => s.id);
+
+            await tx.seatsSession.deleteMany({
+                where: { sessionId: { in: sessionIds } },
+            });
+
+            await tx.session.updateMany({
+                where: {
+                    id: { in: sessionIds },
+                    status: SeatsSessionStatus.PENDING,
+                },
+                data: { status: SeatsSessionStatus.CANCELLED },
+            });
+
+            return staleSessions.map((s: typeof staleSessions[number]) => ({
+                id: s.id,
+                eventId: s.eventId,
+                scheduleId: s.scheduleId,
+                seatIds: s.seatsSessions.map((ss: { seatId: string }) => ss.seatId),
+            }));
+        });
+    }
+
+    /**
+     * Find seat by location details (zoneCode, sectionCode, rowNumber, seatNumber)
      * The seat must belong to the event's location
      */
     async findSeatByLocationDetails(
         locationId: string,
-        zoneType: ZoneType,
-        sectionPosition: SectionPosition,
+        zoneCode: string,
+        sectionCode: string,
         rowNumber: number,
         seatNumber: number
     ) {
         return prisma.locationSeat.findFirst({
             where: {
                 seatNumber,
+                retiredAt: null,
                 row: {
                     rowNumber,
                     section: {
-                        position: sectionPosition,
+                        code: sectionCode,
                         locationZone: {
                             locationId,
-                            zone: {
-                                type: zoneType,
-                            },
+                            code: zoneCode,
                         },
                     },
                 },
@@ -184,11 +260,7 @@ export class SessionRepository {
                     include: {
                         section: {
                             include: {
-                                locationZone: {
-                                    include: {
-                                        zone: true,
-                                    },
-                                },
+                                locationZone: true,
                             },
                         },
                     },
@@ -225,24 +297,40 @@ export class SessionRepository {
     }
 
     /**
-     * Add seat to session
+     * Add seat to session as an exclusive hold for the schedule
+     * Leftover holds from expired or finished sessions are released first
+     * Returns null if the seat is currently held by another active session
      */
-    async addSeatToSession(sessionId: string, seatId: string) {
-        return prisma.seatsSession.create({
-            data: {
-                sessionId,
-                seatId,
-            },
-            include: {
-                seat: {
+    async addSeatToSession(sessionId: string, scheduleId: string, seatId: string) {
+        try {
+            return await prisma.$transaction(async (tx: any) => {
+                await tx.seatsSession.deleteMany({
+                    where: {
+                        scheduleId,
+                        seatId,
+                        session: {
+                            OR: [
+                                { status: { not: SeatsSessionStatus.PENDING } },
+                                { expiresAt: { lte: new Date() } },
+                            ],
+                        },
+                    },
+                });
+
+                return tx.seatsSession.create({
+                    data: {
+                        sessionId,
+                        scheduleId,
+                        seatId,
+                    },
                     include: {
-                        row: {
+                        seat: {
                             include: {
-                                section: {
+                                row: {
                                     include: {
-                                        locationZone: {
+                                        section: {
                                             include: {
-                                                zone: true,
+                                                locationZone: true,
                                             },
                                         },
                                     },
@@ -250,9 +338,97 @@ export class SessionRepository {
                             },
                         },
                     },
-                },
-            },
-        });
+                });
+            });
+        } catch (error: any) {
+            // Unique constraint on (scheduleId, seatId): another session holds the seat
+            if (error.code === 'P2002') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Add several seats to session as exclusive holds in one transaction
+     * Leftover holds from expired or finished sessions are released first
+     * Returns false (and holds nothing) if any seat is held by another active session
+     */
+    async addSeatsToSession(sessionId: string, scheduleId: string, seatIds: string[]): Promise<boolean> {
+        try {
+            await prisma.$transaction(async (tx: any) => {
+                await tx.seatsSession.deleteMany({
+                    where: {
+                        scheduleId,
+                        seatId: { in: seatIds },
+                        session: {
+                            OR: [
+                                { status: { not: SeatsSessionStatus.PENDING } },
+                                { expiresAt: { lte: new Date() } },
+                            ],
+                        },
+                    },
+                });
+
+                await tx.seatsSession.createMany({
+                    data: seatIds.map((seatId) => ({
+                        sessionId,
+                        scheduleId,
+                        seatId,
+                    })),
+                });
+            });
+            return true;
+        } catch (error: any) {
+            // Unique constraint on (scheduleId, seatId): another session holds one of the seats
+            if (error.code === 'P2002') {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Replace all seats of a session in one transaction
+     * Returns false (keeping the current seats) if another session holds one of the new seats
+     */
+    async replaceSessionSeats(sessionId: string, scheduleId: string, seatIds: string[]): Promise<boolean> {
+        try {
+            await prisma.$transaction(async (tx: any) => {
+                await tx.seatsSession.deleteMany({
+                    where: {
+                        OR: [
+                            { sessionId },
+                            {
+                                scheduleId,
+                                seatId: { in: seatIds },
+                                session: {
+                                    OR: [
+                                        { status: { not: SeatsSessionStatus.PENDING } },
+                                        { expiresAt: { lte: new Date() } },
+                                    ],
+                                },
+                            },
+                        ],
+                    },
+                });
+
+                await tx.seatsSession.createMany({
+                    data: seatIds.map((seatId) => ({
+                        sessionId,
+                        scheduleId,
+                        seatId,
+                    })),
+                });
+            });
+            return true;
+        } catch (error: any) {
+            // Unique constraint on (scheduleId, seatId): another session holds one of the seats
+            if (error.code === 'P2002') {
+                return false;
+            }
+            throw error;
+        }
     }
 
     /**
@@ -279,7 +455,6 @@ export class SessionRepository {
                                     include: {
                                         locationZone: {
                                             include: {
-                                                zone: true,
                                                 zonePricings: {
                                                     select: {
                                                         originalPrice: true,
@@ -300,6 +475,17 @@ export class SessionRepository {
         });
     }
 
+    /**
+     * Get IDs of seats held by a session
+     */
+    async findSessionSeatIds(sessionId: string): Promise<string[]> {
+        const seatsSessions = await prisma.seatsSession.findMany({
+            where: { sessionId },
+            select: { seatId: true },
+        });
+        return seatsSessions.map((ss: { seatId: string }) => ss.seatId);
+    }
+
     /**
      * Clear all seats from a session
      */
@@ -0,0 +1,79 @@
+import { Prisma, TicketType } from '@prisma/client';
+
+import { prisma } from '../utils/prisma.client';
+
+export class TicketTypeRepository {
+    /**
+     * Create a new ticket type
+     */
+    async create(data: Prisma.TicketTypeUncheckedCreateInput): Promise<TicketType> {
+        return await prisma.ticketType.create({ data });
+    }
+
+    /**
+     * Find ticket type by ID
+     */
+    async findById(id: string): Promise<TicketType | null> {
+        return await prisma.ticketType.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Find ticket types of an event (display order)
+     */
+    async findByEventId(eventId: string, activeOnly = false): Promise<TicketType[]> {
+        return await prisma.ticketType.findMany({
+            where: {
+                eventId,
+                ...(activeOnly && { active: true }),
+            },
+            orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+        });
+    }
+
+    /**
+     * Check whether an event sells any active ticket type
+     */
+    async hasActiveTicketTypes(eventId: string): Promise<boolean> {
+        const count = await prisma.ticketType.count({
+            where: { eventId, active: true },
+        });
+        return count > 0;
+    }
+
+    /**
+     * Update ticket type
+     */
+    async update(id: string, data: Prisma.TicketTypeUncheckedUpdateInput): Promise<TicketType> {
+        return await prisma.ticketType.update({
+            where: { id },
+            data,
+        });
+    }
+
+    /**
+     * Delete ticket type
+     */
+    async delete(id: string): Promise<void> {
+        await prisma.ticketType.delete({
+            where: { id },
+        });
+    }
+
+    /**
+     * Count bookings that sold a ticket type (as a line item or on a seat)
+     */
+    async countBookings(id: string): Promise<number> {
+        return await prisma.booking.count({
+            where: {
+                OR: [
+                    { bookingItems: { some: { ticketTypeId: id } } },
+                    { bookingSeats: { some: { ticketTypeId: id } } },
+                ],
+            },
+        });
+    }
+}
+
+export const ticketTypeRepository = new TicketTypeRepository();
@@ -2,6 +2,8 @@ import { Prisma, Transaction } from '@prisma/client';
 
 import { createPaginatedResponse, PaginatedResponse } from '../utils/pagination.util';
 import { prisma } from '../utils/prisma.client';
+import { promoCodeRepository } from './promo-code.repository';
+import { scheduleRepository } from './schedule.repository';
 
 export const MAX_PENDING_TRANSACTIONS = 3;
 
@@ -252,6 +254,7 @@ export class TransactionRepository {
     /**
      * Create a checkout transaction (PURCHASE action)
      * @param data Transaction data
+     * @param tx Transaction client (optional, to create it with the bookings it pays for)
      * @returns Created transaction
      */
     async createCheckoutTransaction(data: {
@@ -263,8 +266,8 @@ export class TransactionRepository {
         status: 'PENDING' | 'COMPLETED';
         walletId?: string;
         completedBy?: string;
-    }): Promise<Transaction> {
-        return await prisma.transaction.create({
+    }, tx: any = prisma): Promise<Transaction> {
+        return await tx.transaction.create({
             data: {
                 userId: data.userId,
                 amount: data.amount,
@@ -305,8 +308,23 @@ export class TransactionRepository {
      */
     async cancelTransactionWithBookings(
         transactionId: string,
-    ): Promise<Transaction> {
+    ) {
         return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            // General-admission bookings (no seats) give their tickets back to the schedule
+            const generalAdmissionBookings = await tx.booking.findMany({
+                where: {
+                    transactionId,
+                    status: { in: ['PENDING', 'CONFIRMED'] },
+                    scheduleId: { not: null },
+                    bookingSeats: { none: {} },
+                },
+                select: { scheduleId: true, quantity: true },
+            });
+
+            for (const booking of generalAdmissionBookings) {
+                await scheduleRepository.releaseCapacity(booking.scheduleId!, booking.quantity, tx);
+            }
+
             // Cancel all related bookings
             await tx.booking.updateMany({
                 where: { transactionId },
@@ -318,6 +336,13 @@ export class TransactionRepository {
                 },
             });
 
+            // Release promo redemptions of the cancelled bookings
+            const cancelledBookings = await tx.booking.findMany({
+                where: { transactionId },
+                select: { id: true },
+            });
+            await promoCodeRepository.releaseForBookings(cancelledBookings.map((booking) => booking.id), tx);
+
             // Cancel the transaction
             return await tx.transaction.update({
                 where: { id: transactionId },
@@ -331,6 +356,7 @@ export class TransactionRepository {
                             bookingNumber: true,
                             status: true,
                             isActive: true,
+                            scheduleId: true,
                         },
                     },
                 },
@@ -0,0 +1,337 @@
+import { Prisma, SeatsSessionStatus, WaitlistEntry, WaitlistStatus } from '@prisma/client';
+
+import { createPaginatedResponse } from '../utils/pagination.util';
+import { prisma } from '../utils/prisma.client';
+
+/**
+ * Statuses of entries still in line (waiting or holding an offer)
+ */
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = [WaitlistStatus.WAITING, WaitlistStatus.OFFERED];
+
+const entryDetailsInclude = {
+    event: {
+        select: {
+            id: true,
+            name: true,
+            eventSlug: true,
+            haveSeats: true,
+        },
+    },
+    schedule: {
+        select: {
+            id: true,
+            startAt: true,
+            endAt: true,
+        },
+    },
+    locationZone: {
+        select: {
+            id: true,
+            code: true,
+            name: true,
+        },
+    },
+};
+
+export class WaitlistRepository {
+    /**
+     * Create a waitlist entry
+     */
+    async create(data: Prisma.WaitlistEntryUncheckedCreateInput): Promise<WaitlistEntry> {
+        return await prisma.waitlistEntry.create({ data });
+    }
+
+    /**
+     * Find waitlist entry by ID
+     */
+    async findById(id: string): Promise<WaitlistEntry | null> {
+        return await prisma.waitlistEntry.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Find the entry a user still has in line for a schedule (and zone)
+     */
+    async findActiveEntry(
+        userId: string,
+        scheduleId: string,
+        locationZoneId: string | null
+    ): Promise<WaitlistEntry | null> {
+        return await prisma.waitlistEntry.findFirst({
+            where: {
+                userId,
+                scheduleId,
+                locationZoneId,
+                status: { in: ACTIVE_WAITLIST_STATUSES },
+            },
+        });
+    }
+
+    /**
+     * Find the entries of a user with their event, schedule and zone (newest first)
+     */
+    async findByUserId(userId: string, activeOnly = false) {
+        return await prisma.waitlistEntry.findMany({
+            where: {
+                userId,
+                ...(activeOnly && { status: { in: ACTIVE_WAITLIST_STATUSES } }),
+            },
+            orderBy: {
+                createdAt: 'desc',
+            },
+            include: entryDetailsInclude,
+        });
+    }
+
+    /**
+     * Position of a waiting entry in its line (1 = next)
+     */
+    async getPosition(entry: { scheduleId: string; locationZoneId: string | null; createdAt: Date }): Promise<number> {
+        const ahead = await prisma.waitlistEntry.count({
+            where: {
+                scheduleId: entry.scheduleId,
+                locationZoneId: entry.locationZoneId,
+                status: WaitlistStatus.WAITING,
+                createdAt: { lt: entry.createdAt },
+            },
+        });
+        return ahead + 1;
+    }
+
+    /**
+     * Find the entries of a schedule with their users (oldest first, i.e. in line order)
+     */
+    async findBySchedule(
+        scheduleId: string,
+        page: number,
+        limit: number,
+        filters?: { status?: WaitlistStatus; locationZoneId?: string }
+    ) {
+        const skip = (page - 1) * limit;
+
+        const where: Prisma.WaitlistEntryWhereInput = {
+            scheduleId,
+            ...(filters?.status && { status: filters.status }),
+            ...(filters?.locationZoneId && { locationZoneId: filters.locationZoneId }),
+        };
+
+        const [entries, total] = await Promise.all([
+            prisma.waitlistEntry.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: {
+                    createdAt: 'asc',
+                },
+                include: {
+                    user: {
+                        select: {
+                            id: true,
+                            name: true,
+                            email: true,
+                            phoneNumber: true,
+                        },
+                    },
+                    locationZone: entryDetailsInclude.locationZone,
+                },
+            }),
+            prisma.waitlistEntry.count({ where }),
+        ]);
+
+        return createPaginatedResponse(entries, total, page, limit);
+    }
+
+    /**
+     * Count entries and requested tickets still in line per schedule, zone and status for an event
+     */
+    async getEventSummary(eventId: string): Promise<Array<{
+        scheduleId: string;
+        locationZoneId: string | null;
+        status: WaitlistStatus;
+        _count: { _all: number };
+        _sum: { quantity: number | null };
+    }>> {
+        return await prisma.waitlistEntry.groupBy({
+            by: ['scheduleId', 'locationZoneId', 'status'],
+            where: {
+                eventId,
+                status: { in: ACTIVE_WAITLIST_STATUSES },
+            },
+            _count: { _all: true },
+            _sum: { quantity: true },
+        });
+    }
+
+    /**
+     * Find the waiting entries of a schedule in line order with what a notification needs
+     */
+    async findWaiting(scheduleId: string, tx: any = prisma) {
+        return await tx.waitlistEntry.findMany({
+            where: {
+                scheduleId,
+                status: WaitlistStatus.WAITING,
+            },
+            orderBy: {
+                createdAt: 'asc',
+            },
+            include: {
+                user: {
+                    select: { selectedLanguage: true },
+                },
+                locationZone: {
+                    select: { name: true },
+                },
+            },
+        });
+    }
+
+    /**
+     * Tickets held by open offers of a schedule (a zone of it for seated events)
+     * Offers of excludeUserId are not counted, so the user holding them can buy
+     */
+    async countOfferedQuantity(
+        scheduleId: string,
+        locationZoneId: string | null,
+        excludeUserId: string | null = null,
+        tx: any = prisma
+    ): Promise<number> {
+        const result = await tx.waitlistEntry.aggregate({
+            where: {
+                scheduleId,
+                locationZoneId,
+                status: WaitlistStatus.OFFERED,
+                offerExpiresAt: { gt: new Date() },
+                ...(excludeUserId && { userId: { not: excludeUserId } }),
+            },
+            _sum: { quantity: true },
+        });
+        return result._sum.quantity ?? 0;
+    }
+
+    /**
+     * Seats of a zone that are neither booked nor held by an active seat session for a schedule
+     * Retired and blocked seats are not counted as sellable
+     */
+    async countFreeZoneSeats(scheduleId: string, locationZoneId: string, tx: any = prisma): Promise<number> {
+        const zoneFilter = { row: { section: { locationZoneId } } };
+
+        const [totalSeats, reservedSeats, heldSeats] = await Promise.all([
+            tx.locationSeat.count({
+                where: { ...zoneFilter, retiredAt: null, isBlocked: false },
+            }),
+            tx.bookingSeat.count({
+                where: { scheduleId, isReserved: true, seat: zoneFilter },
+            }),
+            tx.seatsSession.count({
+                where: {
+                    scheduleId,
+                    seat: zoneFilter,
+                    session: {
+                        status: SeatsSessionStatus.PENDING,
+                        expiresAt: { gt: new Date() },
+                    },
+                },
+            }),
+        ]);
+
+        return Math.max(totalSeats - reservedSeats - heldSeats, 0);
+    }
+
+    /**
+     * Serialize offer processing of a schedule until the end of the transaction
+     */
+    async lockSchedule(scheduleId: string, tx: any): Promise<void> {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${scheduleId}))`;
+    }
+
+    /**
+     * Give a waiting entry its priority purchase window
+     */
+    async offer(id: string, offeredAt: Date, offerExpiresAt: Date, tx: any = prisma): Promise<WaitlistEntry> {
+        return await tx.waitlistEntry.update({
+            where: { id },
+            data: {
+                status: WaitlistStatus.OFFERED,
+                offeredAt,
+                offerExpiresAt,
+            },
+        });
+    }
+
+    /**
+     * Expire offers whose purchase window has passed
+     * Returns the schedules whose held tickets went back to the line
+     */
+    async expireOffers(now: Date, scheduleId?: string, tx: any = prisma): Promise<string[]> {
+        const where = {
+            status: WaitlistStatus.OFFERED,
+            offerExpiresAt: { lte: now },
+            ...(scheduleId && { scheduleId }),
+        };
+
+        const expired = await tx.waitlistEntry.findMany({
+            where,
+            select: { scheduleId: true },
+            distinct: ['scheduleId'],
+        });
+        if (expired.length === 0) {
+            return [];
+        }
+
+        await tx.waitlistEntry.updateMany({
+            where,
+            data: { status: WaitlistStatus.EXPIRED },
+        });
+
+        return expired.map((entry: { scheduleId: string }) => entry.scheduleId);
+    }
+
+    /**
+     * Expire entries of schedules that have ended
+     */
+    async expireEndedSchedules(now: Date): Promise<number> {
+        const result = await prisma.waitlistEntry.updateMany({
+            where: {
+                status: { in: ACTIVE_WAITLIST_STATUSES },
+                schedule: { endAt: { lt: now } },
+            },
+            data: { status: WaitlistStatus.EXPIRED },
+        });
+        return result.count;
+    }
+
+    /**
+     * Close the entries a user had in line for schedules they just bought tickets for
+     */
+    async markPurchased(userId: string, scheduleIds: string[], tx: any = prisma): Promise<number> {
+        if (scheduleIds.length === 0) {
+            return 0;
+        }
+
+        const result = await tx.waitlistEntry.updateMany({
+            where: {
+                userId,
+                scheduleId: { in: scheduleIds },
+                status: { in: ACTIVE_WAITLIST_STATUSES },
+            },
+            data: {
+                status: WaitlistStatus.PURCHASED,
+                purchasedAt: new Date(),
+            },
+        });
+        return result.count;
+    }
+
+    /**
+     * Take an entry out of line
+     */
+    async cancel(id: string): Promise<WaitlistEntry> {
+        return await prisma.waitlistEntry.update({
+            where: { id },
+            data: { status: WaitlistStatus.CANCELLED },
+        });
+    }
+}
+
+export const waitlistRepository = new WaitlistRepository();
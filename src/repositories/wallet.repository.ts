@@ -137,6 +137,32 @@ export class WalletRepository {
         return await this.updateAmount(walletId, newAmount);
     }
 
+    /**
+     * Debit an active wallet in a single conditional statement, so concurrent payments cannot overdraw it
+     * @param walletId Wallet ID
+     * @param amount Amount to debit
+     * @param tx Transaction client (optional)
+     * @returns Updated wallet, or null when the wallet is inactive or its balance is too low
+     */
+    async debit(walletId: string, amount: number, tx: any = prisma): Promise<Wallet | null> {
+        const updated: number = await tx.$executeRaw`
+            UPDATE "wallets"
+            SET "previousAmount" = "amount",
+                "amount" = "amount" - ${amount},
+                "updatedAt" = NOW()
+            WHERE "id" = ${walletId}
+                AND "active" = true
+                AND "amount" >= ${amount}
+        `;
+        if (updated === 0) {
+            return null;
+        }
+
+        return await tx.wallet.findUnique({
+            where: { id: walletId },
+        });
+    }
+
     /**
      * Activate or deactivate wallet
      * @param walletId Wallet ID
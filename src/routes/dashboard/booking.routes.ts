@@ -30,7 +30,8 @@ const router = Router();
  * @body    For non-seated events (haveSeats: false):
  *          {
  *            eventId: string,
- *            quantity: number,
+ *            scheduleId?: string (optional when the event has a single schedule),
+ *            quantity: number (taken from the schedule's capacity),
  *            userInfo: { name: string, email?: string, phoneNumber?: string },
  *            unitPrice?: number (optional - uses event price if not provided)
  *          }
@@ -91,6 +92,19 @@ router.get(
     dashboardBookingController.getBookingById
 );
 
+/**
+ * @route   GET /api/v1/dashboard/bookings/:id/transfers
+ * @desc    Get the transfer history of a booking (who handed it to whom and when)
+ * @access  Private (Dashboard - bookings:read permission)
+ */
+router.get(
+    '/:id/transfers',
+    authMiddleware,
+    permissionMiddleware(['bookings:read']),
+    validate(dashboardBookingIdParamSchema, 'params'),
+    dashboardBookingController.getBookingTransfers
+);
+
 /**
  * @route   PATCH /api/v1/dashboard/bookings/:id/status
  * @desc    Update booking status
@@ -107,6 +121,8 @@ router.get(
  * - COMPLETED → REFUNDED
  * - CANCELLED → (no transitions)
  * - REFUNDED → (no transitions)
+ *
+ * Cancelling or refunding a general-admission booking gives its tickets back to the schedule.
  */
 router.patch(
     '/:id/status',
@@ -147,6 +163,7 @@ router.post(
  * @body    For non-seated events (haveSeats: false):
  *          {
  *            eventId: string,
+ *            scheduleId?: string (optional when the event has a single schedule),
  *            quantity: number (creates N bookings, each with quantity 1),
  *            unitPrice?: number (optional - uses event price if not provided)
  *          }
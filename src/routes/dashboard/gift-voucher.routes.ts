@@ -0,0 +1,145 @@
+import { Router } from 'express';
+
+import { dashboardGiftVoucherController } from '../../controllers/dashboard/gift-voucher.controller';
+import { authMiddleware, permissionMiddleware } from '../../middleware/auth.middleware';
+import { paginationMiddleware } from '../../middleware/pagination.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import {
+    createGiftVoucherBatchSchema,
+    createGiftVoucherSchema,
+    getGiftVoucherRedemptionsQuerySchema,
+    getGiftVouchersQuerySchema,
+    giftVoucherBatchIdParamSchema,
+    giftVoucherIdParamSchema,
+    voidGiftVoucherSchema,
+} from '../../schemas/gift-voucher.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/dashboard/gift-vouchers
+ * @desc    Issue a single gift voucher
+ * @access  Protected (gift-vouchers:create)
+ *
+ * - code (optional): matched case-insensitively; a GV-XXXX-XXXX-XXXX code is generated when omitted
+ * - currency (optional): wallet currency the voucher credits (default: AED)
+ * - expiresAt (optional): vouchers cannot be redeemed after this date
+ */
+router.post(
+    '/',
+    authMiddleware,
+    permissionMiddleware(['gift-vouchers:create']),
+    validate(createGiftVoucherSchema),
+    dashboardGiftVoucherController.createVoucher
+);
+
+/**
+ * @route   POST /api/v1/dashboard/gift-vouchers/batches
+ * @desc    Generate a batch of gift vouchers (e.g. for a corporate client)
+ * @access  Protected (gift-vouchers:create)
+ *
+ * Generates count (max 1000) vouchers with the same amount, currency and expiry.
+ * The generated codes are returned in the response.
+ */
+router.post(
+    '/batches',
+    authMiddleware,
+    permissionMiddleware(['gift-vouchers:create']),
+    validate(createGiftVoucherBatchSchema),
+    dashboardGiftVoucherController.createBatch
+);
+
+/**
+ * @route   GET /api/v1/dashboard/gift-vouchers
+ * @desc    Get all gift vouchers with filters and pagination
+ * @access  Protected (gift-vouchers:read)
+ * @query   status (optional): ACTIVE, REDEEMED, VOIDED
+ *          batchId (optional): Vouchers of a batch
+ *          expired (optional): true (unused and past expiry) / false (not expired)
+ *          search (optional): Search by code
+ *          page (optional): Page number (default: 1)
+ *          limit (optional): Items per page (default: 10, max: 100)
+ */
+router.get(
+    '/',
+    authMiddleware,
+    permissionMiddleware(['gift-vouchers:read']),
+    paginationMiddleware(10, 100),
+    validate(getGiftVouchersQuerySchema, 'query'),
+    dashboardGiftVoucherController.getAllVouchers
+);
+
+/**
+ * @route   GET /api/v1/dashboard/gift-vouchers/redemptions
+ * @desc    Get the redemption history with users and deposit transactions (latest first)
+ * @access  Protected (gift-vouchers:read)
+ * @query   batchId (optional): Redemptions of a batch
+ *          userId (optional): Redemptions by a user
+ *          from / to (optional): Redemption date range
+ *          page (optional): Page number (default: 1)
+ *          limit (optional): Items per page (default: 10, max: 100)
+ */
+router.get(
+    '/redemptions',
+    authMiddleware,
+    permissionMiddleware(['gift-vouchers:read']),
+    paginationMiddleware(10, 100),
+    validate(getGiftVoucherRedemptionsQuerySchema, 'query'),
+    dashboardGiftVoucherController.getRedemptions
+);
+
+/**
+ * @route   GET /api/v1/dashboard/gift-vouchers/batches
+ * @desc    Get gift voucher batches with voucher counts per status
+ * @access  Protected (gift-vouchers:read)
+ */
+router.get(
+    '/batches',
+    authMiddleware,
+    permissionMiddleware(['gift-vouchers:read']),
+    paginationMiddleware(10, 100),
+    dashboardGiftVoucherController.getBatches
+);
+
+/**
+ * @route   PATCH /api/v1/dashboard/gift-vouchers/batches/:id/void
+ * @desc    Void every unused voucher of a batch (redeemed ones are kept)
+ * @access  Protected (gift-vouchers:update)
+ */
+router.patch(
+    '/batches/:id/void',
+    authMiddleware,
+    permissionMiddleware(['gift-vouchers:update']),
+    validate(giftVoucherBatchIdParamSchema, 'params'),
+    validate(voidGiftVoucherSchema),
+    dashboardGiftVoucherController.voidBatch
+);
+
+/**
+ * @route   GET /api/v1/dashboard/gift-vouchers/:id
+ * @desc    Get gift voucher by ID with its batch, redeemer and deposit transaction
+ * @access  Protected (gift-vouchers:read)
+ */
+router.get(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['gift-vouchers:read']),
+    validate(giftVoucherIdParamSchema, 'params'),
+    dashboardGiftVoucherController.getVoucherById
+);
+
+/**
+ * @route   PATCH /api/v1/dashboard/gift-vouchers/:id/void
+ * @desc    Void an unused gift voucher
+ * @access  Protected (gift-vouchers:update)
+ */
+router.patch(
+    '/:id/void',
+    authMiddleware,
+    permissionMiddleware(['gift-vouchers:update']),
+    validate(giftVoucherIdParamSchema, 'params'),
+    validate(voidGiftVoucherSchema),
+    dashboardGiftVoucherController.voidVoucher
+);
+
+export default router;
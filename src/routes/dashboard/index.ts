@@ -6,15 +6,20 @@ import bookingRoutes from './booking.routes';
 import categoryRoutes from './category.routes';
 import countryCodeRoutes from './country-code.routes';
 import eventRoutes from './event.routes';
+import giftVoucherRoutes from './gift-voucher.routes';
 import locationRoutes from './location.routes';
 import paymentMethodRoutes from './payment-method.routes';
 import permissionRoutes from './permission.routes';
+import pricingRuleRoutes from './pricing-rule.routes';
+import promoCodeRoutes from './promo-code.routes';
 import roleRoutes from './role.routes';
 import scheduleRoutes from './schedule.routes';
 import scheduleWorkerRoutes from './schedule-worker.routes';
 import seatSelectionRoutes from './seat-selection.routes';
 import supportTicketRoutes from './support-ticket.routes';
+import ticketTypeRoutes from './ticket-type.routes';
 import userRoutes from './user.routes';
+import waitlistRoutes from './waitlist.routes';
 
 const router = Router();
 
@@ -29,9 +34,14 @@ router.use('/locations', locationRoutes);
 router.use('/events', eventRoutes);
 router.use('/schedules', scheduleRoutes);
 router.use('/schedule-workers', scheduleWorkerRoutes);
+router.use('/pricing-rules', pricingRuleRoutes);
+router.use('/ticket-types', ticketTypeRoutes);
+router.use('/promo-codes', promoCodeRoutes);
+router.use('/gift-vouchers', giftVoucherRoutes);
+router.use('/waitlist', waitlistRoutes);
 router.use("/payment-methods", paymentMethodRoutes);
 router.use('/support-tickets', supportTicketRoutes);
 router.use('/bookings', bookingRoutes);
 router.use('/seat-selection', seatSelectionRoutes);
 
-export default router;
\ No newline at end of file
+export default router;
\ No newline at end of file
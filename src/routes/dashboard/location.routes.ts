@@ -5,13 +5,21 @@ import { authMiddleware, permissionMiddleware } from '../../middleware/auth.midd
 import { paginationMiddleware } from '../../middleware/pagination.middleware';
 import { validate } from '../../middleware/validation.middleware';
 import {
+    bulkZonePricingSchema,
+    createLocationGateSchema,
     createLocationSchema,
+    generateLayoutSchema,
     getLocationsQuerySchema,
     getLocationZonesQuerySchema,
+    locationGateParamSchema,
     locationIdentifierParamSchema,
+    locationZoneParamSchema,
     setZonePricingSchema,
     toggleLocationActiveSchema,
+    updateLocationGateSchema,
     updateLocationSchema,
+    updateLocationZoneSchema,
+    updateSeatAttributesSchema,
 } from '../../schemas/location.schema';
 
 const router = Router();
@@ -74,6 +82,70 @@ router.get(
     dashboardLocationController.getLocationTemplate.bind(dashboardLocationController)
 );
 
+/**
+ * Preview the seat layout a template config would generate (dry run)
+ * POST /api/v1/dashboard/locations/:identifier/layout/preview
+ * 
+ * Body: { name?, config: { zones: [{ code, name, color?, displayOrder?, priority }], sections: [{ code, name, displayOrder?, zones: [{ zone, rows: [{ rowNumber, seats }] }] }] }, remap?: [{ from, to }] }
+ * Returns totals per zone and per section, plus the diff against the current seats
+ * (added, restored, removed, relabelled) and removals blocked by upcoming bookings, without writing anything
+ */
+router.post(
+    '/:identifier/layout/preview',
+    authMiddleware,
+    permissionMiddleware(['locations:manage-layout']),
+    validate(locationIdentifierParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    validate(generateLayoutSchema.shape.body as import('zod').ZodTypeAny),
+    dashboardLocationController.previewSeatLayout.bind(dashboardLocationController)
+);
+
+/**
+ * Generate the seat layout of a location from a template config
+ * POST /api/v1/dashboard/locations/:identifier/layout
+ * 
+ * Creates zones, sections, rows and seats (labels: ZONE_CODE-SECTION_CODE-ROW-SEAT)
+ * and saves the config as the location template.
+ * When the location already has a layout, the change is applied as a new revision:
+ * seats keep their IDs by section/row/seat number, removed seats with past bookings are retired,
+ * and seats with upcoming bookings can only be removed when remapped (remap: [{ from, to }] by seat label).
+ */
+router.post(
+    '/:identifier/layout',
+    authMiddleware,
+    permissionMiddleware(['locations:manage-layout']),
+    validate(locationIdentifierParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    validate(generateLayoutSchema.shape.body as import('zod').ZodTypeAny),
+    dashboardLocationController.generateSeatLayout.bind(dashboardLocationController)
+);
+
+/**
+ * Get the layout revision history of a location (newest first)
+ * GET /api/v1/dashboard/locations/:identifier/layout/revisions
+ */
+router.get(
+    '/:identifier/layout/revisions',
+    authMiddleware,
+    permissionMiddleware(['locations:read']),
+    validate(locationIdentifierParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    dashboardLocationController.getLayoutRevisions.bind(dashboardLocationController)
+);
+
+/**
+ * Set attribute flags on seats of a location
+ * PATCH /api/v1/dashboard/locations/:identifier/seats/attributes
+ * 
+ * Body: { seatIds: string[], attributes: { isAccessible?, isCompanion?, isObstructedView?, isAisle?, isBlocked? } }
+ * Blocked seats are never available for selection or booking.
+ */
+router.patch(
+    '/:identifier/seats/attributes',
+    authMiddleware,
+    permissionMiddleware(['locations:manage-layout']),
+    validate(locationIdentifierParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    validate(updateSeatAttributesSchema.shape.body as import('zod').ZodTypeAny),
+    dashboardLocationController.updateSeatAttributes.bind(dashboardLocationController)
+);
+
 /**
  * Get location zones with details and optional pricing info
  * GET /api/v1/dashboard/locations/:identifier/zones
@@ -91,6 +163,79 @@ router.get(
     dashboardLocationController.getLocationZones.bind(dashboardLocationController)
 );
 
+/**
+ * Update a location zone's display details
+ * PATCH /api/v1/dashboard/locations/:identifier/zones/:locationZoneId
+ * 
+ * Body: { name?, color?, displayOrder?, priority? }
+ * Zone codes are part of seat labels and only change through layout generation.
+ */
+router.patch(
+    '/:identifier/zones/:locationZoneId',
+    authMiddleware,
+    permissionMiddleware(['locations:manage-layout']),
+    validate(locationZoneParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    validate(updateLocationZoneSchema.shape.body as import('zod').ZodTypeAny),
+    dashboardLocationController.updateLocationZone.bind(dashboardLocationController)
+);
+
+/**
+ * Get the gates of a location with their zones
+ * GET /api/v1/dashboard/locations/:identifier/gates
+ */
+router.get(
+    '/:identifier/gates',
+    authMiddleware,
+    permissionMiddleware(['locations:read']),
+    validate(locationIdentifierParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    dashboardLocationController.getLocationGates.bind(dashboardLocationController)
+);
+
+/**
+ * Create a gate in a location
+ * POST /api/v1/dashboard/locations/:identifier/gates
+ *
+ * Body: { code, name, locationZoneIds?, allowsGeneralAdmission?, active? }
+ * Scanning at a gate admits seats of its zones only, and tickets without a seat
+ * only when allowsGeneralAdmission is set.
+ */
+router.post(
+    '/:identifier/gates',
+    authMiddleware,
+    permissionMiddleware(['locations:manage-layout']),
+    validate(locationIdentifierParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    validate(createLocationGateSchema.shape.body as import('zod').ZodTypeAny),
+    dashboardLocationController.createLocationGate.bind(dashboardLocationController)
+);
+
+/**
+ * Update a gate of a location
+ * PATCH /api/v1/dashboard/locations/:identifier/gates/:locationGateId
+ *
+ * Body: { code?, name?, locationZoneIds?, allowsGeneralAdmission?, active? }
+ * locationZoneIds replaces the zones of the gate.
+ */
+router.patch(
+    '/:identifier/gates/:locationGateId',
+    authMiddleware,
+    permissionMiddleware(['locations:manage-layout']),
+    validate(locationGateParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    validate(updateLocationGateSchema.shape.body as import('zod').ZodTypeAny),
+    dashboardLocationController.updateLocationGate.bind(dashboardLocationController)
+);
+
+/**
+ * Delete a gate of a location
+ * DELETE /api/v1/dashboard/locations/:identifier/gates/:locationGateId
+ */
+router.delete(
+    '/:identifier/gates/:locationGateId',
+    authMiddleware,
+    permissionMiddleware(['locations:manage-layout']),
+    validate(locationGateParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    dashboardLocationController.deleteLocationGate.bind(dashboardLocationController)
+);
+
 /**
  * Set zone pricing for a location
  * POST /api/v1/dashboard/locations/:identifier/zone-pricing
@@ -106,6 +251,41 @@ router.post(
     dashboardLocationController.setZonePricing.bind(dashboardLocationController)
 );
 
+/**
+ * Preview a bulk zone pricing change (dry run)
+ * POST /api/v1/dashboard/locations/:identifier/zone-pricing/bulk/preview
+ * 
+ * Body (by operation):
+ * - { operation: 'set', target: { eventId, scheduleIds? }, pricings: [{ locationZoneId, originalPrice, discountedPrice? }] }
+ * - { operation: 'copy', source: { scheduleId } | { eventId }, target: { eventId, scheduleIds? }, adjustmentPercent? }
+ * - { operation: 'adjust', target: { eventId, scheduleIds? }, locationZoneIds?, adjustmentPercent }
+ * Omitting scheduleIds targets every schedule of the event. An event source is copied schedule by schedule in start order.
+ * Returns the price of each (schedule, zone) before and after, without writing anything
+ */
+router.post(
+    '/:identifier/zone-pricing/bulk/preview',
+    authMiddleware,
+    permissionMiddleware(['locations:set-zone-pricing']),
+    validate(locationIdentifierParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    validate(bulkZonePricingSchema.shape.body as import('zod').ZodTypeAny),
+    dashboardLocationController.previewBulkZonePricing.bind(dashboardLocationController)
+);
+
+/**
+ * Apply a bulk zone pricing change
+ * POST /api/v1/dashboard/locations/:identifier/zone-pricing/bulk
+ * 
+ * Same body as the preview. All changed prices are written in one transaction.
+ */
+router.post(
+    '/:identifier/zone-pricing/bulk',
+    authMiddleware,
+    permissionMiddleware(['locations:set-zone-pricing']),
+    validate(locationIdentifierParamSchema.shape.params as import('zod').ZodTypeAny, 'params'),
+    validate(bulkZonePricingSchema.shape.body as import('zod').ZodTypeAny),
+    dashboardLocationController.applyBulkZonePricing.bind(dashboardLocationController)
+);
+
 /**
  * Update location
  * PUT /api/v1/dashboard/locations/:identifier
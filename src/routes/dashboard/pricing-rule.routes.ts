@@ -0,0 +1,90 @@
+import { Router } from 'express';
+
+import { dashboardPricingRuleController } from '../../controllers/dashboard/pricing-rule.controller';
+import { authMiddleware, permissionMiddleware } from '../../middleware/auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import {
+    createPricingRuleSchema,
+    pricingRuleEventIdParamSchema,
+    pricingRuleIdParamSchema,
+    updatePricingRuleSchema,
+} from '../../schemas/pricing-rule.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/dashboard/pricing-rules
+ * @desc    Create a pricing rule for an event
+ * @access  Protected (pricing-rules:create)
+ *
+ * Rule types:
+ * - EARLY_BIRD: applies to purchases made before endsAt
+ * - LAST_MINUTE: applies within hoursBeforeStart of the schedule start
+ * - OCCUPANCY: applies once occupancyThreshold (%) of the zone (or of the schedule capacity, without a zone) is sold
+ * - DAY_OF_WEEK: applies to schedules starting on daysOfWeek (0 = Sunday)
+ *
+ * adjustmentPercent is negative for a discount and positive for a surcharge.
+ * The matching rule with the lowest priority wins; locationZoneId limits a rule to one zone.
+ */
+router.post(
+    '/',
+    authMiddleware,
+    permissionMiddleware(['pricing-rules:create']),
+    validate(createPricingRuleSchema),
+    dashboardPricingRuleController.createRule
+);
+
+/**
+ * @route   GET /api/v1/dashboard/pricing-rules/event/:eventId
+ * @desc    Get pricing rules of an event (lowest priority first)
+ * @access  Protected (pricing-rules:read)
+ */
+router.get(
+    '/event/:eventId',
+    authMiddleware,
+    permissionMiddleware(['pricing-rules:read']),
+    validate(pricingRuleEventIdParamSchema, 'params'),
+    dashboardPricingRuleController.getEventRules
+);
+
+/**
+ * @route   GET /api/v1/dashboard/pricing-rules/:id
+ * @desc    Get pricing rule by ID
+ * @access  Protected (pricing-rules:read)
+ */
+router.get(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['pricing-rules:read']),
+    validate(pricingRuleIdParamSchema, 'params'),
+    dashboardPricingRuleController.getRuleById
+);
+
+/**
+ * @route   PUT /api/v1/dashboard/pricing-rules/:id
+ * @desc    Update pricing rule
+ * @access  Protected (pricing-rules:update)
+ */
+router.put(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['pricing-rules:update']),
+    validate(pricingRuleIdParamSchema, 'params'),
+    validate(updatePricingRuleSchema),
+    dashboardPricingRuleController.updateRule
+);
+
+/**
+ * @route   DELETE /api/v1/dashboard/pricing-rules/:id
+ * @desc    Delete pricing rule (only if it has not priced any booking)
+ * @access  Protected (pricing-rules:delete)
+ */
+router.delete(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['pricing-rules:delete']),
+    validate(pricingRuleIdParamSchema, 'params'),
+    dashboardPricingRuleController.deleteRule
+);
+
+export default router;
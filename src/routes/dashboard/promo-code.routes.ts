@@ -0,0 +1,111 @@
+import { Router } from 'express';
+
+import { dashboardPromoCodeController } from '../../controllers/dashboard/promo-code.controller';
+import { authMiddleware, permissionMiddleware } from '../../middleware/auth.middleware';
+import { paginationMiddleware } from '../../middleware/pagination.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import {
+    createPromoCodeSchema,
+    getPromoCodesQuerySchema,
+    promoCodeIdParamSchema,
+    updatePromoCodeSchema,
+} from '../../schemas/promo-code.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/dashboard/promo-codes
+ * @desc    Create a promo code
+ * @access  Protected (promo-codes:create)
+ *
+ * - code is matched case-insensitively (stored uppercase)
+ * - discountType PERCENTAGE takes discountValue as a percent (max 100), optionally capped by maxDiscountAmount;
+ *   FIXED takes discountValue as an amount
+ * - minOrderAmount: order subtotal needed to use the code
+ * - startsAt/endsAt: validity window
+ * - maxRedemptions / maxRedemptionsPerUser: limits on active redemptions (cancelled bookings release theirs)
+ * - eventIds / categoryIds / locationZoneIds: scope; empty lists apply to everything.
+ *   The discount is worked out on the part of the order in scope. Zone scope applies to seated bookings only.
+ */
+router.post(
+    '/',
+    authMiddleware,
+    permissionMiddleware(['promo-codes:create']),
+    validate(createPromoCodeSchema),
+    dashboardPromoCodeController.createPromoCode
+);
+
+/**
+ * @route   GET /api/v1/dashboard/promo-codes
+ * @desc    Get all promo codes with filters and pagination
+ * @access  Protected (promo-codes:read)
+ * @query   active (optional): true/false
+ *          eventId (optional): Codes scoped to this event
+ *          search (optional): Search by code
+ *          page (optional): Page number (default: 1)
+ *          limit (optional): Items per page (default: 10, max: 100)
+ */
+router.get(
+    '/',
+    authMiddleware,
+    permissionMiddleware(['promo-codes:read']),
+    paginationMiddleware(10, 100),
+    validate(getPromoCodesQuerySchema, 'query'),
+    dashboardPromoCodeController.getAllPromoCodes
+);
+
+/**
+ * @route   GET /api/v1/dashboard/promo-codes/:id
+ * @desc    Get promo code by ID
+ * @access  Protected (promo-codes:read)
+ */
+router.get(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['promo-codes:read']),
+    validate(promoCodeIdParamSchema, 'params'),
+    dashboardPromoCodeController.getPromoCodeById
+);
+
+/**
+ * @route   GET /api/v1/dashboard/promo-codes/:id/redemptions
+ * @desc    Get redemptions of a promo code with their users and bookings (newest first)
+ * @access  Protected (promo-codes:read)
+ */
+router.get(
+    '/:id/redemptions',
+    authMiddleware,
+    permissionMiddleware(['promo-codes:read']),
+    paginationMiddleware(10, 100),
+    validate(promoCodeIdParamSchema, 'params'),
+    dashboardPromoCodeController.getRedemptions
+);
+
+/**
+ * @route   PUT /api/v1/dashboard/promo-codes/:id
+ * @desc    Update promo code (code and discount type cannot change)
+ * @access  Protected (promo-codes:update)
+ */
+router.put(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['promo-codes:update']),
+    validate(promoCodeIdParamSchema, 'params'),
+    validate(updatePromoCodeSchema),
+    dashboardPromoCodeController.updatePromoCode
+);
+
+/**
+ * @route   DELETE /api/v1/dashboard/promo-codes/:id
+ * @desc    Delete promo code (only if it was never redeemed)
+ * @access  Protected (promo-codes:delete)
+ */
+router.delete(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['promo-codes:delete']),
+    validate(promoCodeIdParamSchema, 'params'),
+    dashboardPromoCodeController.deletePromoCode
+);
+
+export default router;
@@ -17,6 +17,9 @@ const router = Router();
  * @route   POST /api/v1/dashboard/schedules
  * @desc    Create a new schedule
  * @access  Protected (schedules:create)
+ *
+ * capacity limits general-admission tickets for the schedule. It defaults to the
+ * location capacity for non-seated events; null means unlimited.
  */
 router.post(
     '/',
@@ -77,6 +80,24 @@ router.get(
     dashboardScheduleController.getScheduleById
 );
 
+/**
+ * @route   GET /api/v1/dashboard/schedules/:id/admissions
+ * @desc    Get the live admission dashboard of a schedule
+ * @access  Protected (admissions:read)
+ *
+ * Tickets sold vs admitted and expected arrivals, people inside and re-entries, first admissions
+ * per minute over the last hour with the current rate, people admitted, re-entered and exited per
+ * gate (locationGateId null = scanned without a gate), admissions per scanning device and per
+ * worker, and seats sold, admitted and not yet arrived (noShows) per zone (zoneCode null = general admission).
+ */
+router.get(
+    '/:id/admissions',
+    authMiddleware,
+    permissionMiddleware(['admissions:read']),
+    validate(scheduleIdParamSchema, 'params'),
+    dashboardScheduleController.getScheduleAdmissions
+);
+
 /**
  * @route   PUT /api/v1/dashboard/schedules/:id
  * @desc    Update schedule
@@ -3,7 +3,7 @@ import { Router } from 'express';
 import { dashboardSeatSelectionController } from '../../controllers/dashboard/seat-selection.controller';
 import { authMiddleware, permissionMiddleware } from '../../middleware/auth.middleware';
 import { validate } from '../../middleware/validation.middleware';
-import { checkAvailabilityBodySchema, checkAvailabilityParamsSchema, getReservedSeatsParamsSchema, getRowsParamsSchema, getSeatMapParamsSchema, getSeatsParamsSchema, getSectionsParamsSchema, getZonesParamsSchema, validateSeatsBodySchema } from '../../schemas/seat-selection.schema';
+import { checkAvailabilityBodySchema, checkAvailabilityParamsSchema, getReservedSeatsParamsSchema, getRowsParamsSchema, getSeatMapParamsSchema, getSeatsParamsSchema, getSectionsParamsSchema, getZonesParamsSchema, seatAttributeFilterQuerySchema, validateSeatsBodySchema } from '../../schemas/seat-selection.schema';
 
 const router = Router();
 
@@ -70,13 +70,15 @@ router.get(
  * @access  Private (Dashboard - bookings:read permission)
  * 
  * Fourth (final) level - individual seats
- * Returns seats with detailed info and availability status
+ * Returns seats with detailed info, attributes and availability status
+ * @query   isAccessible, isCompanion, isObstructedView, isAisle (true|false) - optional attribute filters
  */
 router.get(
     '/schedules/:scheduleId/rows/:rowId/seats',
     authMiddleware,
     permissionMiddleware(['bookings:read']),
     validate(getSeatsParamsSchema, 'params'),
+    validate(seatAttributeFilterQuerySchema, 'query'),
     dashboardSeatSelectionController.getSeats
 );
 
@@ -88,15 +90,34 @@ router.get(
  * Returns full hierarchy in one call: Zones → Sections → Rows → Seats
  * Useful for rendering complete seat map UI
  * Note: May return large payload for venues with many seats
+ * @query   isAccessible, isCompanion, isObstructedView, isAisle (true|false) - optional attribute filters
  */
 router.get(
     '/schedules/:scheduleId/seat-map',
     authMiddleware,
     permissionMiddleware(['bookings:read']),
     validate(getSeatMapParamsSchema, 'params'),
+    validate(seatAttributeFilterQuerySchema, 'query'),
     dashboardSeatSelectionController.getSeatMap
 );
 
+/**
+ * @route   GET /api/v1/dashboard/seat-selection/schedules/:scheduleId/seat-map/stream
+ * @desc    Stream live seat changes for a schedule (Server-Sent Events)
+ * @access  Private (Dashboard - bookings:read permission)
+ * 
+ * Emits `ready` on connect, then `seats` events:
+ * { scheduleId, type: held|released|booked|admin_locked, status: available|held|reserved, seatIds, occurredAt }
+ * Load the seat map once and apply these events instead of polling
+ */
+router.get(
+    '/schedules/:scheduleId/seat-map/stream',
+    authMiddleware,
+    permissionMiddleware(['bookings:read']),
+    validate(getSeatMapParamsSchema, 'params'),
+    dashboardSeatSelectionController.streamSeatMap
+);
+
 /**
  * @route   POST /api/v1/dashboard/seat-selection/schedules/:scheduleId/check-availability
  * @desc    Check if specific seats are available for a schedule
@@ -105,7 +126,7 @@ router.get(
  * @body    { seatIds: string[] }
  * 
  * Quick availability check before booking
- * Returns availability status for each seat
+ * Returns availability status (available, held or reserved) for each seat
  */
 router.post(
     '/schedules/:scheduleId/check-availability',
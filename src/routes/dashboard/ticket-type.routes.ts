@@ -0,0 +1,90 @@
+import { Router } from 'express';
+
+import { dashboardTicketTypeController } from '../../controllers/dashboard/ticket-type.controller';
+import { authMiddleware, permissionMiddleware } from '../../middleware/auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import {
+    createTicketTypeSchema,
+    ticketTypeEventIdParamSchema,
+    ticketTypeIdParamSchema,
+    updateTicketTypeSchema,
+} from '../../schemas/ticket-type.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/dashboard/ticket-types
+ * @desc    Create a ticket type for an event (e.g., Adult, Child, Family pack)
+ * @access  Protected (ticket-types:create)
+ *
+ * - name/description are localized ({ en, ar })
+ * - admitCount is the number of people one ticket admits (always 1 for seated events)
+ * - minQuantity/maxQuantity limit how many tickets of the type one order can hold
+ * - requiresTicketTypeId: the type can only be bought together with that type
+ * - locationZoneId (seated events only) limits the type to seats of one zone
+ *
+ * Once a non-seated event has active ticket types, checkout and cart require tickets instead of quantity.
+ * For seated events, ticket types are optional and replace the zone price of the seats they are assigned to.
+ */
+router.post(
+    '/',
+    authMiddleware,
+    permissionMiddleware(['ticket-types:create']),
+    validate(createTicketTypeSchema),
+    dashboardTicketTypeController.createTicketType
+);
+
+/**
+ * @route   GET /api/v1/dashboard/ticket-types/event/:eventId
+ * @desc    Get ticket types of an event (display order, inactive included)
+ * @access  Protected (ticket-types:read)
+ */
+router.get(
+    '/event/:eventId',
+    authMiddleware,
+    permissionMiddleware(['ticket-types:read']),
+    validate(ticketTypeEventIdParamSchema, 'params'),
+    dashboardTicketTypeController.getEventTicketTypes
+);
+
+/**
+ * @route   GET /api/v1/dashboard/ticket-types/:id
+ * @desc    Get ticket type by ID
+ * @access  Protected (ticket-types:read)
+ */
+router.get(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['ticket-types:read']),
+    validate(ticketTypeIdParamSchema, 'params'),
+    dashboardTicketTypeController.getTicketTypeById
+);
+
+/**
+ * @route   PUT /api/v1/dashboard/ticket-types/:id
+ * @desc    Update ticket type
+ * @access  Protected (ticket-types:update)
+ */
+router.put(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['ticket-types:update']),
+    validate(ticketTypeIdParamSchema, 'params'),
+    validate(updateTicketTypeSchema),
+    dashboardTicketTypeController.updateTicketType
+);
+
+/**
+ * @route   DELETE /api/v1/dashboard/ticket-types/:id
+ * @desc    Delete ticket type (only if it has not been sold)
+ * @access  Protected (ticket-types:delete)
+ */
+router.delete(
+    '/:id',
+    authMiddleware,
+    permissionMiddleware(['ticket-types:delete']),
+    validate(ticketTypeIdParamSchema, 'params'),
+    dashboardTicketTypeController.deleteTicketType
+);
+
+export default router;
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+
+import { dashboardWaitlistController } from '../../controllers/dashboard/waitlist.controller';
+import { authMiddleware, permissionMiddleware } from '../../middleware/auth.middleware';
+import { paginationMiddleware } from '../../middleware/pagination.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import {
+    getScheduleWaitlistQuerySchema,
+    waitlistEventIdParamSchema,
+    waitlistScheduleIdParamSchema,
+} from '../../schemas/waitlist.schema';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/dashboard/waitlist/event/:eventId
+ * @desc    Get the waitlist length of every schedule of an event
+ * @access  Protected (waitlist:read)
+ *
+ * Per schedule (and per zone for seated events): entries and tickets still waiting,
+ * and entries and tickets held by an open priority purchase offer.
+ */
+router.get(
+    '/event/:eventId',
+    authMiddleware,
+    permissionMiddleware(['waitlist:read']),
+    validate(waitlistEventIdParamSchema, 'params'),
+    dashboardWaitlistController.getEventSummary
+);
+
+/**
+ * @route   GET /api/v1/dashboard/waitlist/schedule/:scheduleId
+ * @desc    Get the waitlist entries of a schedule in line order
+ * @access  Protected (waitlist:read)
+ * @query   status (optional): WAITING, OFFERED, PURCHASED, EXPIRED, CANCELLED
+ *          locationZoneId (optional): Entries of a zone
+ *          page (optional): Page number (default: 1)
+ *          limit (optional): Items per page (default: 10, max: 100)
+ */
+router.get(
+    '/schedule/:scheduleId',
+    authMiddleware,
+    permissionMiddleware(['waitlist:read']),
+    validate(waitlistScheduleIdParamSchema, 'params'),
+    paginationMiddleware(10, 100),
+    validate(getScheduleWaitlistQuerySchema, 'query'),
+    dashboardWaitlistController.getScheduleEntries
+);
+
+export default router;
@@ -0,0 +1,88 @@
+import { Router } from 'express';
+
+import mobileBookingTransferController from '../../controllers/mobile/booking-transfer.controller';
+import { authMiddleware } from '../../middleware/auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import { bookingTransferIdParamSchema, startBookingTransferSchema } from '../../schemas/booking-transfer.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/mobile/booking-transfers
+ * @desc    Start transferring a booking to another user
+ * @access  Private (Mobile Users)
+ * @body    { bookingId, email | phoneNumber }
+ *
+ * Only confirmed bookings nobody has been admitted on can be transferred, and only until
+ * check-in opens for the schedule. A booking can have one pending transfer at a time.
+ * The recipient is notified in-app when they already have an account; otherwise the transfer
+ * shows up once they sign in with that email or phone number.
+ */
+router.post(
+    '/',
+    authMiddleware,
+    validate(startBookingTransferSchema),
+    mobileBookingTransferController.startTransfer
+);
+
+/**
+ * @route   GET /api/v1/mobile/booking-transfers/incoming
+ * @desc    Get the pending transfers sent to the user
+ * @access  Private (Mobile Users)
+ */
+router.get(
+    '/incoming',
+    authMiddleware,
+    mobileBookingTransferController.getIncomingTransfers
+);
+
+/**
+ * @route   GET /api/v1/mobile/booking-transfers/outgoing
+ * @desc    Get the transfers the user started (newest first)
+ * @access  Private (Mobile Users)
+ */
+router.get(
+    '/outgoing',
+    authMiddleware,
+    mobileBookingTransferController.getOutgoingTransfers
+);
+
+/**
+ * @route   POST /api/v1/mobile/booking-transfers/:id/accept
+ * @desc    Accept a transfer; the booking and its seats move to the user's account
+ * @access  Private (Mobile Users)
+ *
+ * The booking gets a new QR code; the sender's copy no longer admits anyone.
+ */
+router.post(
+    '/:id/accept',
+    authMiddleware,
+    validate(bookingTransferIdParamSchema, 'params'),
+    mobileBookingTransferController.acceptTransfer
+);
+
+/**
+ * @route   POST /api/v1/mobile/booking-transfers/:id/decline
+ * @desc    Decline a transfer; the booking stays with the sender
+ * @access  Private (Mobile Users)
+ */
+router.post(
+    '/:id/decline',
+    authMiddleware,
+    validate(bookingTransferIdParamSchema, 'params'),
+    mobileBookingTransferController.declineTransfer
+);
+
+/**
+ * @route   POST /api/v1/mobile/booking-transfers/:id/cancel
+ * @desc    Cancel a pending transfer the user started
+ * @access  Private (Mobile Users)
+ */
+router.post(
+    '/:id/cancel',
+    authMiddleware,
+    validate(bookingTransferIdParamSchema, 'params'),
+    mobileBookingTransferController.cancelTransfer
+);
+
+export default router;
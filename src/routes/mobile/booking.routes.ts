@@ -1,7 +1,7 @@
 import { Router } from 'express';
 
 import mobileBookingController from '../../controllers/mobile/booking.controller';
-import { authMiddleware } from '../../middleware/auth.middleware';
+import { authMiddleware, workerMiddleware } from '../../middleware/auth.middleware';
 import { paginationMiddleware } from '../../middleware/pagination.middleware';
 import { validate } from '../../middleware/validation.middleware';
 import {
@@ -20,10 +20,23 @@ const router = Router();
 
 /**
  * @route   POST /api/v1/mobile/bookings/checkout
- * @desc    Checkout - handles both direct event and cart checkout
+ * @desc    Checkout - handles direct event, cart and seat-selection session checkout
  * @access  Private (Mobile Users)
- * @body    For direct checkout: { eventId, quantity, paymentMethodId }
+ * @body    For direct checkout: { eventId, scheduleId?, quantity | tickets, promoCode?, paymentMethodId }
  *          For cart checkout: { cartId, paymentMethodId }
+ *          For seated checkout: { sessionId, tickets?, promoCode?, paymentMethodId }
+ *
+ * tickets is [{ ticketTypeId, quantity }]. Events with active ticket types are bought with tickets
+ * instead of quantity; the booking quantity is then the number of people admitted and the booking
+ * keeps one line item per ticket type. For seated checkout, tickets must add up to the selected seats.
+ *
+ * promoCode is redeemed with the booking; cart checkout uses the code applied to the cart.
+ * Bookings record their discountAmount, and totalPrice is the amount charged after it.
+ * Cancelled or refunded bookings release their redemption.
+ *
+ * The booking is stored with its schedule. scheduleId can be omitted when the event has a
+ * single upcoming schedule; ended schedules cannot be booked.
+ * General-admission tickets are taken from the schedule's capacity. Returns 409 when the schedule is sold out.
  */
 router.post(
     '/checkout',
@@ -38,6 +51,7 @@ router.post(
  * @access  Private (Mobile Users)
  * @query   status (optional): BookingStatus enum
  *          eventId (optional): Filter by event ID
+ *          scheduleId (optional): Filter by schedule ID
  *          startDate (optional): Filter by booking creation start date (ISO string)
  *          endDate (optional): Filter by booking creation end date (ISO string)
  *          page (optional): Page number (default: 1)
@@ -63,15 +77,38 @@ router.get(
     mobileBookingController.getBookingById
 );
 
+/**
+ * @route   GET /api/v1/mobile/bookings/:id/ticket-secret
+ * @desc    Get the secret to show rotating ticket codes from
+ * @access  Private (Booking owner)
+ *
+ * Issued on first request. The app shows WLD1.<bookingId>.<code> as the QR code, where code is
+ * the TOTP (RFC 6238) of the base32 secret with the returned algorithm, digits and period, so a
+ * screenshot stops working within a minute. The secret is replaced when the booking changes hands.
+ * Issuing it replaces the booking's static QR codes, so copies of the ones shown before are REVOKED.
+ * From then on the booking is returned to the app without its static QR codes (booking.qrCode and
+ * bookingSeats[].qrCode are null); the new ones are the fallback for printed and admin tickets.
+ */
+router.get(
+    '/:id/ticket-secret',
+    authMiddleware,
+    validate(bookingIdParamSchema, 'params'),
+    mobileBookingController.getTicketSecret
+);
+
 /**
  * @route   PATCH /api/v1/mobile/bookings/:id/update-quantity
  * @desc    Update booking used quantity (workers only)
- * @access  Private (Workers)
- * @body    { quantity: number }
+ * @access  Private (Workers assigned to the booking's schedule, during its check-in window)
+ * @body    { quantity: number, deviceId?: string, locationGateId?: string }
+ *
+ * Recorded as a manual check-in. Prefer POST /api/v1/mobile/tickets/scan with the QR code.
+ * locationGateId is the gate letting the holder in; required when the venue has active gates.
  */
 router.patch(
     '/:id/update-quantity',
     authMiddleware,
+    workerMiddleware,
     validate(bookingIdParamSchema, 'params'),
     validate(updateBookingQuantitySchema),
     mobileBookingController.updateBookingQuantity
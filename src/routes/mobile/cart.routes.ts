@@ -3,7 +3,12 @@ import { Router } from 'express';
 import mobileCartController from '../../controllers/mobile/cart.controller';
 import { authMiddleware } from '../../middleware/auth.middleware';
 import { validate } from '../../middleware/validation.middleware';
-import { addToCartSchema, cartItemIdParamSchema, updateCartItemSchema } from '../../schemas/cart.schema';
+import {
+    addToCartSchema,
+    applyPromoCodeSchema,
+    cartItemIdParamSchema,
+    updateCartItemSchema,
+} from '../../schemas/cart.schema';
 
 const router = Router();
 
@@ -16,6 +21,11 @@ const router = Router();
  * @route   POST /api/v1/mobile/cart
  * @desc    Add item to cart
  * @access  Private (Mobile Users)
+ * @body    { eventId, scheduleId?, quantity | tickets }
+ *
+ * Items are kept per event and schedule; adding the same schedule again replaces its quantity.
+ * scheduleId can be omitted when the event has a single upcoming schedule.
+ * Events with active ticket types are added with tickets ([{ ticketTypeId, quantity }]) instead of quantity.
  */
 router.post(
     '/',
@@ -39,6 +49,8 @@ router.get(
  * @route   PATCH /api/v1/mobile/cart/items/:id
  * @desc    Update cart item quantity
  * @access  Private (Mobile Users)
+ *
+ * Not available for items bought with ticket types; add the event again to change its tickets.
  */
 router.patch(
     '/items/:id',
@@ -60,4 +72,32 @@ router.delete(
     mobileCartController.deleteCartItem
 );
 
+/**
+ * @route   POST /api/v1/mobile/cart/promo-code
+ * @desc    Apply a promo code to the cart
+ * @access  Private (Mobile Users)
+ * @body    { code }
+ *
+ * The code must apply to the cart as it is (validity window, limits, minimum order and scope).
+ * It replaces any code already applied; totalAmount and discountAmount include its discount.
+ * A code that stops applying (e.g., items removed) is dropped from the cart.
+ */
+router.post(
+    '/promo-code',
+    authMiddleware,
+    validate(applyPromoCodeSchema),
+    mobileCartController.applyPromoCode
+);
+
+/**
+ * @route   DELETE /api/v1/mobile/cart/promo-code
+ * @desc    Remove the promo code from the cart
+ * @access  Private (Mobile Users)
+ */
+router.delete(
+    '/promo-code',
+    authMiddleware,
+    mobileCartController.removePromoCode
+);
+
 export default router;
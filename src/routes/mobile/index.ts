@@ -3,15 +3,20 @@ import { Router } from 'express';
 import applicationFeatureRoutes from './application_feature.routes';
 import authRoutes from './auth.routes';
 import bookingRoutes from './booking.routes';
+import bookingTransferRoutes from './booking-transfer.routes';
 import cartRoutes from './cart.routes';
 import categoryRoutes from './category.routes';
 import countryCodeRoutes from './country-code.routes';
 import eventRoutes from './event.routes';
 import locationRoutes from './location.routes';
+import notificationRoutes from './notification.routes';
 import paymentMethodRoutes from './payment-method.routes';
+import promoCodeRoutes from './promo-code.routes';
 import sessionRoutes from './session.routes';
+import ticketRoutes from './ticket.routes';
 import transactionRoutes from './transaction.routes';
 import userRoutes from './user.routes';
+import waitlistRoutes from './waitlist.routes';
 import walletRoutes from './wallet.routes';
 
 const router = Router();
@@ -25,9 +30,14 @@ router.use('/locations', locationRoutes);
 router.use('/events', eventRoutes);
 router.use('/payment-methods', paymentMethodRoutes);
 router.use('/cart', cartRoutes);
+router.use('/promo-codes', promoCodeRoutes);
 router.use('/wallet', walletRoutes);
 router.use('/transactions', transactionRoutes);
 router.use('/bookings', bookingRoutes);
+router.use('/booking-transfers', bookingTransferRoutes);
+router.use('/tickets', ticketRoutes);
 router.use('/sessions', sessionRoutes);
+router.use('/waitlist', waitlistRoutes);
+router.use('/notifications', notificationRoutes);
 
-export default router;
\ No newline at end of file
+export default router;
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+
+import mobileNotificationController from '../../controllers/mobile/notification.controller';
+import { authMiddleware } from '../../middleware/auth.middleware';
+import { paginationMiddleware } from '../../middleware/pagination.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import { getNotificationsQuerySchema, notificationIdParamSchema } from '../../schemas/notification.schema';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/mobile/notifications
+ * @desc    Get the user's in-app notifications (newest first) with the unread count
+ * @access  Private (Mobile Users)
+ * @query   unread (optional): true to only return unread notifications
+ *          page (optional): Page number (default: 1)
+ *          limit (optional): Items per page (default: 10, max: 100)
+ */
+router.get(
+    '/',
+    authMiddleware,
+    paginationMiddleware(10, 100),
+    validate(getNotificationsQuerySchema, 'query'),
+    mobileNotificationController.getNotifications
+);
+
+/**
+ * @route   PATCH /api/v1/mobile/notifications/read-all
+ * @desc    Mark all notifications as read
+ * @access  Private (Mobile Users)
+ */
+router.patch(
+    '/read-all',
+    authMiddleware,
+    mobileNotificationController.markAllAsRead
+);
+
+/**
+ * @route   PATCH /api/v1/mobile/notifications/:id/read
+ * @desc    Mark a notification as read
+ * @access  Private (Mobile Users)
+ */
+router.patch(
+    '/:id/read',
+    authMiddleware,
+    validate(notificationIdParamSchema, 'params'),
+    mobileNotificationController.markAsRead
+);
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+
+import mobilePromoCodeController from '../../controllers/mobile/promo-code.controller';
+import { authMiddleware } from '../../middleware/auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import { validatePromoCodeSchema } from '../../schemas/promo-code.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/mobile/promo-codes/validate
+ * @desc    Check a promo code against a direct checkout before paying
+ * @access  Private (Mobile Users)
+ * @body    { code, eventId, scheduleId?, quantity | tickets }
+ * @returns { code, discountType, discountValue, subtotal, discountAmount, totalPrice }
+ *
+ * Nothing is redeemed; pass the code as promoCode to checkout to use it.
+ * For cart checkout, apply the code to the cart instead (POST /api/v1/mobile/cart/promo-code).
+ */
+router.post(
+    '/validate',
+    authMiddleware,
+    validate(validatePromoCodeSchema),
+    mobilePromoCodeController.validatePromoCode
+);
+
+export default router;
@@ -3,7 +3,9 @@ import { Router } from 'express';
 import { SessionController } from '../../controllers/mobile/session.controller';
 import { authMiddleware } from '../../middleware/auth.middleware';
 import { validate } from '../../middleware/validation.middleware';
+import { seatAttributeFilterQuerySchema } from '../../schemas/seat-selection.schema';
 import {
+    bestAvailableSchema,
     cancelSessionParamSchema,
     createSessionSchema,
     sessionIdParamSchema,
@@ -30,6 +32,25 @@ router.post(
     sessionController.createSession
 );
 
+/**
+ * @route   POST /api/v1/mobile/sessions/best-available
+ * @desc    Suggest the best available seats and hold them in a session
+ * @access  Private (authenticated users)
+ * @body    { eventId: string, scheduleId: string, quantity: number (1-10), zoneCode?: string }
+ * @returns { session, sessionUrl, isExisting, allocation: { contiguous, rowsUsed } }
+ * 
+ * Prefers adjacent seats in one row, then a block over nearby rows,
+ * ranked by zone priority, section display order and distance from the row centre.
+ * The user's pending session for this event+schedule is reused and its seats replaced.
+ * The user confirms by checking out the session, or adjusts it with the toggle endpoint.
+ */
+router.post(
+    '/best-available',
+    authMiddleware,
+    validate(bestAvailableSchema),
+    sessionController.bestAvailable
+);
+
 /**
  * @route   GET /api/v1/mobile/sessions/:sessionId
  * @desc    Get session by ID with all seat details
@@ -43,12 +64,42 @@ router.get(
     sessionController.getSession
 );
 
+/**
+ * @route   GET /api/v1/mobile/sessions/:sessionId/seat-map
+ * @desc    Get the seat map of the session's schedule with availability and seat attributes
+ * @access  Public
+ * @params  sessionId: string
+ * @query   isAccessible, isCompanion, isObstructedView, isAisle (true|false) - optional attribute filters
+ * @returns Zones → Sections → Rows → Seats, seats with status available|held|reserved|blocked
+ */
+router.get(
+    '/:sessionId/seat-map',
+    validate(sessionIdParamSchema, 'params'),
+    validate(seatAttributeFilterQuerySchema, 'query'),
+    sessionController.getSeatMap
+);
+
+/**
+ * @route   GET /api/v1/mobile/sessions/:sessionId/seat-map/stream
+ * @desc    Stream live seat changes for the session's schedule (Server-Sent Events)
+ * @access  Public
+ * @params  sessionId: string
+ * 
+ * Emits `ready` on connect, then `seats` events:
+ * { scheduleId, type: held|released|booked|admin_locked, status: available|held|reserved, seatIds, occurredAt }
+ */
+router.get(
+    '/:sessionId/seat-map/stream',
+    validate(sessionIdParamSchema, 'params'),
+    sessionController.streamSeatMap
+);
+
 /**
  * @route   POST /api/v1/mobile/sessions/:sessionId/seats/toggle
  * @desc    Toggle a seat in session (add if not exists, remove if exists)
  * @access  Public
  * @params  sessionId: string
- * @body    { sectionPosition: CENTER|LEFT|RIGHT, zoneType: VVIP|VIP|REGULAR|ECONOMY, rowNumber: number, seatNumber: number }
+ * @body    { sectionCode: string, zoneCode: string, rowNumber: number, seatNumber: number }
  * @returns { action: 'added'|'removed', seat: {...} }
  * 
  * Validations:
@@ -68,7 +119,7 @@ router.post(
  * @desc    Remove a specific seat from session
  * @access  Public
  * @params  sessionId: string
- * @body    { sectionPosition: CENTER|LEFT|RIGHT, zoneType: VVIP|VIP|REGULAR|ECONOMY, rowNumber: number, seatNumber: number }
+ * @body    { sectionCode: string, zoneCode: string, rowNumber: number, seatNumber: number }
  */
 router.delete(
     '/:sessionId/seats',
@@ -0,0 +1,108 @@
+import { Router } from 'express';
+
+import mobileTicketController from '../../controllers/mobile/ticket.controller';
+import { authMiddleware, workerMiddleware } from '../../middleware/auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import { scanTicketSchema, syncScansSchema, ticketScheduleIdParamSchema } from '../../schemas/ticket.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/mobile/tickets/scan
+ * @desc    Verify a scanned ticket QR code and let its holder(s) in or out
+ * @access  Private (Workers assigned to the schedule)
+ * @body    { code, scheduleId, quantity?, deviceId?, locationGateId?, direction? }
+ *
+ * code is the rotating code shown by the holder's app (WLD1.<bookingId>.<code>, see
+ * GET /api/v1/mobile/bookings/:id/ticket-secret), the signed QR code of the booking (returned to
+ * its owner as booking.qrCode, the fallback for printed tickets), or of
+ * one of its seats (bookingSeats[].qrCode), which admits that seat only. scheduleId is the schedule
+ * the gate is admitting to. quantity defaults to every remaining entry on the ticket; on seated
+ * bookings a booking code admits the next seats not admitted yet. Returns the holder, seats
+ * (with admittedAt and isInside), the seats let through (seatIds) and the remaining entries.
+ *
+ * locationGateId is the gate scanning (see the location gates), required when the venue has active
+ * gates (INVALID_GATE otherwise); seats may only enter at a gate
+ * linked to their zone, tickets without seats at gates allowing general admission.
+ * direction is IN (default) or OUT. When the event's reEntryPolicy allows it (UNLIMITED, or
+ * LIMITED to maxReEntries per person), people scanned OUT can come back IN; that entry is
+ * recorded as a re-entry (isReEntry) and does not use up an entry on the ticket.
+ * Check-in is open from CHECK_IN_OPENS_BEFORE_START before the schedule starts until
+ * CHECK_IN_CLOSES_AFTER_END after it ends. Each admission is stored as a check-in record.
+ *
+ * Rejected scans return errors.reason: INVALID_CODE (not signed by us), CODE_EXPIRED (rotating code
+ * outside its time window, e.g. a screenshot), NOT_ASSIGNED,
+ * CHECK_IN_CLOSED, REVOKED (replaced, e.g. after a transfer), WRONG_SCHEDULE, NOT_CONFIRMED,
+ * CANCELLED, REFUNDED, ALREADY_USED, QUANTITY_EXCEEDED, INVALID_GATE, ZONE_NOT_ALLOWED (with
+ * errors.allowedZones), RE_ENTRY_NOT_ALLOWED, RE_ENTRY_LIMIT_REACHED, ALREADY_INSIDE or NOT_INSIDE,
+ * with errors.ticket when the booking is known.
+ */
+router.post(
+    '/scan',
+    authMiddleware,
+    workerMiddleware,
+    validate(scanTicketSchema),
+    mobileTicketController.scanTicket
+);
+
+/**
+ * @route   GET /api/v1/mobile/tickets/manifest-key
+ * @desc    Get the public key offline manifests are signed with
+ * @access  Private (Workers)
+ *
+ * Returns algorithm (Ed25519), keyId and publicKey (SPKI PEM). Devices keep the key to verify
+ * manifest signatures offline, and fetch it again when a manifest carries another keyId.
+ */
+router.get(
+    '/manifest-key',
+    authMiddleware,
+    workerMiddleware,
+    mobileTicketController.getManifestKey
+);
+
+/**
+ * @route   GET /api/v1/mobile/tickets/manifest/:scheduleId
+ * @desc    Download the signed manifest of valid tickets for offline scanning
+ * @access  Private (Workers assigned to the schedule)
+ *
+ * Tickets are listed by codeHash, the SHA-256 hex of their QR code, with their remaining entries
+ * and who is inside (insideQuantity), and their seats (each with its own codeHash, admittedAt and isInside).
+ * The event's reEntryPolicy and maxReEntries and the venue's active gates with their zoneCodes are included.
+ * Tickets whose holder shows rotating codes have usesRotatingCodes. Their secrets are not shipped, so
+ * offline a rotating code (rotatingCode.prefix.<bookingId>.<digits digits>) is only matched to its ticket
+ * by bookingId and admitted provisionally; its digits are checked when the scan is synced (REJECTED
+ * with CODE_EXPIRED if they were not valid at scannedAt).
+ * The manifest holds holder details: keep it on the device only.
+ * signature is the Ed25519 signature (base64url) of the JSON of the manifest without it, made with
+ * the key keyId (see GET /api/v1/mobile/tickets/manifest-key).
+ */
+router.get(
+    '/manifest/:scheduleId',
+    authMiddleware,
+    workerMiddleware,
+    validate(ticketScheduleIdParamSchema, 'params'),
+    mobileTicketController.getManifest
+);
+
+/**
+ * @route   POST /api/v1/mobile/tickets/sync
+ * @desc    Upload a batch of scans made offline and reconcile them
+ * @access  Private (Workers assigned to the schedule)
+ * @body    { scheduleId, deviceId, locationGateId?, scans: [{ scanId, code, quantity?, scannedAt, direction? }] }
+ *
+ * scanId is unique per device, so a batch can be uploaded again safely. Scans are applied
+ * in scannedAt order at locationGateId and each gets a status: ADMITTED, EXITED, DUPLICATE (already synced),
+ * CONFLICT (no entries left or already inside / out, e.g. scanned at another gate; conflictingCheckIn tells where,
+ * or only part of quantity was left) or REJECTED (reason as for /scan).
+ * Rotating codes scanned more than ROTATING_TICKET_CODE_MAX_SYNC_AGE before the upload are REJECTED
+ * with CODE_EXPIRED, as their scannedAt cannot be trusted that far back.
+ */
+router.post(
+    '/sync',
+    authMiddleware,
+    workerMiddleware,
+    validate(syncScansSchema),
+    mobileTicketController.syncScans
+);
+
+export default router;
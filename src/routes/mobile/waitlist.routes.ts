@@ -0,0 +1,57 @@
+import { Router } from 'express';
+
+import mobileWaitlistController from '../../controllers/mobile/waitlist.controller';
+import { authMiddleware } from '../../middleware/auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import {
+    getMyWaitlistQuerySchema,
+    joinWaitlistSchema,
+    waitlistEntryIdParamSchema,
+} from '../../schemas/waitlist.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/mobile/waitlist
+ * @desc    Join the waitlist of a sold-out schedule
+ * @access  Private (Mobile Users)
+ * @body    { eventId, scheduleId, locationZoneId?, quantity }
+ *
+ * Seated events are waitlisted per zone (locationZoneId required); general-admission events per schedule.
+ * Only allowed when fewer than quantity tickets are left. When tickets free up, the next people in line
+ * get an in-app notification and the tickets are held for them for a limited time (status OFFERED,
+ * until offerExpiresAt). Buying tickets for the schedule closes the entry.
+ */
+router.post(
+    '/',
+    authMiddleware,
+    validate(joinWaitlistSchema),
+    mobileWaitlistController.joinWaitlist
+);
+
+/**
+ * @route   GET /api/v1/mobile/waitlist
+ * @desc    Get the user's waitlist entries (waiting entries include their position in line)
+ * @access  Private (Mobile Users)
+ * @query   active (optional): true to only return entries still in line
+ */
+router.get(
+    '/',
+    authMiddleware,
+    validate(getMyWaitlistQuerySchema, 'query'),
+    mobileWaitlistController.getMyEntries
+);
+
+/**
+ * @route   DELETE /api/v1/mobile/waitlist/:id
+ * @desc    Leave the waitlist (an open offer goes to the next people in line)
+ * @access  Private (Mobile Users)
+ */
+router.delete(
+    '/:id',
+    authMiddleware,
+    validate(waitlistEntryIdParamSchema, 'params'),
+    mobileWaitlistController.leaveWaitlist
+);
+
+export default router;
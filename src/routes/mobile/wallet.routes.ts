@@ -4,6 +4,7 @@ import { MobileWalletController } from '../../controllers/mobile/wallet.controll
 import { authMiddleware } from '../../middleware/auth.middleware';
 import { paginationMiddleware } from '../../middleware/pagination.middleware';
 import { validate } from '../../middleware/validation.middleware';
+import { purchaseGiftVoucherSchema, redeemGiftVoucherSchema } from '../../schemas/gift-voucher.schema';
 import { transactionStatusQuerySchema, walletIdParamSchema, walletTopUpSchema } from '../../schemas/transaction.schema';
 
 const router = Router();
@@ -43,6 +44,42 @@ router.post(
     walletController.topUpWallet
 );
 
+/**
+ * @route   POST /mobile/wallet/redeem-voucher
+ * @desc    Redeem a gift voucher into the wallet of its currency (created if missing)
+ * @access  Private
+ */
+router.post(
+    '/redeem-voucher',
+    authMiddleware,
+    validate(redeemGiftVoucherSchema),
+    walletController.redeemGiftVoucher
+);
+
+/**
+ * @route   POST /mobile/wallet/purchase-voucher
+ * @desc    Buy a gift voucher with the balance of the wallet of its currency
+ * @access  Private
+ */
+router.post(
+    '/purchase-voucher',
+    authMiddleware,
+    validate(purchaseGiftVoucherSchema),
+    walletController.purchaseGiftVoucher
+);
+
+/**
+ * @route   GET /mobile/wallet/purchased-vouchers
+ * @desc    Get the gift vouchers bought by the user
+ * @access  Private
+ */
+router.get(
+    '/purchased-vouchers',
+    authMiddleware,
+    paginationMiddleware(10, 100),
+    walletController.getPurchasedGiftVouchers
+);
+
 /**
  * @route   GET /mobile/wallet/:walletId/transactions
  * @desc    Get all transactions for a wallet
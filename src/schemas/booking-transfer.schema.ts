@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Schema for starting a booking transfer
+ * POST /api/v1/mobile/booking-transfers
+ * The recipient is identified by exactly one of email or phone number
+ */
+export const startBookingTransferSchema = z.object({
+    bookingId: z.string().cuid('Invalid booking ID format'),
+    email: z.string().email('Invalid email format').optional(),
+    phoneNumber: z.string().min(5, 'Phone number must be at least 5 characters').optional(),
+}).refine(
+    (data) => !!data.email !== !!data.phoneNumber,
+    { message: 'Provide either an email or a phone number' }
+);
+
+/**
+ * Schema for booking transfer ID parameter
+ */
+export const bookingTransferIdParamSchema = z.object({
+    id: z.string().cuid('Invalid transfer ID format'),
+});
+
+// Type exports
+export type StartBookingTransferInput = z.infer<typeof startBookingTransferSchema>;
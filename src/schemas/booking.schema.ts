@@ -1,22 +1,37 @@
 import { BookingStatus } from '@prisma/client';
 import { z } from 'zod';
 
+import { promoCodeTextSchema } from './promo-code.schema';
+import { ticketSelectionSchema } from './ticket-type.schema';
+
 /**
  * Schema for direct event checkout
  * POST /api/v1/mobile/bookings/checkout
  */
 export const directCheckoutSchema = z.object({
     eventId: z.string().cuid('Invalid event ID format'),
+    // Required for general-admission events with more than one upcoming schedule
+    scheduleId: z.string().cuid('Invalid schedule ID format').optional(),
     quantity: z
         .number()
         .int('Quantity must be an integer')
         .min(1, 'Quantity must be at least 1')
-        .max(100, 'Quantity cannot exceed 100'),
+        .max(100, 'Quantity cannot exceed 100')
+        .optional(),
+    // Required instead of quantity for events that sell ticket types
+    tickets: ticketSelectionSchema.optional(),
+    promoCode: promoCodeTextSchema.optional(),
     paymentMethodId: z.string().cuid('Invalid payment method ID format'),
-});
+}).refine(
+    (data) => (data.quantity === undefined) !== (data.tickets === undefined),
+    {
+        message: 'Provide either quantity or tickets',
+        path: ['quantity'],
+    }
+);
 
 /**
- * Schema for cart checkout
+ * Schema for cart checkout (uses the promo code applied to the cart)
  * POST /api/v1/mobile/bookings/checkout
  */
 export const cartCheckoutSchema = z.object({
@@ -25,11 +40,24 @@ export const cartCheckoutSchema = z.object({
 });
 
 /**
- * Combined checkout schema - either direct or cart checkout
+ * Schema for seated event checkout from a seat-selection session
+ * POST /api/v1/mobile/bookings/checkout
+ */
+export const sessionCheckoutSchema = z.object({
+    sessionId: z.string().cuid('Invalid session ID format'),
+    // One ticket per selected seat; seats are priced from their zone when omitted
+    tickets: ticketSelectionSchema.optional(),
+    promoCode: promoCodeTextSchema.optional(),
+    paymentMethodId: z.string().cuid('Invalid payment method ID format'),
+});
+
+/**
+ * Combined checkout schema - direct, cart or session checkout
  */
 export const checkoutSchema = z.union([
     directCheckoutSchema,
     cartCheckoutSchema,
+    sessionCheckoutSchema,
 ]);
 
 /**
@@ -48,6 +76,7 @@ export const getBookingsQuerySchema = z.object({
         .nativeEnum(BookingStatus)
         .optional(),
     eventId: z.string().cuid('Invalid event ID format').optional(),
+    scheduleId: z.string().cuid('Invalid schedule ID format').optional(),
     startDate: z.string().datetime('Invalid start date format').optional(),
     endDate: z.string().datetime('Invalid end date format').optional(),
 });
@@ -61,10 +90,13 @@ export const updateBookingQuantitySchema = z.object({
         .number()
         .int('Quantity must be an integer')
         .min(1, 'Quantity must be at least 1'),
+    deviceId: z.string().max(100, 'Device ID must be less than 100 characters').optional(),
+    locationGateId: z.string().cuid('Invalid gate ID format').optional(),
 });
 
 export type DirectCheckoutInput = z.infer<typeof directCheckoutSchema>;
 export type CartCheckoutInput = z.infer<typeof cartCheckoutSchema>;
+export type SessionCheckoutInput = z.infer<typeof sessionCheckoutSchema>;
 export type CheckoutInput = z.infer<typeof checkoutSchema>;
 export type BookingIdParam = z.infer<typeof bookingIdParamSchema>;
 export type GetBookingsQuery = z.infer<typeof getBookingsQuerySchema>;
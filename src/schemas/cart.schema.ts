@@ -1,17 +1,31 @@
 import { z } from 'zod';
 
+import { promoCodeTextSchema } from './promo-code.schema';
+import { ticketSelectionSchema } from './ticket-type.schema';
+
 /**
  * Schema for adding item to cart
  * POST /api/v1/mobile/cart
  */
 export const addToCartSchema = z.object({
     eventId: z.string().min(1, 'Event ID is required'),
+    // Required for events with more than one upcoming schedule
+    scheduleId: z.string().cuid('Invalid schedule ID format').optional(),
     quantity: z
         .number()
         .int('Quantity must be an integer')
         .min(1, 'Quantity must be at least 1')
-        .max(100, 'Quantity cannot exceed 100'),
-});
+        .max(100, 'Quantity cannot exceed 100')
+        .optional(),
+    // Required instead of quantity for events that sell ticket types
+    tickets: ticketSelectionSchema.optional(),
+}).refine(
+    (data) => (data.quantity === undefined) !== (data.tickets === undefined),
+    {
+        message: 'Provide either quantity or tickets',
+        path: ['quantity'],
+    }
+);
 
 /**
  * Schema for updating cart item quantity
@@ -25,6 +39,14 @@ export const updateCartItemSchema = z.object({
         .max(100, 'Quantity cannot exceed 100'),
 });
 
+/**
+ * Schema for applying a promo code to the cart
+ * POST /api/v1/mobile/cart/promo-code
+ */
+export const applyPromoCodeSchema = z.object({
+    code: promoCodeTextSchema,
+});
+
 /**
  * Schema for cart item ID parameter
  * Used in DELETE and PATCH endpoints
@@ -35,4 +57,5 @@ export const cartItemIdParamSchema = z.object({
 
 export type AddToCartInput = z.infer<typeof addToCartSchema>;
 export type UpdateCartItemInput = z.infer<typeof updateCartItemSchema>;
+export type ApplyPromoCodeInput = z.infer<typeof applyPromoCodeSchema>;
 export type CartItemIdParam = z.infer<typeof cartItemIdParamSchema>;
@@ -37,6 +37,8 @@ const seatSelectionSchema = z.object({
  */
 export const adminNonSeatedBookingSchema = z.object({
     eventId: z.string().cuid('Invalid event ID format'),
+    // Optional when the event has a single schedule
+    scheduleId: z.string().cuid('Invalid schedule ID format').optional(),
     quantity: z
         .number()
         .int('Quantity must be an integer')
@@ -128,6 +130,8 @@ export const cancelBookingSchema = z.object({
  */
 export const preReserveNonSeatedSchema = z.object({
     eventId: z.string().cuid('Invalid event ID format'),
+    // Optional when the event has a single schedule
+    scheduleId: z.string().cuid('Invalid schedule ID format').optional(),
     quantity: z
         .number()
         .int('Quantity must be an integer')
@@ -20,6 +20,8 @@ export const createEventSchema = z.object({
     startAt: z.string().datetime({ message: 'Invalid datetime format for startAt' }),
     endAt: z.string().datetime({ message: 'Invalid datetime format for endAt' }),
     haveSeats: z.boolean().optional().default(false),
+    reEntryPolicy: z.enum(['NONE', 'UNLIMITED', 'LIMITED']).optional().default('NONE'),
+    maxReEntries: z.number().int().positive({ message: 'Max re-entries must be a positive integer' }).optional(),
     originalPrice: z.number().positive({ message: 'Original price must be a positive number' }).optional(),
     discountedPrice: z.number().positive({ message: 'Discounted price must be a positive number' }).optional(),
     categoryIds: z.array(z.string().cuid()).min(1, 'At least one category is required'),
@@ -47,6 +49,12 @@ export const createEventSchema = z.object({
         message: 'originalPrice is required when haveSeats is false',
         path: ['originalPrice'],
     }
+).refine(
+    (data) => data.reEntryPolicy !== 'LIMITED' || data.maxReEntries !== undefined,
+    {
+        message: 'maxReEntries is required when reEntryPolicy is LIMITED',
+        path: ['maxReEntries'],
+    }
 ).refine(
     (data) => {
         // If discountedPrice is provided and originalPrice is provided, discountedPrice must be less than originalPrice
@@ -69,6 +77,8 @@ export const updateEventSchema = z.object({
     startAt: z.string().datetime({ message: 'Invalid datetime format for startAt' }).optional(),
     endAt: z.string().datetime({ message: 'Invalid datetime format for endAt' }).optional(),
     haveSeats: z.boolean().optional(),
+    reEntryPolicy: z.enum(['NONE', 'UNLIMITED', 'LIMITED']).optional(),
+    maxReEntries: z.number().int().positive({ message: 'Max re-entries must be a positive integer' }).nullable().optional(),
     originalPrice: z.number().positive({ message: 'Original price must be a positive number' }).nullable().optional(),
     discountedPrice: z.number().positive({ message: 'Discounted price must be a positive number' }).nullable().optional(),
     categoryIds: z.array(z.string().cuid()).min(1).optional(),
@@ -0,0 +1,125 @@
+import { GiftVoucherStatus } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Gift voucher code as entered by users (matched case-insensitively)
+ */
+export const giftVoucherCodeSchema = z
+    .string()
+    .trim()
+    .min(4, 'Voucher code must be at least 4 characters')
+    .max(32, 'Voucher code cannot exceed 32 characters')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Voucher code can only contain letters, numbers, dashes and underscores')
+    .transform((code) => code.toUpperCase());
+
+/**
+ * Voucher value fields shared by single and bulk issue
+ */
+const giftVoucherValueFields = {
+    amount: z.number().positive('Amount must be greater than 0'),
+    currency: z
+        .string()
+        .trim()
+        .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code')
+        .transform((currency) => currency.toUpperCase()),
+    expiresAt: z.string().datetime('Invalid datetime format for expiresAt').nullable(),
+};
+
+/**
+ * Schema for issuing a single gift voucher
+ * A code is generated when none is given
+ */
+export const createGiftVoucherSchema = z.object({
+    code: giftVoucherCodeSchema.optional(),
+    amount: giftVoucherValueFields.amount,
+    currency: giftVoucherValueFields.currency.optional(),
+    expiresAt: giftVoucherValueFields.expiresAt.optional(),
+});
+
+/**
+ * Schema for generating a batch of gift vouchers (e.g. for a corporate client)
+ */
+export const createGiftVoucherBatchSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    clientName: z.string().trim().max(100).nullable().optional(),
+    notes: z.string().trim().max(500).nullable().optional(),
+    count: z
+        .number()
+        .int('Count must be an integer')
+        .min(1, 'Count must be at least 1')
+        .max(1000, 'Count cannot exceed 1000'),
+    amount: giftVoucherValueFields.amount,
+    currency: giftVoucherValueFields.currency.optional(),
+    expiresAt: giftVoucherValueFields.expiresAt.optional(),
+});
+
+/**
+ * Schema for voiding unused gift vouchers (the body is optional)
+ */
+export const voidGiftVoucherSchema = z.object({
+    reason: z.string().trim().max(255).optional(),
+}).default({});
+
+/**
+ * Schema for getting gift vouchers with filters
+ * GET /api/v1/dashboard/gift-vouchers
+ */
+export const getGiftVouchersQuerySchema = z.object({
+    status: z.nativeEnum(GiftVoucherStatus, {
+        message: 'Invalid status. Must be ACTIVE, REDEEMED, or VOIDED',
+    }).optional(),
+    batchId: z.string().cuid('Invalid batch ID format').optional(),
+    expired: z.enum(['true', 'false']).optional(),
+    search: z.string().optional(), // Search by code
+});
+
+/**
+ * Schema for getting the redemption history
+ * GET /api/v1/dashboard/gift-vouchers/redemptions
+ */
+export const getGiftVoucherRedemptionsQuerySchema = z.object({
+    batchId: z.string().cuid('Invalid batch ID format').optional(),
+    userId: z.string().cuid('Invalid user ID format').optional(),
+    from: z.string().datetime('Invalid datetime format for from').optional(),
+    to: z.string().datetime('Invalid datetime format for to').optional(),
+});
+
+/**
+ * Schema for gift voucher ID parameter
+ */
+export const giftVoucherIdParamSchema = z.object({
+    id: z.string().cuid('Invalid gift voucher ID format'),
+});
+
+/**
+ * Schema for gift voucher batch ID parameter
+ */
+export const giftVoucherBatchIdParamSchema = z.object({
+    id: z.string().cuid('Invalid batch ID format'),
+});
+
+/**
+ * Schema for redeeming a gift voucher into the wallet
+ * POST /api/v1/mobile/wallet/redeem-voucher
+ */
+export const redeemGiftVoucherSchema = z.object({
+    code: giftVoucherCodeSchema,
+});
+
+/**
+ * Schema for buying a gift voucher with the wallet balance
+ * POST /api/v1/mobile/wallet/purchase-voucher
+ */
+export const purchaseGiftVoucherSchema = z.object({
+    amount: giftVoucherValueFields.amount,
+    currency: giftVoucherValueFields.currency.optional(),
+});
+
+// Type exports
+export type CreateGiftVoucherInput = z.infer<typeof createGiftVoucherSchema>;
+export type CreateGiftVoucherBatchInput = z.infer<typeof createGiftVoucherBatchSchema>;
+export type VoidGiftVoucherInput = z.infer<typeof voidGiftVoucherSchema>;
+export type GetGiftVouchersQuery = z.infer<typeof getGiftVouchersQuerySchema>;
+export type GetGiftVoucherRedemptionsQuery = z.infer<typeof getGiftVoucherRedemptionsQuerySchema>;
+export type RedeemGiftVoucherInput = z.infer<typeof redeemGiftVoucherSchema>;
+export type PurchaseGiftVoucherInput = z.infer<typeof purchaseGiftVoucherSchema>;
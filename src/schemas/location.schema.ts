@@ -132,6 +132,304 @@ export const setZonePricingSchema = z.object({
     }),
 });
 
+/**
+ * Schedules of an event targeted by a bulk pricing change
+ * Omitting scheduleIds targets every schedule of the event
+ */
+const bulkPricingTargetSchema = z.object({
+    eventId: z.string().min(1, 'Event ID is required'),
+    scheduleIds: z.array(z.string().min(1, 'Schedule ID is required')).min(1, 'At least one schedule ID is required').optional(),
+});
+
+/**
+ * Percentage change applied to prices (e.g., 10 raises by 10%, -15 lowers by 15%)
+ */
+const pricingAdjustmentPercentSchema = z
+    .number()
+    .gt(-100, 'Adjustment must be greater than -100%')
+    .max(1000, 'Adjustment cannot exceed 1000%');
+
+/**
+ * Schema for bulk zone pricing changes (preview and apply share the same body)
+ * - set: the same zone prices on all or selected schedules of an event
+ * - copy: prices of a schedule (to every target schedule) or of an event (schedule by schedule, in start order)
+ * - adjust: a percentage change of the current prices
+ */
+export const bulkZonePricingSchema = z.object({
+    body: z.discriminatedUnion('operation', [
+        z.object({
+            operation: z.literal('set'),
+            target: bulkPricingTargetSchema,
+            pricings: z.array(zonePricingItemSchema).min(1, 'At least one pricing item is required'),
+        }),
+        z.object({
+            operation: z.literal('copy'),
+            source: z.union([
+                z.object({ scheduleId: z.string().min(1, 'Source schedule ID is required') }),
+                z.object({ eventId: z.string().min(1, 'Source event ID is required') }),
+            ]),
+            target: bulkPricingTargetSchema,
+            adjustmentPercent: pricingAdjustmentPercentSchema.optional(),
+        }),
+        z.object({
+            operation: z.literal('adjust'),
+            target: bulkPricingTargetSchema,
+            locationZoneIds: z.array(z.string().min(1, 'Location zone ID is required')).min(1).optional(),
+            adjustmentPercent: pricingAdjustmentPercentSchema,
+        }),
+    ]),
+});
+
+/**
+ * Maximum seats in a single row of a generated layout
+ */
+const MAX_SEATS_PER_ROW = 500;
+
+/**
+ * Row in a layout template
+ */
+const layoutRowSchema = z.object({
+    rowNumber: z.number().int().positive('Row number must be a positive integer'),
+    seats: z
+        .number()
+        .int()
+        .positive('Seat count must be a positive integer')
+        .max(MAX_SEATS_PER_ROW, `A row cannot have more than ${MAX_SEATS_PER_ROW} seats`),
+});
+
+/**
+ * Zone or section code, used in seat labels (ZONE_CODE-SECTION_CODE-ROW-SEAT)
+ */
+const layoutCodeSchema = z
+    .string()
+    .regex(/^[A-Z0-9_]{1,30}$/, 'Code must be 1-30 uppercase letters, digits or underscores');
+
+/**
+ * Hex colour (e.g., #D4AF37)
+ */
+const hexColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a hex colour like #D4AF37');
+
+/**
+ * Zone of a layout template (venue-specific pricing zone)
+ */
+const layoutZoneDefinitionSchema = z.object({
+    code: layoutCodeSchema,
+    name: i18nSchema,
+    color: hexColorSchema.optional(),
+    displayOrder: z.number().int().min(0).optional(),
+    priority: z.number().int().positive('Priority must be a positive integer'),
+});
+
+/**
+ * Rows of a zone within a section of a layout template
+ */
+const layoutSectionZoneSchema = z.object({
+    zone: layoutCodeSchema,
+    rows: z.array(layoutRowSchema).min(1, 'Each zone must have at least one row'),
+});
+
+/**
+ * Section of a layout template
+ */
+const layoutSectionSchema = z.object({
+    code: layoutCodeSchema,
+    name: i18nSchema,
+    displayOrder: z.number().int().min(0).optional(),
+    zones: z.array(layoutSectionZoneSchema).min(1, 'Each section must have at least one zone'),
+});
+
+/**
+ * Layout template config, same shape as LocationTemplate.config
+ * {
+ *   zones: [{ code: 'VIP', name: { en: 'VIP' }, color: '#D4AF37', priority: 1 }],
+ *   sections: [{ code: 'C', name: { en: 'Center' }, zones: [{ zone: 'VIP', rows: [{ rowNumber: 1, seats: 20 }] }] }]
+ * }
+ */
+export const layoutTemplateConfigSchema = z
+    .object({
+        zones: z.array(layoutZoneDefinitionSchema).min(1, 'Layout must have at least one zone'),
+        sections: z.array(layoutSectionSchema).min(1, 'Layout must have at least one section'),
+    })
+    .superRefine((config, ctx) => {
+        const zoneCodes = new Set<string>();
+        config.zones.forEach((zone, zoneIndex) => {
+            if (zoneCodes.has(zone.code)) {
+                ctx.addIssue({
+                    code: 'custom',
+                    path: ['zones', zoneIndex, 'code'],
+                    message: `Zone ${zone.code} is defined more than once`,
+                });
+            }
+            zoneCodes.add(zone.code);
+        });
+
+        const sectionCodes = new Set<string>();
+        config.sections.forEach((section, sectionIndex) => {
+            if (sectionCodes.has(section.code)) {
+                ctx.addIssue({
+                    code: 'custom',
+                    path: ['sections', sectionIndex, 'code'],
+                    message: `Section ${section.code} is defined more than once`,
+                });
+            }
+            sectionCodes.add(section.code);
+
+            // Zones can appear once per section, and a row number once across the section's zones
+            const seenZones = new Set<string>();
+            const seenRows = new Set<number>();
+            section.zones.forEach((zoneBlock, zoneIndex) => {
+                if (!zoneCodes.has(zoneBlock.zone)) {
+                    ctx.addIssue({
+                        code: 'custom',
+                        path: ['sections', sectionIndex, 'zones', zoneIndex, 'zone'],
+                        message: `Zone ${zoneBlock.zone} is not defined in zones`,
+                    });
+                }
+
+                if (seenZones.has(zoneBlock.zone)) {
+                    ctx.addIssue({
+                        code: 'custom',
+                        path: ['sections', sectionIndex, 'zones', zoneIndex, 'zone'],
+                        message: `Zone ${zoneBlock.zone} is defined more than once in section ${section.code}`,
+                    });
+                }
+                seenZones.add(zoneBlock.zone);
+
+                zoneBlock.rows.forEach((row, rowIndex) => {
+                    if (seenRows.has(row.rowNumber)) {
+                        ctx.addIssue({
+                            code: 'custom',
+                            path: ['sections', sectionIndex, 'zones', zoneIndex, 'rows', rowIndex, 'rowNumber'],
+                            message: `Row ${row.rowNumber} is defined more than once in section ${section.code}`,
+                        });
+                    }
+                    seenRows.add(row.rowNumber);
+                });
+            });
+        });
+    });
+
+/**
+ * Schema for generating (or previewing) a location seat layout from a template config
+ */
+export const generateLayoutSchema = z.object({
+    body: z.object({
+        name: z.string().min(1, 'Template name cannot be empty').max(100).optional(),
+        config: layoutTemplateConfigSchema,
+        // Move upcoming bookings of removed seats to seats of the new layout (by seat label)
+        remap: z
+            .array(
+                z.object({
+                    from: z.string().min(1, 'Remap source seat label is required'),
+                    to: z.string().min(1, 'Remap target seat label is required'),
+                })
+            )
+            .optional(),
+    }),
+});
+
+/**
+ * Schema for location zone path parameters
+ */
+export const locationZoneParamSchema = z.object({
+    params: z.object({
+        identifier: z.string().min(1, 'Location identifier is required'),
+        locationZoneId: z.string().min(1, 'Location zone ID is required'),
+    }),
+});
+
+/**
+ * Schema for updating a location zone's display details
+ * The zone code is part of seat labels, so it changes only through layout generation
+ */
+export const updateLocationZoneSchema = z.object({
+    body: z
+        .object({
+            name: i18nSchema.optional(),
+            color: hexColorSchema.optional().nullable(),
+            displayOrder: z.number().int().min(0).optional(),
+            priority: z.number().int().positive('Priority must be a positive integer').optional(),
+        })
+        .refine((data) => Object.values(data).some((value) => value !== undefined), {
+            message: 'At least one field is required',
+        }),
+});
+
+/**
+ * Schema for location gate path parameters
+ */
+export const locationGateParamSchema = z.object({
+    params: z.object({
+        identifier: z.string().min(1, 'Location identifier is required'),
+        locationGateId: z.string().min(1, 'Location gate ID is required'),
+    }),
+});
+
+/**
+ * Gate code (e.g., GATE_A, VIP_ENTRANCE)
+ */
+const gateCodeSchema = z
+    .string()
+    .min(1, 'Gate code is required')
+    .max(50, 'Gate code must be less than 50 characters')
+    .regex(/^[A-Z0-9_]+$/, 'Gate code must contain only uppercase letters, numbers and underscores');
+
+/**
+ * Schema for creating a location gate
+ * Seats of the listed zones may enter at the gate; tickets without a seat only where allowsGeneralAdmission is set
+ */
+export const createLocationGateSchema = z.object({
+    body: z.object({
+        code: gateCodeSchema,
+        name: i18nSchema,
+        locationZoneIds: z.array(z.string().min(1, 'Location zone ID is required')).default([]),
+        allowsGeneralAdmission: z.boolean().optional(),
+        active: z.boolean().optional(),
+    }),
+});
+
+/**
+ * Schema for updating a location gate
+ * locationZoneIds replaces the zones of the gate
+ */
+export const updateLocationGateSchema = z.object({
+    body: z
+        .object({
+            code: gateCodeSchema.optional(),
+            name: i18nSchema.optional(),
+            locationZoneIds: z.array(z.string().min(1, 'Location zone ID is required')).optional(),
+            allowsGeneralAdmission: z.boolean().optional(),
+            active: z.boolean().optional(),
+        })
+        .refine((data) => Object.values(data).some((value) => value !== undefined), {
+            message: 'At least one field is required',
+        }),
+});
+
+/**
+ * Schema for setting attribute flags on seats of a location
+ * Only the flags given are changed
+ */
+export const updateSeatAttributesSchema = z.object({
+    body: z.object({
+        seatIds: z
+            .array(z.string().min(1, 'Seat ID is required'))
+            .min(1, 'At least one seat ID is required')
+            .max(500, 'Cannot update more than 500 seats at once'),
+        attributes: z
+            .object({
+                isAccessible: z.boolean().optional(),
+                isCompanion: z.boolean().optional(),
+                isObstructedView: z.boolean().optional(),
+                isAisle: z.boolean().optional(),
+                isBlocked: z.boolean().optional(),
+            })
+            .refine((attributes) => Object.values(attributes).some((value) => value !== undefined), {
+                message: 'At least one attribute is required',
+            }),
+    }),
+});
+
 export type CreateLocationInput = z.infer<typeof createLocationSchema>['body'];
 export type UpdateLocationInput = z.infer<typeof updateLocationSchema>['body'];
 export type ToggleLocationActiveInput = z.infer<typeof toggleLocationActiveSchema>['body'];
@@ -140,3 +438,12 @@ export type GetLocationsQuery = z.infer<typeof getLocationsQuerySchema>['query']
 export type GetLocationZonesQuery = z.infer<typeof getLocationZonesQuerySchema>['query'];
 export type SetZonePricingInput = z.infer<typeof setZonePricingSchema>['body'];
 export type ZonePricingItem = z.infer<typeof zonePricingItemSchema>;
+export type BulkZonePricingInput = z.infer<typeof bulkZonePricingSchema>['body'];
+export type LayoutTemplateConfig = z.infer<typeof layoutTemplateConfigSchema>;
+export type GenerateLayoutInput = z.infer<typeof generateLayoutSchema>['body'];
+export type LocationZoneParam = z.infer<typeof locationZoneParamSchema>['params'];
+export type UpdateLocationZoneInput = z.infer<typeof updateLocationZoneSchema>['body'];
+export type LocationGateParam = z.infer<typeof locationGateParamSchema>['params'];
+export type CreateLocationGateInput = z.infer<typeof createLocationGateSchema>['body'];
+export type UpdateLocationGateInput = z.infer<typeof updateLocationGateSchema>['body'];
+export type UpdateSeatAttributesInput = z.infer<typeof updateSeatAttributesSchema>['body'];
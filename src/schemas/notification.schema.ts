@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+/**
+ * Schema for getting the user's notifications
+ * GET /api/v1/mobile/notifications
+ */
+export const getNotificationsQuerySchema = z.object({
+    unread: z.enum(['true', 'false']).optional(),
+});
+
+/**
+ * Schema for notification ID parameter
+ */
+export const notificationIdParamSchema = z.object({
+    id: z.string().cuid('Invalid notification ID format'),
+});
+
+// Type exports
+export type GetNotificationsQuery = z.infer<typeof getNotificationsQuerySchema>;
@@ -0,0 +1,85 @@
+import { PricingRuleType } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Pricing rule fields shared by create and update
+ */
+const pricingRuleFields = {
+    locationZoneId: z.string().cuid('Invalid location zone ID format').nullable(),
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    type: z.nativeEnum(PricingRuleType, {
+        message: 'Invalid rule type. Must be EARLY_BIRD, LAST_MINUTE, OCCUPANCY, or DAY_OF_WEEK',
+    }),
+    adjustmentPercent: z
+        .number()
+        .gt(-100, 'Adjustment must be greater than -100%')
+        .max(1000, 'Adjustment cannot exceed 1000%')
+        .refine((value) => value !== 0, 'Adjustment cannot be 0'),
+    priority: z.number().int().min(0, 'Priority cannot be negative'),
+    active: z.boolean(),
+    startsAt: z.string().datetime('Invalid datetime format for startsAt').nullable(),
+    endsAt: z.string().datetime('Invalid datetime format for endsAt').nullable(),
+    hoursBeforeStart: z.number().int().positive('Hours before start must be a positive integer').nullable(),
+    occupancyThreshold: z
+        .number()
+        .gt(0, 'Occupancy threshold must be greater than 0')
+        .max(100, 'Occupancy threshold cannot exceed 100')
+        .nullable(),
+    daysOfWeek: z
+        .array(z.number().int().min(0).max(6, 'Days of week are 0 (Sunday) to 6 (Saturday)'))
+        .max(7),
+};
+
+/**
+ * Schema for creating a pricing rule
+ * Type-specific fields are checked by the service
+ */
+export const createPricingRuleSchema = z.object({
+    eventId: z.string().cuid('Invalid event ID format'),
+    locationZoneId: pricingRuleFields.locationZoneId.optional(),
+    name: pricingRuleFields.name,
+    type: pricingRuleFields.type,
+    adjustmentPercent: pricingRuleFields.adjustmentPercent,
+    priority: pricingRuleFields.priority.optional(),
+    active: pricingRuleFields.active.optional(),
+    startsAt: pricingRuleFields.startsAt.optional(),
+    endsAt: pricingRuleFields.endsAt.optional(),
+    hoursBeforeStart: pricingRuleFields.hoursBeforeStart.optional(),
+    occupancyThreshold: pricingRuleFields.occupancyThreshold.optional(),
+    daysOfWeek: pricingRuleFields.daysOfWeek.optional(),
+});
+
+/**
+ * Schema for updating a pricing rule
+ * The event and type of a rule cannot change
+ */
+export const updatePricingRuleSchema = z.object({
+    locationZoneId: pricingRuleFields.locationZoneId.optional(),
+    name: pricingRuleFields.name.optional(),
+    adjustmentPercent: pricingRuleFields.adjustmentPercent.optional(),
+    priority: pricingRuleFields.priority.optional(),
+    active: pricingRuleFields.active.optional(),
+    startsAt: pricingRuleFields.startsAt.optional(),
+    endsAt: pricingRuleFields.endsAt.optional(),
+    hoursBeforeStart: pricingRuleFields.hoursBeforeStart.optional(),
+    occupancyThreshold: pricingRuleFields.occupancyThreshold.optional(),
+    daysOfWeek: pricingRuleFields.daysOfWeek.optional(),
+});
+
+/**
+ * Schema for pricing rule ID parameter
+ */
+export const pricingRuleIdParamSchema = z.object({
+    id: z.string().cuid('Invalid pricing rule ID format'),
+});
+
+/**
+ * Schema for event ID parameter
+ */
+export const pricingRuleEventIdParamSchema = z.object({
+    eventId: z.string().cuid('Invalid event ID format'),
+});
+
+// Type exports
+export type CreatePricingRuleInput = z.infer<typeof createPricingRuleSchema>;
+export type UpdatePricingRuleInput = z.infer<typeof updatePricingRuleSchema>;
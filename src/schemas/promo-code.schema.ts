@@ -0,0 +1,126 @@
+import { PromoDiscountType } from '@prisma/client';
+import { z } from 'zod';
+
+import { ticketSelectionSchema } from './ticket-type.schema';
+
+/**
+ * Promo code text as entered by users (matched case-insensitively)
+ */
+export const promoCodeTextSchema = z
+    .string()
+    .trim()
+    .min(3, 'Promo code must be at least 3 characters')
+    .max(32, 'Promo code cannot exceed 32 characters')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Promo code can only contain letters, numbers, dashes and underscores')
+    .transform((code) => code.toUpperCase());
+
+/**
+ * Promo code fields shared by create and update
+ */
+const promoCodeFields = {
+    description: z.string().trim().max(255).nullable(),
+    discountType: z.nativeEnum(PromoDiscountType, {
+        message: 'Invalid discount type. Must be PERCENTAGE or FIXED',
+    }),
+    discountValue: z.number().positive('Discount value must be a positive number'),
+    maxDiscountAmount: z.number().positive('Maximum discount must be a positive number').nullable(),
+    minOrderAmount: z.number().positive('Minimum order amount must be a positive number').nullable(),
+    startsAt: z.string().datetime('Invalid datetime format for startsAt').nullable(),
+    endsAt: z.string().datetime('Invalid datetime format for endsAt').nullable(),
+    maxRedemptions: z.number().int().positive('Maximum redemptions must be a positive integer').nullable(),
+    maxRedemptionsPerUser: z
+        .number()
+        .int()
+        .positive('Maximum redemptions per user must be a positive integer')
+        .nullable(),
+    eventIds: z.array(z.string().cuid('Invalid event ID format')).max(100),
+    categoryIds: z.array(z.string().cuid('Invalid category ID format')).max(100),
+    locationZoneIds: z.array(z.string().cuid('Invalid location zone ID format')).max(100),
+    active: z.boolean(),
+};
+
+/**
+ * Schema for creating a promo code
+ * Window and percentage limits are checked by the service
+ */
+export const createPromoCodeSchema = z.object({
+    code: promoCodeTextSchema,
+    description: promoCodeFields.description.optional(),
+    discountType: promoCodeFields.discountType,
+    discountValue: promoCodeFields.discountValue,
+    maxDiscountAmount: promoCodeFields.maxDiscountAmount.optional(),
+    minOrderAmount: promoCodeFields.minOrderAmount.optional(),
+    startsAt: promoCodeFields.startsAt.optional(),
+    endsAt: promoCodeFields.endsAt.optional(),
+    maxRedemptions: promoCodeFields.maxRedemptions.optional(),
+    maxRedemptionsPerUser: promoCodeFields.maxRedemptionsPerUser.optional(),
+    eventIds: promoCodeFields.eventIds.optional(),
+    categoryIds: promoCodeFields.categoryIds.optional(),
+    locationZoneIds: promoCodeFields.locationZoneIds.optional(),
+    active: promoCodeFields.active.optional(),
+});
+
+/**
+ * Schema for updating a promo code
+ * The code and discount type cannot change once created
+ */
+export const updatePromoCodeSchema = z.object({
+    description: promoCodeFields.description.optional(),
+    discountValue: promoCodeFields.discountValue.optional(),
+    maxDiscountAmount: promoCodeFields.maxDiscountAmount.optional(),
+    minOrderAmount: promoCodeFields.minOrderAmount.optional(),
+    startsAt: promoCodeFields.startsAt.optional(),
+    endsAt: promoCodeFields.endsAt.optional(),
+    maxRedemptions: promoCodeFields.maxRedemptions.optional(),
+    maxRedemptionsPerUser: promoCodeFields.maxRedemptionsPerUser.optional(),
+    eventIds: promoCodeFields.eventIds.optional(),
+    categoryIds: promoCodeFields.categoryIds.optional(),
+    locationZoneIds: promoCodeFields.locationZoneIds.optional(),
+    active: promoCodeFields.active.optional(),
+});
+
+/**
+ * Schema for getting promo codes with filters
+ * GET /api/v1/dashboard/promo-codes
+ */
+export const getPromoCodesQuerySchema = z.object({
+    active: z.enum(['true', 'false']).optional(),
+    eventId: z.string().cuid('Invalid event ID format').optional(),
+    search: z.string().optional(), // Search by code
+});
+
+/**
+ * Schema for promo code ID parameter
+ */
+export const promoCodeIdParamSchema = z.object({
+    id: z.string().cuid('Invalid promo code ID format'),
+});
+
+/**
+ * Schema for checking a promo code against a direct checkout
+ * POST /api/v1/mobile/promo-codes/validate
+ */
+export const validatePromoCodeSchema = z.object({
+    code: promoCodeTextSchema,
+    eventId: z.string().cuid('Invalid event ID format'),
+    scheduleId: z.string().cuid('Invalid schedule ID format').optional(),
+    quantity: z
+        .number()
+        .int('Quantity must be an integer')
+        .min(1, 'Quantity must be at least 1')
+        .max(100, 'Quantity cannot exceed 100')
+        .optional(),
+    tickets: ticketSelectionSchema.optional(),
+}).refine(
+    (data) => (data.quantity === undefined) !== (data.tickets === undefined),
+    {
+        message: 'Provide either quantity or tickets',
+        path: ['quantity'],
+    }
+);
+
+// Type exports
+export type CreatePromoCodeInput = z.infer<typeof createPromoCodeSchema>;
+export type UpdatePromoCodeInput = z.infer<typeof updatePromoCodeSchema>;
+export type GetPromoCodesQuery = z.infer<typeof getPromoCodesQuerySchema>;
+export type ValidatePromoCodeInput = z.infer<typeof validatePromoCodeSchema>;
@@ -11,6 +11,8 @@ export const createScheduleSchema = z.object({
         en: z.string().optional(),
         ar: z.string().optional(),
     }).optional(),
+    // General-admission tickets for this schedule (defaults to the location capacity, null = unlimited)
+    capacity: z.number().int('Capacity must be an integer').min(0, 'Capacity cannot be negative').nullable().optional(),
 }).refine(
     (data) => {
         const start = new Date(data.startAt);
@@ -33,6 +35,7 @@ export const updateScheduleSchema = z.object({
         en: z.string().optional(),
         ar: z.string().optional(),
     }).optional(),
+    capacity: z.number().int('Capacity must be an integer').min(0, 'Capacity cannot be negative').nullable().optional(),
 }).refine(
     (data) => {
         // If both dates are provided, validate that startAt < endAt
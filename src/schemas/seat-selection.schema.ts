@@ -43,6 +43,18 @@ export const getSeatMapParamsSchema = z.object({
     scheduleId: z.string().cuid('Invalid schedule ID format'),
 });
 
+/**
+ * Schema for filtering seats by attribute
+ * GET .../rows/:rowId/seats and .../seat-map
+ * Each flag given keeps only seats with that attribute set to the same value
+ */
+export const seatAttributeFilterQuerySchema = z.object({
+    isAccessible: z.enum(['true', 'false']).optional(),
+    isCompanion: z.enum(['true', 'false']).optional(),
+    isObstructedView: z.enum(['true', 'false']).optional(),
+    isAisle: z.enum(['true', 'false']).optional(),
+});
+
 /**
  * Schema for checking seat availability
  * POST /api/v1/dashboard/seat-selection/schedules/:scheduleId/check-availability
@@ -85,6 +97,7 @@ export type GetSectionsParams = z.infer<typeof getSectionsParamsSchema>;
 export type GetRowsParams = z.infer<typeof getRowsParamsSchema>;
 export type GetSeatsParams = z.infer<typeof getSeatsParamsSchema>;
 export type GetSeatMapParams = z.infer<typeof getSeatMapParamsSchema>;
+export type SeatAttributeFilterQuery = z.infer<typeof seatAttributeFilterQuerySchema>;
 export type CheckAvailabilityParams = z.infer<typeof checkAvailabilityParamsSchema>;
 export type CheckAvailabilityBody = z.infer<typeof checkAvailabilityBodySchema>;
 export type ValidateSeatsBody = z.infer<typeof validateSeatsBodySchema>;
@@ -1,4 +1,3 @@
-import { SectionPosition, ZoneType } from '@prisma/client';
 import { z } from 'zod';
 
 /**
@@ -22,16 +21,23 @@ export const sessionIdParamSchema = z.object({
  * POST /api/v1/mobile/sessions/:sessionId/seats
  */
 export const toggleSeatSchema = z.object({
-    sectionPosition: z.nativeEnum(SectionPosition, {
-        message: 'Invalid section position. Must be CENTER, LEFT, or RIGHT',
-    }),
-    zoneType: z.nativeEnum(ZoneType, {
-        message: 'Invalid zone type. Must be VVIP, VIP, REGULAR, or ECONOMY',
-    }),
+    sectionCode: z.string().min(1, 'Section code is required'),
+    zoneCode: z.string().min(1, 'Zone code is required'),
     rowNumber: z.number().int().min(1, 'Row number must be at least 1'),
     seatNumber: z.number().int().min(1, 'Seat number must be at least 1'),
 });
 
+/**
+ * Schema for best-available seat assignment
+ * POST /api/v1/mobile/sessions/best-available
+ */
+export const bestAvailableSchema = z.object({
+    eventId: z.string().cuid('Invalid event ID'),
+    scheduleId: z.string().cuid('Invalid schedule ID'),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1').max(10, 'Quantity cannot exceed 10'),
+    zoneCode: z.string().min(1, 'Zone code cannot be empty').optional(),
+});
+
 /**
  * Schema for cancelling a session
  * DELETE /api/v1/mobile/sessions/:sessionId
@@ -44,4 +50,5 @@ export const cancelSessionParamSchema = z.object({
 export type CreateSessionInput = z.infer<typeof createSessionSchema>;
 export type SessionIdParam = z.infer<typeof sessionIdParamSchema>;
 export type ToggleSeatInput = z.infer<typeof toggleSeatSchema>;
+export type BestAvailableInput = z.infer<typeof bestAvailableSchema>;
 export type CancelSessionParam = z.infer<typeof cancelSessionParamSchema>;
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+
+const i18nStringSchema = z.object({
+    en: z.string().min(1).max(255),
+    ar: z.string().optional(),
+});
+
+const i18nTextSchema = z.object({
+    en: z.string().min(1),
+    ar: z.string().optional(),
+});
+
+/**
+ * Ticket type fields shared by create and update
+ */
+const ticketTypeFields = {
+    locationZoneId: z.string().cuid('Invalid location zone ID format').nullable(),
+    requiresTicketTypeId: z.string().cuid('Invalid ticket type ID format').nullable(),
+    name: i18nStringSchema,
+    description: i18nTextSchema.nullable(),
+    originalPrice: z.number().min(0, 'Original price cannot be negative'),
+    discountedPrice: z.number().min(0, 'Discounted price cannot be negative').nullable(),
+    admitCount: z.number().int().min(1, 'A ticket admits at least one person').max(50),
+    minQuantity: z.number().int().min(1, 'Minimum quantity must be at least 1'),
+    maxQuantity: z.number().int().min(1, 'Maximum quantity must be at least 1').nullable(),
+    sortOrder: z.number().int().min(0, 'Sort order cannot be negative'),
+    active: z.boolean(),
+};
+
+const discountBelowOriginal = (data: { originalPrice?: number; discountedPrice?: number | null }) =>
+    data.originalPrice === undefined
+    || data.discountedPrice === undefined
+    || data.discountedPrice === null
+    || data.discountedPrice < data.originalPrice;
+
+const maxNotBelowMin = (data: { minQuantity?: number; maxQuantity?: number | null }) =>
+    data.minQuantity === undefined
+    || data.maxQuantity === undefined
+    || data.maxQuantity === null
+    || data.maxQuantity >= data.minQuantity;
+
+/**
+ * Schema for creating a ticket type
+ */
+export const createTicketTypeSchema = z.object({
+    eventId: z.string().cuid('Invalid event ID format'),
+    locationZoneId: ticketTypeFields.locationZoneId.optional(),
+    requiresTicketTypeId: ticketTypeFields.requiresTicketTypeId.optional(),
+    name: ticketTypeFields.name,
+    description: ticketTypeFields.description.optional(),
+    originalPrice: ticketTypeFields.originalPrice,
+    discountedPrice: ticketTypeFields.discountedPrice.optional(),
+    admitCount: ticketTypeFields.admitCount.optional(),
+    minQuantity: ticketTypeFields.minQuantity.optional(),
+    maxQuantity: ticketTypeFields.maxQuantity.optional(),
+    sortOrder: ticketTypeFields.sortOrder.optional(),
+    active: ticketTypeFields.active.optional(),
+}).refine(discountBelowOriginal, {
+    message: 'Discounted price must be less than original price',
+    path: ['discountedPrice'],
+}).refine(maxNotBelowMin, {
+    message: 'Maximum quantity cannot be less than minimum quantity',
+    path: ['maxQuantity'],
+});
+
+/**
+ * Schema for updating a ticket type
+ * The event of a ticket type cannot change; price and quantity pairs are re-checked by the service
+ */
+export const updateTicketTypeSchema = z.object({
+    locationZoneId: ticketTypeFields.locationZoneId.optional(),
+    requiresTicketTypeId: ticketTypeFields.requiresTicketTypeId.optional(),
+    name: ticketTypeFields.name.optional(),
+    description: ticketTypeFields.description.optional(),
+    originalPrice: ticketTypeFields.originalPrice.optional(),
+    discountedPrice: ticketTypeFields.discountedPrice.optional(),
+    admitCount: ticketTypeFields.admitCount.optional(),
+    minQuantity: ticketTypeFields.minQuantity.optional(),
+    maxQuantity: ticketTypeFields.maxQuantity.optional(),
+    sortOrder: ticketTypeFields.sortOrder.optional(),
+    active: ticketTypeFields.active.optional(),
+}).refine(discountBelowOriginal, {
+    message: 'Discounted price must be less than original price',
+    path: ['discountedPrice'],
+}).refine(maxNotBelowMin, {
+    message: 'Maximum quantity cannot be less than minimum quantity',
+    path: ['maxQuantity'],
+});
+
+/**
+ * Ticket quantities chosen at checkout or when adding to cart
+ */
+export const ticketSelectionSchema = z
+    .array(
+        z.object({
+            ticketTypeId: z.string().cuid('Invalid ticket type ID format'),
+            quantity: z
+                .number()
+                .int('Quantity must be an integer')
+                .min(1, 'Quantity must be at least 1')
+                .max(100, 'Quantity cannot exceed 100'),
+        })
+    )
+    .min(1, 'At least one ticket is required')
+    .max(20, 'Too many ticket types')
+    .refine(
+        (tickets) => new Set(tickets.map((ticket) => ticket.ticketTypeId)).size === tickets.length,
+        'Each ticket type can only be listed once'
+    );
+
+/**
+ * Schema for ticket type ID parameter
+ */
+export const ticketTypeIdParamSchema = z.object({
+    id: z.string().cuid('Invalid ticket type ID format'),
+});
+
+/**
+ * Schema for event ID parameter
+ */
+export const ticketTypeEventIdParamSchema = z.object({
+    eventId: z.string().cuid('Invalid event ID format'),
+});
+
+// Type exports
+export type CreateTicketTypeInput = z.infer<typeof createTicketTypeSchema>;
+export type UpdateTicketTypeInput = z.infer<typeof updateTicketTypeSchema>;
+export type TicketSelection = z.infer<typeof ticketSelectionSchema>;
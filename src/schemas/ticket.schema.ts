@@ -0,0 +1,60 @@
+import { CheckInDirection } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Schema for scanning a ticket QR code at the gate
+ * POST /api/v1/mobile/tickets/scan
+ */
+export const scanTicketSchema = z.object({
+    code: z.string().min(1, 'QR code is required').max(1000, 'QR code is too long'),
+    scheduleId: z.string().cuid('Invalid schedule ID format'),
+    quantity: z
+        .number()
+        .int('Quantity must be an integer')
+        .min(1, 'Quantity must be at least 1')
+        .optional(),
+    deviceId: z.string().max(100, 'Device ID must be less than 100 characters').optional(),
+    locationGateId: z.string().cuid('Invalid gate ID format').optional(),
+    direction: z.nativeEnum(CheckInDirection).optional(),
+});
+
+/**
+ * Schema for the schedule ID route parameter
+ * GET /api/v1/mobile/tickets/manifest/:scheduleId
+ */
+export const ticketScheduleIdParamSchema = z.object({
+    scheduleId: z.string().cuid('Invalid schedule ID format'),
+});
+
+/**
+ * Schema for uploading scans made offline
+ * POST /api/v1/mobile/tickets/sync
+ */
+export const syncScansSchema = z.object({
+    scheduleId: z.string().cuid('Invalid schedule ID format'),
+    deviceId: z.string().min(1, 'Device ID is required').max(100, 'Device ID must be less than 100 characters'),
+    locationGateId: z.string().cuid('Invalid gate ID format').optional(),
+    scans: z
+        .array(
+            z.object({
+                scanId: z.string().min(1, 'Scan ID is required').max(100, 'Scan ID must be less than 100 characters'),
+                code: z.string().min(1, 'QR code is required').max(1000, 'QR code is too long'),
+                quantity: z
+                    .number()
+                    .int('Quantity must be an integer')
+                    .min(1, 'Quantity must be at least 1')
+                    .optional(),
+                scannedAt: z.string().datetime({ message: 'Invalid scan time format', offset: true }),
+                direction: z.nativeEnum(CheckInDirection).optional(),
+            })
+        )
+        .min(1, 'At least one scan is required')
+        .max(500, 'At most 500 scans can be synced at once')
+        .refine((scans) => new Set(scans.map((scan) => scan.scanId)).size === scans.length, {
+            message: 'Scan IDs must be unique',
+        }),
+});
+
+// Type exports
+export type ScanTicketInput = z.infer<typeof scanTicketSchema>;
+export type SyncScansInput = z.infer<typeof syncScansSchema>;
@@ -0,0 +1,63 @@
+import { WaitlistStatus } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Schema for joining the waitlist of a sold-out schedule
+ * POST /api/v1/mobile/waitlist
+ * Seated events are waitlisted per zone (locationZoneId is required for them)
+ */
+export const joinWaitlistSchema = z.object({
+    eventId: z.string().cuid('Invalid event ID format'),
+    scheduleId: z.string().cuid('Invalid schedule ID format'),
+    locationZoneId: z.string().cuid('Invalid location zone ID format').optional(),
+    quantity: z
+        .number()
+        .int('Quantity must be an integer')
+        .min(1, 'Quantity must be at least 1')
+        .max(20, 'Quantity cannot exceed 20'),
+});
+
+/**
+ * Schema for getting the user's waitlist entries
+ * GET /api/v1/mobile/waitlist
+ */
+export const getMyWaitlistQuerySchema = z.object({
+    active: z.enum(['true', 'false']).optional(),
+});
+
+/**
+ * Schema for waitlist entry ID parameter
+ */
+export const waitlistEntryIdParamSchema = z.object({
+    id: z.string().cuid('Invalid waitlist entry ID format'),
+});
+
+/**
+ * Schema for event ID parameter
+ */
+export const waitlistEventIdParamSchema = z.object({
+    eventId: z.string().cuid('Invalid event ID format'),
+});
+
+/**
+ * Schema for schedule ID parameter
+ */
+export const waitlistScheduleIdParamSchema = z.object({
+    scheduleId: z.string().cuid('Invalid schedule ID format'),
+});
+
+/**
+ * Schema for getting the entries of a schedule
+ * GET /api/v1/dashboard/waitlist/schedule/:scheduleId
+ */
+export const getScheduleWaitlistQuerySchema = z.object({
+    status: z.nativeEnum(WaitlistStatus, {
+        message: 'Invalid status. Must be WAITING, OFFERED, PURCHASED, EXPIRED, or CANCELLED',
+    }).optional(),
+    locationZoneId: z.string().cuid('Invalid location zone ID format').optional(),
+});
+
+// Type exports
+export type JoinWaitlistInput = z.infer<typeof joinWaitlistSchema>;
+export type GetMyWaitlistQuery = z.infer<typeof getMyWaitlistQuerySchema>;
+export type GetScheduleWaitlistQuery = z.infer<typeof getScheduleWaitlistQuerySchema>;
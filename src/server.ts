@@ -2,6 +2,8 @@ import http from 'http';
 
 import app from './app';
 import { config, logger } from './config';
+import { startSessionExpiryJob } from './jobs/session-expiry.job';
+import { startWaitlistOfferJob } from './jobs/waitlist-offer.job';
 import prisma from './utils/prisma.client';
 
 // Handle uncaught exceptions
@@ -29,6 +31,12 @@ async function startServer() {
       logger.info(`Server running in ${config.NODE_ENV} mode on port ${config.PORT}`);
       logger.info(`API is available at http://localhost:${config.PORT}${config.API_PREFIX}`);
       logger.info(`Health check endpoint: http://localhost:${config.PORT}${config.API_PREFIX}/health`);
+
+      // Release seats held by expired seat-selection sessions
+      startSessionExpiryJob();
+
+      // Hand expired waitlist offers to the next people in line
+      startWaitlistOfferJob();
     });
   } catch (error) {
     logger.error('Failed to start server:', error);
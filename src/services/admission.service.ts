@@ -0,0 +1,214 @@
+import { CheckInDirection } from '@prisma/client';
+
+import { NotFoundException } from '../exceptions/http.exception';
+import bookingRepository from '../repositories/booking.repository';
+import { checkInRepository } from '../repositories/check-in.repository';
+import eventRepository from '../repositories/event.repository';
+import { locationGateRepository } from '../repositories/location-gate.repository';
+import { scheduleRepository } from '../repositories/schedule.repository';
+import { scheduleWorkerRepository } from '../repositories/schedule-worker.repository';
+
+/**
+ * Minutes of admissions per minute returned by the live dashboard
+ */
+const ADMISSION_TIMELINE_MINUTES = 60;
+
+/**
+ * Minutes averaged for the current admission rate
+ */
+const ADMISSION_RATE_MINUTES = 5;
+
+const MINUTE = 60 * 1000;
+
+type AdmissionGroup = {
+    _count: { _all: number };
+    _sum: { quantity: number | null };
+    _max: { scannedAt: Date | null };
+};
+
+export class AdmissionService {
+    /**
+     * Admissions, scans and last scan time of a check-in group
+     */
+    private toCounts(group?: AdmissionGroup) {
+        return {
+            admitted: group?._sum.quantity ?? 0,
+            scans: group?._count._all ?? 0,
+            lastScanAt: group?._max.scannedAt ?? null,
+        };
+    }
+
+    /**
+     * Empty people-through counts of a gate
+     */
+    private toGateCounts(gate: { locationGateId: string | null; code: string | null; name: unknown; active: boolean }) {
+        return {
+            ...gate,
+            admitted: 0,
+            reEntered: 0,
+            exited: 0,
+            scans: 0,
+            lastScanAt: null as Date | null,
+        };
+    }
+
+    /**
+     * Live admission dashboard of a schedule
+     * Built from aggregates only (booking totals, check-in groups and the last hour of check-ins),
+     * so it can be refreshed every few seconds during an event
+     */
+    async getScheduleAdmissions(scheduleId: string) {
+        const schedule = await scheduleRepository.findById(scheduleId);
+        if (!schedule) {
+            throw new NotFoundException('Schedule not found');
+        }
+
+        const now = new Date();
+        const currentMinute = Math.floor(now.getTime() / MINUTE) * MINUTE;
+        const since = new Date(currentMinute - (ADMISSION_TIMELINE_MINUTES - 1) * MINUTE);
+
+        const [totals, zoneAdmissions, breakdown, admissionsPerMinute, workers, event] = await Promise.all([
+            bookingRepository.getAdmissionTotals(scheduleId),
+            bookingRepository.getZoneAdmissions(scheduleId),
+            checkInRepository.getScheduleBreakdown(scheduleId),
+            checkInRepository.getAdmissionsPerMinute(scheduleId, since),
+            scheduleWorkerRepository.findByScheduleId(scheduleId),
+            eventRepository.findById(schedule.eventId),
+        ]);
+        const locationGates = event ? await locationGateRepository.findByLocationId(event.locationId) : [];
+
+        // One entry per minute of the timeline, including minutes without admissions
+        const admittedByMinute = new Map(
+            admissionsPerMinute.map((row) => [new Date(row.minute).getTime(), row.admitted])
+        );
+        const timeline = Array.from({ length: ADMISSION_TIMELINE_MINUTES }, (_, index) => {
+            const minute = since.getTime() + index * MINUTE;
+            return {
+                minute: new Date(minute),
+                admitted: admittedByMinute.get(minute) ?? 0,
+            };
+        });
+        const recentAdmissions = timeline
+            .slice(-ADMISSION_RATE_MINUTES)
+            .reduce((sum, row) => sum + row.admitted, 0);
+
+        // Every gate of the venue with its first admissions, re-entries and exits,
+        // plus check-ins made without a gate (locationGateId null)
+        const gateStats = new Map<string | null, ReturnType<AdmissionService['toGateCounts']>>(
+            locationGates.map((gate: { id: string; code: string; name: unknown; active: boolean }) => [
+                gate.id,
+                this.toGateCounts({ locationGateId: gate.id, code: gate.code, name: gate.name, active: gate.active }),
+            ])
+        );
+        for (const group of breakdown.byGate as Array<AdmissionGroup & {
+            locationGateId: string | null;
+            direction: CheckInDirection;
+            isReEntry: boolean;
+        }>) {
+            let gate = gateStats.get(group.locationGateId);
+            if (!gate) {
+                gate = this.toGateCounts({ locationGateId: group.locationGateId, code: null, name: null, active: false });
+                gateStats.set(group.locationGateId, gate);
+            }
+
+            const quantity = group._sum.quantity ?? 0;
+            if (group.direction === CheckInDirection.OUT) {
+                gate.exited += quantity;
+            } else if (group.isReEntry) {
+                gate.reEntered += quantity;
+            } else {
+                gate.admitted += quantity;
+            }
+            gate.scans += group._count._all;
+            if (group._max.scannedAt && (!gate.lastScanAt || group._max.scannedAt > gate.lastScanAt)) {
+                gate.lastScanAt = group._max.scannedAt;
+            }
+        }
+        const gates = [...gateStats.values()].sort((a, b) => b.admitted - a.admitted);
+
+        // Scanning devices; manual check-ins have none
+        const devices = breakdown.byDevice
+            .map((group: AdmissionGroup & { deviceId: string | null }) => ({
+                deviceId: group.deviceId,
+                ...this.toCounts(group),
+            }))
+            .sort((a: { admitted: number }, b: { admitted: number }) => b.admitted - a.admitted);
+
+        // Every assigned worker, plus workers who admitted before being unassigned
+        const workerGroups = new Map<string | null, AdmissionGroup>(
+            breakdown.byWorker.map((group: AdmissionGroup & { workerId: string | null }) => [group.workerId, group])
+        );
+        const workerStats = workers.map((assignment: { user: { id: string; name: string | null } }) => ({
+            workerId: assignment.user.id,
+            name: assignment.user.name,
+            assigned: true,
+            ...this.toCounts(workerGroups.get(assignment.user.id)),
+        }));
+        for (const [workerId, group] of workerGroups) {
+            if (!workerStats.some((worker: { workerId: string | null }) => worker.workerId === workerId)) {
+                workerStats.push({ workerId, name: null, assigned: false, ...this.toCounts(group) });
+            }
+        }
+        workerStats.sort((a: { admitted: number }, b: { admitted: number }) => b.admitted - a.admitted);
+
+        // Tickets without seats are general admission
+        const zones = zoneAdmissions.map((zone) => ({
+            zoneCode: zone.zoneCode as string | null,
+            sold: zone.seats,
+            admitted: zone.admitted,
+            noShows: zone.seats - zone.admitted,
+        }));
+        const generalSold = totals.sold - zones.reduce((sum, zone) => sum + zone.sold, 0);
+        if (generalSold > 0) {
+            const generalAdmitted = Math.max(totals.admitted - zones.reduce((sum, zone) => sum + zone.admitted, 0), 0);
+            zones.push({
+                zoneCode: null,
+                sold: generalSold,
+                admitted: generalAdmitted,
+                noShows: generalSold - generalAdmitted,
+            });
+        }
+
+        let state: 'UPCOMING' | 'RUNNING' | 'ENDED' = 'RUNNING';
+        if (now < schedule.startAt) {
+            state = 'UPCOMING';
+        } else if (now > schedule.endAt) {
+            state = 'ENDED';
+        }
+
+        return {
+            schedule: {
+                id: schedule.id,
+                startAt: schedule.startAt,
+                endAt: schedule.endAt,
+                state,
+                event: schedule.event,
+            },
+            generatedAt: now,
+            tickets: {
+                sold: totals.sold,
+                admitted: totals.admitted,
+                expectedArrivals: totals.sold - totals.admitted,
+                admittedPercentage: totals.sold > 0 ? Math.round((totals.admitted / totals.sold) * 10000) / 100 : 0,
+                inside: totals.inside,
+                reEntries: totals.reEntries,
+            },
+            bookings: {
+                total: totals.bookings,
+                arrived: totals.arrivedBookings,
+                notArrived: totals.bookings - totals.arrivedBookings,
+            },
+            rate: {
+                perMinute: Math.round((recentAdmissions / ADMISSION_RATE_MINUTES) * 100) / 100,
+                windowMinutes: ADMISSION_RATE_MINUTES,
+            },
+            admissionsPerMinute: timeline,
+            gates,
+            devices,
+            workers: workerStats,
+            zones,
+        };
+    }
+}
+
+export const admissionService = new AdmissionService();
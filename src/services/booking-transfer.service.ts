@@ -0,0 +1,344 @@
+import { BookingStatus, BookingTransfer, BookingTransferStatus, User } from '@prisma/client';
+
+import { config, logger } from '../config';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '../exceptions/http.exception';
+import bookingRepository from '../repositories/booking.repository';
+import { bookingTransferRepository } from '../repositories/booking-transfer.repository';
+import { notificationRepository } from '../repositories/notification.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { StartBookingTransferInput } from '../schemas/booking-transfer.schema';
+import { localizeField, SupportedLanguage } from '../utils/i18n.util';
+import { prisma } from '../utils/prisma.client';
+import { ticketService } from './ticket.service';
+
+const userRepository = new UserRepository();
+
+export class BookingTransferService {
+    /**
+     * When check-in opens for a schedule; bookings cannot change hands from then on
+     */
+    private getCheckInOpensAt(scheduleStartAt: Date): Date {
+        return new Date(scheduleStartAt.getTime() - config.CHECK_IN_OPENS_BEFORE_START * 1000);
+    }
+
+    /**
+     * Ensure a booking can still be handed over
+     */
+    private assertTransferable(booking: {
+        status: BookingStatus;
+        isActive: boolean;
+        isPreReserved: boolean;
+        usedQuantity: number;
+        checkedInAt: Date | null;
+        schedule: { startAt: Date } | null;
+    }): void {
+        if (booking.status !== BookingStatus.CONFIRMED || !booking.isActive || booking.isPreReserved) {
+            throw new BadRequestException('Only confirmed bookings can be transferred');
+        }
+
+        if (booking.usedQuantity > 0 || booking.checkedInAt) {
+            throw new BadRequestException('Bookings cannot be transferred after check-in');
+        }
+
+        if (booking.schedule && this.getCheckInOpensAt(booking.schedule.startAt) <= new Date()) {
+            throw new BadRequestException('Bookings cannot be transferred once check-in has started');
+        }
+    }
+
+    /**
+     * Whether a transfer is addressed to a user
+     */
+    private isRecipient(
+        transfer: BookingTransfer,
+        user: { id: string; email: string | null; phoneNumber: string | null }
+    ): boolean {
+        if (transfer.toUserId) {
+            return transfer.toUserId === user.id;
+        }
+
+        if (transfer.recipientEmail && user.email) {
+            return transfer.recipientEmail.toLowerCase() === user.email.toLowerCase();
+        }
+
+        return !!transfer.recipientPhoneNumber && transfer.recipientPhoneNumber === user.phoneNumber;
+    }
+
+    /**
+     * Get a pending transfer addressed to a user
+     */
+    private async getIncomingTransfer(transferId: string, user: User): Promise<BookingTransfer> {
+        const transfer = await bookingTransferRepository.findById(transferId);
+
+        if (!transfer || transfer.fromUserId === user.id || !this.isRecipient(transfer, user)) {
+            throw new NotFoundException('Transfer not found');
+        }
+
+        if (transfer.status !== BookingTransferStatus.PENDING || transfer.expiresAt <= new Date()) {
+            throw new BadRequestException('This transfer is no longer pending');
+        }
+
+        return transfer;
+    }
+
+    /**
+     * Get a user by ID
+     */
+    private async getUser(userId: string): Promise<User> {
+        const user = await userRepository.findById(userId);
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+        return user;
+    }
+
+    /**
+     * Start handing a booking over to another user by email or phone number
+     * The recipient gets until check-in opens (at most BOOKING_TRANSFER_DURATION) to accept
+     */
+    async startTransfer(userId: string, input: StartBookingTransferInput) {
+        const { bookingId } = input;
+        const booking = await bookingRepository.findByIdWithDetails(bookingId);
+
+        if (!booking || booking.userId !== userId) {
+            throw new NotFoundException('Booking not found');
+        }
+
+        this.assertTransferable(booking);
+
+        const recipientEmail = input.email?.toLowerCase().trim() ?? null;
+        const recipientPhoneNumber = input.phoneNumber?.trim() ?? null;
+
+        const recipient = recipientEmail
+            ? await userRepository.findByEmail(recipientEmail)
+            : await userRepository.findByPhoneNumber(recipientPhoneNumber!);
+
+        if (recipient?.id === userId) {
+            throw new BadRequestException('You cannot transfer a booking to yourself');
+        }
+
+        const pending = await bookingTransferRepository.findPendingByBookingId(bookingId);
+        if (pending) {
+            throw new ConflictException('This booking already has a pending transfer. Cancel it first.');
+        }
+
+        const now = Date.now();
+        const expiresAt = new Date(now + config.BOOKING_TRANSFER_DURATION * 1000);
+        if (booking.schedule) {
+            const checkInOpensAt = this.getCheckInOpensAt(booking.schedule.startAt);
+            if (checkInOpensAt < expiresAt) {
+                expiresAt.setTime(checkInOpensAt.getTime());
+            }
+        }
+
+        const transfer = await bookingTransferRepository.create({
+            bookingId,
+            fromUserId: userId,
+            toUserId: recipient?.id ?? null,
+            recipientEmail,
+            recipientPhoneNumber,
+            expiresAt,
+        });
+
+        if (recipient) {
+            const language = (recipient.selectedLanguage ?? 'en') as SupportedLanguage;
+            const eventName = localizeField(booking.event.name, language);
+
+            await notificationRepository.create({
+                userId: recipient.id,
+                title: 'Tickets sent to you',
+                message: `${booking.user.name ?? 'A user'} wants to transfer ${booking.quantity} ticket(s) for ${eventName} to you. Accept before ${expiresAt.toISOString()}.`,
+                meta: {
+                    type: 'BOOKING_TRANSFER',
+                    transferId: transfer.id,
+                    bookingId,
+                    expiresAt: expiresAt.toISOString(),
+                },
+            });
+        }
+
+        await userRepository.logActivity(
+            userId,
+            'BOOKING_TRANSFER_STARTED',
+            `Started transfer of booking ${booking.bookingNumber} to ${recipientEmail ?? recipientPhoneNumber}`,
+            undefined,
+            undefined,
+            'Booking',
+            bookingId
+        );
+
+        logger.info(`Booking ${bookingId} transfer ${transfer.id} started by user ${userId}`);
+
+        return await bookingTransferRepository.findByIdWithDetails(transfer.id);
+    }
+
+    /**
+     * Get the pending transfers addressed to a user
+     */
+    async getIncomingTransfers(userId: string) {
+        const user = await this.getUser(userId);
+
+        return await bookingTransferRepository.findIncoming(user);
+    }
+
+    /**
+     * Get the transfers a user started
+     */
+    async getOutgoingTransfers(userId: string) {
+        await bookingTransferRepository.expireStale(new Date());
+
+        return await bookingTransferRepository.findOutgoing(userId);
+    }
+
+    /**
+     * Accept a transfer: the booking and its seats move to the recipient
+     * The booking gets a new signed QR code and its rotating code secret is revoked,
+     * so the sender's copy no longer admits anyone
+     */
+    async acceptTransfer(userId: string, transferId: string) {
+        const user = await this.getUser(userId);
+        const transfer = await this.getIncomingTransfer(transferId, user);
+
+        const booking = await bookingRepository.findByIdWithDetails(transfer.bookingId);
+        if (!booking || booking.userId !== transfer.fromUserId) {
+            throw new BadRequestException('This booking is no longer available for transfer');
+        }
+
+        this.assertTransferable(booking);
+
+        await prisma.$transaction(async (tx: any) => {
+            const accepted = await bookingTransferRepository.close(
+                transferId,
+                BookingTransferStatus.ACCEPTED,
+                { toUserId: userId },
+                tx
+            );
+            if (!accepted) {
+                throw new ConflictException('This transfer is no longer pending');
+            }
+
+            const moved = await bookingTransferRepository.moveBooking(
+                transfer.bookingId,
+                transfer.fromUserId,
+                userId,
+                ticketService.issueQrCode(booking),
+                tx
+            );
+            if (!moved) {
+                throw new ConflictException('This booking is no longer available for transfer');
+            }
+
+            const sender = await tx.user.findUnique({
+                where: { id: transfer.fromUserId },
+                select: { selectedLanguage: true },
+            });
+            const language = (sender?.selectedLanguage ?? 'en') as SupportedLanguage;
+            const eventName = localizeField(booking.event.name, language);
+
+            await notificationRepository.create({
+                userId: transfer.fromUserId,
+                title: 'Transfer accepted',
+                message: `${user.name ?? 'The recipient'} accepted your ${booking.quantity} ticket(s) for ${eventName}. The booking is no longer in your account.`,
+                meta: {
+                    type: 'BOOKING_TRANSFER_ACCEPTED',
+                    transferId,
+                    bookingId: transfer.bookingId,
+                },
+            }, tx);
+        });
+
+        await Promise.all([
+            userRepository.logActivity(
+                transfer.fromUserId,
+                'BOOKING_TRANSFERRED_OUT',
+                `Booking ${booking.bookingNumber} transferred to user ${userId}`,
+                undefined,
+                undefined,
+                'Booking',
+                transfer.bookingId
+            ),
+            userRepository.logActivity(
+                userId,
+                'BOOKING_TRANSFERRED_IN',
+                `Booking ${booking.bookingNumber} received from user ${transfer.fromUserId}`,
+                undefined,
+                undefined,
+                'Booking',
+                transfer.bookingId
+            ),
+        ]);
+
+        logger.info(`Booking ${transfer.bookingId} transferred from user ${transfer.fromUserId} to user ${userId}`);
+
+        return await bookingRepository.findByIdWithDetails(transfer.bookingId);
+    }
+
+    /**
+     * Decline a transfer addressed to the user; the booking stays with the sender
+     */
+    async declineTransfer(userId: string, transferId: string) {
+        const user = await this.getUser(userId);
+        const transfer = await this.getIncomingTransfer(transferId, user);
+
+        const declined = await bookingTransferRepository.close(transferId, BookingTransferStatus.DECLINED, {
+            toUserId: userId,
+        });
+        if (!declined) {
+            throw new ConflictException('This transfer is no longer pending');
+        }
+
+        await notificationRepository.create({
+            userId: transfer.fromUserId,
+            title: 'Transfer declined',
+            message: `${user.name ?? 'The recipient'} declined your ticket transfer. The booking is still in your account.`,
+            meta: {
+                type: 'BOOKING_TRANSFER_DECLINED',
+                transferId,
+                bookingId: transfer.bookingId,
+            },
+        });
+
+        logger.info(`Booking transfer ${transferId} declined by user ${userId}`);
+
+        return await bookingTransferRepository.findByIdWithDetails(transferId);
+    }
+
+    /**
+     * Cancel a transfer the user started
+     */
+    async cancelTransfer(userId: string, transferId: string) {
+        const transfer = await bookingTransferRepository.findById(transferId);
+
+        if (!transfer) {
+            throw new NotFoundException('Transfer not found');
+        }
+
+        if (transfer.fromUserId !== userId) {
+            throw new ForbiddenException('You can only cancel transfers you started');
+        }
+
+        const cancelled = await bookingTransferRepository.close(transferId, BookingTransferStatus.CANCELLED);
+        if (!cancelled) {
+            throw new BadRequestException('This transfer is no longer pending');
+        }
+
+        logger.info(`Booking transfer ${transferId} cancelled by user ${userId}`);
+
+        return await bookingTransferRepository.findByIdWithDetails(transferId);
+    }
+
+    /**
+     * Get the transfer history of a booking (dashboard)
+     */
+    async getBookingTransfers(bookingId: string) {
+        const booking = await bookingRepository.findById(bookingId);
+        if (!booking) {
+            throw new NotFoundException('Booking not found');
+        }
+
+        await bookingTransferRepository.expireStale(new Date());
+
+        return await bookingTransferRepository.findByBookingId(bookingId);
+    }
+}
+
+export const bookingTransferService = new BookingTransferService();
@@ -1,23 +1,34 @@
-import { BookingStatus } from '@prisma/client';
+import { BookingStatus, SeatsSessionStatus } from '@prisma/client';
 
 import { logger } from '../config';
 import {
     BadRequestException,
+    ConflictException,
     ForbiddenException,
     HttpException,
     NotFoundException,
 } from '../exceptions/http.exception';
-import bookingRepository from '../repositories/booking.repository';
+import bookingRepository, { bookingItemsCreate, BookingLineItem } from '../repositories/booking.repository';
 import eventRepository from '../repositories/event.repository';
 import { PaymentMethodRepository } from '../repositories/payment-method.repository';
+import { SessionRepository } from '../repositories/session.repository';
 import { MAX_PENDING_TRANSACTIONS, TransactionRepository } from '../repositories/transaction.repository';
 import { WalletRepository } from '../repositories/wallet.repository';
 import { CheckoutInput } from '../schemas/booking.schema';
+import { TicketSelection } from '../schemas/ticket-type.schema';
 import { prisma } from '../utils/prisma.client';
+import { publishSeatChange } from '../utils/seat-events.util';
+import { pricingRuleService } from './pricing-rule.service';
+import { promoCodeService } from './promo-code.service';
+import { scheduleService } from './schedule.service';
+import { CheckInContext, ticketService } from './ticket.service';
+import { ticketTypeService } from './ticket-type.service';
+import { waitlistService } from './waitlist.service';
 
 const paymentMethodRepository = new PaymentMethodRepository();
 const walletRepository = new WalletRepository();
 const transactionRepository = new TransactionRepository();
+const sessionRepository = new SessionRepository();
 
 export class BookingService {
     /**
@@ -90,7 +101,8 @@ export class BookingService {
         userId: string,
         amount: number,
         currency: string,
-        paymentChannel: string
+        paymentChannel: string,
+        tx?: any
     ) {
         // Get user's wallet
         const wallet = await walletRepository.getUserWallet(userId, currency);
@@ -110,8 +122,11 @@ export class BookingService {
             );
         }
 
-        // Deduct amount from wallet
-        const updatedWallet = await walletRepository.subtractAmount(wallet.id, amount);
+        // Deduct amount from wallet (the balance is checked again by the debit itself)
+        const updatedWallet = await walletRepository.debit(wallet.id, amount, tx);
+        if (!updatedWallet) {
+            throw new BadRequestException(`Insufficient wallet balance. Required: ${amount} ${currency}`);
+        }
 
         // Create completed transaction
         const transaction = await transactionRepository.createCheckoutTransaction({
@@ -123,7 +138,7 @@ export class BookingService {
             status: 'COMPLETED',
             walletId: wallet.id,
             completedBy: userId,
-        });
+        }, tx);
 
         logger.info(
             `Wallet payment processed: User ${userId}, Amount ${amount} ${currency}, Transaction ${transaction.id}`
@@ -140,7 +155,8 @@ export class BookingService {
         userId: string,
         amount: number,
         currency: string,
-        paymentChannel: string
+        paymentChannel: string,
+        tx?: any
     ) {
         // Create pending transaction for cash payment
         const transaction = await transactionRepository.createCheckoutTransaction({
@@ -150,7 +166,7 @@ export class BookingService {
             platform: 'mobile',
             channel: paymentChannel,
             status: 'PENDING',
-        });
+        }, tx);
 
         logger.info(
             `Cash payment initiated: User ${userId}, Amount ${amount} ${currency}, Transaction ${transaction.id} (PENDING)`
@@ -166,7 +182,8 @@ export class BookingService {
         userId: string,
         amount: number,
         currency: string,
-        paymentChannel: string
+        paymentChannel: string,
+        tx?: any
     ) {
         // TODO: Implement payment gateway integration for:
         // - Apple Pay
@@ -183,7 +200,7 @@ export class BookingService {
             platform: 'mobile',
             channel: paymentChannel,
             status: 'PENDING',
-        });
+        }, tx);
 
         logger.info(
             `[TODO] Payment gateway integration needed for: ${paymentChannel}. Transaction ${transaction.id} created as PENDING`
@@ -192,15 +209,57 @@ export class BookingService {
         return { transaction };
     }
 
+    /**
+     * Process payment based on payment method type
+     * Wallet payments complete immediately, cash and other methods create PENDING transactions
+     * Checkouts pay within the transaction that creates their bookings (tx), so no payment outlives a failed booking
+     */
+    private async processPayment(
+        userId: string,
+        amount: number,
+        currency: string,
+        paymentMethod: any,
+        tx?: any
+    ) {
+        const paymentChannel = this.extractPaymentChannel(paymentMethod);
+        const paymentChannelLower = paymentChannel.toLowerCase();
+
+        // Check pending transaction limit for non-wallet payments (they create PENDING transactions)
+        if (paymentChannelLower !== 'wallet') {
+            await this.validatePendingTransactionLimit(userId);
+        }
+
+        if (paymentChannelLower === 'wallet') {
+            // Wallet payment: validate balance, deduct, create completed transaction
+            const result = await this.processWalletPayment(userId, amount, currency, paymentChannel, tx);
+            return result.transaction;
+        }
+
+        if (paymentChannelLower === 'cash') {
+            // Cash payment: create pending transaction
+            const result = await this.processCashPayment(userId, amount, currency, paymentChannel, tx);
+            return result.transaction;
+        }
+
+        // Other payment methods: create pending transaction (TODO: integrate payment gateway)
+        const result = await this.processOtherPayment(userId, amount, currency, paymentChannel, tx);
+        return result.transaction;
+    }
+
     /**
      * Direct event checkout
      * User purchases a specific event directly (not from cart)
+     * Events with ticket types are bought by type; quantity is then the number of people admitted
+     * Tickets, promo redemption, payment and booking are taken in one transaction, so a failed checkout keeps none of them
      */
     async directEventCheckout(
         userId: string,
         eventId: string,
-        quantity: number,
-        paymentMethodId: string
+        quantity: number | undefined,
+        paymentMethodId: string,
+        scheduleId?: string,
+        tickets?: TicketSelection,
+        promoCode?: string
     ) {
         try {
             // 1. Validate event
@@ -209,78 +268,72 @@ export class BookingService {
             // 2. Validate payment method
             const paymentMethod = await this.validatePaymentMethod(paymentMethodId);
 
-            // 3. Calculate pricing
-            const unitPrice = event.discountedPrice || event.originalPrice;
-            const totalPrice = unitPrice * quantity;
+            // 3. Resolve the schedule
+            const schedule = event.haveSeats && !scheduleId
+                ? null
+                : await scheduleService.resolveBookableSchedule(eventId, scheduleId);
+
+            // 4. Calculate pricing (event or ticket type prices after pricing rules)
+            const order = await ticketTypeService.priceOrder(event, { quantity, tickets }, schedule);
             const currency = 'AED'; // Default currency
 
-            // 4. Extract payment channel
-            const paymentChannel = this.extractPaymentChannel(paymentMethod);
+            // 5. Evaluate the promo code
+            const evaluation = promoCode
+                ? await promoCodeService.evaluate(promoCode, userId, [
+                    { key: 'order', eventId, locationZoneId: null, amount: order.totalPrice },
+                ])
+                : null;
+            const discountAmount = evaluation?.discountAmount ?? 0;
+            const totalPrice = order.totalPrice - discountAmount;
 
-            // 5. Process payment based on method type
-            let transaction;
-            const paymentChannelLower = paymentChannel.toLowerCase();
+            // 6. Generate booking number
+            const bookingNumber = await bookingRepository.generateBookingNumber();
 
-            // Check pending transaction limit for non-wallet payments (they create PENDING transactions)
-            if (paymentChannelLower !== 'wallet') {
-                await this.validatePendingTransactionLimit(userId);
-            }
+            const booking = await prisma.$transaction(async (tx: any) => {
+                // 7. Hold general-admission tickets on the schedule
+                if (schedule && !event.haveSeats) {
+                    await scheduleService.reserveGeneralAdmission(schedule.id, order.quantity, userId, tx);
+                }
 
-            if (paymentChannelLower === 'wallet') {
-                // Wallet payment: validate balance, deduct, create completed transaction
-                const result = await this.processWalletPayment(
-                    userId,
-                    totalPrice,
-                    currency,
-                    paymentChannel
-                );
-                transaction = result.transaction;
-            } else if (paymentChannelLower === 'cash') {
-                // Cash payment: create pending transaction
-                const result = await this.processCashPayment(
-                    userId,
-                    totalPrice,
-                    currency,
-                    paymentChannel
-                );
-                transaction = result.transaction;
-            } else {
-                // Other payment methods: create pending transaction (TODO: integrate payment gateway)
-                const result = await this.processOtherPayment(
-                    userId,
-                    totalPrice,
-                    currency,
-                    paymentChannel
-                );
-                transaction = result.transaction;
-            }
+                // 8. Redeem the promo code
+                const redemption = evaluation ? await promoCodeService.redeem(evaluation, userId, tx) : null;
 
-            // 6. Generate booking number
-            const bookingNumber = await bookingRepository.generateBookingNumber();
+                // 9. Process payment based on method type
+                const transaction = await this.processPayment(userId, totalPrice, currency, paymentMethod, tx);
 
-            // 7. Determine booking status based on transaction status
-            const bookingStatus: BookingStatus =
-                transaction.status === 'COMPLETED' ? 'CONFIRMED' : 'PENDING';
+                // 10. Determine booking status based on transaction status
+                const bookingStatus: BookingStatus =
+                    transaction.status === 'COMPLETED' ? 'CONFIRMED' : 'PENDING';
 
-            // 8. Create booking
-            const booking = await bookingRepository.create({
-                bookingNumber,
-                userId,
-                eventId,
-                quantity,
-                unitPrice,
-                totalPrice,
-                currency,
-                status: bookingStatus,
-                transactionId: transaction.id,
-                paymentMethodId,
+                // 11. Create booking with its ticket line items
+                const createdBooking = await bookingRepository.create({
+                    bookingNumber,
+                    userId,
+                    eventId,
+                    scheduleId: schedule?.id,
+                    quantity: order.quantity,
+                    unitPrice: order.unitPrice,
+                    totalPrice,
+                    currency,
+                    status: bookingStatus,
+                    transactionId: transaction.id,
+                    paymentMethodId,
+                    pricingRuleId: order.pricingRuleId,
+                    discountAmount,
+                    promoRedemptionId: redemption?.id ?? null,
+                    items: order.items,
+                }, tx);
+
+                await waitlistService.markPurchased(userId, [schedule?.id], tx);
+
+                return createdBooking;
             });
 
             logger.info(
                 `Direct checkout completed: Booking ${booking.bookingNumber}, Event ${eventId}, User ${userId}`
             );
 
-            // 9. Get booking with full details
+            // 12. Get booking with full details
             const bookingWithDetails = await bookingRepository.findByIdWithDetails(booking.id);
 
             return {
@@ -314,8 +367,10 @@ export class BookingService {
                         cartItems: {
                             include: {
                                 event: true,
+                                tickets: true,
                             },
                         },
+                        promoCode: true,
                     },
                 });
 
@@ -343,51 +398,62 @@ export class BookingService {
                     await this.validateEvent(item.eventId);
                 }
 
-                // 4. Calculate total (use cart's calculated totals)
-                const totalAmount = cart.totalAmount;
-                const currency = cart.currency;
+                // 4. Hold general-admission tickets and price each item at checkout time
+                // Tickets are held within the transaction, so a failed checkout gives them back
+                const pricedItems = [];
+                for (const item of cart.cartItems) {
+                    const schedule = item.event.haveSeats && !item.scheduleId
+                        ? null
+                        : await scheduleService.resolveBookableSchedule(item.eventId, item.scheduleId);
 
-                // 5. Extract payment channel
-                const paymentChannel = this.extractPaymentChannel(paymentMethod);
+                    const order = await ticketTypeService.priceOrder(
+                        item.event,
+                        {
+                            quantity: item.quantity,
+                            tickets: item.tickets.map((ticket: { ticketTypeId: string; quantity: number }) => ({
+                                ticketTypeId: ticket.ticketTypeId,
+                                quantity: ticket.quantity,
+                            })),
+                        },
+                        schedule
+                    );
 
-                // 6. Process payment based on method type
-                let transaction;
-                const paymentChannelLower = paymentChannel.toLowerCase();
+                    if (schedule && !item.event.haveSeats) {
+                        await scheduleService.reserveGeneralAdmission(schedule.id, order.quantity, userId, tx);
+                    }
 
-                // Check pending transaction limit for non-wallet payments (they create PENDING transactions)
-                if (paymentChannelLower !== 'wallet') {
-                    await this.validatePendingTransactionLimit(userId);
+                    pricedItems.push({
+                        item,
+                        scheduleId: schedule?.id ?? null,
+                        order,
+                    });
                 }
 
-                if (paymentChannelLower === 'wallet') {
-                    // Wallet payment: validate balance, deduct, create completed transaction
-                    const result = await this.processWalletPayment(
-                        userId,
-                        totalAmount,
-                        currency,
-                        paymentChannel
-                    );
-                    transaction = result.transaction;
-                } else if (paymentChannelLower === 'cash') {
-                    // Cash payment: create pending transaction
-                    const result = await this.processCashPayment(
-                        userId,
-                        totalAmount,
-                        currency,
-                        paymentChannel
-                    );
-                    transaction = result.transaction;
-                } else {
-                    // Other payment methods: create pending transaction (TODO: integrate payment gateway)
-                    const result = await this.processOtherPayment(
+                // 5. Apply the promo code of the cart (redeemed within the transaction)
+                let promoEvaluation = null;
+                let promoRedemptionId: string | null = null;
+                if (cart.promoCode) {
+                    promoEvaluation = await promoCodeService.evaluate(
+                        cart.promoCode.code,
                         userId,
-                        totalAmount,
-                        currency,
-                        paymentChannel
+                        pricedItems.map(({ item, order }) => ({
+                            key: item.id,
+                            eventId: item.eventId,
+                            locationZoneId: null,
+                            amount: order.totalPrice,
+                        })),
+                        tx
                     );
-                    transaction = result.transaction;
+                    promoRedemptionId = (await promoCodeService.redeem(promoEvaluation, userId, tx)).id;
                 }
 
+                const totalAmount = pricedItems.reduce((sum, { order }) => sum + order.totalPrice, 0)
+                    - (promoEvaluation?.discountAmount ?? 0);
+                const currency = cart.currency;
+
+                // 6. Process payment based on method type
+                const transaction = await this.processPayment(userId, totalAmount, currency, paymentMethod, tx);
+
                 // 7. Determine booking status based on transaction status
                 const bookingStatus: BookingStatus =
                     transaction.status === 'COMPLETED' ? 'CONFIRMED' : 'PENDING';
@@ -423,28 +489,32 @@ export class BookingService {
                     sequence = parseInt(lastSequence, 10) + 1;
                 }
 
-                for (const item of cart.cartItems) {
+                for (const { item, scheduleId, order } of pricedItems) {
                     const sequenceStr = sequence.toString().padStart(4, '0');
                     const bookingNumber = `${prefix}${sequenceStr}`;
                     sequence++; // Increment for next booking
 
-                    const unitPrice = item.event.discountedPrice || item.event.originalPrice;
-                    const totalPrice = unitPrice * item.quantity;
+                    const discountAmount = promoEvaluation?.lineDiscounts.get(item.id) ?? 0;
 
                     const booking = await tx.booking.create({
                         data: {
                             bookingNumber,
                             userId,
                             eventId: item.eventId,
-                            quantity: item.quantity,
-                            unitPrice,
-                            totalPrice,
+                            scheduleId,
+                            quantity: order.quantity,
+                            unitPrice: order.unitPrice,
+                            totalPrice: order.totalPrice - discountAmount,
+                            discountAmount,
+                            promoRedemptionId: discountAmount > 0 ? promoRedemptionId : null,
                             currency,
                             status: bookingStatus,
                             transactionId: transaction.id,
                             paymentMethodId,
                             cartId,
                             cartItemId: item.id,
+                            pricingRuleId: order.pricingRuleId,
+                            ...bookingItemsCreate(order.items),
                         },
                     });
 
@@ -473,6 +543,8 @@ export class BookingService {
                     },
                 });
 
+                await waitlistService.markPurchased(userId, pricedItems.map(({ scheduleId }) => scheduleId), tx);
+
                 logger.info(
                     `Cart checkout completed: Cart ${cartId}, User ${userId}, ${bookings.length} bookings created`
                 );
@@ -515,17 +587,268 @@ export class BookingService {
     }
 
     /**
-     * Main checkout method that handles both direct and cart checkout
+     * Session checkout
+     * User purchases the seats held in a seat-selection session (seated events)
+     * Chosen ticket types replace the zone price of the seats they are assigned to
+     * The session is claimed, paid for and booked in one transaction, so it can be checked out only once
+     * and a failed checkout keeps no payment
+     */
+    async sessionCheckout(
+        userId: string,
+        sessionId: string,
+        paymentMethodId: string,
+        tickets?: TicketSelection,
+        promoCode?: string
+    ) {
+        try {
+            // 1. Validate session belongs to user and is still pending
+            const session = await sessionRepository.findByIdWithDetails(sessionId);
+
+            if (!session) {
+                throw new NotFoundException('Session not found');
+            }
+
+            if (session.userId !== userId) {
+                throw new ForbiddenException('This session does not belong to you');
+            }
+
+            if (session.status !== SeatsSessionStatus.PENDING) {
+                throw new BadRequestException(`Cannot checkout session with status: ${session.status}`);
+            }
+
+            if (session.expiresAt <= new Date()) {
+                throw new BadRequestException('Session has expired. Please start a new seat selection.');
+            }
+
+            if (session.seatsSessions.length === 0) {
+                throw new BadRequestException('No seats selected in this session');
+            }
+
+            // 2. Validate event
+            const event = await this.validateEvent(session.eventId);
+
+            if (!event.haveSeats) {
+                throw new BadRequestException('Session checkout is only available for seated events');
+            }
+
+            // 3. Validate payment method
+            const paymentMethod = await this.validatePaymentMethod(paymentMethodId);
+
+            // 4. Make sure none of the selected seats were booked in the meantime
+            const seatIds = session.seatsSessions.map((ss: { seatId: string }) => ss.seatId);
+            const availability = await bookingRepository.checkSeatsAvailability(
+                seatIds,
+                session.scheduleId,
+                session.id
+            );
+
+            if (!availability.available) {
+                throw new ConflictException(
+                    `The following seats are already reserved for this schedule: ${availability.reservedSeats.join(', ')}`
+                );
+            }
+
+            // 5. Price each seat from its zone pricing for this event and schedule, then apply pricing rules
+            const seatsData = session.seatsSessions.map((ss: any) => {
+                const locationZone = ss.seat.row.section.locationZone;
+                const pricing = locationZone.zonePricings.find(
+                    (p: { eventId: string; scheduleId: string }) =>
+                        p.eventId === session.eventId && p.scheduleId === session.scheduleId
+                );
+
+                if (!pricing) {
+                    throw new BadRequestException(
+                        `Zone pricing not configured for seat ${ss.seat.seatLabel}`
+                    );
+                }
+
+                return {
+                    seatId: ss.seat.id,
+                    zoneCode: locationZone.code as string,
+                    zoneName: locationZone.name,
+                    sectionCode: ss.seat.row.section.code as string,
+                    sectionName: ss.seat.row.section.name,
+                    rowNumber: ss.seat.row.rowNumber as number,
+                    seatNumber: ss.seat.seatNumber as number,
+                    locationZoneId: locationZone.id as string,
+                    originalPrice: pricing.originalPrice as number,
+                    discountedPrice: pricing.discountedPrice as number | null,
+                };
+            });
+
+            const seatTickets = await ticketTypeService.assignSeatTickets(session.eventId, tickets, seatsData);
+
+            const amounts = await pricingRuleService.priceZones(
+                { id: session.scheduleId, eventId: session.eventId, startAt: session.schedule.startAt },
+                seatsData.map((seat: typeof seatsData[number]) => {
+                    const ticketType = seatTickets.get(seat.seatId);
+                    return ticketType
+                        ? {
+                            locationZoneId: seat.locationZoneId,
+                            originalPrice: ticketType.originalPrice,
+                            discountedPrice: ticketType.discountedPrice,
+                        }
+                        : seat;
+                })
+            );
+            const seats = seatsData.map((seat: typeof seatsData[number], index: number) => ({
+                seatId: seat.seatId,
+                zoneCode: seat.zoneCode,
+                zoneName: seat.zoneName,
+                sectionCode: seat.sectionCode,
+                sectionName: seat.sectionName,
+                rowNumber: seat.rowNumber,
+                seatNumber: seat.seatNumber,
+                price: amounts[index].price,
+                pricingRuleId: amounts[index].pricingRule?.id ?? null,
+                ticketTypeId: seatTickets.get(seat.seatId)?.id ?? null,
+            }));
+
+            // One line item per ticket type, price and rule (zone rules can price a type differently)
+            const items = new Map<string, BookingLineItem>();
+            seats.forEach((seat: typeof seats[number]) => {
+                const ticketType = seatTickets.get(seat.seatId);
+                if (!ticketType) {
+                    return;
+                }
+
+                const key = `${ticketType.id}:${seat.price}:${seat.pricingRuleId}`;
+                const item = items.get(key);
+                if (item) {
+                    item.quantity += 1;
+                    item.totalPrice += seat.price;
+                } else {
+                    items.set(key, {
+                        ticketTypeId: ticketType.id,
+                        name: ticketType.name,
+                        quantity: 1,
+                        admitCount: 1,
+                        unitPrice: seat.price,
+                        totalPrice: seat.price,
+                        pricingRuleId: seat.pricingRuleId,
+                    });
+                }
+            });
+
+            // The booking records the rule only when it priced every seat
+            const ruleIds = new Set(seats.map((seat: { pricingRuleId: string | null }) => seat.pricingRuleId));
+            const pricingRuleId = ruleIds.size === 1 ? seats[0].pricingRuleId : null;
+
+            const quantity = seats.length;
+            const subtotal = seats.reduce((sum: number, seat: { price: number }) => sum + seat.price, 0);
+            // Seats may span zones, so the booking keeps the average price per seat
+            const unitPrice = subtotal / quantity;
+            const currency = 'AED'; // Default currency
+
+            // 6. Evaluate the promo code (zone-scoped codes discount the seats of their zones)
+            const evaluation = promoCode
+                ? await promoCodeService.evaluate(
+                    promoCode,
+                    userId,
+                    seatsData.map((seat: typeof seatsData[number], index: number) => ({
+                        key: seat.seatId,
+                        eventId: session.eventId,
+                        locationZoneId: seat.locationZoneId,
+                        amount: seats[index].price,
+                    }))
+                )
+                : null;
+            const discountAmount = evaluation?.discountAmount ?? 0;
+            const totalPrice = subtotal - discountAmount;
+
+            // 7. Generate booking number
+            const bookingNumber = await bookingRepository.generateBookingNumber();
+
+            const booking = await prisma.$transaction(async (tx: any) => {
+                // 8. Claim the session, so a concurrent checkout of it fails before paying
+                if (!(await sessionRepository.claimForCheckout(sessionId, userId, tx))) {
+                    throw new ConflictException('Session is no longer available for checkout. Please start a new seat selection.');
+                }
+
+                // 9. Redeem the promo code
+                const redemption = evaluation ? await promoCodeService.redeem(evaluation, userId, tx) : null;
+
+                // 10. Process payment based on method type
+                const transaction = await this.processPayment(userId, totalPrice, currency, paymentMethod, tx);
+
+                // 11. Determine booking status based on transaction status
+                const bookingStatus: BookingStatus =
+                    transaction.status === 'COMPLETED' ? 'CONFIRMED' : 'PENDING';
+
+                // 12. Create booking with seat snapshots
+                const createdBooking = await bookingRepository.createBookingWithSeatsFromSession({
+                    bookingNumber,
+                    userId,
+                    eventId: session.eventId,
+                    scheduleId: session.scheduleId,
+                    quantity,
+                    unitPrice,
+                    totalPrice,
+                    currency,
+                    status: bookingStatus,
+                    transactionId: transaction.id,
+                    paymentMethodId,
+                    pricingRuleId,
+                    discountAmount,
+                    promoRedemptionId: redemption?.id ?? null,
+                    items: Array.from(items.values()),
+                    seats,
+                }, tx);
+
+                await waitlistService.markPurchased(userId, [session.scheduleId], tx);
+
+                return createdBooking;
+            });
+
+            publishSeatChange(session.scheduleId, 'booked', seatIds);
+
+            logger.info(
+                `Session checkout completed: Booking ${booking.bookingNumber}, Session ${sessionId}, ${quantity} seats, User ${userId}`
+            );
+
+            // 13. Get booking with full details
+            const bookingWithDetails = await bookingRepository.findByIdWithDetails(booking.id);
+
+            return {
+                success: true,
+                message: 'Checkout completed successfully',
+                data: {
+                    booking: bookingWithDetails,
+                },
+            };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            logger.error('Session checkout error:', error);
+            throw new BadRequestException('Failed to complete session checkout');
+        }
+    }
+
+    /**
+     * Main checkout method that handles direct, cart and session checkout
      */
     async checkout(userId: string, checkoutData: CheckoutInput) {
-        // Check if it's a direct checkout or cart checkout
+        // Check if it's a direct, session or cart checkout
         if ('eventId' in checkoutData) {
             // Direct event checkout
             return await this.directEventCheckout(
                 userId,
                 checkoutData.eventId,
                 checkoutData.quantity,
-                checkoutData.paymentMethodId
+                checkoutData.paymentMethodId,
+                checkoutData.scheduleId,
+                checkoutData.tickets,
+                checkoutData.promoCode
+            );
+        } else if ('sessionId' in checkoutData) {
+            // Seated event checkout from a seat-selection session
+            return await this.sessionCheckout(
+                userId,
+                checkoutData.sessionId,
+                checkoutData.paymentMethodId,
+                checkoutData.tickets,
+                checkoutData.promoCode
             );
         } else {
             // Cart checkout
@@ -547,6 +870,7 @@ export class BookingService {
         filters?: {
             status?: BookingStatus;
             eventId?: string;
+            scheduleId?: string;
             startDate?: Date;
             endDate?: Date;
         }
@@ -557,7 +881,7 @@ export class BookingService {
             return {
                 success: true,
                 message: 'Bookings retrieved successfully',
-                data: result.data,
+                data: await ticketService.attachOwnerQrCodes(result.data),
                 pagination: result.pagination,
             };
         } catch (error) {
@@ -571,76 +895,44 @@ export class BookingService {
 
     /**
      * Update booking used quantity (workers only)
-     * Increments the usedQuantity and marks as COMPLETED if quantity is reached
+     * Admits quantityToAdd people as a manual check-in; marks the booking as COMPLETED once everyone is in
      */
-    async updateBookingQuantity(bookingId: string, quantityToAdd: number) {
+    async updateBookingQuantity(
+        bookingId: string,
+        quantityToAdd: number,
+        context: CheckInContext,
+        locationGateId?: string
+    ) {
         try {
-            // Get booking
-            const booking = await bookingRepository.findById(bookingId);
-
-            if (!booking) {
-                throw new NotFoundException('Booking not found');
-            }
-
-            // Only allow updates to CONFIRMED bookings
-            if (!['CONFIRMED'].includes(booking.status)) {
-                throw new BadRequestException(
-                    `Cannot update booking with status ${booking.status}. Only CONFIRMED bookings can be updated.`
-                );
-            }
-
-            // Validate quantity
-            const remainingQuantity = booking.quantity - booking.usedQuantity;
-
-            if (quantityToAdd > remainingQuantity) {
-                throw new BadRequestException(
-                    `Quantity to add (${quantityToAdd}) exceeds remaining quantity (${remainingQuantity})`
-                );
-            }
-
-            // Calculate new used quantity
-            const newUsedQuantity = booking.usedQuantity + quantityToAdd;
-
-            // Determine if booking should be marked as completed
-            const shouldComplete = newUsedQuantity >= booking.quantity;
-            const newStatus = shouldComplete ? BookingStatus.COMPLETED : booking.status;
-
-            // Update booking
-            await bookingRepository.updateUsedQuantity(
-                bookingId,
-                newUsedQuantity,
-                shouldComplete ? newStatus : undefined
-            );
-
-            logger.info(
-                `Booking ${bookingId} updated: usedQuantity ${booking.usedQuantity} -> ${newUsedQuantity}${shouldComplete ? ', marked as COMPLETED' : ''}`
-            );
+            const result = await ticketService.checkInBooking(bookingId, quantityToAdd, context, locationGateId);
 
             // Fetch full booking details for response
             const bookingWithDetails = await bookingRepository.findByIdWithDetails(bookingId);
 
             return {
                 success: true,
-                message: shouldComplete
+                message: result.ticket.status === BookingStatus.COMPLETED
                     ? 'Booking quantity updated and marked as completed'
                     : 'Booking quantity updated successfully',
                 data: {
                     booking: bookingWithDetails,
+                    checkInId: result.checkInId,
                 },
             };
         } catch (error) {
-            logger.error('Error updating booking quantity:', error);
-            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
+            logger.error('Error updating booking quantity:', error);
             throw new Error('Failed to update booking quantity');
         }
     }
 
     /**
      * Get booking by ID with full details
+     * The QR codes (booking and seats) are only returned to the booking owner
      */
-    async getBookingById(bookingId: string) {
+    async getBookingById(bookingId: string, userId: string) {
         try {
             const booking = await bookingRepository.findByIdWithDetails(bookingId);
 
@@ -648,11 +940,15 @@ export class BookingService {
                 throw new NotFoundException('Booking not found');
             }
 
+            const [bookingWithQrCode] = booking.userId === userId
+                ? await ticketService.attachOwnerQrCodes([booking])
+                : [ticketService.hideQrCodes(booking)];
+
             return {
                 success: true,
                 message: 'Booking retrieved successfully',
                 data: {
-                    booking,
+                    booking: bookingWithQrCode,
                 },
             };
         } catch (error) {
@@ -1,8 +1,13 @@
 import { CartStatus } from '@prisma/client';
 
-import { BadRequestException, NotFoundException } from '../exceptions/http.exception';
+import { logger } from '../config';
+import { BadRequestException, HttpException, NotFoundException } from '../exceptions/http.exception';
 import cartRepository from '../repositories/cart.repository';
 import eventRepository from '../repositories/event.repository';
+import { TicketSelection } from '../schemas/ticket-type.schema';
+import { promoCodeService, PromoLine } from './promo-code.service';
+import { scheduleService } from './schedule.service';
+import { ticketTypeService } from './ticket-type.service';
 
 /**
  * Cart Service
@@ -10,33 +15,108 @@ import eventRepository from '../repositories/event.repository';
  */
 export class CartService {
     /**
-     * Recalculate cart totals based on current items and event prices
-     * This ensures prices are always up-to-date with current event pricing
+     * Price each cart item at current event, ticket type and pricing rule prices
+     * Items that can no longer be bought as chosen (e.g. the event gained ticket types or a chosen
+     * type was deactivated) are removed from the cart instead of failing the whole cart
      */
-    private async recalculateCartTotals(cartId: string): Promise<void> {
+    private async priceCartItems(cartId: string) {
         const cartItems = await cartRepository.getCartItems(cartId);
 
+        const pricedItems = [];
+        let removedCount = 0;
+        for (const item of cartItems) {
+            try {
+                const order = await ticketTypeService.priceOrder(
+                    item.event,
+                    {
+                        quantity: item.quantity,
+                        tickets: item.tickets.map((ticket: { ticketTypeId: string; quantity: number }) => ({
+                            ticketTypeId: ticket.ticketTypeId,
+                            quantity: ticket.quantity,
+                        })),
+                    },
+                    item.schedule
+                );
+                pricedItems.push({ item, order });
+            } catch (error) {
+                if (!(error instanceof HttpException)) {
+                    throw error;
+                }
+                logger.info(`Cart item ${item.id} removed from cart ${cartId}: ${error.message}`);
+                await cartRepository.deleteCartItem(item.id);
+                removedCount++;
+            }
+        }
+
+        return { pricedItems, removedCount };
+    }
+
+    /**
+     * Promo lines of priced cart items (one per item)
+     */
+    private toPromoLines(pricedItems: Awaited<ReturnType<CartService['priceCartItems']>>['pricedItems']): PromoLine[] {
+        return pricedItems.map(({ item, order }) => ({
+            key: item.id,
+            eventId: item.eventId,
+            locationZoneId: null,
+            amount: order.totalPrice,
+        }));
+    }
+
+    /**
+     * Recalculate cart totals based on current items and event prices
+     * This ensures prices are always up-to-date with current event pricing and pricing rules.
+     * A promo code that no longer applies to the cart is removed from it.
+     * Returns the count of items removed because they can no longer be bought
+     */
+    private async recalculateCartTotals(cartId: string, userId: string): Promise<number> {
+        const { pricedItems, removedCount } = await this.priceCartItems(cartId);
+
         let totalAmount = 0;
         let discountAmount = 0;
 
-        for (const item of cartItems) {
+        for (const { item, order } of pricedItems) {
             const event = item.event;
 
-            // Calculate price per item (use discounted price if available)
-            const pricePerItem = event.discountedPrice || event.originalPrice;
-            const itemTotal = pricePerItem * item.quantity;
+            totalAmount += order.totalPrice;
 
-            totalAmount += itemTotal;
+            // Calculate discount for this item when it sells below the original price
+            const originalTotal = item.tickets.length > 0
+                ? item.tickets.reduce(
+                    (sum: number, ticket: { quantity: number; ticketType: { originalPrice: number } }) =>
+                        sum + ticket.ticketType.originalPrice * ticket.quantity,
+                    0
+                )
+                : (event.originalPrice ?? 0) * item.quantity;
 
-            // Calculate discount for this item if discount price exists
-            if (event.discountedPrice) {
-                const discountPerItem = event.originalPrice - event.discountedPrice;
-                discountAmount += discountPerItem * item.quantity;
+            if (originalTotal > order.totalPrice) {
+                discountAmount += originalTotal - order.totalPrice;
+            }
+        }
+
+        // Apply the promo code of the cart
+        const promoCode = await cartRepository.getCartPromoCode(cartId);
+        if (promoCode) {
+            try {
+                const evaluation = await promoCodeService.evaluate(
+                    promoCode.code,
+                    userId,
+                    this.toPromoLines(pricedItems)
+                );
+                totalAmount -= evaluation.discountAmount;
+                discountAmount += evaluation.discountAmount;
+            } catch (error) {
+                if (!(error instanceof HttpException)) {
+                    throw error;
+                }
+                await cartRepository.setPromoCode(cartId, null);
             }
         }
 
         // Update cart with recalculated totals
         await cartRepository.updateCartTotals(cartId, totalAmount, discountAmount);
+
+        return removedCount;
     }
 
     /**
@@ -86,27 +166,43 @@ export class CartService {
 
     /**
      * Add item to cart
+     * General-admission items are kept per schedule; seated events may omit the schedule.
+     * Events with ticket types are added by type; the item quantity is then the number of people admitted
      */
-    async addToCart(userId: string, eventId: string, quantity: number): Promise<any> {
+    async addToCart(
+        userId: string,
+        eventId: string,
+        quantity: number | undefined,
+        scheduleId?: string,
+        tickets?: TicketSelection
+    ): Promise<any> {
         // Validate quantity
-        if (quantity < 1) {
+        if (quantity !== undefined && quantity < 1) {
             throw new BadRequestException('Quantity must be at least 1');
         }
 
         // Validate event
-        await this.validateEvent(eventId);
+        const event = await this.validateEvent(eventId);
+
+        // Validate schedule belongs to the event and has not ended
+        const schedule = event.haveSeats && !scheduleId
+            ? null
+            : await scheduleService.resolveBookableSchedule(eventId, scheduleId);
+
+        // Validate the ticket selection against the event's ticket types
+        const order = await ticketTypeService.priceOrder(event, { quantity, tickets }, schedule);
 
         // Get or create cart
         const cart = await this.getOrCreateCart(userId);
 
-        // Add item to cart (will increment if already exists)
-        await cartRepository.addItemToCart(cart.id, eventId, quantity);
+        // Add item to cart (will replace quantity and tickets if already exists)
+        await cartRepository.addItemToCart(cart.id, eventId, schedule?.id ?? null, order.quantity, tickets);
 
         // Clean expired items
         await this.validateAndCleanCart(cart.id);
 
         // Recalculate totals
-        await this.recalculateCartTotals(cart.id);
+        await this.recalculateCartTotals(cart.id, userId);
 
         // Return updated cart
         return await cartRepository.findById(cart.id);
@@ -123,7 +219,7 @@ export class CartService {
         const removedCount = await this.validateAndCleanCart(cart.id);
 
         // Recalculate totals (in case prices changed)
-        await this.recalculateCartTotals(cart.id);
+        const unavailableCount = await this.recalculateCartTotals(cart.id, userId);
 
         // Get fresh cart data after cleanup and recalculation
         cart = await cartRepository.findById(cart.id);
@@ -131,6 +227,7 @@ export class CartService {
         return {
             ...cart,
             ...(removedCount > 0 && { expiredItemsRemoved: removedCount }),
+            ...(unavailableCount > 0 && { unavailableItemsRemoved: unavailableCount }),
         };
     }
 
@@ -160,9 +257,19 @@ export class CartService {
             throw new BadRequestException('Cannot modify inactive cart');
         }
 
+        // The quantity of a ticket-type item follows from its tickets
+        if (cartItem.tickets.length > 0) {
+            throw new BadRequestException('Add the event to the cart again to change its tickets');
+        }
+
         // Validate event is still active
         await this.validateEvent(cartItem.eventId);
 
+        // Validate schedule has not ended
+        if (cartItem.scheduleId) {
+            await scheduleService.resolveBookableSchedule(cartItem.eventId, cartItem.scheduleId);
+        }
+
         // Update quantity
         await cartRepository.updateCartItemQuantity(cartItemId, quantity);
 
@@ -170,7 +277,7 @@ export class CartService {
         await this.validateAndCleanCart(cartItem.cart.id);
 
         // Recalculate totals
-        await this.recalculateCartTotals(cartItem.cart.id);
+        await this.recalculateCartTotals(cartItem.cart.id, userId);
 
         // Return updated cart
         return await cartRepository.findById(cartItem.cart.id);
@@ -204,12 +311,53 @@ export class CartService {
         await this.validateAndCleanCart(cartItem.cart.id);
 
         // Recalculate totals
-        await this.recalculateCartTotals(cartItem.cart.id);
+        await this.recalculateCartTotals(cartItem.cart.id, userId);
 
         // Return updated cart
         return await cartRepository.findById(cartItem.cart.id);
     }
 
+    /**
+     * Apply a promo code to the user's cart
+     * The code must apply to the cart as it is now; it is checked again at checkout
+     */
+    async applyPromoCode(userId: string, code: string): Promise<any> {
+        const cart = await this.getOrCreateCart(userId);
+
+        // Clean expired items
+        await this.validateAndCleanCart(cart.id);
+
+        const { pricedItems } = await this.priceCartItems(cart.id);
+        if (pricedItems.length === 0) {
+            throw new BadRequestException('Cart is empty');
+        }
+
+        const evaluation = await promoCodeService.evaluate(code, userId, this.toPromoLines(pricedItems));
+
+        await cartRepository.setPromoCode(cart.id, evaluation.promoCode.id);
+
+        // Recalculate totals
+        await this.recalculateCartTotals(cart.id, userId);
+
+        // Return updated cart
+        return await cartRepository.findById(cart.id);
+    }
+
+    /**
+     * Remove the promo code from the user's cart
+     */
+    async removePromoCode(userId: string): Promise<any> {
+        const cart = await this.getOrCreateCart(userId);
+
+        await cartRepository.setPromoCode(cart.id, null);
+
+        // Recalculate totals
+        await this.recalculateCartTotals(cart.id, userId);
+
+        // Return updated cart
+        return await cartRepository.findById(cart.id);
+    }
+
     /**
      * Clear entire cart (optional utility method for future use)
      */
@@ -1,4 +1,4 @@
-import { BookingStatus } from '@prisma/client';
+import { Booking, BookingStatus } from '@prisma/client';
 
 import { logger } from '../config';
 import {
@@ -21,6 +21,10 @@ import {
     PreReserveSeatedInput,
 } from '../schemas/dashboard-booking.schema';
 import { prisma } from '../utils/prisma.client';
+import { publishSeatChange } from '../utils/seat-events.util';
+import { scheduleService } from './schedule.service';
+import { ticketService } from './ticket.service';
+import { waitlistService } from './waitlist.service';
 
 const DEFAULT_CURRENCY = 'AED';
 
@@ -30,7 +34,7 @@ export class DashboardBookingService {
      * If user with email/phone exists, return existing user
      * Otherwise create new guest user
      */
-    private async getOrCreateGuestUser(userInfo: GuestUserInfo): Promise<{
+    private async getOrCreateGuestUser(userInfo: GuestUserInfo, tx: any = prisma): Promise<{
         userId: string;
         isNewUser: boolean;
     }> {
@@ -41,7 +45,7 @@ export class DashboardBookingService {
         const normalizedEmail = userInfo.email?.toLowerCase().trim();
 
         if (normalizedEmail) {
-            existingUser = await prisma.user.findFirst({
+            existingUser = await tx.user.findFirst({
                 where: {
                     email: {
                         equals: normalizedEmail,
@@ -53,7 +57,7 @@ export class DashboardBookingService {
         }
 
         if (!existingUser && userInfo.phoneNumber) {
-            existingUser = await prisma.user.findUnique({
+            existingUser = await tx.user.findUnique({
                 where: { phoneNumber: userInfo.phoneNumber },
                 select: { id: true },
             });
@@ -64,7 +68,7 @@ export class DashboardBookingService {
         }
 
         // Create new guest user
-        const newUser = await prisma.user.create({
+        const newUser = await tx.user.create({
             data: {
                 name: userInfo.name,
                 email: normalizedEmail || undefined,
@@ -157,8 +161,8 @@ export class DashboardBookingService {
                 );
             }
 
-            // 3. Get or create guest user
-            const { userId, isNewUser } = await this.getOrCreateGuestUser(input.userInfo);
+            // 3. Resolve the schedule
+            const schedule = await scheduleService.resolveBookableSchedule(input.eventId, input.scheduleId);
 
             // 4. Calculate pricing
             const unitPrice = this.getEventPrice(event, input.unitPrice);
@@ -167,18 +171,28 @@ export class DashboardBookingService {
             // 5. Generate booking number
             const bookingNumber = await bookingRepository.generateBookingNumber();
 
-            // 6. Create booking
-            const booking = await bookingRepository.createAdminBooking({
-                bookingNumber,
-                userId,
-                eventId: input.eventId,
-                quantity: input.quantity,
-                unitPrice,
-                totalPrice,
-                currency: DEFAULT_CURRENCY,
-                status: 'CONFIRMED', // Admin bookings are immediately confirmed
-                isAdminBooking: true,
-                bookedByAdminId: adminId,
+            // 6. Hold tickets on the schedule, get or create guest user and create booking
+            // Tickets are held within the transaction, so a failed booking gives them back
+            const { booking, userId, isNewUser } = await prisma.$transaction(async (tx: any) => {
+                await scheduleService.reserveGeneralAdmission(schedule.id, input.quantity, null, tx);
+
+                const guest = await this.getOrCreateGuestUser(input.userInfo, tx);
+
+                const created = await bookingRepository.createAdminBooking({
+                    bookingNumber,
+                    userId: guest.userId,
+                    eventId: input.eventId,
+                    scheduleId: schedule.id,
+                    quantity: input.quantity,
+                    unitPrice,
+                    totalPrice,
+                    currency: DEFAULT_CURRENCY,
+                    status: 'CONFIRMED', // Admin bookings are immediately confirmed
+                    isAdminBooking: true,
+                    bookedByAdminId: adminId,
+                }, tx);
+
+                return { booking: created, ...guest };
             });
 
             logger.info(
@@ -237,7 +251,7 @@ export class DashboardBookingService {
 
             if (!availability.available) {
                 throw new ConflictException(
-                    `The following seats are already reserved for this schedule: ${availability.reservedSeats.join(', ')}`
+                    `The following seats are already reserved or held for this schedule: ${availability.reservedSeats.join(', ')}`
                 );
             }
 
@@ -290,8 +304,10 @@ export class DashboardBookingService {
             // 10. Prepare seat data with snapshots
             const seatsData = seatDetails.map((seat) => ({
                 seatId: seat.id,
-                zoneType: seat.row.section.locationZone.zone.type,
-                sectionPosition: seat.row.section.position,
+                zoneCode: seat.row.section.locationZone.code,
+                zoneName: seat.row.section.locationZone.name,
+                sectionCode: seat.row.section.code,
+                sectionName: seat.row.section.name,
                 rowNumber: seat.row.rowNumber,
                 seatNumber: seat.seatNumber,
             }));
@@ -312,6 +328,8 @@ export class DashboardBookingService {
                 seats: seatsData,
             });
 
+            publishSeatChange(input.scheduleId, 'booked', seatIds);
+
             logger.info(
                 `Admin seated booking created: ${booking.bookingNumber} with ${quantity} seats by admin ${adminId}`
             );
@@ -402,6 +420,7 @@ export class DashboardBookingService {
 
     /**
      * Get booking by ID with full details (dashboard)
+     * Includes the QR code, issued if missing, for printed tickets
      */
     async getBookingById(bookingId: string) {
         try {
@@ -411,11 +430,13 @@ export class DashboardBookingService {
                 throw new NotFoundException('Booking not found');
             }
 
+            const [bookingWithQrCode] = await ticketService.attachQrCodes([booking]);
+
             return {
                 success: true,
                 message: 'Booking retrieved successfully',
                 data: {
-                    booking,
+                    booking: bookingWithQrCode,
                 },
             };
         } catch (error) {
@@ -459,10 +480,25 @@ export class DashboardBookingService {
 
             if (status === 'CANCELLED') {
                 // Use special method that releases seats
-                await bookingRepository.cancelBookingWithSeats(
+                const { releasedSeats } = await bookingRepository.cancelBookingWithSeats(
                     bookingId,
                     cancelReason || 'Cancelled by admin'
                 );
+
+                if (releasedSeats.length > 0) {
+                    publishSeatChange(
+                        releasedSeats[0].scheduleId,
+                        'released',
+                        releasedSeats.map((s) => s.seatId)
+                    );
+                }
+
+                await waitlistService.releaseToWaitlist([booking.scheduleId, releasedSeats[0]?.scheduleId]);
+            } else if (status === 'REFUNDED') {
+                // Use special method that gives general-admission tickets back
+                await bookingRepository.refundBooking(bookingId);
+
+                await waitlistService.releaseToWaitlist([booking.scheduleId]);
             } else {
                 await bookingRepository.updateStatus(bookingId, status);
             }
@@ -500,10 +536,10 @@ export class DashboardBookingService {
     /**
      * Create a pre-reserved guest user with booking number in name
      */
-    private async createPreReservedGuestUser(bookingNumber: string): Promise<string> {
+    private async createPreReservedGuestUser(bookingNumber: string, tx: any = prisma): Promise<string> {
         const guestName = `Guest - ${bookingNumber}`;
 
-        const newUser = await prisma.user.create({
+        const newUser = await tx.user.create({
             data: {
                 name: guestName,
                 platform: 'Mobile',
@@ -539,49 +575,59 @@ export class DashboardBookingService {
                 );
             }
 
-            // 3. Calculate pricing
+            // 3. Resolve the schedule
+            const schedule = await scheduleService.resolveBookableSchedule(input.eventId, input.scheduleId);
+
+            // 4. Calculate pricing
             const unitPrice = this.getEventPrice(event, input.unitPrice);
 
-            // 4. Generate all booking numbers at once to ensure uniqueness
+            // 5. Generate all booking numbers at once to ensure uniqueness
             const bookingNumbers = await bookingRepository.generateBulkBookingNumbers(input.quantity);
 
-            // 5. Create bookings data with unique booking numbers
-            const bookingsData: Array<{
-                bookingNumber: string;
-                userId: string;
-                eventId: string;
-                quantity: number;
-                unitPrice: number;
-                totalPrice: number;
-                currency: string;
-                status: BookingStatus;
-                isAdminBooking: boolean;
-                bookedByAdminId: string;
-                isPreReserved: boolean;
-            }> = [];
-
-            // Create guest users with unique booking numbers
-            for (let i = 0; i < input.quantity; i++) {
-                const bookingNumber = bookingNumbers[i];
-                const userId = await this.createPreReservedGuestUser(bookingNumber);
-
-                bookingsData.push({
-                    bookingNumber,
-                    userId,
-                    eventId: input.eventId,
-                    quantity: 1, // Each booking is for 1 unit
-                    unitPrice,
-                    totalPrice: unitPrice,
-                    currency: DEFAULT_CURRENCY,
-                    status: 'CONFIRMED',
-                    isAdminBooking: true,
-                    bookedByAdminId: adminId,
-                    isPreReserved: true,
-                });
-            }
+            // 6. Hold tickets on the schedule, create guest users and create all bookings
+            // Tickets are held within the transaction, so failed bookings give them back
+            const bookings: Booking[] = await prisma.$transaction(async (tx: any) => {
+                await scheduleService.reserveGeneralAdmission(schedule.id, input.quantity, null, tx);
+
+                // Bookings data with unique booking numbers
+                const bookingsData: Array<{
+                    bookingNumber: string;
+                    userId: string;
+                    eventId: string;
+                    scheduleId: string;
+                    quantity: number;
+                    unitPrice: number;
+                    totalPrice: number;
+                    currency: string;
+                    status: BookingStatus;
+                    isAdminBooking: boolean;
+                    bookedByAdminId: string;
+                    isPreReserved: boolean;
+                }> = [];
+
+                // Create guest users with unique booking numbers
+                for (let i = 0; i < input.quantity; i++) {
+                    const bookingNumber = bookingNumbers[i];
+                    const userId = await this.createPreReservedGuestUser(bookingNumber, tx);
+
+                    bookingsData.push({
+                        bookingNumber,
+                        userId,
+                        eventId: input.eventId,
+                        scheduleId: schedule.id,
+                        quantity: 1, // Each booking is for 1 unit
+                        unitPrice,
+                        totalPrice: unitPrice,
+                        currency: DEFAULT_CURRENCY,
+                        status: 'CONFIRMED',
+                        isAdminBooking: true,
+                        bookedByAdminId: adminId,
+                        isPreReserved: true,
+                    });
+                }
 
-            // 6. Create all bookings
-            const bookings = await bookingRepository.createBulkPreReservedBookings(bookingsData);
+                return await bookingRepository.createBulkPreReservedBookings(bookingsData, tx);
+            }, { timeout: 60000 }); // Up to 500 guest users and bookings
 
             logger.info(
                 `Pre-reserved ${bookings.length} non-seated bookings for event ${input.eventId} by admin ${adminId}`
@@ -644,7 +690,7 @@ export class DashboardBookingService {
 
             if (!availability.available) {
                 throw new ConflictException(
-                    `The following seats are already reserved for this schedule: ${availability.reservedSeats.join(', ')}`
+                    `The following seats are already reserved or held for this schedule: ${availability.reservedSeats.join(', ')}`
                 );
             }
 
@@ -705,8 +751,10 @@ export class DashboardBookingService {
                     isPreReserved: true,
                     seat: {
                         seatId: seat.id,
-                        zoneType: seat.row.section.locationZone.zone.type,
-                        sectionPosition: seat.row.section.position,
+                        zoneCode: seat.row.section.locationZone.code,
+                        zoneName: seat.row.section.locationZone.name,
+                        sectionCode: seat.row.section.code,
+                        sectionName: seat.row.section.name,
                         rowNumber: seat.row.rowNumber,
                         seatNumber: seat.seatNumber,
                     },
@@ -716,6 +764,8 @@ export class DashboardBookingService {
                 seatsBooked.push(seat.seatLabel);
             }
 
+            publishSeatChange(input.scheduleId, 'admin_locked', seatDetails.map((s) => s.id));
+
             logger.info(
                 `Pre-reserved ${bookings.length} seated bookings for event ${input.eventId} by admin ${adminId}`
             );
@@ -863,7 +913,8 @@ export class DashboardBookingService {
             // 3. Assign booking to user
             const { previousUserId } = await bookingRepository.assignBookingToUser(
                 bookingId,
-                newUserId
+                newUserId,
+                ticketService.issueQrCode(booking)
             );
 
             // 4. Clean up old guest user if unused
@@ -936,7 +987,8 @@ export class DashboardBookingService {
                     // 3. Assign booking to user
                     const { previousUserId } = await bookingRepository.assignBookingToUser(
                         assignment.bookingId,
-                        newUserId
+                        newUserId,
+                        ticketService.issueQrCode(booking)
                     );
 
                     // 4. Clean up old guest user if unused
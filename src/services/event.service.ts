@@ -1,3 +1,5 @@
+import { ReEntryPolicy, Schedule } from '@prisma/client';
+
 import { BadRequestException, NotFoundException } from '../exceptions/http.exception';
 import categoryRepository from '../repositories/category.repository';
 import eventRepository from '../repositories/event.repository';
@@ -8,6 +10,11 @@ import { PaginatedResponse } from '../utils/pagination.util';
 const locationRepository = new LocationRepository();
 const mediaRepository = new MediaRepository();
 
+/**
+ * Schedule fields the sold-out state is derived from
+ */
+type ScheduleSoldState = Pick<Schedule, 'capacity' | 'soldQuantity' | 'endAt'>;
+
 /**
  * Event Service
  * Handles business logic for event operations
@@ -120,6 +127,36 @@ export class EventService {
         return mediaIds;
     }
 
+    /**
+     * Add general-admission availability to the schedules of an event
+     * remainingCapacity is null for seated events and schedules without a capacity limit
+     * The event is sold out when every upcoming schedule is sold out
+     */
+    private withScheduleAvailability<E extends { haveSeats: boolean; schedules?: ScheduleSoldState[] }>(event: E) {
+        const now = new Date();
+
+        const schedules = (event.schedules ?? []).map((schedule: NonNullable<E['schedules']>[number]) => {
+            const remainingCapacity = event.haveSeats || schedule.capacity === null
+                ? null
+                : Math.max(schedule.capacity - schedule.soldQuantity, 0);
+
+            return {
+                ...schedule,
+                remainingCapacity,
+                isSoldOut: remainingCapacity === 0,
+            };
+        });
+
+        const upcomingSchedules = schedules.filter((schedule) => schedule.endAt > now);
+
+        return {
+            ...event,
+            schedules,
+            isSoldOut: upcomingSchedules.length > 0
+                && upcomingSchedules.every((schedule) => schedule.isSoldOut),
+        };
+    }
+
     /**
      * Create a new event
      */
@@ -130,6 +167,8 @@ export class EventService {
             startAt: string;
             endAt: string;
             haveSeats?: boolean;
+            reEntryPolicy?: ReEntryPolicy;
+            maxReEntries?: number;
             originalPrice?: number;
             discountedPrice?: number;
             categoryIds: string[];
@@ -162,6 +201,8 @@ export class EventService {
             startAt,
             endAt,
             haveSeats: data.haveSeats ?? false,
+            reEntryPolicy: data.reEntryPolicy,
+            maxReEntries: data.reEntryPolicy === ReEntryPolicy.LIMITED ? data.maxReEntries : undefined,
             originalPrice: data.originalPrice,
             discountedPrice: data.discountedPrice,
             locationId: data.locationId,
@@ -209,7 +250,7 @@ export class EventService {
             throw new NotFoundException('Event not found');
         }
 
-        return event;
+        return this.withScheduleAvailability(event);
     }
 
     /**
@@ -232,7 +273,7 @@ export class EventService {
             throw new NotFoundException('Event not found');
         }
 
-        return event;
+        return this.withScheduleAvailability(event);
     }
 
     /**
@@ -254,6 +295,8 @@ export class EventService {
             startAt?: string;
             endAt?: string;
             haveSeats?: boolean;
+            reEntryPolicy?: ReEntryPolicy;
+            maxReEntries?: number | null;
             originalPrice?: number | null;
             discountedPrice?: number | null;
             categoryIds?: string[];
@@ -297,6 +340,22 @@ export class EventService {
             updateData.haveSeats = data.haveSeats;
         }
 
+        // Update re-entry policy (maxReEntries only applies to LIMITED)
+        if (data.reEntryPolicy !== undefined) {
+            updateData.reEntryPolicy = data.reEntryPolicy;
+        }
+        if (data.maxReEntries !== undefined) {
+            updateData.maxReEntries = data.maxReEntries;
+        }
+        const finalReEntryPolicy = updateData.reEntryPolicy ?? existingEvent.reEntryPolicy;
+        const finalMaxReEntries = data.maxReEntries !== undefined ? data.maxReEntries : existingEvent.maxReEntries;
+        if (finalReEntryPolicy === ReEntryPolicy.LIMITED && !finalMaxReEntries) {
+            throw new BadRequestException('maxReEntries is required when reEntryPolicy is LIMITED');
+        }
+        if (finalReEntryPolicy !== ReEntryPolicy.LIMITED && finalMaxReEntries) {
+            updateData.maxReEntries = null;
+        }
+
         // Update pricing (allow null to clear prices when haveSeats is true)
         if (data.originalPrice !== undefined) {
             updateData.originalPrice = data.originalPrice;
@@ -0,0 +1,286 @@
+import { GiftVoucherStatus } from '@prisma/client';
+import { randomInt } from 'crypto';
+
+import { BadRequestException, ConflictException, NotFoundException } from '../exceptions/http.exception';
+import { giftVoucherRepository } from '../repositories/gift-voucher.repository';
+import {
+    CreateGiftVoucherBatchInput,
+    CreateGiftVoucherInput,
+    PurchaseGiftVoucherInput,
+} from '../schemas/gift-voucher.schema';
+
+const DEFAULT_CURRENCY = 'AED';
+
+// Characters that are easy to read and distinguish (no O/0, I/1, L)
+const CODE_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export class GiftVoucherService {
+    /**
+     * Generate a random voucher code with format: GV-XXXX-XXXX-XXXX
+     */
+    private generateCode(): string {
+        const groups: string[] = [];
+        for (let g = 0; g < 3; g++) {
+            let group = '';
+            for (let i = 0; i < 4; i++) {
+                group += CODE_CHARS.charAt(randomInt(CODE_CHARS.length));
+            }
+            groups.push(group);
+        }
+        return `GV-${groups.join('-')}`;
+    }
+
+    /**
+     * Generate codes that are not used by any voucher yet
+     */
+    private async generateUniqueCodes(count: number): Promise<string[]> {
+        const codes = new Set<string>();
+        const maxAttempts = 5;
+
+        for (let attempt = 0; attempt < maxAttempts && codes.size < count; attempt++) {
+            const candidates = new Set<string>();
+            while (candidates.size < count - codes.size) {
+                const code = this.generateCode();
+                if (!codes.has(code)) {
+                    candidates.add(code);
+                }
+            }
+
+            const existing = new Set(await giftVoucherRepository.findExistingCodes(Array.from(candidates)));
+            candidates.forEach((code) => {
+                if (!existing.has(code)) {
+                    codes.add(code);
+                }
+            });
+        }
+
+        if (codes.size < count) {
+            throw new BadRequestException('Failed to generate unique voucher codes. Please try again.');
+        }
+
+        return Array.from(codes);
+    }
+
+    /**
+     * Parse an expiry date, which must be in the future
+     */
+    private parseExpiresAt(expiresAt: string | null | undefined): Date | null {
+        if (!expiresAt) {
+            return null;
+        }
+
+        const date = new Date(expiresAt);
+        if (date <= new Date()) {
+            throw new BadRequestException('expiresAt must be in the future');
+        }
+        return date;
+    }
+
+    /**
+     * Issue a single gift voucher
+     */
+    async createVoucher(data: CreateGiftVoucherInput, issuedBy: string | null) {
+        const expiresAt = this.parseExpiresAt(data.expiresAt);
+
+        let code = data.code;
+        if (code) {
+            const existing = await giftVoucherRepository.findByCode(code);
+            if (existing) {
+                throw new ConflictException(`Gift voucher ${code} already exists`);
+            }
+        } else {
+            [code] = await this.generateUniqueCodes(1);
+        }
+
+        return await giftVoucherRepository.create({
+            code,
+            amount: data.amount,
+            currency: data.currency ?? DEFAULT_CURRENCY,
+            expiresAt,
+            issuedBy,
+        });
+    }
+
+    /**
+     * Sell a gift voucher to a mobile user, paid from their wallet
+     * Returns null when the wallet balance does not cover it
+     */
+    async purchaseVoucher(userId: string, data: PurchaseGiftVoucherInput) {
+        const [code] = await this.generateUniqueCodes(1);
+
+        return await giftVoucherRepository.purchase(userId, {
+            code,
+            amount: data.amount,
+            currency: data.currency ?? DEFAULT_CURRENCY,
+            expiresAt: null,
+        });
+    }
+
+    /**
+     * Get the gift vouchers a user bought
+     */
+    async getPurchasedVouchers(userId: string, page: number, limit: number) {
+        return await giftVoucherRepository.findPurchasedBy(userId, page, limit);
+    }
+
+    /**
+     * Generate a batch of gift vouchers with the same value and expiry
+     */
+    async createBatch(data: CreateGiftVoucherBatchInput, createdBy: string | null) {
+        const expiresAt = this.parseExpiresAt(data.expiresAt);
+        const codes = await this.generateUniqueCodes(data.count);
+
+        const batch = await giftVoucherRepository.createBatch(
+            {
+                name: data.name,
+                clientName: data.clientName ?? null,
+                notes: data.notes ?? null,
+                createdBy,
+            },
+            codes.map((code) => ({
+                code,
+                amount: data.amount,
+                currency: data.currency ?? DEFAULT_CURRENCY,
+                expiresAt,
+                issuedBy: createdBy,
+            }))
+        );
+
+        return {
+            batch,
+            vouchers: codes.map((code) => ({
+                code,
+                amount: data.amount,
+                currency: data.currency ?? DEFAULT_CURRENCY,
+                expiresAt,
+            })),
+        };
+    }
+
+    /**
+     * Get gift vouchers with filters and pagination
+     */
+    async getAllVouchers(
+        page: number,
+        limit: number,
+        filters?: { status?: GiftVoucherStatus; batchId?: string; expired?: boolean; search?: string }
+    ) {
+        const result = await giftVoucherRepository.findAll(page, limit, filters);
+
+        return {
+            success: true,
+            message: 'Gift vouchers retrieved successfully',
+            data: result.data,
+            pagination: result.pagination,
+        };
+    }
+
+    /**
+     * Get the redemption history of gift vouchers
+     */
+    async getRedemptions(
+        page: number,
+        limit: number,
+        filters?: { batchId?: string; userId?: string; from?: Date; to?: Date }
+    ) {
+        const result = await giftVoucherRepository.findRedemptions(page, limit, filters);
+
+        return {
+            success: true,
+            message: 'Gift voucher redemptions retrieved successfully',
+            data: result.data,
+            pagination: result.pagination,
+        };
+    }
+
+    /**
+     * Get gift voucher batches with voucher counts
+     */
+    async getBatches(page: number, limit: number) {
+        const result = await giftVoucherRepository.findBatches(page, limit);
+
+        return {
+            success: true,
+            message: 'Gift voucher batches retrieved successfully',
+            data: result.data,
+            pagination: result.pagination,
+        };
+    }
+
+    /**
+     * Get gift voucher by ID
+     */
+    async getVoucherById(id: string) {
+        const voucher = await giftVoucherRepository.findById(id);
+        if (!voucher) {
+            throw new NotFoundException('Gift voucher not found');
+        }
+        return voucher;
+    }
+
+    /**
+     * Void an unused gift voucher
+     */
+    async voidVoucher(id: string, voidedBy: string | null, reason?: string) {
+        const voucher = await this.getVoucherById(id);
+
+        if (voucher.status === GiftVoucherStatus.REDEEMED) {
+            throw new BadRequestException('Redeemed gift vouchers cannot be voided');
+        }
+        if (voucher.status === GiftVoucherStatus.VOIDED) {
+            throw new BadRequestException('Gift voucher is already voided');
+        }
+
+        const voided = await giftVoucherRepository.voidUnused(
+            { id },
+            { voidedBy, voidReason: reason ?? null }
+        );
+        if (voided === 0) {
+            throw new ConflictException('Gift voucher was redeemed in the meantime');
+        }
+
+        return await this.getVoucherById(id);
+    }
+
+    /**
+     * Void every unused voucher of a batch
+     * Redeemed vouchers are kept as they are
+     */
+    async voidBatch(batchId: string, voidedBy: string | null, reason?: string) {
+        const batch = await giftVoucherRepository.findBatchById(batchId);
+        if (!batch) {
+            throw new NotFoundException('Gift voucher batch not found');
+        }
+
+        const voidedCount = await giftVoucherRepository.voidUnused(
+            { batchId },
+            { voidedBy, voidReason: reason ?? null }
+        );
+
+        return { batch, voidedCount };
+    }
+
+    /**
+     * Find a voucher that a user can redeem now
+     */
+    async getRedeemableVoucher(code: string) {
+        const voucher = await giftVoucherRepository.findByCode(code);
+        if (!voucher) {
+            throw new NotFoundException('Gift voucher not found');
+        }
+
+        if (voucher.status === GiftVoucherStatus.REDEEMED) {
+            throw new BadRequestException('Gift voucher has already been redeemed');
+        }
+        if (voucher.status === GiftVoucherStatus.VOIDED) {
+            throw new BadRequestException('Gift voucher is no longer valid');
+        }
+        if (voucher.expiresAt && voucher.expiresAt <= new Date()) {
+            throw new BadRequestException('Gift voucher has expired');
+        }
+
+        return voucher;
+    }
+}
+
+export const giftVoucherService = new GiftVoucherService();
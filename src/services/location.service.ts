@@ -1,9 +1,124 @@
 import slugify from 'slugify';
 
-import { BadRequestException, NotFoundException } from '../exceptions/http.exception';
-import { LocationRepository, LocationWithRelations } from '../repositories/location.repository';
+import { logger } from '../config';
+import { BadRequestException, ConflictException, NotFoundException } from '../exceptions/http.exception';
+import {
+    layoutRowKey,
+    layoutSeatKey,
+    LayoutSectionPlan,
+    LayoutZonePlan,
+    LocationRepository,
+    LocationWithRelations,
+    SeatLayoutChangeSet,
+} from '../repositories/location.repository';
+import { locationGateRepository } from '../repositories/location-gate.repository';
+import {
+    BulkZonePricingInput,
+    CreateLocationGateInput,
+    GenerateLayoutInput,
+    LayoutTemplateConfig,
+    UpdateLocationGateInput,
+    UpdateLocationZoneInput,
+    UpdateSeatAttributesInput,
+} from '../schemas/location.schema';
 import { PaginatedResponse } from '../utils/pagination.util';
 
+/**
+ * Zones and sections/rows/seats built from a layout template config
+ */
+interface LayoutPlan {
+    zones: LayoutZonePlan[];
+    sections: LayoutSectionPlan[];
+}
+
+/**
+ * Build a seat label: ZONE_CODE-SECTION_CODE-ROW-SEAT (e.g., VIP-C-3-12)
+ */
+export const buildSeatLabel = (zoneCode: string, sectionCode: string, rowNumber: number, seatNumber: number): string =>
+    `${zoneCode}-${sectionCode}-${rowNumber}-${seatNumber}`;
+
+/**
+ * Totals of a generated seat layout, used for the dry-run preview
+ */
+export interface LayoutSummary {
+    locationId: string;
+    templateName: string;
+    zones: Array<{
+        zoneCode: string;
+        name: any;
+        color: string | null;
+        sections: number;
+        rows: number;
+        seats: number;
+    }>;
+    sections: Array<{
+        sectionCode: string;
+        name: any;
+        zoneCode: string;
+        rows: number;
+        seats: number;
+        rowNumbers: number[];
+    }>;
+    totals: {
+        zones: number;
+        sections: number;
+        rows: number;
+        seats: number;
+    };
+}
+
+/**
+ * Differences between the current seats of a location and a new layout
+ */
+export interface LayoutDiff {
+    added: string[];
+    restored: string[];
+    removed: Array<{
+        seatId: string;
+        seatLabel: string;
+        futureSchedules: number;
+        remapTo: string | null;
+        // Seats with remaining bookings are retired instead of deleted
+        action: 'delete' | 'retire';
+    }>;
+    relabelled: Array<{
+        seatId: string;
+        from: string;
+        to: string;
+        futureSchedules: number;
+    }>;
+    unchanged: number;
+}
+
+/**
+ * Price of a zone on a schedule
+ */
+interface ZonePriceValue {
+    originalPrice: number;
+    discountedPrice: number | null;
+}
+
+/**
+ * Zone price changes a bulk pricing operation makes on the target schedules
+ */
+export interface ZonePricingDiff {
+    eventId: string;
+    scheduleIds: string[];
+    changes: Array<{
+        scheduleId: string;
+        locationZoneId: string;
+        zoneCode: string;
+        before: ZonePriceValue | null;
+        after: ZonePriceValue;
+        change: 'created' | 'updated' | 'unchanged';
+    }>;
+    summary: {
+        created: number;
+        updated: number;
+        unchanged: number;
+    };
+}
+
 /**
  * Location Service
  * Handles business logic for location operations
@@ -315,6 +430,406 @@ export class LocationService {
         return template;
     }
 
+    /**
+     * Build the zones and sections/rows/seats to create from a template config
+     * Row order runs across the whole venue: sections by display order, then zones by priority, then rows
+     */
+    private buildLayoutPlan(config: LayoutTemplateConfig): LayoutPlan {
+        const zones: LayoutZonePlan[] = config.zones.map((zone, index) => ({
+            code: zone.code,
+            name: zone.name,
+            color: zone.color ?? null,
+            displayOrder: zone.displayOrder ?? index + 1,
+            priority: zone.priority,
+        }));
+        const zonePriority = new Map(zones.map((zone) => [zone.code, zone.priority]));
+
+        const orderedSections = config.sections
+            .map((section, index) => ({ ...section, displayOrder: section.displayOrder ?? index + 1 }))
+            .sort((a, b) => a.displayOrder - b.displayOrder);
+
+        const sections: LayoutSectionPlan[] = [];
+        let order = 1;
+
+        for (const section of orderedSections) {
+            const zoneBlocks = [...section.zones]
+                .sort((a, b) => (zonePriority.get(a.zone) ?? 0) - (zonePriority.get(b.zone) ?? 0));
+
+            for (const zoneBlock of zoneBlocks) {
+                const rows = [...zoneBlock.rows]
+                    .sort((a, b) => a.rowNumber - b.rowNumber)
+                    .map((row) => ({
+                        rowNumber: row.rowNumber,
+                        order: order++,
+                        seats: Array.from({ length: row.seats }, (_, index) => ({
+                            seatNumber: index + 1,
+                            seatLabel: buildSeatLabel(zoneBlock.zone, section.code, row.rowNumber, index + 1),
+                        })),
+                    }));
+
+                sections.push({
+                    code: section.code,
+                    name: section.name,
+                    displayOrder: section.displayOrder,
+                    zoneCode: zoneBlock.zone,
+                    rows,
+                });
+            }
+        }
+
+        return { zones, sections };
+    }
+
+    /**
+     * Summarize a layout plan per zone and per section
+     */
+    private summarizeLayoutPlan(
+        locationId: string,
+        templateName: string,
+        plan: LayoutPlan
+    ): LayoutSummary {
+        const sections = plan.sections.map((section) => ({
+            sectionCode: section.code,
+            name: section.name,
+            zoneCode: section.zoneCode,
+            rows: section.rows.length,
+            seats: section.rows.reduce((sum, row) => sum + row.seats.length, 0),
+            rowNumbers: section.rows.map((row) => row.rowNumber),
+        }));
+
+        const zones = plan.zones.map((zone) => {
+            const zoneSections = sections.filter((section) => section.zoneCode === zone.code);
+            return {
+                zoneCode: zone.code,
+                name: zone.name,
+                color: zone.color,
+                sections: zoneSections.length,
+                rows: zoneSections.reduce((sum, s) => sum + s.rows, 0),
+                seats: zoneSections.reduce((sum, s) => sum + s.seats, 0),
+            };
+        });
+
+        return {
+            locationId,
+            templateName,
+            zones,
+            sections,
+            totals: {
+                zones: zones.length,
+                sections: sections.length,
+                rows: sections.reduce((sum, s) => sum + s.rows, 0),
+                seats: sections.reduce((sum, s) => sum + s.seats, 0),
+            },
+        };
+    }
+
+    /**
+     * Compare the current seat tree of a location with a new layout plan
+     * Seats are matched by section code, row number and seat number, so a row moved
+     * to another zone keeps its seat IDs (and bookings) and only gets relabelled
+     */
+    private async planLayoutRevision(
+        locationId: string,
+        plan: LayoutPlan,
+        remapInput: GenerateLayoutInput['remap'] = []
+    ): Promise<{
+        diff: LayoutDiff;
+        blockedRemovals: string[];
+        changeSet: Omit<SeatLayoutChangeSet, 'template' | 'revision'>;
+    }> {
+        const currentRows = await this.locationRepository.getSeatTree(locationId);
+
+        // Index current rows and seats by key (first row wins if a key is duplicated)
+        const existingRowIds: Record<string, string> = {};
+        const currentSeatsByKey = new Map<string, { id: string; seatLabel: string; retiredAt: Date | null }>();
+        for (const row of currentRows) {
+            const rowKey = layoutRowKey(row.section.code, row.rowNumber);
+            if (existingRowIds[rowKey]) continue;
+
+            existingRowIds[rowKey] = row.id;
+            for (const seat of row.seats) {
+                currentSeatsByKey.set(layoutSeatKey(row.section.code, row.rowNumber, seat.seatNumber), seat);
+            }
+        }
+
+        const existingSeatIds: Record<string, string> = {};
+        const zoneNames = new Map(plan.zones.map((zone) => [zone.code, zone.name]));
+        const planSeatsByLabel = new Map<string, { key: string } & SeatLayoutChangeSet['remaps'][number]['to']>();
+        const diff: LayoutDiff = { added: [], restored: [], removed: [], relabelled: [], unchanged: 0 };
+
+        for (const section of plan.sections) {
+            for (const row of section.rows) {
+                for (const seat of row.seats) {
+                    const key = layoutSeatKey(section.code, row.rowNumber, seat.seatNumber);
+                    planSeatsByLabel.set(seat.seatLabel, {
+                        key,
+                        zoneCode: section.zoneCode,
+                        zoneName: zoneNames.get(section.zoneCode)!,
+                        sectionCode: section.code,
+                        sectionName: section.name,
+                        rowNumber: row.rowNumber,
+                        seatNumber: seat.seatNumber,
+                    });
+
+                    const current = currentSeatsByKey.get(key);
+                    if (!current) {
+                        diff.added.push(seat.seatLabel);
+                        continue;
+                    }
+
+                    existingSeatIds[key] = current.id;
+                    if (current.retiredAt) {
+                        diff.restored.push(seat.seatLabel);
+                    } else if (current.seatLabel !== seat.seatLabel) {
+                        diff.relabelled.push({ seatId: current.id, from: current.seatLabel, to: seat.seatLabel, futureSchedules: 0 });
+                    } else {
+                        diff.unchanged++;
+                    }
+                }
+            }
+        }
+
+        // Active seats not kept by the plan are removed (including duplicates of a row key)
+        const keptSeatIds = new Set(Object.values(existingSeatIds));
+        const removedSeats = currentRows
+            .flatMap((row) => row.seats)
+            .filter((seat) => !seat.retiredAt && !keptSeatIds.has(seat.id));
+
+        // Validate remaps: from a removed seat to a seat of the new layout
+        const remapTargets = new Map<string, { seatLabel: string; key: string } & SeatLayoutChangeSet['remaps'][number]['to']>();
+        const usedTargets = new Set<string>();
+        for (const remap of remapInput) {
+            if (!removedSeats.some((seat) => seat.seatLabel === remap.from)) {
+                throw new BadRequestException(`Remap source ${remap.from} is not a seat removed by this layout`);
+            }
+            const target = planSeatsByLabel.get(remap.to);
+            if (!target) {
+                throw new BadRequestException(`Remap target ${remap.to} does not exist in the new layout`);
+            }
+            if (usedTargets.has(remap.to)) {
+                throw new BadRequestException(`Seat ${remap.to} is used as remap target more than once`);
+            }
+            usedTargets.add(remap.to);
+            remapTargets.set(remap.from, { ...target, seatLabel: remap.to });
+        }
+
+        // Load bookings of removed, relabelled and remap target seats
+        const targetSeatIds = Array.from(remapTargets.values())
+            .map((target) => existingSeatIds[target.key])
+            .filter((id): id is string => Boolean(id));
+        const bookingSeats = await this.locationRepository.findBookingSeatsForSeats([
+            ...removedSeats.map((seat) => seat.id),
+            ...diff.relabelled.map((seat) => seat.seatId),
+            ...targetSeatIds,
+        ]);
+
+        const now = new Date();
+        const schedulesBySeat = new Map<string, { all: Set<string>; future: Set<string> }>();
+        for (const bookingSeat of bookingSeats) {
+            const schedules = schedulesBySeat.get(bookingSeat.seatId) ?? { all: new Set<string>(), future: new Set<string>() };
+            schedules.all.add(bookingSeat.scheduleId);
+            if (bookingSeat.schedule.endAt > now) {
+                schedules.future.add(bookingSeat.scheduleId);
+            }
+            schedulesBySeat.set(bookingSeat.seatId, schedules);
+        }
+
+        diff.relabelled.forEach((seat) => {
+            seat.futureSchedules = schedulesBySeat.get(seat.seatId)?.future.size ?? 0;
+        });
+
+        const blockedRemovals: string[] = [];
+        const remaps: SeatLayoutChangeSet['remaps'] = [];
+        const retireSeatIds: string[] = [];
+        const deleteSeatIds: string[] = [];
+
+        for (const seat of removedSeats) {
+            const schedules = schedulesBySeat.get(seat.id);
+            const futureScheduleIds = Array.from(schedules?.future ?? []);
+            const target = remapTargets.get(seat.seatLabel);
+
+            if (futureScheduleIds.length > 0 && !target) {
+                blockedRemovals.push(seat.seatLabel);
+            }
+
+            if (target && futureScheduleIds.length > 0) {
+                const targetSeatId = existingSeatIds[target.key];
+                const targetSchedules = targetSeatId ? schedulesBySeat.get(targetSeatId)?.all : undefined;
+                const clash = futureScheduleIds.find((scheduleId) => targetSchedules?.has(scheduleId));
+                if (clash) {
+                    throw new ConflictException(
+                        `Cannot remap ${seat.seatLabel} to ${target.seatLabel}: the target seat is already booked for schedule ${clash}`
+                    );
+                }
+
+                remaps.push({
+                    fromSeatId: seat.id,
+                    scheduleIds: futureScheduleIds,
+                    to: {
+                        zoneCode: target.zoneCode,
+                        zoneName: target.zoneName,
+                        sectionCode: target.sectionCode,
+                        sectionName: target.sectionName,
+                        rowNumber: target.rowNumber,
+                        seatNumber: target.seatNumber,
+                    },
+                });
+            }
+
+            // Past bookings (or unremapped ones) keep the seat alive as retired
+            const remainingBookings = (schedules?.all.size ?? 0) - (target ? futureScheduleIds.length : 0);
+            const action = remainingBookings > 0 ? 'retire' : 'delete';
+            (action === 'retire' ? retireSeatIds : deleteSeatIds).push(seat.id);
+
+            diff.removed.push({
+                seatId: seat.id,
+                seatLabel: seat.seatLabel,
+                futureSchedules: futureScheduleIds.length,
+                remapTo: target?.seatLabel ?? null,
+                action,
+            });
+        }
+
+        return {
+            diff,
+            blockedRemovals,
+            changeSet: {
+                zones: plan.zones,
+                sections: plan.sections,
+                existingRowIds,
+                existingSeatIds,
+                remaps,
+                retireSeatIds,
+                deleteSeatIds,
+            },
+        };
+    }
+
+    /**
+     * Preview the seat layout a template config would generate (dry run, nothing is written)
+     * For locations with a layout, also returns the diff against the current seats
+     */
+    async previewSeatLayout(
+        identifier: string,
+        data: GenerateLayoutInput
+    ): Promise<LayoutSummary & {
+        hasExistingLayout: boolean;
+        nextVersion: number;
+        diff: LayoutDiff;
+        blockedRemovals: string[];
+        canApply: boolean;
+    }> {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        const plan = this.buildLayoutPlan(data.config);
+        const hasExistingLayout = await this.locationRepository.hasSeatLayout(location.id);
+        const { diff, blockedRemovals } = await this.planLayoutRevision(location.id, plan, data.remap);
+        const latestVersion = await this.locationRepository.getLatestLayoutRevisionVersion(location.id);
+
+        return {
+            ...this.summarizeLayoutPlan(location.id, data.name ?? `${location.locationSlug} template`, plan),
+            hasExistingLayout,
+            nextVersion: latestVersion + 1,
+            diff,
+            blockedRemovals,
+            canApply: blockedRemovals.length === 0 && this.hasLayoutChanges(diff),
+        };
+    }
+
+    /**
+     * Generate or revise a location's zones, sections, rows and seats from a template config
+     * Each call is recorded as a new layout revision and saves the config as the location template
+     */
+    async generateSeatLayout(
+        identifier: string,
+        data: GenerateLayoutInput,
+        adminId?: string
+    ): Promise<LayoutSummary & { version: number; diff: LayoutDiff }> {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        const templateName = data.name ?? `${location.locationSlug} template`;
+        const plan = this.buildLayoutPlan(data.config);
+        const summary = this.summarizeLayoutPlan(location.id, templateName, plan);
+
+        const { diff, blockedRemovals, changeSet } = await this.planLayoutRevision(location.id, plan, data.remap);
+
+        if (blockedRemovals.length > 0) {
+            throw new ConflictException(
+                `These seats have upcoming bookings and cannot be removed without a remap: ${blockedRemovals.join(', ')}`
+            );
+        }
+
+        if (!this.hasLayoutChanges(diff)) {
+            throw new BadRequestException('The new layout is identical to the current one');
+        }
+
+        const version = (await this.locationRepository.getLatestLayoutRevisionVersion(location.id)) + 1;
+
+        await this.locationRepository.applySeatLayout(location.id, {
+            ...changeSet,
+            template: {
+                name: templateName,
+                config: data.config,
+            },
+            revision: {
+                version,
+                changes: {
+                    added: diff.added,
+                    restored: diff.restored,
+                    removed: diff.removed.map(({ seatLabel, action, remapTo }) => ({ seatLabel, action, remapTo })),
+                    relabelled: diff.relabelled.map(({ from, to }) => ({ from, to })),
+                    unchanged: diff.unchanged,
+                },
+                createdById: adminId ?? null,
+            },
+        });
+
+        logger.info(
+            `Applied seat layout revision ${version} for location ${location.id}: +${diff.added.length + diff.restored.length} / -${diff.removed.length} / ~${diff.relabelled.length} seats`
+        );
+
+        return { ...summary, version, diff };
+    }
+
+    /**
+     * Get layout revisions of a location, newest first
+     */
+    async getLayoutRevisions(identifier: string) {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        return await this.locationRepository.findLayoutRevisions(location.id);
+    }
+
+    /**
+     * Set attribute flags (accessible, companion, obstructed view, aisle, blocked) on seats of a location
+     * Blocked seats are excluded from availability; existing bookings on them are kept
+     */
+    async updateSeatAttributes(
+        identifier: string,
+        data: UpdateSeatAttributesInput
+    ): Promise<{ updatedCount: number }> {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        const seatIds = Array.from(new Set(data.seatIds));
+        const seatCount = await this.locationRepository.countLocationSeats(location.id, seatIds);
+        if (seatCount !== seatIds.length) {
+            throw new NotFoundException('One or more seats were not found in this location');
+        }
+
+        const updatedCount = await this.locationRepository.updateSeatAttributes(location.id, seatIds, data.attributes);
+
+        logger.info(`Updated attributes of ${updatedCount} seats in location ${location.id}: ${JSON.stringify(data.attributes)}`);
+
+        return { updatedCount };
+    }
+
+    /**
+     * Whether a layout diff changes anything
+     */
+    private hasLayoutChanges(diff: LayoutDiff): boolean {
+        return diff.added.length + diff.restored.length + diff.removed.length + diff.relabelled.length > 0;
+    }
+
     /**
      * Get location zones with details and optional pricing info
      */
@@ -330,17 +845,18 @@ export class LocationService {
         locationSlug: string;
         zones: Array<{
             id: string;
-            zoneId: string;
-            zone: {
-                id: string;
-                type: string;
-                priority: number;
-            };
+            code: string;
+            name: any;
+            color: string | null;
+            displayOrder: number;
+            priority: number;
             totalSections: number;
             totalSeats: number;
             sections: Array<{
                 id: string;
-                position: string;
+                code: string;
+                name: any;
+                displayOrder: number;
                 numberOfRows: number;
                 rows: Array<{
                     id: string;
@@ -386,7 +902,9 @@ export class LocationService {
 
                 return {
                     id: section.id,
-                    position: section.position,
+                    code: section.code,
+                    name: section.name,
+                    displayOrder: section.displayOrder,
                     numberOfRows: section.numberOfRows,
                     rows,
                 };
@@ -394,8 +912,11 @@ export class LocationService {
 
             return {
                 id: lz.id,
-                zoneId: lz.zoneId,
-                zone: lz.zone,
+                code: lz.code,
+                name: lz.name,
+                color: lz.color,
+                displayOrder: lz.displayOrder,
+                priority: lz.priority,
                 totalSections: lz._count.locationSections,
                 totalSeats,
                 sections,
@@ -411,6 +932,128 @@ export class LocationService {
         };
     }
 
+    /**
+     * Update a location zone's name, colour, display order or priority
+     */
+    async updateLocationZone(identifier: string, locationZoneId: string, data: UpdateLocationZoneInput) {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        const locationZone = await this.locationRepository.findLocationZoneById(locationZoneId);
+        if (!locationZone || locationZone.locationId !== location.id) {
+            throw new NotFoundException('Location zone not found in this location');
+        }
+
+        const updatedZone = await this.locationRepository.updateLocationZone(locationZoneId, data);
+
+        logger.info(`Location zone ${locationZone.code} updated in location ${location.id}`);
+
+        return updatedZone;
+    }
+
+    /**
+     * Flatten the zone links of a gate
+     */
+    private toGate<T extends { gateZones: Array<{ locationZone: unknown }> }>(gate: T) {
+        const { gateZones, ...rest } = gate;
+        return {
+            ...rest,
+            zones: gateZones.map((gateZone) => gateZone.locationZone),
+        };
+    }
+
+    /**
+     * Ensure zones belong to a location
+     */
+    private async assertLocationZones(locationId: string, locationZoneIds: string[]): Promise<void> {
+        const uniqueIds = [...new Set(locationZoneIds)];
+        const zones = await this.locationRepository.findLocationZonesByIds(uniqueIds);
+
+        if (zones.length !== uniqueIds.length || zones.some((zone) => zone.locationId !== locationId)) {
+            throw new BadRequestException('All zones must belong to this location');
+        }
+    }
+
+    /**
+     * Get the gates of a location with their zones
+     */
+    async getLocationGates(identifier: string) {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        const gates = await locationGateRepository.findByLocationId(location.id);
+
+        return gates.map((gate) => this.toGate(gate));
+    }
+
+    /**
+     * Create a gate in a location
+     */
+    async createLocationGate(identifier: string, data: CreateLocationGateInput) {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        if (await locationGateRepository.codeExists(location.id, data.code)) {
+            throw new ConflictException(`Gate code ${data.code} already exists in this location`);
+        }
+
+        await this.assertLocationZones(location.id, data.locationZoneIds);
+
+        const { locationZoneIds, ...gateData } = data;
+        const gate = await locationGateRepository.create(
+            { ...gateData, locationId: location.id },
+            [...new Set(locationZoneIds)]
+        );
+
+        logger.info(`Gate ${gate.code} created in location ${location.id}`);
+
+        return this.toGate(gate);
+    }
+
+    /**
+     * Update a gate of a location (its zones are replaced when locationZoneIds is given)
+     */
+    async updateLocationGate(identifier: string, locationGateId: string, data: UpdateLocationGateInput) {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        const gate = await locationGateRepository.findById(locationGateId);
+        if (!gate || gate.locationId !== location.id) {
+            throw new NotFoundException('Gate not found in this location');
+        }
+
+        if (data.code && (await locationGateRepository.codeExists(location.id, data.code, locationGateId))) {
+            throw new ConflictException(`Gate code ${data.code} already exists in this location`);
+        }
+
+        if (data.locationZoneIds) {
+            await this.assertLocationZones(location.id, data.locationZoneIds);
+        }
+
+        const { locationZoneIds, ...gateData } = data;
+        const updatedGate = await locationGateRepository.update(
+            locationGateId,
+            gateData,
+            locationZoneIds && [...new Set(locationZoneIds)]
+        );
+
+        logger.info(`Gate ${updatedGate.code} updated in location ${location.id}`);
+
+        return this.toGate(updatedGate);
+    }
+
+    /**
+     * Delete a gate of a location
+     */
+    async deleteLocationGate(identifier: string, locationGateId: string): Promise<void> {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        const gate = await locationGateRepository.findById(locationGateId);
+        if (!gate || gate.locationId !== location.id) {
+            throw new NotFoundException('Gate not found in this location');
+        }
+
+        await locationGateRepository.delete(locationGateId);
+
+        logger.info(`Gate ${gate.code} deleted from location ${location.id}`);
+    }
+
     /**
      * Set zone pricing for a location
      * Takes scheduleId which determines the event and location context
@@ -432,7 +1075,6 @@ export class LocationService {
         pricings: Array<{
             id: string;
             locationZoneId: string;
-            zoneId: string;
             originalPrice: number;
             discountedPrice: number | null;
             createdAt: Date;
@@ -480,9 +1122,6 @@ export class LocationService {
             );
         }
 
-        // Create a map for quick lookup of zoneId by locationZoneId
-        const locationZoneMap = new Map(locationZones.map((lz) => [lz.id, lz.zoneId]));
-
         // Validate pricing values
         for (const pricing of data.pricings) {
             if (pricing.originalPrice <= 0) {
@@ -503,7 +1142,6 @@ export class LocationService {
         // Prepare pricing data with all required fields
         const pricingData = data.pricings.map((pricing) => ({
             locationZoneId: pricing.locationZoneId,
-            zoneId: locationZoneMap.get(pricing.locationZoneId)!,
             eventId: schedule.eventId,
             scheduleId: data.scheduleId,
             originalPrice: pricing.originalPrice,
@@ -520,7 +1158,6 @@ export class LocationService {
             pricings: createdPricings.map((p) => ({
                 id: p.id,
                 locationZoneId: p.locationZoneId,
-                zoneId: p.zoneId,
                 originalPrice: p.originalPrice,
                 discountedPrice: p.discountedPrice,
                 createdAt: p.createdAt,
@@ -528,6 +1165,254 @@ export class LocationService {
             })),
         };
     }
+
+    /**
+     * Preview a bulk zone pricing change (dry run)
+     */
+    async previewBulkZonePricing(
+        identifier: string,
+        data: BulkZonePricingInput
+    ): Promise<ZonePricingDiff & { locationId: string; operation: BulkZonePricingInput['operation']; canApply: boolean }> {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        const diff = await this.planBulkZonePricing(location.id, data);
+
+        return {
+            locationId: location.id,
+            operation: data.operation,
+            ...diff,
+            canApply: diff.summary.created + diff.summary.updated > 0,
+        };
+    }
+
+    /**
+     * Apply a bulk zone pricing change
+     * All changed prices are written in one transaction
+     */
+    async applyBulkZonePricing(
+        identifier: string,
+        data: BulkZonePricingInput
+    ): Promise<ZonePricingDiff & { locationId: string; operation: BulkZonePricingInput['operation'] }> {
+        const location = await this.getLocationByIdOrSlug(identifier);
+
+        const diff = await this.planBulkZonePricing(location.id, data);
+
+        const changed = diff.changes.filter((change) => change.change !== 'unchanged');
+        if (changed.length === 0) {
+            throw new BadRequestException('The bulk pricing change does not change any price');
+        }
+
+        await this.locationRepository.setZonePricing(
+            changed.map((change) => ({
+                locationZoneId: change.locationZoneId,
+                eventId: diff.eventId,
+                scheduleId: change.scheduleId,
+                originalPrice: change.after.originalPrice,
+                discountedPrice: change.after.discountedPrice,
+            }))
+        );
+
+        logger.info(
+            `Bulk zone pricing (${data.operation}) applied to event ${diff.eventId} in location ${location.id}: ` +
+            `${diff.summary.created} created, ${diff.summary.updated} updated`
+        );
+
+        return {
+            locationId: location.id,
+            operation: data.operation,
+            ...diff,
+        };
+    }
+
+    /**
+     * Work out the zone prices a bulk pricing operation sets on the target schedules
+     * Sources and targets must be events of this location, since zones are location-specific
+     */
+    private async planBulkZonePricing(locationId: string, data: BulkZonePricingInput): Promise<ZonePricingDiff> {
+        const targetSchedules = await this.resolvePricingSchedules(locationId, data.target.eventId, data.target.scheduleIds);
+        const targetScheduleIds = targetSchedules.map((schedule) => schedule.id);
+
+        const zones = await this.locationRepository.findLocationZonesByLocationId(locationId);
+        const zoneCodes = new Map(zones.map((zone) => [zone.id, zone.code]));
+
+        const assertZonesInLocation = (locationZoneIds: string[]) => {
+            const missing = locationZoneIds.filter((id) => !zoneCodes.has(id));
+            if (missing.length > 0) {
+                throw new NotFoundException(`Location zones not found in this location: ${missing.join(', ')}`);
+            }
+        };
+
+        const priceKey = (scheduleId: string, locationZoneId: string) => `${scheduleId}:${locationZoneId}`;
+        const currentPrices = new Map<string, ZonePriceValue>();
+        for (const pricing of await this.locationRepository.findZonePricingsForSchedules(targetScheduleIds)) {
+            currentPrices.set(priceKey(pricing.scheduleId, pricing.locationZoneId), {
+                originalPrice: pricing.originalPrice,
+                discountedPrice: pricing.discountedPrice,
+            });
+        }
+
+        const planned: Array<{ scheduleId: string; locationZoneId: string; price: ZonePriceValue }> = [];
+
+        if (data.operation === 'set') {
+            assertZonesInLocation(data.pricings.map((pricing) => pricing.locationZoneId));
+            for (const scheduleId of targetScheduleIds) {
+                for (const pricing of data.pricings) {
+                    planned.push({
+                        scheduleId,
+                        locationZoneId: pricing.locationZoneId,
+                        price: {
+                            originalPrice: pricing.originalPrice,
+                            discountedPrice: pricing.discountedPrice ?? null,
+                        },
+                    });
+                }
+            }
+        } else if (data.operation === 'copy') {
+            // Target schedule ID -> source schedule ID
+            const sourceFor = new Map<string, string>();
+
+            if ('scheduleId' in data.source) {
+                const sourceSchedule = await this.locationRepository.findScheduleById(data.source.scheduleId);
+                if (!sourceSchedule) {
+                    throw new NotFoundException('Source schedule not found');
+                }
+                if (sourceSchedule.event.locationId !== locationId) {
+                    throw new BadRequestException('The source schedule does not belong to an event at this location');
+                }
+                targetScheduleIds.forEach((scheduleId) => sourceFor.set(scheduleId, sourceSchedule.id));
+            } else {
+                const sourceSchedules = await this.resolvePricingSchedules(locationId, data.source.eventId);
+                if (sourceSchedules.length !== targetSchedules.length) {
+                    throw new BadRequestException(
+                        `The source event has ${sourceSchedules.length} schedule(s) but ${targetSchedules.length} target schedule(s) were given; copy from a single schedule instead`
+                    );
+                }
+                targetScheduleIds.forEach((scheduleId, index) => sourceFor.set(scheduleId, sourceSchedules[index].id));
+            }
+
+            const sourcePricings = await this.locationRepository.findZonePricingsForSchedules(
+                Array.from(new Set(sourceFor.values()))
+            );
+            if (sourcePricings.length === 0) {
+                throw new BadRequestException('The source has no zone pricing to copy');
+            }
+
+            for (const scheduleId of targetScheduleIds) {
+                for (const pricing of sourcePricings.filter((p) => p.scheduleId === sourceFor.get(scheduleId))) {
+                    planned.push({
+                        scheduleId,
+                        locationZoneId: pricing.locationZoneId,
+                        price: this.adjustZonePrice(pricing, data.adjustmentPercent ?? 0),
+                    });
+                }
+            }
+        } else {
+            if (data.locationZoneIds) {
+                assertZonesInLocation(data.locationZoneIds);
+            }
+            const locationZoneIds = new Set(data.locationZoneIds ?? zones.map((zone) => zone.id));
+
+            for (const scheduleId of targetScheduleIds) {
+                for (const locationZoneId of locationZoneIds) {
+                    const current = currentPrices.get(priceKey(scheduleId, locationZoneId));
+                    if (current) {
+                        planned.push({
+                            scheduleId,
+                            locationZoneId,
+                            price: this.adjustZonePrice(current, data.adjustmentPercent),
+                        });
+                    }
+                }
+            }
+
+            if (planned.length === 0) {
+                throw new BadRequestException('The selected schedules have no zone pricing to adjust');
+            }
+        }
+
+        const changes: ZonePricingDiff['changes'] = planned.map(({ scheduleId, locationZoneId, price }) => {
+            const zoneCode = zoneCodes.get(locationZoneId) ?? locationZoneId;
+            if (price.originalPrice <= 0) {
+                throw new BadRequestException(`Original price of zone ${zoneCode} must be a positive number`);
+            }
+            if (price.discountedPrice !== null) {
+                if (price.discountedPrice <= 0) {
+                    throw new BadRequestException(`Discounted price of zone ${zoneCode} must be a positive number`);
+                }
+                if (price.discountedPrice >= price.originalPrice) {
+                    throw new BadRequestException(
+                        `Discounted price of zone ${zoneCode} must be less than original price`
+                    );
+                }
+            }
+
+            const before = currentPrices.get(priceKey(scheduleId, locationZoneId)) ?? null;
+            let change: 'created' | 'updated' | 'unchanged' = 'created';
+            if (before) {
+                change = before.originalPrice === price.originalPrice && before.discountedPrice === price.discountedPrice
+                    ? 'unchanged'
+                    : 'updated';
+            }
+
+            return { scheduleId, locationZoneId, zoneCode, before, after: price, change };
+        });
+
+        return {
+            eventId: data.target.eventId,
+            scheduleIds: targetScheduleIds,
+            changes,
+            summary: {
+                created: changes.filter((c) => c.change === 'created').length,
+                updated: changes.filter((c) => c.change === 'updated').length,
+                unchanged: changes.filter((c) => c.change === 'unchanged').length,
+            },
+        };
+    }
+
+    /**
+     * Get schedules of an event at this location in start order
+     * Restricted to the given schedule IDs when provided
+     */
+    private async resolvePricingSchedules(
+        locationId: string,
+        eventId: string,
+        scheduleIds?: string[]
+    ): Promise<Array<{ id: string; startAt: Date }>> {
+        const event = await this.locationRepository.findEventWithSchedules(eventId);
+        if (!event) {
+            throw new NotFoundException('Event not found');
+        }
+        if (event.locationId !== locationId) {
+            throw new BadRequestException('The event does not belong to this location');
+        }
+
+        if (!scheduleIds) {
+            if (event.schedules.length === 0) {
+                throw new BadRequestException('The event has no schedules');
+            }
+            return event.schedules;
+        }
+
+        const eventScheduleIds = new Set(event.schedules.map((schedule) => schedule.id));
+        const foreign = scheduleIds.filter((id) => !eventScheduleIds.has(id));
+        if (foreign.length > 0) {
+            throw new BadRequestException(`Schedules do not belong to the event: ${foreign.join(', ')}`);
+        }
+
+        const requested = new Set(scheduleIds);
+        return event.schedules.filter((schedule) => requested.has(schedule.id));
+    }
+
+    /**
+     * Apply a percentage change to a zone price, rounded to 2 decimals
+     */
+    private adjustZonePrice(price: ZonePriceValue, percent: number): ZonePriceValue {
+        const adjust = (value: number) => Math.round(value * (1 + percent / 100) * 100) / 100;
+        return {
+            originalPrice: adjust(price.originalPrice),
+            discountedPrice: price.discountedPrice === null ? null : adjust(price.discountedPrice),
+        };
+    }
 }
 
 export const locationService = new LocationService();
@@ -0,0 +1,43 @@
+import { NotFoundException } from '../exceptions/http.exception';
+import { notificationRepository } from '../repositories/notification.repository';
+
+export class NotificationService {
+    /**
+     * Get in-app notifications of a user with pagination
+     */
+    async getUserNotifications(userId: string, page: number, limit: number, unreadOnly = false) {
+        const [result, unreadCount] = await Promise.all([
+            notificationRepository.findByUserId(userId, page, limit, unreadOnly),
+            notificationRepository.countUnread(userId),
+        ]);
+
+        return {
+            success: true,
+            message: 'Notifications retrieved successfully',
+            data: {
+                notifications: result.data,
+                unreadCount,
+            },
+            pagination: result.pagination,
+        };
+    }
+
+    /**
+     * Mark a notification of a user as read
+     */
+    async markAsRead(userId: string, id: string) {
+        const updated = await notificationRepository.markAsRead(id, userId);
+        if (!updated) {
+            throw new NotFoundException('Notification not found');
+        }
+    }
+
+    /**
+     * Mark all notifications of a user as read
+     */
+    async markAllAsRead(userId: string) {
+        return await notificationRepository.markAllAsRead(userId);
+    }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,383 @@
+import { PricingRule, PricingRuleType } from '@prisma/client';
+
+import { config } from '../config';
+import { BadRequestException, NotFoundException } from '../exceptions/http.exception';
+import eventRepository from '../repositories/event.repository';
+import { LocationRepository } from '../repositories/location.repository';
+import { AppliedPricingRule, pricingRuleRepository } from '../repositories/pricing-rule.repository';
+import { ZonePrice } from '../repositories/seat-selection.repository';
+import { CreatePricingRuleInput, UpdatePricingRuleInput } from '../schemas/pricing-rule.schema';
+
+const locationRepository = new LocationRepository();
+
+/**
+ * Price after pricing rules
+ */
+export interface PricedAmount {
+    basePrice: number;
+    price: number;
+    pricingRule: AppliedPricingRule | null;
+}
+
+/**
+ * Schedule a price is evaluated for
+ */
+interface PricingSchedule {
+    id: string;
+    eventId: string;
+    startAt: Date;
+}
+
+/**
+ * Schedule a general-admission ticket is priced for, with its ticket inventory
+ */
+export interface TicketSchedule {
+    startAt: Date;
+    capacity: number | null;
+    soldQuantity: number;
+}
+
+export class PricingRuleService {
+    /**
+     * Check the fields each rule type needs
+     */
+    private assertRuleFields(rule: {
+        type: PricingRuleType;
+        startsAt: Date | null;
+        endsAt: Date | null;
+        hoursBeforeStart: number | null;
+        occupancyThreshold: number | null;
+        daysOfWeek: number[];
+    }) {
+        if (rule.startsAt && rule.endsAt && rule.startsAt >= rule.endsAt) {
+            throw new BadRequestException('startsAt must be before endsAt');
+        }
+
+        switch (rule.type) {
+            case PricingRuleType.EARLY_BIRD:
+                if (!rule.endsAt) {
+                    throw new BadRequestException('Early-bird rules require endsAt');
+                }
+                break;
+            case PricingRuleType.LAST_MINUTE:
+                if (!rule.hoursBeforeStart) {
+                    throw new BadRequestException('Last-minute rules require hoursBeforeStart');
+                }
+                break;
+            case PricingRuleType.OCCUPANCY:
+                if (!rule.occupancyThreshold) {
+                    throw new BadRequestException('Occupancy rules require occupancyThreshold');
+                }
+                break;
+            case PricingRuleType.DAY_OF_WEEK:
+                if (rule.daysOfWeek.length === 0) {
+                    throw new BadRequestException('Day-of-week rules require daysOfWeek');
+                }
+                break;
+        }
+    }
+
+    /**
+     * Validate that a zone rule targets a zone of the event's location
+     */
+    private async assertZoneOfEvent(
+        event: { locationId: string; haveSeats: boolean },
+        locationZoneId: string | null | undefined
+    ) {
+        if (!locationZoneId) {
+            return;
+        }
+
+        if (!event.haveSeats) {
+            throw new BadRequestException('Zone rules are only available for seated events');
+        }
+
+        const locationZone = await locationRepository.findLocationZoneById(locationZoneId);
+        if (!locationZone || locationZone.locationId !== event.locationId) {
+            throw new NotFoundException('Location zone not found in the event location');
+        }
+    }
+
+    /**
+     * Create a pricing rule for an event
+     */
+    async createRule(data: CreatePricingRuleInput) {
+        const event = await eventRepository.findById(data.eventId);
+        if (!event) {
+            throw new NotFoundException('Event not found');
+        }
+
+        await this.assertZoneOfEvent(event, data.locationZoneId);
+
+        const rule = {
+            type: data.type,
+            startsAt: data.startsAt ? new Date(data.startsAt) : null,
+            endsAt: data.endsAt ? new Date(data.endsAt) : null,
+            hoursBeforeStart: data.hoursBeforeStart ?? null,
+            occupancyThreshold: data.occupancyThreshold ?? null,
+            daysOfWeek: Array.from(new Set(data.daysOfWeek ?? [])).sort((a, b) => a - b),
+        };
+        this.assertRuleFields(rule);
+
+        return await pricingRuleRepository.create({
+            ...rule,
+            eventId: data.eventId,
+            locationZoneId: data.locationZoneId ?? null,
+            name: data.name,
+            adjustmentPercent: data.adjustmentPercent,
+            priority: data.priority ?? 0,
+            active: data.active ?? true,
+        });
+    }
+
+    /**
+     * Get pricing rules of an event
+     */
+    async getEventRules(eventId: string) {
+        const event = await eventRepository.findById(eventId);
+        if (!event) {
+            throw new NotFoundException('Event not found');
+        }
+
+        return await pricingRuleRepository.findByEventId(eventId);
+    }
+
+    /**
+     * Get pricing rule by ID
+     */
+    async getRuleById(id: string) {
+        const rule = await pricingRuleRepository.findById(id);
+        if (!rule) {
+            throw new NotFoundException('Pricing rule not found');
+        }
+        return rule;
+    }
+
+    /**
+     * Update a pricing rule
+     * Bookings already made keep the price they were charged
+     */
+    async updateRule(id: string, data: UpdatePricingRuleInput) {
+        const existing = await this.getRuleById(id);
+
+        if (data.locationZoneId !== undefined) {
+            const event = await eventRepository.findById(existing.eventId);
+            if (!event) {
+                throw new NotFoundException('Event not found');
+            }
+            await this.assertZoneOfEvent(event, data.locationZoneId);
+        }
+
+        const toDate = (value: string | null | undefined, current: Date | null) =>
+            value === undefined ? current : value === null ? null : new Date(value);
+
+        const rule = {
+            type: existing.type,
+            startsAt: toDate(data.startsAt, existing.startsAt),
+            endsAt: toDate(data.endsAt, existing.endsAt),
+            hoursBeforeStart: data.hoursBeforeStart !== undefined ? data.hoursBeforeStart : existing.hoursBeforeStart,
+            occupancyThreshold: data.occupancyThreshold !== undefined ? data.occupancyThreshold : existing.occupancyThreshold,
+            daysOfWeek: data.daysOfWeek ? Array.from(new Set(data.daysOfWeek)).sort((a, b) => a - b) : existing.daysOfWeek,
+        };
+        this.assertRuleFields(rule);
+
+        return await pricingRuleRepository.update(id, {
+            startsAt: rule.startsAt,
+            endsAt: rule.endsAt,
+            hoursBeforeStart: rule.hoursBeforeStart,
+            occupancyThreshold: rule.occupancyThreshold,
+            daysOfWeek: rule.daysOfWeek,
+            locationZoneId: data.locationZoneId,
+            name: data.name,
+            adjustmentPercent: data.adjustmentPercent,
+            priority: data.priority,
+            active: data.active,
+        });
+    }
+
+    /**
+     * Delete a pricing rule
+     * Rules that priced bookings are kept for the audit trail; deactivate them instead
+     */
+    async deleteRule(id: string) {
+        await this.getRuleById(id);
+
+        const bookingCount = await pricingRuleRepository.countBookings(id);
+        if (bookingCount > 0) {
+            throw new BadRequestException(
+                `This rule priced ${bookingCount} booking(s) and cannot be deleted. Deactivate it instead.`
+            );
+        }
+
+        await pricingRuleRepository.delete(id);
+    }
+
+    /**
+     * Weekday of a date at the venue (0 = Sunday)
+     */
+    private getLocalWeekday(date: Date): number {
+        return new Date(date.getTime() + config.PRICING_UTC_OFFSET_MINUTES * 60 * 1000).getUTCDay();
+    }
+
+    /**
+     * Whether a rule applies to a purchase made now for a schedule starting at scheduleStartAt
+     */
+    private ruleMatches(
+        rule: PricingRule,
+        context: { now: Date; scheduleStartAt: Date; occupancy: number | null }
+    ): boolean {
+        if (rule.startsAt && context.now < rule.startsAt) {
+            return false;
+        }
+        if (rule.endsAt && context.now >= rule.endsAt) {
+            return false;
+        }
+
+        switch (rule.type) {
+            case PricingRuleType.EARLY_BIRD:
+                // The booking window above is the early-bird period
+                return true;
+            case PricingRuleType.LAST_MINUTE: {
+                const msBeforeStart = context.scheduleStartAt.getTime() - context.now.getTime();
+                return rule.hoursBeforeStart !== null
+                    && msBeforeStart >= 0
+                    && msBeforeStart <= rule.hoursBeforeStart * 60 * 60 * 1000;
+            }
+            case PricingRuleType.OCCUPANCY:
+                return rule.occupancyThreshold !== null
+                    && context.occupancy !== null
+                    && context.occupancy >= rule.occupancyThreshold;
+            case PricingRuleType.DAY_OF_WEEK:
+                return rule.daysOfWeek.includes(this.getLocalWeekday(context.scheduleStartAt));
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Apply the first matching rule (rules are ordered by priority) to a base price
+     */
+    private applyRules(
+        basePrice: number,
+        rules: PricingRule[],
+        context: { now: Date; scheduleStartAt: Date; occupancy: number | null }
+    ): PricedAmount {
+        const rule = rules.find((r) => this.ruleMatches(r, context));
+        if (!rule) {
+            return { basePrice, price: basePrice, pricingRule: null };
+        }
+
+        return {
+            basePrice,
+            price: Math.round(basePrice * (1 + rule.adjustmentPercent / 100) * 100) / 100,
+            pricingRule: {
+                id: rule.id,
+                name: rule.name,
+                type: rule.type,
+                adjustmentPercent: rule.adjustmentPercent,
+            },
+        };
+    }
+
+    /**
+     * Price a ticket of a non-seated event
+     * Only rules without a zone apply; occupancy is the share of the schedule's capacity sold
+     */
+    async priceEventTicket(
+        event: { id: string; startAt: Date; originalPrice: number | null; discountedPrice: number | null },
+        schedule: TicketSchedule | null = null
+    ): Promise<PricedAmount> {
+        const [amount] = await this.priceTickets(
+            event,
+            [event.discountedPrice || event.originalPrice || 0],
+            schedule
+        );
+        return amount;
+    }
+
+    /**
+     * Price several tickets of a non-seated event (one result per base price, in order)
+     * Only rules without a zone apply; occupancy is the share of the schedule's capacity sold
+     * (no OCCUPANCY rule applies without a schedule capacity)
+     */
+    async priceTickets(
+        event: { id: string; startAt: Date },
+        basePrices: number[],
+        schedule: TicketSchedule | null = null
+    ): Promise<PricedAmount[]> {
+        const rules = (await pricingRuleRepository.findByEventId(event.id, true))
+            .filter((rule) => rule.locationZoneId === null);
+
+        const scheduleStartAt = schedule?.startAt ?? event.startAt;
+        const occupancy = schedule?.capacity ? (schedule.soldQuantity / schedule.capacity) * 100 : null;
+
+        const now = new Date();
+
+        return basePrices.map((basePrice) =>
+            this.applyRules(basePrice, rules, { now, scheduleStartAt, occupancy })
+        );
+    }
+
+    /**
+     * Price zone prices of a schedule (one result per input, in order)
+     * Occupancy is the share of the zone's seats reserved for the schedule
+     */
+    async priceZones(
+        schedule: PricingSchedule,
+        zonePrices: Array<{ locationZoneId: string; originalPrice: number; discountedPrice: number | null }>
+    ): Promise<PricedAmount[]> {
+        const rules = await pricingRuleRepository.findByEventId(schedule.eventId, true);
+
+        const occupancy = rules.some((rule) => rule.type === PricingRuleType.OCCUPANCY)
+            ? await pricingRuleRepository.getZoneOccupancy(
+                schedule.id,
+                Array.from(new Set(zonePrices.map((zp) => zp.locationZoneId)))
+            )
+            : new Map<string, number>();
+
+        const now = new Date();
+
+        return zonePrices.map((zonePrice) =>
+            this.applyRules(
+                zonePrice.discountedPrice ?? zonePrice.originalPrice,
+                rules.filter((rule) => rule.locationZoneId === null || rule.locationZoneId === zonePrice.locationZoneId),
+                { now, scheduleStartAt: schedule.startAt, occupancy: occupancy.get(zonePrice.locationZoneId) ?? null }
+            )
+        );
+    }
+
+    /**
+     * Add the rule price (price, pricingRule) to the zone pricing of seat-map items
+     */
+    async applyToZonePricings<T extends { pricing: ZonePrice | null }>(
+        schedule: PricingSchedule,
+        items: T[],
+        getLocationZoneId: (item: T) => string
+    ): Promise<T[]> {
+        const priced = items.filter((item) => item.pricing !== null);
+        if (priced.length === 0) {
+            return items;
+        }
+
+        const amounts = await this.priceZones(
+            schedule,
+            priced.map((item) => ({
+                locationZoneId: getLocationZoneId(item),
+                originalPrice: item.pricing!.originalPrice,
+                discountedPrice: item.pricing!.discountedPrice,
+            }))
+        );
+
+        priced.forEach((item, index) => {
+            item.pricing = {
+                ...item.pricing!,
+                price: amounts[index].price,
+                pricingRule: amounts[index].pricingRule,
+            };
+        });
+
+        return items;
+    }
+}
+
+export const pricingRuleService = new PricingRuleService();
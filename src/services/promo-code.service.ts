@@ -0,0 +1,380 @@
+import { PromoCode, PromoDiscountType } from '@prisma/client';
+
+import {
+    BadRequestException,
+    ConflictException,
+    NotFoundException,
+} from '../exceptions/http.exception';
+import eventRepository from '../repositories/event.repository';
+import { promoCodeRepository } from '../repositories/promo-code.repository';
+import {
+    CreatePromoCodeInput,
+    UpdatePromoCodeInput,
+    ValidatePromoCodeInput,
+} from '../schemas/promo-code.schema';
+import { scheduleService } from './schedule.service';
+import { ticketTypeService } from './ticket-type.service';
+
+/**
+ * Part of an order a promo code is evaluated against (a cart item, a seat or a whole direct order)
+ */
+export interface PromoLine {
+    key: string;
+    eventId: string;
+    locationZoneId: string | null;
+    amount: number;
+}
+
+/**
+ * Discount a promo code gives an order
+ * lineDiscounts holds the share of each eligible line (by key)
+ */
+export interface PromoEvaluation {
+    promoCode: PromoCode;
+    subtotal: number;
+    discountAmount: number;
+    lineDiscounts: Map<string, number>;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export class PromoCodeService {
+    /**
+     * Check the validity window, percentage value and scope targets of a promo code
+     */
+    private async assertPromoCodeFields(promoCode: {
+        discountType: PromoDiscountType;
+        discountValue: number;
+        startsAt: Date | null;
+        endsAt: Date | null;
+        eventIds: string[];
+        categoryIds: string[];
+        locationZoneIds: string[];
+    }) {
+        if (promoCode.startsAt && promoCode.endsAt && promoCode.startsAt >= promoCode.endsAt) {
+            throw new BadRequestException('startsAt must be before endsAt');
+        }
+
+        if (promoCode.discountType === PromoDiscountType.PERCENTAGE && promoCode.discountValue > 100) {
+            throw new BadRequestException('Percentage discounts cannot exceed 100');
+        }
+
+        const found = await promoCodeRepository.countScopeTargets(promoCode);
+        if (found.events !== promoCode.eventIds.length) {
+            throw new NotFoundException('One or more events not found');
+        }
+        if (found.categories !== promoCode.categoryIds.length) {
+            throw new NotFoundException('One or more categories not found');
+        }
+        if (found.locationZones !== promoCode.locationZoneIds.length) {
+            throw new NotFoundException('One or more location zones not found');
+        }
+    }
+
+    /**
+     * Create a promo code
+     */
+    async createPromoCode(data: CreatePromoCodeInput) {
+        const existing = await promoCodeRepository.findByCode(data.code);
+        if (existing) {
+            throw new ConflictException(`Promo code ${data.code} already exists`);
+        }
+
+        const promoCode = {
+            discountType: data.discountType,
+            discountValue: data.discountValue,
+            startsAt: data.startsAt ? new Date(data.startsAt) : null,
+            endsAt: data.endsAt ? new Date(data.endsAt) : null,
+            eventIds: Array.from(new Set(data.eventIds ?? [])),
+            categoryIds: Array.from(new Set(data.categoryIds ?? [])),
+            locationZoneIds: Array.from(new Set(data.locationZoneIds ?? [])),
+        };
+        await this.assertPromoCodeFields(promoCode);
+
+        return await promoCodeRepository.create({
+            ...promoCode,
+            code: data.code,
+            description: data.description ?? null,
+            maxDiscountAmount: data.maxDiscountAmount ?? null,
+            minOrderAmount: data.minOrderAmount ?? null,
+            maxRedemptions: data.maxRedemptions ?? null,
+            maxRedemptionsPerUser: data.maxRedemptionsPerUser ?? null,
+            active: data.active ?? true,
+        });
+    }
+
+    /**
+     * Get promo codes with filters and pagination
+     */
+    async getAllPromoCodes(
+        page: number,
+        limit: number,
+        filters?: { active?: boolean; eventId?: string; search?: string }
+    ) {
+        const result = await promoCodeRepository.findAll(page, limit, filters);
+
+        return {
+            success: true,
+            message: 'Promo codes retrieved successfully',
+            data: result.data,
+            pagination: result.pagination,
+        };
+    }
+
+    /**
+     * Get promo code by ID
+     */
+    async getPromoCodeById(id: string) {
+        const promoCode = await promoCodeRepository.findById(id);
+        if (!promoCode) {
+            throw new NotFoundException('Promo code not found');
+        }
+        return promoCode;
+    }
+
+    /**
+     * Get redemptions of a promo code
+     */
+    async getRedemptions(id: string, page: number, limit: number) {
+        await this.getPromoCodeById(id);
+
+        const result = await promoCodeRepository.findRedemptions(id, page, limit);
+
+        return {
+            success: true,
+            message: 'Promo code redemptions retrieved successfully',
+            data: result.data,
+            pagination: result.pagination,
+        };
+    }
+
+    /**
+     * Update a promo code
+     * Bookings already made keep the discount they received
+     */
+    async updatePromoCode(id: string, data: UpdatePromoCodeInput) {
+        const existing = await this.getPromoCodeById(id);
+
+        const toDate = (value: string | null | undefined, current: Date | null) =>
+            value === undefined ? current : value === null ? null : new Date(value);
+
+        const promoCode = {
+            discountType: existing.discountType,
+            discountValue: data.discountValue ?? existing.discountValue,
+            startsAt: toDate(data.startsAt, existing.startsAt),
+            endsAt: toDate(data.endsAt, existing.endsAt),
+            eventIds: data.eventIds ? Array.from(new Set(data.eventIds)) : existing.eventIds,
+            categoryIds: data.categoryIds ? Array.from(new Set(data.categoryIds)) : existing.categoryIds,
+            locationZoneIds: data.locationZoneIds ? Array.from(new Set(data.locationZoneIds)) : existing.locationZoneIds,
+        };
+        await this.assertPromoCodeFields(promoCode);
+
+        return await promoCodeRepository.update(id, {
+            discountValue: promoCode.discountValue,
+            startsAt: promoCode.startsAt,
+            endsAt: promoCode.endsAt,
+            eventIds: promoCode.eventIds,
+            categoryIds: promoCode.categoryIds,
+            locationZoneIds: promoCode.locationZoneIds,
+            description: data.description,
+            maxDiscountAmount: data.maxDiscountAmount,
+            minOrderAmount: data.minOrderAmount,
+            maxRedemptions: data.maxRedemptions,
+            maxRedemptionsPerUser: data.maxRedemptionsPerUser,
+            active: data.active,
+        });
+    }
+
+    /**
+     * Delete a promo code
+     * Codes that were redeemed are kept for the audit trail; deactivate them instead
+     */
+    async deletePromoCode(id: string) {
+        await this.getPromoCodeById(id);
+
+        const redemptionCount = await promoCodeRepository.countRedemptions(id);
+        if (redemptionCount > 0) {
+            throw new BadRequestException(
+                `This promo code was redeemed ${redemptionCount} time(s) and cannot be deleted. Deactivate it instead.`
+            );
+        }
+
+        await promoCodeRepository.delete(id);
+    }
+
+    /**
+     * Whether a line is in the scope of a promo code
+     */
+    private async lineInScope(
+        promoCode: PromoCode,
+        line: PromoLine,
+        getCategoryIds: (eventId: string) => Promise<string[]>
+    ): Promise<boolean> {
+        if (promoCode.eventIds.length > 0 && !promoCode.eventIds.includes(line.eventId)) {
+            return false;
+        }
+
+        if (promoCode.locationZoneIds.length > 0
+            && (!line.locationZoneId || !promoCode.locationZoneIds.includes(line.locationZoneId))) {
+            return false;
+        }
+
+        if (promoCode.categoryIds.length > 0) {
+            const categoryIds = await getCategoryIds(line.eventId);
+            if (!categoryIds.some((categoryId) => promoCode.categoryIds.includes(categoryId))) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Validate a promo code for a user's order and work out its discount
+     * @throws NotFoundException, BadRequestException or ConflictException when the code cannot be used
+     */
+    async evaluate(code: string, userId: string, lines: PromoLine[], tx?: any): Promise<PromoEvaluation> {
+        const promoCode = await promoCodeRepository.findByCode(code);
+        if (!promoCode || !promoCode.active) {
+            throw new NotFoundException('Promo code not found');
+        }
+
+        const now = new Date();
+        if (promoCode.startsAt && now < promoCode.startsAt) {
+            throw new BadRequestException('This promo code is not active yet');
+        }
+        if (promoCode.endsAt && now >= promoCode.endsAt) {
+            throw new BadRequestException('This promo code has expired');
+        }
+
+        if (promoCode.maxRedemptions !== null && promoCode.redemptionCount >= promoCode.maxRedemptions) {
+            throw new ConflictException('This promo code has reached its redemption limit');
+        }
+
+        if (promoCode.maxRedemptionsPerUser !== null) {
+            const userRedemptions = await promoCodeRepository.countUserRedemptions(promoCode.id, userId, tx);
+            if (userRedemptions >= promoCode.maxRedemptionsPerUser) {
+                throw new BadRequestException(
+                    `This promo code can only be used ${promoCode.maxRedemptionsPerUser} time(s) per user`
+                );
+            }
+        }
+
+        const subtotal = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+        if (promoCode.minOrderAmount !== null && subtotal < promoCode.minOrderAmount) {
+            throw new BadRequestException(
+                `This promo code requires a minimum order of ${promoCode.minOrderAmount}`
+            );
+        }
+
+        // Event categories are looked up once per event, and only for category-scoped codes
+        const categoryCache = new Map<string, string[]>();
+        const getCategoryIds = async (eventId: string) => {
+            if (!categoryCache.has(eventId)) {
+                const eventCategories = await eventRepository.getEventCategories(eventId);
+                categoryCache.set(eventId, eventCategories.map((ec: { categoryId: string }) => ec.categoryId));
+            }
+            return categoryCache.get(eventId)!;
+        };
+
+        const eligible: PromoLine[] = [];
+        for (const line of lines) {
+            if (line.amount > 0 && await this.lineInScope(promoCode, line, getCategoryIds)) {
+                eligible.push(line);
+            }
+        }
+
+        const eligibleAmount = eligible.reduce((sum, line) => sum + line.amount, 0);
+        if (eligibleAmount === 0) {
+            throw new BadRequestException('This promo code does not apply to your order');
+        }
+
+        let discountAmount = promoCode.discountType === PromoDiscountType.PERCENTAGE
+            ? (eligibleAmount * promoCode.discountValue) / 100
+            : promoCode.discountValue;
+        if (promoCode.maxDiscountAmount !== null) {
+            discountAmount = Math.min(discountAmount, promoCode.maxDiscountAmount);
+        }
+        discountAmount = roundAmount(Math.min(discountAmount, eligibleAmount));
+
+        // Share the discount across eligible lines by amount; the last line takes the rounding remainder
+        const lineDiscounts = new Map<string, number>();
+        let remaining = discountAmount;
+        eligible.forEach((line, index) => {
+            const share = index === eligible.length - 1
+                ? remaining
+                : roundAmount((discountAmount * line.amount) / eligibleAmount);
+            lineDiscounts.set(line.key, share);
+            remaining = roundAmount(remaining - share);
+        });
+
+        return { promoCode, subtotal, discountAmount, lineDiscounts };
+    }
+
+    /**
+     * Record the redemption of an evaluated promo code
+     * @throws ConflictException when the last redemption was taken in the meantime
+     * @throws BadRequestException when a concurrent checkout used up the user's redemptions
+     */
+    async redeem(evaluation: PromoEvaluation, userId: string, tx?: any) {
+        const { promoCode } = evaluation;
+        const redemption = await promoCodeRepository.redeem(
+            {
+                promoCodeId: promoCode.id,
+                userId,
+                discountAmount: evaluation.discountAmount,
+            },
+            promoCode.maxRedemptionsPerUser,
+            tx
+        );
+
+        if (!redemption) {
+            if (promoCode.maxRedemptionsPerUser !== null
+                && await promoCodeRepository.countUserRedemptions(promoCode.id, userId, tx)
+                    >= promoCode.maxRedemptionsPerUser) {
+                throw new BadRequestException(
+                    `This promo code can only be used ${promoCode.maxRedemptionsPerUser} time(s) per user`
+                );
+            }
+            throw new ConflictException('This promo code has reached its redemption limit');
+        }
+
+        return redemption;
+    }
+
+    /**
+     * Check a promo code against a direct checkout before paying
+     */
+    async validateForDirectCheckout(userId: string, data: ValidatePromoCodeInput) {
+        const event = await eventRepository.findById(data.eventId);
+        if (!event || !event.active || event.endAt < new Date()) {
+            throw new NotFoundException('Event not found');
+        }
+
+        const schedule = event.haveSeats && !data.scheduleId
+            ? null
+            : await scheduleService.resolveBookableSchedule(data.eventId, data.scheduleId);
+
+        const order = await ticketTypeService.priceOrder(
+            event,
+            { quantity: data.quantity, tickets: data.tickets },
+            schedule
+        );
+
+        const evaluation = await this.evaluate(data.code, userId, [
+            { key: 'order', eventId: event.id, locationZoneId: null, amount: order.totalPrice },
+        ]);
+
+        return {
+            code: evaluation.promoCode.code,
+            description: evaluation.promoCode.description,
+            discountType: evaluation.promoCode.discountType,
+            discountValue: evaluation.promoCode.discountValue,
+            subtotal: evaluation.subtotal,
+            discountAmount: evaluation.discountAmount,
+            totalPrice: roundAmount(evaluation.subtotal - evaluation.discountAmount),
+        };
+    }
+}
+
+export const promoCodeService = new PromoCodeService();
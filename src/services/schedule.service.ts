@@ -4,13 +4,17 @@ import {
     NotFoundException,
 } from '../exceptions/http.exception';
 import eventRepository from '../repositories/event.repository';
+import { LocationRepository } from '../repositories/location.repository';
 import { scheduleRepository } from '../repositories/schedule.repository';
+import { waitlistRepository } from '../repositories/waitlist.repository';
 import {
     CreateScheduleInput,
     GetAllSchedulesQuery,
     UpdateScheduleInput,
 } from '../schemas/schedule.schema';
 
+const locationRepository = new LocationRepository();
+
 export class ScheduleService {
     /**
      * Validate that start and end dates are valid and in correct order
@@ -31,7 +35,7 @@ export class ScheduleService {
      * Create a new schedule
      */
     async createSchedule(data: CreateScheduleInput) {
-        const { eventId, startAt, endAt, details } = data;
+        const { eventId, startAt, endAt, details, capacity } = data;
 
         // Convert string dates to Date objects
         const startDate = new Date(startAt);
@@ -69,11 +73,19 @@ export class ScheduleService {
             );
         }
 
-        // 5. Create the schedule
+        // 5. General-admission schedules default to the location capacity
+        let scheduleCapacity = capacity ?? null;
+        if (capacity === undefined && !event.haveSeats) {
+            const location = await locationRepository.findById(event.locationId);
+            scheduleCapacity = location?.capacity ?? null;
+        }
+
+        // 6. Create the schedule
         const schedule = await scheduleRepository.create({
             startAt: startDate,
             endAt: endDate,
             details: details || undefined,
+            capacity: scheduleCapacity,
             event: {
                 connect: { id: eventId }
             }
@@ -141,6 +153,15 @@ export class ScheduleService {
             updateData.details = data.details;
         }
 
+        if (data.capacity !== undefined) {
+            if (data.capacity !== null && data.capacity < existingSchedule.soldQuantity) {
+                throw new BadRequestException(
+                    `Capacity cannot be lower than the ${existingSchedule.soldQuantity} ticket(s) already sold`
+                );
+            }
+            updateData.capacity = data.capacity;
+        }
+
         // Handle date updates
         let startDate = existingSchedule.startAt;
         let endDate = existingSchedule.endAt;
@@ -195,6 +216,64 @@ export class ScheduleService {
         return await scheduleRepository.update(id, updateData);
     }
 
+    /**
+     * Resolve the schedule a booking is for
+     * Without a scheduleId the event's only upcoming schedule is used
+     */
+    async resolveBookableSchedule(eventId: string, scheduleId?: string | null) {
+        const now = new Date();
+
+        if (scheduleId) {
+            const schedule = await scheduleRepository.findInventoryById(scheduleId);
+            if (!schedule) {
+                throw new NotFoundException('Schedule not found');
+            }
+            if (schedule.eventId !== eventId) {
+                throw new BadRequestException('Schedule does not belong to the specified event');
+            }
+            if (schedule.endAt < now) {
+                throw new BadRequestException('Schedule has already ended');
+            }
+            return schedule;
+        }
+
+        const schedules = (await scheduleRepository.findInventoryByEventId(eventId))
+            .filter((schedule: { endAt: Date }) => schedule.endAt >= now);
+
+        if (schedules.length === 0) {
+            throw new BadRequestException('This event has no schedules available for booking');
+        }
+        if (schedules.length > 1) {
+            throw new BadRequestException('This event has several schedules. Please select a schedule.');
+        }
+        return schedules[0];
+    }
+
+    /**
+     * Take general-admission tickets from a schedule
+     * Tickets offered to other users on the waitlist are not available to userId (null for none)
+     * Pass the transaction client to hold the tickets within a database transaction
+     * @throws ConflictException if the schedule does not have enough tickets left
+     */
+    async reserveGeneralAdmission(scheduleId: string, quantity: number, userId: string | null, tx?: any) {
+        const reserved = await scheduleRepository.reserveCapacity(scheduleId, quantity, userId, tx);
+        if (reserved) {
+            return;
+        }
+
+        const schedule = await scheduleRepository.findInventoryById(scheduleId);
+        const offered = await waitlistRepository.countOfferedQuantity(scheduleId, null, userId);
+        const remaining = schedule?.capacity != null
+            ? Math.max(schedule.capacity - schedule.soldQuantity - offered, 0)
+            : 0;
+
+        throw new ConflictException(
+            remaining === 0
+                ? 'This schedule is sold out'
+                : `Only ${remaining} ticket(s) left for this schedule`
+        );
+    }
+
     /**
      * Delete schedule
      */
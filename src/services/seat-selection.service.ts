@@ -1,14 +1,16 @@
-import { SectionPosition, ZoneType } from '@prisma/client';
-
 import { logger } from '../config';
 import { BadRequestException, NotFoundException } from '../exceptions/http.exception';
 import seatSelectionRepository, {
     RowWithSeats,
+    SeatAttributeFilter,
+    SeatAvailabilityStatus,
     SeatMap,
     SeatWithAvailability,
     SectionWithRows,
     ZoneWithPricing,
 } from '../repositories/seat-selection.repository';
+import { SeatAttributeFilterQuery } from '../schemas/seat-selection.schema';
+import { pricingRuleService } from './pricing-rule.service';
 
 /**
  * Reserved seat with booking details
@@ -19,8 +21,10 @@ export interface ReservedSeatInfo {
     seatLabel: string;
     seatNumber: number;
     rowNumber: number;
-    sectionPosition: SectionPosition;
-    zoneType: ZoneType;
+    sectionCode: string;
+    sectionName: any;
+    zoneCode: string;
+    zoneName: any;
     zonePriority: number;
     isAdminLocked: boolean;
     reservedAt: Date;
@@ -79,6 +83,20 @@ export class SeatSelectionService {
         };
     }
 
+    /**
+     * Convert seat attribute query flags ('true' / 'false') into a repository filter
+     */
+    parseSeatAttributeFilter(query: SeatAttributeFilterQuery): SeatAttributeFilter {
+        const toBoolean = (value?: 'true' | 'false') => (value === undefined ? undefined : value === 'true');
+
+        return {
+            isAccessible: toBoolean(query.isAccessible),
+            isCompanion: toBoolean(query.isCompanion),
+            isObstructedView: toBoolean(query.isObstructedView),
+            isAisle: toBoolean(query.isAisle),
+        };
+    }
+
     /**
      * Get zones for a schedule with availability info
      * First level of seat selection hierarchy
@@ -97,13 +115,14 @@ export class SeatSelectionService {
             };
         };
     }> {
-        const { eventId, locationId } = await this.validateSchedule(scheduleId);
+        const { schedule, eventId, locationId } = await this.validateSchedule(scheduleId);
 
         const zones = await seatSelectionRepository.getZonesForSchedule(
             eventId,
             scheduleId,
             locationId
         );
+        await pricingRuleService.applyToZonePricings(schedule, zones, (zone) => zone.id);
 
         const totalSeats = zones.reduce((sum, z) => sum + z.totalSeats, 0);
         const availableSeats = zones.reduce((sum, z) => sum + z.availableSeats, 0);
@@ -139,7 +158,8 @@ export class SeatSelectionService {
             eventId: string;
             scheduleId: string;
             locationZoneId: string;
-            zoneType: string;
+            zoneCode: string;
+            zoneName: any;
             sections: SectionWithRows[];
             summary: {
                 totalSections: number;
@@ -148,7 +168,7 @@ export class SeatSelectionService {
             };
         };
     }> {
-        const { eventId } = await this.validateSchedule(scheduleId);
+        const { schedule, eventId } = await this.validateSchedule(scheduleId);
 
         // Validate location zone exists
         const locationZone = await seatSelectionRepository.getLocationZone(locationZoneId);
@@ -161,6 +181,7 @@ export class SeatSelectionService {
             eventId,
             scheduleId
         );
+        await pricingRuleService.applyToZonePricings(schedule, sections, (section) => section.locationZoneId);
 
         const totalSeats = sections.reduce((sum, s) => sum + s.totalSeats, 0);
         const availableSeats = sections.reduce((sum, s) => sum + s.availableSeats, 0);
@@ -175,7 +196,8 @@ export class SeatSelectionService {
                 eventId,
                 scheduleId,
                 locationZoneId,
-                zoneType: locationZone.zone.type,
+                zoneCode: locationZone.code,
+                zoneName: locationZone.name,
                 sections,
                 summary: {
                     totalSections: sections.length,
@@ -199,7 +221,8 @@ export class SeatSelectionService {
             eventId: string;
             scheduleId: string;
             sectionId: string;
-            sectionPosition: string;
+            sectionCode: string;
+            sectionName: any;
             rows: RowWithSeats[];
             summary: {
                 totalRows: number;
@@ -208,7 +231,7 @@ export class SeatSelectionService {
             };
         };
     }> {
-        const { eventId } = await this.validateSchedule(scheduleId);
+        const { schedule, eventId } = await this.validateSchedule(scheduleId);
 
         // Validate section exists
         const section = await seatSelectionRepository.getSection(sectionId);
@@ -221,6 +244,7 @@ export class SeatSelectionService {
             eventId,
             scheduleId
         );
+        await pricingRuleService.applyToZonePricings(schedule, rows, (row) => row.section.locationZone.id);
 
         const totalSeats = rows.reduce((sum, r) => sum + r.totalSeats, 0);
         const availableSeats = rows.reduce((sum, r) => sum + r.availableSeats, 0);
@@ -235,7 +259,8 @@ export class SeatSelectionService {
                 eventId,
                 scheduleId,
                 sectionId,
-                sectionPosition: section.position,
+                sectionCode: section.code,
+                sectionName: section.name,
                 rows,
                 summary: {
                     totalRows: rows.length,
@@ -252,7 +277,8 @@ export class SeatSelectionService {
      */
     async getSeatsForRow(
         scheduleId: string,
-        rowId: string
+        rowId: string,
+        filters: SeatAttributeFilter = {}
     ): Promise<{
         success: boolean;
         data: {
@@ -267,7 +293,7 @@ export class SeatSelectionService {
             };
         };
     }> {
-        const { eventId } = await this.validateSchedule(scheduleId);
+        const { schedule, eventId } = await this.validateSchedule(scheduleId);
 
         // Validate row exists
         const row = await seatSelectionRepository.getRow(rowId);
@@ -278,8 +304,10 @@ export class SeatSelectionService {
         const seats = await seatSelectionRepository.getSeatsForRow(
             rowId,
             eventId,
-            scheduleId
+            scheduleId,
+            filters
         );
+        await pricingRuleService.applyToZonePricings(schedule, seats, (seat) => seat.row.section.locationZone.id);
 
         const availableSeats = seats.filter((s) => s.isAvailable).length;
 
@@ -307,17 +335,19 @@ export class SeatSelectionService {
      * Get full seat map for a schedule
      * Returns complete hierarchy for rendering seat map UI
      */
-    async getFullSeatMap(scheduleId: string): Promise<{
+    async getFullSeatMap(scheduleId: string, filters: SeatAttributeFilter = {}): Promise<{
         success: boolean;
         data: SeatMap;
     }> {
-        const { eventId, locationId } = await this.validateSchedule(scheduleId);
+        const { schedule, eventId, locationId } = await this.validateSchedule(scheduleId);
 
         const seatMap = await seatSelectionRepository.getFullSeatMap(
             eventId,
             scheduleId,
-            locationId
+            locationId,
+            filters
         );
+        await pricingRuleService.applyToZonePricings(schedule, seatMap.zones, (zone) => zone.id);
 
         logger.info(
             `Retrieved full seat map for schedule ${scheduleId}: ${seatMap.summary.totalSeats} total seats, ${seatMap.summary.availableSeats} available`
@@ -329,6 +359,13 @@ export class SeatSelectionService {
         };
     }
 
+    /**
+     * Ensure a schedule supports seat selection before opening a live seat-map stream
+     */
+    async validateScheduleForStream(scheduleId: string): Promise<void> {
+        await this.validateSchedule(scheduleId);
+    }
+
     /**
      * Check availability of specific seats for a schedule
      */
@@ -344,6 +381,7 @@ export class SeatSelectionService {
                 seatId: string;
                 seatLabel: string;
                 isAvailable: boolean;
+                status: SeatAvailabilityStatus;
             }>;
             unavailableCount: number;
         };
@@ -367,12 +405,13 @@ export class SeatSelectionService {
             scheduleId
         );
 
-        const unavailableSeatIds = new Set(availability.unavailableSeats.map((s) => s.seatId));
+        const seatStatuses = new Map(availability.unavailableSeats.map((s) => [s.seatId, s.status]));
 
         const seatsWithAvailability = seats.map((seat) => ({
             seatId: seat.id,
             seatLabel: seat.seatLabel,
-            isAvailable: !unavailableSeatIds.has(seat.id),
+            isAvailable: !seatStatuses.has(seat.id),
+            status: seatStatuses.get(seat.id) ?? 'available',
         }));
 
         logger.info(
@@ -407,8 +446,8 @@ export class SeatSelectionService {
             seats: Array<{
                 id: string;
                 seatLabel: string;
-                zoneType: string;
-                sectionPosition: string;
+                zoneCode: string;
+                sectionCode: string;
                 rowNumber: number;
                 isAvailable: boolean;
             }>;
@@ -451,8 +490,8 @@ export class SeatSelectionService {
         const seatsWithDetails = seats.map((seat) => ({
             id: seat.id,
             seatLabel: seat.seatLabel,
-            zoneType: seat.row.section.locationZone.zone.type,
-            sectionPosition: seat.row.section.position,
+            zoneCode: seat.row.section.locationZone.code,
+            sectionCode: seat.row.section.code,
             rowNumber: seat.row.rowNumber,
             isAvailable: !unavailableSeatIds.has(seat.id),
         }));
@@ -516,9 +555,11 @@ export class SeatSelectionService {
             seatLabel: rs.seat.seatLabel,
             seatNumber: rs.seat.seatNumber,
             rowNumber: rs.seat.row.rowNumber,
-            sectionPosition: rs.seat.row.section.position,
-            zoneType: rs.seat.row.section.locationZone.zone.type,
-            zonePriority: rs.seat.row.section.locationZone.zone.priority,
+            sectionCode: rs.seat.row.section.code,
+            sectionName: rs.seat.row.section.name,
+            zoneCode: rs.seat.row.section.locationZone.code,
+            zoneName: rs.seat.row.section.locationZone.name,
+            zonePriority: rs.seat.row.section.locationZone.priority,
             isAdminLocked: rs.isAdminLocked,
             reservedAt: rs.createdAt,
             booking: rs.booking
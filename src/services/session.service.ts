@@ -1,12 +1,66 @@
-import { SeatsSessionStatus, SectionPosition, ZoneType } from '@prisma/client';
+import { SeatsSessionStatus } from '@prisma/client';
 
-import { config } from '../config';
+import { config, logger } from '../config';
 import { BadRequestException, ConflictException, NotFoundException } from '../exceptions/http.exception';
+import { AppliedPricingRule } from '../repositories/pricing-rule.repository';
+import seatSelectionRepository, { SeatAttributeFilter, SeatMap } from '../repositories/seat-selection.repository';
 import { SessionRepository } from '../repositories/session.repository';
+import { BestAvailableInput } from '../schemas/session.schema';
+import { publishSeatChange } from '../utils/seat-events.util';
+import { pricingRuleService } from './pricing-rule.service';
+import { waitlistService } from './waitlist.service';
+
+type SeatMapSection = SeatMap['zones'][number]['sections'][number];
+type SeatMapRow = SeatMapSection['rows'][number];
+type SeatMapSeat = SeatMapRow['seats'][number];
+
+/**
+ * Candidate block of seats found by the best-available allocator
+ * Ranked lexicographically by its score (lower is better)
+ */
+interface SeatBlockCandidate {
+    seats: SeatMapSeat[];
+    rowsUsed: number;
+    score: number[];
+}
+
+// Furthest a best-available block may spread when no single row fits
+const MAX_ROWS_PER_BLOCK = 3;
 
 export class SessionService {
     private sessionRepository = new SessionRepository();
 
+    /**
+     * Compute the hold deadline for a session
+     * Each call grants SESSION_HOLD_DURATION from now, capped at SESSION_MAX_HOLD_DURATION after creation
+     */
+    private getHoldDeadline(createdAt: Date): Date {
+        const now = Date.now();
+        const extended = now + config.SESSION_HOLD_DURATION * 1000;
+        const maxDeadline = createdAt.getTime() + config.SESSION_MAX_HOLD_DURATION * 1000;
+        return new Date(Math.min(extended, maxDeadline));
+    }
+
+    /**
+     * Seconds left before the session hold expires (0 once expired)
+     */
+    private getRemainingHoldSeconds(expiresAt: Date): number {
+        return Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+    }
+
+    /**
+     * Ensure session is pending and its hold has not expired
+     */
+    private assertSessionActive(session: { status: SeatsSessionStatus; expiresAt: Date }) {
+        if (session.status !== SeatsSessionStatus.PENDING) {
+            throw new BadRequestException('Session is no longer active');
+        }
+
+        if (session.expiresAt <= new Date()) {
+            throw new BadRequestException('Session has expired. Please start a new seat selection.');
+        }
+    }
+
     /**
      * Create a new session for seat selection
      * Only one pending session allowed per user per event+schedule
@@ -42,12 +96,13 @@ export class SessionService {
         // Generate a unique code
         const code = await this.sessionRepository.generateUniqueCode();
 
-        // Create the session
+        // Create the session with its initial hold deadline
         const session = await this.sessionRepository.create({
             userId,
             eventId,
             scheduleId,
             code,
+            expiresAt: this.getHoldDeadline(new Date()),
         });
 
         return {
@@ -57,6 +112,232 @@ export class SessionService {
         };
     }
 
+    /**
+     * Fill a seat session with the best available block of seats
+     * Reuses the user's pending session (its current seats are replaced) or creates a new one
+     */
+    async bestAvailable(userId: string, input: BestAvailableInput) {
+        const { eventId, scheduleId, quantity, zoneCode } = input;
+
+        const { session, sessionUrl, isExisting } = await this.createSession(userId, eventId, scheduleId);
+
+        const event = await this.sessionRepository.getEventWithLocation(eventId);
+        if (!event || !event.location) {
+            throw new BadRequestException('Event does not have a location configured');
+        }
+
+        // The user's own holds don't block the allocator; they are only swapped once the new block is held
+        const previousSeatIds = isExisting ? await this.sessionRepository.findSessionSeatIds(session.id) : [];
+
+        const seatMap = await seatSelectionRepository.getFullSeatMap(
+            eventId,
+            scheduleId,
+            event.location.id,
+            {},
+            session.id
+        );
+
+        const zones = zoneCode
+            ? seatMap.zones.filter((zone) => zone.code === zoneCode)
+            : seatMap.zones;
+
+        if (zones.length === 0) {
+            throw new NotFoundException(
+                zoneCode ? `Zone ${zoneCode} is not available at this location` : 'No zones configured for this location'
+            );
+        }
+
+        // Seats offered to people on the waitlist stay with them during their purchase window
+        const offered = await waitlistService.getOfferedSeatsByZone(scheduleId, zones.map((zone) => zone.id), userId);
+        const bookableZones = zones.filter(
+            (zone) => zone.availableSeats - (offered.get(zone.id) ?? 0) >= quantity
+        );
+
+        const block = this.findBestAvailableBlock(bookableZones, quantity);
+        if (!block) {
+            throw new ConflictException(
+                `Not enough seats available${zoneCode ? ` in ${zoneCode}` : ''} for ${quantity} seat(s)`
+            );
+        }
+
+        const seatIds = block.seats.map((seat) => seat.id);
+        const held = await this.sessionRepository.replaceSessionSeats(session.id, scheduleId, seatIds);
+        if (!held) {
+            throw new ConflictException('Some of the suggested seats were just taken. Please try again.');
+        }
+
+        await this.sessionRepository.updateExpiresAt(session.id, this.getHoldDeadline(session.createdAt));
+        const releasedSeatIds = previousSeatIds.filter((seatId) => !seatIds.includes(seatId));
+        publishSeatChange(scheduleId, 'released', releasedSeatIds);
+        publishSeatChange(scheduleId, 'held', seatIds.filter((seatId) => !previousSeatIds.includes(seatId)));
+
+        if (releasedSeatIds.length > 0) {
+            await waitlistService.releaseToWaitlist([scheduleId]);
+        }
+
+        return {
+            session: await this.getSession(session.id),
+            sessionUrl,
+            isExisting,
+            allocation: {
+                contiguous: block.rowsUsed === 1,
+                rowsUsed: block.rowsUsed,
+            },
+        };
+    }
+
+    /**
+     * Pick the best block of available seats across the given zones
+     * Prefers a contiguous block in one row, then a block spread over adjacent rows;
+     * ties are broken by zone priority, section display order, distance from row centre and row order
+     */
+    private findBestAvailableBlock(zones: SeatMap['zones'], quantity: number): SeatBlockCandidate | null {
+        let best: SeatBlockCandidate | null = null;
+
+        const consider = (candidate: SeatBlockCandidate | null) => {
+            if (candidate && (!best || this.compareScores(candidate.score, best.score) < 0)) {
+                best = candidate;
+            }
+        };
+
+        for (const zone of zones) {
+            for (const section of zone.sections) {
+                const sectionPenalty = section.displayOrder;
+                const rows = [...section.rows].sort((a, b) => a.order - b.order);
+
+                rows.forEach((row, index) => {
+                    const rowCentre = this.getRowCentre(row);
+
+                    // Contiguous block in a single row
+                    const window = this.findMostCentralWindow(this.getAvailableRuns(row), quantity, rowCentre);
+                    if (window) {
+                        consider({
+                            seats: window.seats,
+                            rowsUsed: 1,
+                            score: [1, zone.priority, sectionPenalty, window.distance, row.order],
+                        });
+                    }
+
+                    // Block spread over this row and the ones behind it
+                    consider(this.findMultiRowBlock(rows.slice(index), quantity, [zone.priority, sectionPenalty]));
+                });
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Take seats row by row starting at the first row, at most MAX_ROWS_PER_BLOCK rows
+     * Each row contributes its most central contiguous run
+     */
+    private findMultiRowBlock(
+        rows: SeatMapRow[],
+        quantity: number,
+        rankPrefix: number[]
+    ): SeatBlockCandidate | null {
+        const seats: SeatMapSeat[] = [];
+        let totalDistance = 0;
+        let rowsUsed = 0;
+
+        for (const row of rows.slice(0, MAX_ROWS_PER_BLOCK)) {
+            const runs = this.getAvailableRuns(row);
+            const longestRun = Math.max(0, ...runs.map((run) => run.length));
+
+            // An empty row breaks adjacency
+            if (longestRun === 0) {
+                break;
+            }
+
+            const remaining = quantity - seats.length;
+            const window = this.findMostCentralWindow(runs, Math.min(remaining, longestRun), this.getRowCentre(row));
+            if (!window) {
+                break;
+            }
+
+            seats.push(...window.seats);
+            totalDistance += window.distance;
+            rowsUsed++;
+
+            if (seats.length === quantity) {
+                // Single-row blocks are scored separately
+                return rowsUsed > 1
+                    ? { seats, rowsUsed, score: [rowsUsed, ...rankPrefix, totalDistance / rowsUsed, rows[0].order] }
+                    : null;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Split a row into runs of consecutive available seats
+     */
+    private getAvailableRuns(row: SeatMapRow): SeatMapSeat[][] {
+        const runs: SeatMapSeat[][] = [];
+        let current: SeatMapSeat[] = [];
+
+        const seats = [...row.seats].sort((a, b) => a.seatNumber - b.seatNumber);
+        for (const seat of seats) {
+            const previous = current[current.length - 1];
+            if (seat.status !== 'available' || (previous && seat.seatNumber !== previous.seatNumber + 1)) {
+                if (current.length > 0) runs.push(current);
+                current = [];
+            }
+            if (seat.status === 'available') {
+                current.push(seat);
+            }
+        }
+        if (current.length > 0) runs.push(current);
+
+        return runs;
+    }
+
+    /**
+     * Find the window of `size` seats closest to the row centre within the given runs
+     */
+    private findMostCentralWindow(
+        runs: SeatMapSeat[][],
+        size: number,
+        rowCentre: number
+    ): { seats: SeatMapSeat[]; distance: number } | null {
+        let best: { seats: SeatMapSeat[]; distance: number } | null = null;
+
+        for (const run of runs) {
+            for (let start = 0; start + size <= run.length; start++) {
+                const seats = run.slice(start, start + size);
+                const windowCentre = (seats[0].seatNumber + seats[seats.length - 1].seatNumber) / 2;
+                const distance = Math.abs(windowCentre - rowCentre);
+
+                if (!best || distance < best.distance) {
+                    best = { seats, distance };
+                }
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Centre seat number of a row (all seats, regardless of availability)
+     */
+    private getRowCentre(row: SeatMapRow): number {
+        const seatNumbers = row.seats.map((seat) => seat.seatNumber);
+        return (Math.min(...seatNumbers) + Math.max(...seatNumbers)) / 2;
+    }
+
+    /**
+     * Compare two allocator scores lexicographically
+     */
+    private compareScores(a: number[], b: number[]): number {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            if (a[i] !== b[i]) {
+                return a[i] - b[i];
+            }
+        }
+        return a.length - b.length;
+    }
+
     /**
      * Get session by ID with full details
      * Public endpoint - no user validation required
@@ -78,9 +359,12 @@ export class SessionService {
                 row: {
                     rowNumber: number;
                     section: {
-                        position: SectionPosition;
+                        code: string;
+                        name: any;
                         locationZone: {
-                            zone: { type: ZoneType };
+                            id: string;
+                            code: string;
+                            name: any;
                             zonePricings: Array<{
                                 originalPrice: number;
                                 discountedPrice: number | null;
@@ -96,7 +380,6 @@ export class SessionService {
             const row = seat.row;
             const section = row.section;
             const locationZone = section.locationZone;
-            const zone = locationZone.zone;
 
             // Find pricing for this event and schedule
             const pricing = locationZone.zonePricings.find(
@@ -110,14 +393,41 @@ export class SessionService {
                 seatLabel: seat.seatLabel,
                 seatNumber: seat.seatNumber,
                 rowNumber: row.rowNumber,
-                sectionPosition: section.position,
-                zoneType: zone.type,
+                sectionCode: section.code,
+                sectionName: section.name,
+                zoneCode: locationZone.code,
+                zoneName: locationZone.name,
+                locationZoneId: locationZone.id,
                 price: pricing?.discountedPrice ?? pricing?.originalPrice ?? null,
                 originalPrice: pricing?.originalPrice ?? null,
                 discountedPrice: pricing?.discountedPrice ?? null,
+                pricingRule: null as AppliedPricingRule | null,
             };
         });
 
+        // Apply pricing rules to the seats that have a zone price
+        const pricedSeats: Array<{
+            locationZoneId: string;
+            price: number | null;
+            originalPrice: number | null;
+            discountedPrice: number | null;
+            pricingRule: AppliedPricingRule | null;
+        }> = formattedSeats.filter((seat: { originalPrice: number | null }) => seat.originalPrice !== null);
+        if (pricedSeats.length > 0) {
+            const amounts = await pricingRuleService.priceZones(
+                { id: session.scheduleId, eventId: session.eventId, startAt: session.schedule.startAt },
+                pricedSeats.map((seat) => ({
+                    locationZoneId: seat.locationZoneId,
+                    originalPrice: seat.originalPrice as number,
+                    discountedPrice: seat.discountedPrice,
+                }))
+            );
+            pricedSeats.forEach((seat, index) => {
+                seat.price = amounts[index].price;
+                seat.pricingRule = amounts[index].pricingRule;
+            });
+        }
+
         // Calculate total price
         const totalPrice = formattedSeats.reduce(
             (sum: number, seat: { price: number | null }) => sum + (seat.price ?? 0),
@@ -134,6 +444,10 @@ export class SessionService {
             totalSeats: formattedSeats.length,
             totalPrice,
             currency: 'AED',
+            expiresAt: session.expiresAt,
+            remainingSeconds: session.status === SeatsSessionStatus.PENDING
+                ? this.getRemainingHoldSeconds(session.expiresAt)
+                : 0,
             createdAt: session.createdAt,
             updatedAt: session.updatedAt,
         };
@@ -146,8 +460,8 @@ export class SessionService {
     async toggleSeat(
         sessionId: string,
         seatData: {
-            zoneType: ZoneType;
-            sectionPosition: SectionPosition;
+            zoneCode: string;
+            sectionCode: string;
             rowNumber: number;
             seatNumber: number;
         }
@@ -159,9 +473,7 @@ export class SessionService {
             throw new NotFoundException('Session not found');
         }
 
-        if (session.status !== SeatsSessionStatus.PENDING) {
-            throw new BadRequestException('Session is no longer active');
-        }
+        this.assertSessionActive(session);
 
         // Get event with location to find the seat
         const event = await this.sessionRepository.getEventWithLocation(session.eventId);
@@ -172,57 +484,83 @@ export class SessionService {
         // Find the seat by location details
         const seat = await this.sessionRepository.findSeatByLocationDetails(
             event.location.id,
-            seatData.zoneType,
-            seatData.sectionPosition,
+            seatData.zoneCode,
+            seatData.sectionCode,
             seatData.rowNumber,
             seatData.seatNumber
         );
 
         if (!seat) {
             throw new NotFoundException(
-                `Seat not found: ${seatData.zoneType}-${seatData.sectionPosition}-Row${seatData.rowNumber}-Seat${seatData.seatNumber}`
+                `Seat not found: ${seatData.zoneCode}-${seatData.sectionCode}-Row${seatData.rowNumber}-Seat${seatData.seatNumber}`
             );
         }
 
         // Check if seat is already in this session
         const existingSeatSession = await this.sessionRepository.findSeatSession(sessionId, seat.id);
 
+        // Any seat toggle extends the hold
+        const expiresAt = this.getHoldDeadline(session.createdAt);
+
         if (existingSeatSession) {
             // Remove the seat from session
             await this.sessionRepository.removeSeatFromSession(existingSeatSession.id);
+            await this.sessionRepository.updateExpiresAt(sessionId, expiresAt);
+            publishSeatChange(session.scheduleId, 'released', [seat.id]);
+            await waitlistService.releaseToWaitlist([session.scheduleId]);
 
             return {
                 action: 'removed',
+                expiresAt,
+                remainingSeconds: this.getRemainingHoldSeconds(expiresAt),
                 seat: {
                     seatId: seat.id,
                     seatLabel: seat.seatLabel,
                     seatNumber: seat.seatNumber,
                     rowNumber: seat.row.rowNumber,
-                    sectionPosition: seat.row.section.position,
-                    zoneType: seat.row.section.locationZone.zone.type,
+                    sectionCode: seat.row.section.code,
+                    zoneCode: seat.row.section.locationZone.code,
                 },
             };
         }
 
+        if (seat.isBlocked) {
+            throw new BadRequestException('This seat is blocked and cannot be selected');
+        }
+
         // Check if seat is already booked (in BookingSeat)
         const isBooked = await this.sessionRepository.isSeatBooked(seat.id, session.scheduleId);
         if (isBooked) {
             throw new ConflictException('This seat is already reserved');
         }
 
-        // Add seat to session
-        const newSeatSession = await this.sessionRepository.addSeatToSession(sessionId, seat.id);
+        await waitlistService.assertZoneSeatsAvailable(
+            session.scheduleId,
+            seat.row.section.locationZone.id,
+            session.userId,
+            1
+        );
+
+        // Hold the seat for this session (exclusive per schedule)
+        const newSeatSession = await this.sessionRepository.addSeatToSession(sessionId, session.scheduleId, seat.id);
+        if (!newSeatSession) {
+            throw new ConflictException('This seat is currently held by another user');
+        }
+        await this.sessionRepository.updateExpiresAt(sessionId, expiresAt);
+        publishSeatChange(session.scheduleId, 'held', [seat.id]);
 
         return {
             action: 'added',
+            expiresAt,
+            remainingSeconds: this.getRemainingHoldSeconds(expiresAt),
             seat: {
                 id: newSeatSession.id,
                 seatId: seat.id,
                 seatLabel: seat.seatLabel,
                 seatNumber: seat.seatNumber,
                 rowNumber: seat.row.rowNumber,
-                sectionPosition: seat.row.section.position,
-                zoneType: seat.row.section.locationZone.zone.type,
+                sectionCode: seat.row.section.code,
+                zoneCode: seat.row.section.locationZone.code,
             },
         };
     }
@@ -234,8 +572,8 @@ export class SessionService {
     async removeSeat(
         sessionId: string,
         seatData: {
-            zoneType: ZoneType;
-            sectionPosition: SectionPosition;
+            zoneCode: string;
+            sectionCode: string;
             rowNumber: number;
             seatNumber: number;
         }
@@ -247,9 +585,7 @@ export class SessionService {
             throw new NotFoundException('Session not found');
         }
 
-        if (session.status !== SeatsSessionStatus.PENDING) {
-            throw new BadRequestException('Session is no longer active');
-        }
+        this.assertSessionActive(session);
 
         // Get event with location
         const event = await this.sessionRepository.getEventWithLocation(session.eventId);
@@ -260,8 +596,8 @@ export class SessionService {
         // Find the seat
         const seat = await this.sessionRepository.findSeatByLocationDetails(
             event.location.id,
-            seatData.zoneType,
-            seatData.sectionPosition,
+            seatData.zoneCode,
+            seatData.sectionCode,
             seatData.rowNumber,
             seatData.seatNumber
         );
@@ -279,6 +615,8 @@ export class SessionService {
 
         // Remove the seat
         await this.sessionRepository.removeSeatFromSession(seatSession.id);
+        publishSeatChange(session.scheduleId, 'released', [seat.id]);
+        await waitlistService.releaseToWaitlist([session.scheduleId]);
 
         return {
             message: 'Seat removed from session',
@@ -287,8 +625,8 @@ export class SessionService {
                 seatLabel: seat.seatLabel,
                 seatNumber: seat.seatNumber,
                 rowNumber: seat.row.rowNumber,
-                sectionPosition: seat.row.section.position,
-                zoneType: seat.row.section.locationZone.zone.type,
+                sectionCode: seat.row.section.code,
+                zoneCode: seat.row.section.locationZone.code,
             },
         };
     }
@@ -309,11 +647,17 @@ export class SessionService {
         }
 
         // Clear all seats from session
+        const seatIds = await this.sessionRepository.findSessionSeatIds(sessionId);
         await this.sessionRepository.clearSessionSeats(sessionId);
+        publishSeatChange(session.scheduleId, 'released', seatIds);
 
         // Update session status
         const updatedSession = await this.sessionRepository.updateStatus(sessionId, SeatsSessionStatus.CANCELLED);
 
+        if (seatIds.length > 0) {
+            await waitlistService.releaseToWaitlist([session.scheduleId]);
+        }
+
         return {
             message: 'Session cancelled successfully',
             session: updatedSession,
@@ -331,15 +675,82 @@ export class SessionService {
             throw new NotFoundException('Session not found');
         }
 
-        if (session.status !== SeatsSessionStatus.PENDING) {
-            throw new BadRequestException('Session is no longer active');
-        }
+        this.assertSessionActive(session);
 
+        const seatIds = await this.sessionRepository.findSessionSeatIds(sessionId);
         await this.sessionRepository.clearSessionSeats(sessionId);
+        publishSeatChange(session.scheduleId, 'released', seatIds);
+
+        if (seatIds.length > 0) {
+            await waitlistService.releaseToWaitlist([session.scheduleId]);
+        }
 
         return {
             message: 'All seats cleared from session',
         };
     }
-}
 
+    /**
+     * Get the schedule a session selects seats for (used to open its live seat stream)
+     * Public endpoint - no user validation required
+     */
+    async getSessionScheduleId(sessionId: string): Promise<string> {
+        const session = await this.sessionRepository.findById(sessionId);
+
+        if (!session) {
+            throw new NotFoundException('Session not found');
+        }
+
+        return session.scheduleId;
+    }
+
+    /**
+     * Get the seat map of a session's schedule, optionally filtered by seat attributes
+     * Public endpoint - no user validation required
+     */
+    async getSessionSeatMap(sessionId: string, filters: SeatAttributeFilter = {}): Promise<SeatMap> {
+        const session = await this.sessionRepository.findById(sessionId);
+
+        if (!session) {
+            throw new NotFoundException('Session not found');
+        }
+
+        const schedule = await seatSelectionRepository.getScheduleWithEvent(session.scheduleId);
+        if (!schedule?.event.locationId) {
+            throw new BadRequestException('Event does not have a location configured');
+        }
+
+        const seatMap = await seatSelectionRepository.getFullSeatMap(
+            session.eventId,
+            session.scheduleId,
+            schedule.event.locationId,
+            filters
+        );
+        await pricingRuleService.applyToZonePricings(schedule, seatMap.zones, (zone) => zone.id);
+
+        return seatMap;
+    }
+
+    /**
+     * Cancel all pending sessions whose hold has expired and release their seats
+     * Called periodically by the session expiry job
+     */
+    async expireStaleSessions() {
+        const expiredSessions = await this.sessionRepository.expireStaleSessions(new Date());
+
+        expiredSessions.forEach((session) => publishSeatChange(session.scheduleId, 'released', session.seatIds));
+
+        await waitlistService.releaseToWaitlist(
+            expiredSessions.filter((session) => session.seatIds.length > 0).map((session) => session.scheduleId)
+        );
+
+        if (expiredSessions.length > 0) {
+            const releasedSeats = expiredSessions.reduce((sum, session) => sum + session.seatIds.length, 0);
+            logger.info(
+                `Expired ${expiredSessions.length} seat sessions, released ${releasedSeats} seats`
+            );
+        }
+
+        return expiredSessions;
+    }
+}
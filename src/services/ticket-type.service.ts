@@ -0,0 +1,353 @@
+import { Prisma, TicketType } from '@prisma/client';
+
+import { BadRequestException, NotFoundException } from '../exceptions/http.exception';
+import { BookingLineItem } from '../repositories/booking.repository';
+import eventRepository from '../repositories/event.repository';
+import { LocationRepository } from '../repositories/location.repository';
+import { ticketTypeRepository } from '../repositories/ticket-type.repository';
+import { CreateTicketTypeInput, TicketSelection, UpdateTicketTypeInput } from '../schemas/ticket-type.schema';
+import { pricingRuleService, TicketSchedule } from './pricing-rule.service';
+
+const locationRepository = new LocationRepository();
+
+/**
+ * Price of an order of tickets for one event
+ * quantity counts people admitted; unitPrice is the average price per admission
+ */
+export interface OrderPrice {
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+    pricingRuleId: string | null;
+    items: BookingLineItem[];
+}
+
+/**
+ * Event fields needed to price an order
+ */
+interface PricedEvent {
+    id: string;
+    startAt: Date;
+    haveSeats: boolean;
+    originalPrice: number | null;
+    discountedPrice: number | null;
+}
+
+export class TicketTypeService {
+    /**
+     * English name of a ticket type for error messages
+     */
+    private label(ticketType: TicketType): string {
+        return (ticketType.name as { en?: string })?.en ?? 'Ticket';
+    }
+
+    /**
+     * Validate the zone, admission count and companion type of a ticket type
+     */
+    private async assertTicketTypeFields(
+        event: { id: string; locationId: string; haveSeats: boolean },
+        fields: { id?: string; locationZoneId: string | null; requiresTicketTypeId: string | null; admitCount: number }
+    ) {
+        if (fields.locationZoneId) {
+            if (!event.haveSeats) {
+                throw new BadRequestException('Zone ticket types are only available for seated events');
+            }
+
+            const locationZone = await locationRepository.findLocationZoneById(fields.locationZoneId);
+            if (!locationZone || locationZone.locationId !== event.locationId) {
+                throw new NotFoundException('Location zone not found in the event location');
+            }
+        }
+
+        if (event.haveSeats && fields.admitCount !== 1) {
+            throw new BadRequestException('Ticket types of seated events admit one person per seat');
+        }
+
+        if (fields.requiresTicketTypeId) {
+            if (fields.requiresTicketTypeId === fields.id) {
+                throw new BadRequestException('A ticket type cannot require itself');
+            }
+
+            const required = await ticketTypeRepository.findById(fields.requiresTicketTypeId);
+            if (!required || required.eventId !== event.id) {
+                throw new NotFoundException('Required ticket type not found for this event');
+            }
+        }
+    }
+
+    /**
+     * Create a ticket type for an event
+     */
+    async createTicketType(data: CreateTicketTypeInput) {
+        const event = await eventRepository.findById(data.eventId);
+        if (!event) {
+            throw new NotFoundException('Event not found');
+        }
+
+        const fields = {
+            locationZoneId: data.locationZoneId ?? null,
+            requiresTicketTypeId: data.requiresTicketTypeId ?? null,
+            admitCount: data.admitCount ?? 1,
+        };
+        await this.assertTicketTypeFields(event, fields);
+
+        return await ticketTypeRepository.create({
+            ...fields,
+            eventId: data.eventId,
+            name: data.name,
+            description: data.description ?? undefined,
+            originalPrice: data.originalPrice,
+            discountedPrice: data.discountedPrice ?? null,
+            minQuantity: data.minQuantity ?? 1,
+            maxQuantity: data.maxQuantity ?? null,
+            sortOrder: data.sortOrder ?? 0,
+            active: data.active ?? true,
+        });
+    }
+
+    /**
+     * Get ticket types of an event
+     */
+    async getEventTicketTypes(eventId: string) {
+        const event = await eventRepository.findById(eventId);
+        if (!event) {
+            throw new NotFoundException('Event not found');
+        }
+
+        return await ticketTypeRepository.findByEventId(eventId);
+    }
+
+    /**
+     * Get ticket type by ID
+     */
+    async getTicketTypeById(id: string) {
+        const ticketType = await ticketTypeRepository.findById(id);
+        if (!ticketType) {
+            throw new NotFoundException('Ticket type not found');
+        }
+        return ticketType;
+    }
+
+    /**
+     * Update a ticket type
+     * Bookings already made keep the name and price they were sold with
+     */
+    async updateTicketType(id: string, data: UpdateTicketTypeInput) {
+        const existing = await this.getTicketTypeById(id);
+
+        const event = await eventRepository.findById(existing.eventId);
+        if (!event) {
+            throw new NotFoundException('Event not found');
+        }
+
+        const fields = {
+            id,
+            locationZoneId: data.locationZoneId !== undefined ? data.locationZoneId : existing.locationZoneId,
+            requiresTicketTypeId: data.requiresTicketTypeId !== undefined
+                ? data.requiresTicketTypeId
+                : existing.requiresTicketTypeId,
+            admitCount: data.admitCount ?? existing.admitCount,
+        };
+        await this.assertTicketTypeFields(event, fields);
+
+        const originalPrice = data.originalPrice ?? existing.originalPrice;
+        const discountedPrice = data.discountedPrice !== undefined ? data.discountedPrice : existing.discountedPrice;
+        if (discountedPrice !== null && discountedPrice >= originalPrice) {
+            throw new BadRequestException('Discounted price must be less than original price');
+        }
+
+        const minQuantity = data.minQuantity ?? existing.minQuantity;
+        const maxQuantity = data.maxQuantity !== undefined ? data.maxQuantity : existing.maxQuantity;
+        if (maxQuantity !== null && maxQuantity < minQuantity) {
+            throw new BadRequestException('Maximum quantity cannot be less than minimum quantity');
+        }
+
+        return await ticketTypeRepository.update(id, {
+            locationZoneId: fields.locationZoneId,
+            requiresTicketTypeId: fields.requiresTicketTypeId,
+            admitCount: fields.admitCount,
+            name: data.name,
+            description: data.description === null ? Prisma.DbNull : data.description,
+            originalPrice,
+            discountedPrice,
+            minQuantity,
+            maxQuantity,
+            sortOrder: data.sortOrder,
+            active: data.active,
+        });
+    }
+
+    /**
+     * Delete a ticket type
+     * Types that were sold are kept for the booking breakdown; deactivate them instead
+     */
+    async deleteTicketType(id: string) {
+        await this.getTicketTypeById(id);
+
+        const bookingCount = await ticketTypeRepository.countBookings(id);
+        if (bookingCount > 0) {
+            throw new BadRequestException(
+                `This ticket type was sold in ${bookingCount} booking(s) and cannot be deleted. Deactivate it instead.`
+            );
+        }
+
+        await ticketTypeRepository.delete(id);
+    }
+
+    /**
+     * Resolve a ticket selection against the event's active ticket types
+     * Checks per-order limits and that companion types are bought together
+     */
+    private async resolveSelection(eventId: string, tickets: TicketSelection) {
+        const ticketTypes = await ticketTypeRepository.findByEventId(eventId, true);
+        const byId = new Map(ticketTypes.map((ticketType) => [ticketType.id, ticketType]));
+
+        const lines = tickets.map((ticket) => {
+            const ticketType = byId.get(ticket.ticketTypeId);
+            if (!ticketType) {
+                throw new NotFoundException(`Ticket type ${ticket.ticketTypeId} is not available for this event`);
+            }
+
+            if (ticket.quantity < ticketType.minQuantity) {
+                throw new BadRequestException(
+                    `At least ${ticketType.minQuantity} ${this.label(ticketType)} ticket(s) must be bought`
+                );
+            }
+
+            if (ticketType.maxQuantity !== null && ticket.quantity > ticketType.maxQuantity) {
+                throw new BadRequestException(
+                    `At most ${ticketType.maxQuantity} ${this.label(ticketType)} ticket(s) can be bought per order`
+                );
+            }
+
+            return { ticketType, quantity: ticket.quantity };
+        });
+
+        const selectedIds = new Set(lines.map((line) => line.ticketType.id));
+        for (const { ticketType } of lines) {
+            const required = ticketType.requiresTicketTypeId ? byId.get(ticketType.requiresTicketTypeId) : undefined;
+            if (required && !selectedIds.has(required.id)) {
+                throw new BadRequestException(
+                    `${this.label(ticketType)} tickets require at least one ${this.label(required)} ticket`
+                );
+            }
+        }
+
+        return lines;
+    }
+
+    /**
+     * Price an order of general-admission tickets
+     * Events with active ticket types must be bought by type; other events use the event price
+     */
+    async priceOrder(
+        event: PricedEvent,
+        selection: { quantity?: number; tickets?: TicketSelection | null },
+        schedule: TicketSchedule | null = null
+    ): Promise<OrderPrice> {
+        if (!selection.tickets || selection.tickets.length === 0) {
+            if (!event.haveSeats && await ticketTypeRepository.hasActiveTicketTypes(event.id)) {
+                throw new BadRequestException('Please choose ticket types for this event');
+            }
+
+            const quantity = selection.quantity ?? 1;
+            const { price, pricingRule } = await pricingRuleService.priceEventTicket(event, schedule);
+
+            return {
+                quantity,
+                unitPrice: price,
+                totalPrice: price * quantity,
+                pricingRuleId: pricingRule?.id ?? null,
+                items: [],
+            };
+        }
+
+        const lines = await this.resolveSelection(event.id, selection.tickets);
+
+        const zoned = lines.find((line) => line.ticketType.locationZoneId !== null);
+        if (zoned) {
+            throw new BadRequestException(
+                `${this.label(zoned.ticketType)} tickets are sold with a seat selection only`
+            );
+        }
+
+        const amounts = await pricingRuleService.priceTickets(
+            event,
+            lines.map((line) => line.ticketType.discountedPrice ?? line.ticketType.originalPrice),
+            schedule
+        );
+
+        const items: BookingLineItem[] = lines.map((line, index) => ({
+            ticketTypeId: line.ticketType.id,
+            name: line.ticketType.name,
+            quantity: line.quantity,
+            admitCount: line.ticketType.admitCount,
+            unitPrice: amounts[index].price,
+            totalPrice: amounts[index].price * line.quantity,
+            pricingRuleId: amounts[index].pricingRule?.id ?? null,
+        }));
+
+        const quantity = items.reduce((sum, item) => sum + item.quantity * item.admitCount, 0);
+        const totalPrice = items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+        // The booking records the rule only when it priced every line
+        const ruleIds = new Set(items.map((item) => item.pricingRuleId));
+
+        return {
+            quantity,
+            unitPrice: totalPrice / quantity,
+            totalPrice,
+            pricingRuleId: ruleIds.size === 1 ? items[0].pricingRuleId : null,
+            items,
+        };
+    }
+
+    /**
+     * Assign chosen ticket types to the seats of a seated order
+     * Zone types take seats of their zone first; types without a zone fill the remaining seats.
+     * Returns the ticket type of each seat, or an empty map when no tickets were chosen
+     */
+    async assignSeatTickets(
+        eventId: string,
+        tickets: TicketSelection | null | undefined,
+        seats: Array<{ seatId: string; locationZoneId: string }>
+    ): Promise<Map<string, TicketType>> {
+        const assignment = new Map<string, TicketType>();
+        if (!tickets || tickets.length === 0) {
+            return assignment;
+        }
+
+        const lines = await this.resolveSelection(eventId, tickets);
+
+        const ticketCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+        if (ticketCount !== seats.length) {
+            throw new BadRequestException(
+                `${ticketCount} ticket(s) chosen for ${seats.length} seat(s). Choose one ticket per seat.`
+            );
+        }
+
+        const ordered = [
+            ...lines.filter((line) => line.ticketType.locationZoneId !== null),
+            ...lines.filter((line) => line.ticketType.locationZoneId === null),
+        ];
+
+        for (const { ticketType, quantity } of ordered) {
+            const available = seats.filter((seat) =>
+                !assignment.has(seat.seatId)
+                && (ticketType.locationZoneId === null || ticketType.locationZoneId === seat.locationZoneId)
+            );
+
+            if (available.length < quantity) {
+                throw new BadRequestException(
+                    `Not enough selected seats for ${quantity} ${this.label(ticketType)} ticket(s)`
+                );
+            }
+
+            available.slice(0, quantity).forEach((seat) => assignment.set(seat.seatId, ticketType));
+        }
+
+        return assignment;
+    }
+}
+
+export const ticketTypeService = new TicketTypeService();
@@ -0,0 +1,1194 @@
+import { BookingStatus, CheckInDirection, CheckInMethod, ReEntryPolicy } from '@prisma/client';
+
+import { config, logger } from '../config';
+import {
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    HttpException,
+    NotFoundException,
+} from '../exceptions/http.exception';
+import bookingRepository from '../repositories/booking.repository';
+import { checkInRepository } from '../repositories/check-in.repository';
+import eventRepository from '../repositories/event.repository';
+import { locationGateRepository } from '../repositories/location-gate.repository';
+import { scheduleRepository } from '../repositories/schedule.repository';
+import { scheduleWorkerRepository } from '../repositories/schedule-worker.repository';
+import { ScanTicketInput, SyncScansInput } from '../schemas/ticket.schema';
+import { localizeField, SupportedLanguage } from '../utils/i18n.util';
+import { prisma } from '../utils/prisma.client';
+import {
+    generateTicketCode,
+    generateTicketSecret,
+    getManifestPublicKey,
+    hashTicketCode,
+    parseRotatingCode,
+    ROTATING_CODE_DIGITS,
+    ROTATING_CODE_PREFIX,
+    signManifest,
+    verifyRotatingCode,
+    verifyTicketCode,
+} from '../utils/ticket-code.util';
+
+/**
+ * Why a scanned ticket was not admitted (returned to gate devices in errors.reason)
+ */
+export const TICKET_REJECTION_REASONS = {
+    INVALID_CODE: 'INVALID_CODE',
+    CODE_EXPIRED: 'CODE_EXPIRED',
+    REVOKED: 'REVOKED',
+    WRONG_SCHEDULE: 'WRONG_SCHEDULE',
+    NOT_CONFIRMED: 'NOT_CONFIRMED',
+    CANCELLED: 'CANCELLED',
+    REFUNDED: 'REFUNDED',
+    ALREADY_USED: 'ALREADY_USED',
+    QUANTITY_EXCEEDED: 'QUANTITY_EXCEEDED',
+    NOT_ASSIGNED: 'NOT_ASSIGNED',
+    CHECK_IN_CLOSED: 'CHECK_IN_CLOSED',
+    CONCURRENT_SCAN: 'CONCURRENT_SCAN',
+    INVALID_GATE: 'INVALID_GATE',
+    ZONE_NOT_ALLOWED: 'ZONE_NOT_ALLOWED',
+    RE_ENTRY_NOT_ALLOWED: 'RE_ENTRY_NOT_ALLOWED',
+    RE_ENTRY_LIMIT_REACHED: 'RE_ENTRY_LIMIT_REACHED',
+    ALREADY_INSIDE: 'ALREADY_INSIDE',
+    NOT_INSIDE: 'NOT_INSIDE',
+} as const;
+
+/**
+ * Outcome of one offline scan in a sync report
+ */
+export const SCAN_SYNC_STATUSES = {
+    ADMITTED: 'ADMITTED',
+    EXITED: 'EXITED',
+    DUPLICATE: 'DUPLICATE',
+    CONFLICT: 'CONFLICT',
+    REJECTED: 'REJECTED',
+} as const;
+
+interface ScanSyncResult {
+    scanId: string;
+    status: typeof SCAN_SYNC_STATUSES[keyof typeof SCAN_SYNC_STATUSES];
+    reason?: string;
+    message?: string;
+    admitted: number;
+    exited?: number;
+    checkInId?: string;
+    bookingNumber?: string;
+    conflictingCheckIn?: { id: string; deviceId: string | null; scannedAt: Date };
+}
+
+/**
+ * Worker admitting at the gate and the device used
+ */
+export interface CheckInContext {
+    workerId: string;
+    deviceId?: string | null;
+}
+
+type CheckInBooking = NonNullable<Awaited<ReturnType<typeof bookingRepository.findForCheckIn>>>;
+
+type CheckInSeat = { id: string; zoneCode: string; admittedAt: Date | null; isInside: boolean };
+
+/**
+ * Gate a ticket is scanned at, with the zones whose seats may enter there
+ */
+type ScanGate = {
+    id: string;
+    locationId: string;
+    active: boolean;
+    allowsGeneralAdmission: boolean;
+    gateZones: Array<{ locationZone: { code: string } }>;
+};
+
+/**
+ * How a scan was made: when (offline scans), which seat code, at which gate and in which direction
+ */
+interface ScanOptions {
+    scannedAt?: Date;
+    clientScanId?: string;
+    bookingSeatId?: string | null;
+    gate?: ScanGate | null;
+    direction?: CheckInDirection;
+}
+
+type TicketHolderBooking = {
+    id: string;
+    scheduleId: string | null;
+    status: BookingStatus;
+    qrCode: string | null;
+    bookingSeats?: Array<{ id: string; qrCode: string | null }>;
+};
+
+type ManifestBooking = Omit<TicketHolderBooking, 'bookingSeats'> & {
+    bookingNumber: string;
+    quantity: number;
+    usedQuantity: number;
+    insideQuantity: number;
+    reEntryCount: number;
+    user: { name: string | null };
+    bookingItems: Array<{ name: unknown; quantity: number }>;
+    bookingSeats: Array<{
+        id: string;
+        zoneCode: string;
+        sectionCode: string;
+        rowNumberSnapshot: number;
+        seatNumberSnapshot: number;
+        qrCode: string | null;
+        admittedAt: Date | null;
+        isInside: boolean;
+    }>;
+    ticketSecret: { bookingId: string } | null;
+};
+
+export class TicketService {
+    /**
+     * What a gate device shows for a booking
+     */
+    private toTicketSummary(booking: CheckInBooking) {
+        return {
+            bookingId: booking.id,
+            bookingNumber: booking.bookingNumber,
+            status: booking.status,
+            holder: booking.user,
+            event: booking.event,
+            schedule: booking.schedule,
+            quantity: booking.quantity,
+            usedQuantity: booking.usedQuantity,
+            remainingEntries: booking.quantity - booking.usedQuantity,
+            insideQuantity: booking.insideQuantity,
+            reEntryCount: booking.reEntryCount,
+            checkedInAt: booking.checkedInAt,
+            bookingItems: booking.bookingItems,
+            seats: booking.bookingSeats,
+        };
+    }
+
+    /**
+     * Ensure a booking is valid for the schedule at the gate; throws with the rejection reason otherwise
+     */
+    private assertAdmissible(booking: CheckInBooking, scheduleId: string): void {
+        const ticket = this.toTicketSummary(booking);
+
+        if (booking.scheduleId !== scheduleId) {
+            throw new BadRequestException('This ticket is for a different schedule', {
+                reason: TICKET_REJECTION_REASONS.WRONG_SCHEDULE,
+                ticket,
+            });
+        }
+
+        switch (booking.status) {
+            case BookingStatus.CANCELLED:
+                throw new BadRequestException('This booking has been cancelled', {
+                    reason: TICKET_REJECTION_REASONS.CANCELLED,
+                    ticket,
+                });
+            case BookingStatus.REFUNDED:
+                throw new BadRequestException('This booking has been refunded', {
+                    reason: TICKET_REJECTION_REASONS.REFUNDED,
+                    ticket,
+                });
+            case BookingStatus.PENDING:
+                throw new BadRequestException('This booking has not been paid yet', {
+                    reason: TICKET_REJECTION_REASONS.NOT_CONFIRMED,
+                    ticket,
+                });
+        }
+    }
+
+    /**
+     * Issue a new signed QR code for a booking (replaces any previous one)
+     */
+    issueQrCode(booking: { id: string; scheduleId: string | null }): string {
+        return generateTicketCode({ bookingId: booking.id, scheduleId: booking.scheduleId });
+    }
+
+    /**
+     * Issue a new signed QR code for one seat of a booking
+     */
+    private issueSeatQrCode(booking: { id: string; scheduleId: string | null }, bookingSeatId: string): string {
+        return generateTicketCode({ bookingId: booking.id, scheduleId: booking.scheduleId, bookingSeatId });
+    }
+
+    /**
+     * Store a new QR code for a booking that has none (or get the one issued concurrently)
+     */
+    private async issueMissingQrCode(booking: TicketHolderBooking): Promise<string | null> {
+        const qrCode = this.issueQrCode(booking);
+        if (await bookingRepository.setQrCodeIfMissing(booking.id, qrCode)) {
+            return qrCode;
+        }
+
+        const current = await bookingRepository.findById(booking.id);
+        return current?.qrCode ?? null;
+    }
+
+    /**
+     * Store a new QR code for a seat that has none (or get the one issued concurrently)
+     */
+    private async issueMissingSeatQrCode(booking: TicketHolderBooking, bookingSeatId: string): Promise<string | null> {
+        const qrCode = this.issueSeatQrCode(booking, bookingSeatId);
+        if (await bookingRepository.setSeatQrCodeIfMissing(bookingSeatId, qrCode)) {
+            return qrCode;
+        }
+
+        return await bookingRepository.findSeatQrCode(bookingSeatId);
+    }
+
+    /**
+     * Give confirmed bookings (and their seats, when loaded) that have no QR code yet their signed code
+     * Codes are issued on first read, so every way a booking gets confirmed is covered.
+     * A booking code admits the whole group; a seat code admits its seat only
+     */
+    async attachQrCodes<T extends TicketHolderBooking>(bookings: T[]): Promise<T[]> {
+        return await Promise.all(
+            bookings.map(async (booking) => {
+                if (booking.status !== BookingStatus.CONFIRMED) {
+                    return booking;
+                }
+
+                const qrCode = booking.qrCode ?? (await this.issueMissingQrCode(booking));
+                const bookingSeats = booking.bookingSeats && (await Promise.all(
+                    booking.bookingSeats.map(async (seat) => ({
+                        ...seat,
+                        qrCode: seat.qrCode ?? (await this.issueMissingSeatQrCode(booking, seat.id)),
+                    }))
+                ));
+
+                return { ...booking, qrCode, ...(bookingSeats && { bookingSeats }) };
+            })
+        );
+    }
+
+    /**
+     * Give an owner's bookings their QR codes for the app
+     * Bookings the app shows rotating codes for (see getTicketSecret) get no static codes, so a
+     * screenshot of one cannot be passed around; those stay valid for printed and admin tickets
+     */
+    async attachOwnerQrCodes<T extends TicketHolderBooking>(bookings: T[]): Promise<T[]> {
+        const withQrCodes = await this.attachQrCodes(bookings);
+        const rotating = new Set(await bookingRepository.findIdsWithTicketSecret(bookings.map((booking) => booking.id)));
+
+        return withQrCodes.map((booking) => (rotating.has(booking.id) ? this.hideQrCodes(booking) : booking));
+    }
+
+    /**
+     * Strip the QR codes (booking and seats) from a booking shown to someone other than its owner
+     */
+    hideQrCodes<T extends TicketHolderBooking>(booking: T): T {
+        return {
+            ...booking,
+            qrCode: null,
+            ...(booking.bookingSeats && {
+                bookingSeats: booking.bookingSeats.map((seat) => ({ ...seat, qrCode: null })),
+            }),
+        };
+    }
+
+    /**
+     * Get the secret the holder's app derives rotating ticket codes from (issued on first request)
+     * The app shows WLD1.<bookingId>.<code>, where code is the TOTP (RFC 6238) of the secret, and no
+     * longer gets the static QR code. Issuing the secret replaces the static codes, so screenshots
+     * taken before stop working (scans, manifests and synced scans only know the new codes); the new
+     * ones are the fallback for printed and admin tickets
+     */
+    async getTicketSecret(bookingId: string, userId: string) {
+        const booking = await bookingRepository.findById(bookingId);
+        if (!booking || booking.userId !== userId) {
+            throw new NotFoundException('Booking not found');
+        }
+
+        if (
+            !booking.isActive ||
+            (booking.status !== BookingStatus.CONFIRMED && booking.status !== BookingStatus.COMPLETED)
+        ) {
+            throw new BadRequestException('Ticket codes are only available for confirmed bookings');
+        }
+
+        let secret = await bookingRepository.findTicketSecret(bookingId);
+        if (!secret) {
+            const issued = generateTicketSecret();
+            secret = (await bookingRepository.createTicketSecretIfMissing(bookingId, issued, this.issueQrCode(booking)))
+                ? issued
+                : await bookingRepository.findTicketSecret(bookingId);
+        }
+
+        return {
+            bookingId,
+            secret,
+            algorithm: 'SHA1',
+            digits: ROTATING_CODE_DIGITS,
+            period: config.ROTATING_TICKET_CODE_PERIOD,
+            codeFormat: `${ROTATING_CODE_PREFIX}.${bookingId}.<code>`,
+        };
+    }
+
+    /**
+     * Ensure a worker is assigned to a schedule and get the schedule's check-in window
+     */
+    private async getCheckInWindow(
+        workerId: string,
+        scheduleId: string
+    ): Promise<{ opensAt: Date; closesAt: Date; eventId: string }> {
+        const isAssigned = await scheduleWorkerRepository.isAssigned(scheduleId, workerId);
+        if (!isAssigned) {
+            throw new ForbiddenException('You are not assigned to this schedule', {
+                reason: TICKET_REJECTION_REASONS.NOT_ASSIGNED,
+            });
+        }
+
+        const schedule = await scheduleRepository.findById(scheduleId);
+        if (!schedule) {
+            throw new NotFoundException('Schedule not found');
+        }
+
+        return {
+            opensAt: new Date(schedule.startAt.getTime() - config.CHECK_IN_OPENS_BEFORE_START * 1000),
+            closesAt: new Date(schedule.endAt.getTime() + config.CHECK_IN_CLOSES_AFTER_END * 1000),
+            eventId: schedule.eventId,
+        };
+    }
+
+    /**
+     * Ensure an admission time falls within the check-in window
+     */
+    private assertWithinWindow(window: { opensAt: Date; closesAt: Date }, at: Date): void {
+        if (at < window.opensAt) {
+            throw new BadRequestException(`Check-in opens at ${window.opensAt.toISOString()}`, {
+                reason: TICKET_REJECTION_REASONS.CHECK_IN_CLOSED,
+            });
+        }
+
+        if (at > window.closesAt) {
+            throw new BadRequestException('Check-in for this schedule has closed', {
+                reason: TICKET_REJECTION_REASONS.CHECK_IN_CLOSED,
+            });
+        }
+    }
+
+    /**
+     * Ensure a worker is assigned to a schedule and its check-in window is open now
+     */
+    private async assertCanCheckIn(workerId: string, scheduleId: string): Promise<void> {
+        const window = await this.getCheckInWindow(workerId, scheduleId);
+        this.assertWithinWindow(window, new Date());
+    }
+
+    /**
+     * Find the booking of a rotating code shown by the holder's app, valid at a time
+     * Offline scans are only trusted back to ROTATING_TICKET_CODE_MAX_SYNC_AGE, so a device clock set
+     * back cannot make an old screenshot valid
+     */
+    private async findRotatingCodeBooking(
+        rotating: { bookingId: string; digits: string },
+        at: Date
+    ): Promise<CheckInBooking> {
+        if (Date.now() - at.getTime() > config.ROTATING_TICKET_CODE_MAX_SYNC_AGE * 1000) {
+            throw new BadRequestException('This code was scanned too long ago to be checked', {
+                reason: TICKET_REJECTION_REASONS.CODE_EXPIRED,
+            });
+        }
+
+        const secret = await bookingRepository.findTicketSecret(rotating.bookingId);
+        if (!secret) {
+            // Rotated since (the booking changed hands)
+            throw new NotFoundException('This ticket is no longer valid', {
+                reason: TICKET_REJECTION_REASONS.REVOKED,
+            });
+        }
+
+        if (!verifyRotatingCode(secret, rotating.digits, at)) {
+            throw new BadRequestException('This code is invalid or has expired. Ask the holder to refresh their ticket.', {
+                reason: TICKET_REJECTION_REASONS.CODE_EXPIRED,
+            });
+        }
+
+        const booking = await bookingRepository.findForCheckIn(rotating.bookingId);
+        if (!booking) {
+            throw new NotFoundException('This ticket is no longer valid', {
+                reason: TICKET_REJECTION_REASONS.REVOKED,
+            });
+        }
+
+        return booking;
+    }
+
+    /**
+     * Verify a scanned code and find its booking (and seat, for a seat code)
+     * Rotating codes are checked against the time of the scan
+     */
+    private async findScannedBooking(
+        code: string,
+        scheduleId: string,
+        at: Date = new Date()
+    ): Promise<{ booking: CheckInBooking; bookingSeatId: string | null }> {
+        const rotating = parseRotatingCode(code);
+        if (rotating) {
+            return { booking: await this.findRotatingCodeBooking(rotating, at), bookingSeatId: null };
+        }
+
+        const payload = verifyTicketCode(code);
+        if (!payload) {
+            throw new BadRequestException('This QR code is not a valid ticket', {
+                reason: TICKET_REJECTION_REASONS.INVALID_CODE,
+            });
+        }
+
+        if (payload.scheduleId && payload.scheduleId !== scheduleId) {
+            throw new BadRequestException('This ticket is for a different schedule', {
+                reason: TICKET_REJECTION_REASONS.WRONG_SCHEDULE,
+            });
+        }
+
+        const bookingSeatId = payload.bookingSeatId ?? null;
+        const booking = bookingSeatId
+            ? await bookingRepository.findBySeatQrCode(code)
+            : await bookingRepository.findByQrCode(code);
+        if (
+            !booking ||
+            booking.id !== payload.bookingId ||
+            (bookingSeatId && !booking.bookingSeats.some((seat: CheckInSeat) => seat.id === bookingSeatId))
+        ) {
+            // Signed by us but replaced since (e.g. the booking was transferred)
+            throw new NotFoundException('This ticket is no longer valid', {
+                reason: TICKET_REJECTION_REASONS.REVOKED,
+            });
+        }
+
+        return { booking, bookingSeatId };
+    }
+
+    /**
+     * Get an active gate to scan at
+     */
+    private async getGate(locationGateId: string): Promise<ScanGate> {
+        const gate = await locationGateRepository.findById(locationGateId);
+        if (!gate || !gate.active) {
+            throw new BadRequestException('Gate not found or inactive', {
+                reason: TICKET_REJECTION_REASONS.INVALID_GATE,
+            });
+        }
+
+        return gate;
+    }
+
+    /**
+     * Whether a seat (null for a ticket without seats) may enter at a gate; anyone may without a gate
+     */
+    private gateAdmits(gate: ScanGate | null | undefined, seat: CheckInSeat | null): boolean {
+        if (!gate) {
+            return true;
+        }
+
+        if (!seat) {
+            return gate.allowsGeneralAdmission;
+        }
+
+        return gate.gateZones.some((gateZone) => gateZone.locationZone.code === seat.zoneCode);
+    }
+
+    private zoneNotAllowed(gate: ScanGate | null | undefined, booking: CheckInBooking): ForbiddenException {
+        return new ForbiddenException('This ticket cannot enter at this gate', {
+            reason: TICKET_REJECTION_REASONS.ZONE_NOT_ALLOWED,
+            allowedZones: gate?.gateZones.map((gateZone) => gateZone.locationZone.code) ?? [],
+            allowsGeneralAdmission: gate?.allowsGeneralAdmission ?? false,
+            ticket: this.toTicketSummary(booking),
+        });
+    }
+
+    private concurrentScan(): ConflictException {
+        return new ConflictException('This ticket was just scanned at another gate. Scan it again.', {
+            reason: TICKET_REJECTION_REASONS.CONCURRENT_SCAN,
+        });
+    }
+
+    /**
+     * Ensure a seat code scan lets one person through
+     */
+    private assertSingleSeat(booking: CheckInBooking, quantity: number | undefined): void {
+        if (quantity !== undefined && quantity > 1) {
+            throw new BadRequestException('A seat ticket admits one person', {
+                reason: TICKET_REJECTION_REASONS.QUANTITY_EXCEEDED,
+                ticket: this.toTicketSummary(booking),
+            });
+        }
+    }
+
+    /**
+     * Let people on a booking through a gate
+     * Exits, and entries of people admitted once already, go through the event's re-entry policy;
+     * every other entry is a first admission
+     */
+    private async passGate(
+        booking: CheckInBooking,
+        scheduleId: string,
+        quantity: number | undefined,
+        method: CheckInMethod,
+        context: CheckInContext,
+        scan: ScanOptions = {}
+    ) {
+        this.assertAdmissible(booking, scheduleId);
+
+        if (scan.gate && scan.gate.locationId !== booking.event.locationId) {
+            throw new BadRequestException('This gate is not at the venue of this ticket', {
+                reason: TICKET_REJECTION_REASONS.INVALID_GATE,
+            });
+        }
+
+        // Zone rules only hold if every entry at a venue with gates goes through one
+        if (!scan.gate && (await locationGateRepository.hasActiveGates(booking.event.locationId))) {
+            throw new BadRequestException('Choose the gate you are scanning at', {
+                reason: TICKET_REJECTION_REASONS.INVALID_GATE,
+            });
+        }
+
+        if (scan.direction === CheckInDirection.OUT) {
+            return await this.exit(booking, scheduleId, quantity, method, context, scan);
+        }
+
+        const seat = scan.bookingSeatId
+            ? booking.bookingSeats.find((bookingSeat: CheckInSeat) => bookingSeat.id === scan.bookingSeatId)
+            : null;
+        const isFirstEntry = seat ? !seat.admittedAt : booking.usedQuantity < booking.quantity;
+
+        return isFirstEntry
+            ? await this.admit(booking, scheduleId, quantity, method, context, scan)
+            : await this.reEnter(booking, scheduleId, quantity, method, context, scan);
+    }
+
+    /**
+     * Admit quantity people on a booking for the first time and record the check-in
+     * quantity defaults to every remaining entry of the booking. Seated bookings are admitted
+     * seat by seat: a seat code admits its seat, otherwise the next seats in seat order that
+     * may enter at the gate are admitted, and the booking is COMPLETED once all its seats are in
+     */
+    private async admit(
+        booking: CheckInBooking,
+        scheduleId: string,
+        quantity: number | undefined,
+        method: CheckInMethod,
+        context: CheckInContext,
+        scan: ScanOptions
+    ) {
+        const seats: CheckInSeat[] = booking.bookingSeats;
+        const pendingSeats = seats.filter((seat) => !seat.admittedAt);
+        const remainingEntries = booking.quantity - booking.usedQuantity;
+        let seatsToAdmit: CheckInSeat[];
+        let admittedQuantity: number;
+
+        if (scan.bookingSeatId) {
+            const seat = seats.find((bookingSeat) => bookingSeat.id === scan.bookingSeatId)!;
+            this.assertSingleSeat(booking, quantity);
+            if (!this.gateAdmits(scan.gate, seat)) {
+                throw this.zoneNotAllowed(scan.gate, booking);
+            }
+
+            seatsToAdmit = [seat];
+            admittedQuantity = 1;
+        } else {
+            const eligibleSeats = pendingSeats.filter((seat) => this.gateAdmits(scan.gate, seat));
+            admittedQuantity = quantity ?? (seats.length > 0 ? eligibleSeats.length : remainingEntries);
+
+            if (admittedQuantity > remainingEntries) {
+                throw new BadRequestException(
+                    `Only ${remainingEntries} entr${remainingEntries === 1 ? 'y is' : 'ies are'} left on this ticket`,
+                    {
+                        reason: TICKET_REJECTION_REASONS.QUANTITY_EXCEEDED,
+                        ticket: this.toTicketSummary(booking),
+                    }
+                );
+            }
+
+            if (seats.length > 0 ? admittedQuantity > eligibleSeats.length : !this.gateAdmits(scan.gate, null)) {
+                throw this.zoneNotAllowed(scan.gate, booking);
+            }
+
+            seatsToAdmit = eligibleSeats.slice(0, admittedQuantity);
+        }
+
+        const scannedAt = scan.scannedAt ?? new Date();
+        const usedQuantity = booking.usedQuantity + admittedQuantity;
+        const isComplete = seats.length > 0
+            ? seatsToAdmit.length === pendingSeats.length
+            : usedQuantity >= booking.quantity;
+        const status = isComplete ? BookingStatus.COMPLETED : BookingStatus.CONFIRMED;
+        const checkedInAt = booking.checkedInAt && booking.checkedInAt < scannedAt ? booking.checkedInAt : scannedAt;
+
+        const checkIn = await prisma.$transaction(async (tx: any) => {
+            const admitted = await bookingRepository.recordAdmission(
+                booking.id,
+                booking.usedQuantity,
+                usedQuantity,
+                status,
+                checkedInAt,
+                tx
+            );
+            if (!admitted) {
+                throw this.concurrentScan();
+            }
+
+            const created = await checkInRepository.create({
+                bookingId: booking.id,
+                scheduleId,
+                workerId: context.workerId,
+                quantity: admittedQuantity,
+                method,
+                locationGateId: scan.gate?.id ?? null,
+                deviceId: context.deviceId ?? null,
+                scannedAt,
+                clientScanId: scan.clientScanId ?? null,
+            }, tx);
+
+            if (seatsToAdmit.length > 0) {
+                const admittedSeats = await bookingRepository.admitSeats(
+                    seatsToAdmit.map((seat) => seat.id),
+                    created.id,
+                    scannedAt,
+                    tx
+                );
+                if (admittedSeats !== seatsToAdmit.length) {
+                    throw this.concurrentScan();
+                }
+            }
+
+            return created;
+        });
+
+        logger.info(
+            `Booking ${booking.bookingNumber} checked in by worker ${context.workerId}: ` +
+            `admitted ${admittedQuantity}, used ${usedQuantity}/${booking.quantity}`
+        );
+
+        const seatIds = seatsToAdmit.map((seat) => seat.id);
+
+        return {
+            direction: CheckInDirection.IN,
+            isReEntry: false,
+            admitted: admittedQuantity,
+            exited: 0,
+            checkInId: checkIn.id,
+            seatIds,
+            ticket: this.toTicketSummary({
+                ...booking,
+                usedQuantity,
+                insideQuantity: booking.insideQuantity + admittedQuantity,
+                status,
+                checkedInAt,
+                bookingSeats: booking.bookingSeats.map((seat: CheckInSeat) =>
+                    seatIds.includes(seat.id) ? { ...seat, admittedAt: scannedAt, isInside: true } : seat
+                ),
+            }),
+        };
+    }
+
+    /**
+     * Let people who were admitted and went out back in, as the event's re-entry policy allows
+     * Without re-entry a used ticket stays used
+     */
+    private async reEnter(
+        booking: CheckInBooking,
+        scheduleId: string,
+        quantity: number | undefined,
+        method: CheckInMethod,
+        context: CheckInContext,
+        scan: ScanOptions
+    ) {
+        const { reEntryPolicy, maxReEntries } = booking.event;
+        if (reEntryPolicy === ReEntryPolicy.NONE) {
+            throw new ConflictException(
+                scan.bookingSeatId ? 'This seat has already been admitted' : 'This ticket has already been used',
+                {
+                    reason: TICKET_REJECTION_REASONS.ALREADY_USED,
+                    ticket: this.toTicketSummary(booking),
+                }
+            );
+        }
+
+        const seats: CheckInSeat[] = booking.bookingSeats;
+        const outsideSeats = seats.filter((seat) => seat.admittedAt && !seat.isInside);
+        const outside = seats.length > 0 ? outsideSeats.length : booking.usedQuantity - booking.insideQuantity;
+        let seatsToMove: CheckInSeat[];
+        let movingQuantity: number;
+
+        if (scan.bookingSeatId) {
+            const seat = seats.find((bookingSeat) => bookingSeat.id === scan.bookingSeatId)!;
+            if (seat.isInside) {
+                throw new ConflictException('This seat is already inside', {
+                    reason: TICKET_REJECTION_REASONS.ALREADY_INSIDE,
+                    ticket: this.toTicketSummary(booking),
+                });
+            }
+
+            this.assertSingleSeat(booking, quantity);
+            if (!this.gateAdmits(scan.gate, seat)) {
+                throw this.zoneNotAllowed(scan.gate, booking);
+            }
+
+            seatsToMove = [seat];
+            movingQuantity = 1;
+        } else {
+            if (outside <= 0) {
+                throw new ConflictException('Everyone on this ticket is already inside', {
+                    reason: TICKET_REJECTION_REASONS.ALREADY_INSIDE,
+                    ticket: this.toTicketSummary(booking),
+                });
+            }
+
+            const eligibleSeats = outsideSeats.filter((seat) => this.gateAdmits(scan.gate, seat));
+            movingQuantity = quantity ?? (seats.length > 0 ? eligibleSeats.length : outside);
+
+            if (movingQuantity > outside) {
+                throw new BadRequestException(`Only ${outside} on this ticket ${outside === 1 ? 'is' : 'are'} out`, {
+                    reason: TICKET_REJECTION_REASONS.QUANTITY_EXCEEDED,
+                    ticket: this.toTicketSummary(booking),
+                });
+            }
+
+            if (seats.length > 0 ? movingQuantity > eligibleSeats.length : !this.gateAdmits(scan.gate, null)) {
+                throw this.zoneNotAllowed(scan.gate, booking);
+            }
+
+            seatsToMove = eligibleSeats.slice(0, movingQuantity);
+        }
+
+        // maxReEntries is per person, pooled across the people on the booking
+        if (
+            reEntryPolicy === ReEntryPolicy.LIMITED &&
+            booking.reEntryCount + movingQuantity > (maxReEntries ?? 0) * booking.quantity
+        ) {
+            throw new ConflictException('This ticket has no re-entries left', {
+                reason: TICKET_REJECTION_REASONS.RE_ENTRY_LIMIT_REACHED,
+                ticket: this.toTicketSummary(booking),
+            });
+        }
+
+        return await this.recordMovement(booking, scheduleId, movingQuantity, seatsToMove, method, context, {
+            ...scan,
+            direction: CheckInDirection.IN,
+        });
+    }
+
+    /**
+     * Let people on a booking out, so they can come back in under the event's re-entry policy
+     * Exits are not limited to the gate's zones
+     */
+    private async exit(
+        booking: CheckInBooking,
+        scheduleId: string,
+        quantity: number | undefined,
+        method: CheckInMethod,
+        context: CheckInContext,
+        scan: ScanOptions
+    ) {
+        if (booking.event.reEntryPolicy === ReEntryPolicy.NONE) {
+            throw new BadRequestException('This event does not allow leaving and coming back in', {
+                reason: TICKET_REJECTION_REASONS.RE_ENTRY_NOT_ALLOWED,
+                ticket: this.toTicketSummary(booking),
+            });
+        }
+
+        const seats: CheckInSeat[] = booking.bookingSeats;
+        const insideSeats = seats.filter((seat) => seat.isInside);
+        let seatsToMove: CheckInSeat[];
+        let movingQuantity: number;
+
+        if (scan.bookingSeatId) {
+            const seat = seats.find((bookingSeat) => bookingSeat.id === scan.bookingSeatId)!;
+            if (!seat.isInside) {
+                throw new ConflictException('This seat is not inside', {
+                    reason: TICKET_REJECTION_REASONS.NOT_INSIDE,
+                    ticket: this.toTicketSummary(booking),
+                });
+            }
+
+            this.assertSingleSeat(booking, quantity);
+            seatsToMove = [seat];
+            movingQuantity = 1;
+        } else {
+            const inside = seats.length > 0 ? insideSeats.length : booking.insideQuantity;
+            if (inside <= 0) {
+                throw new ConflictException('Nobody on this ticket is inside', {
+                    reason: TICKET_REJECTION_REASONS.NOT_INSIDE,
+                    ticket: this.toTicketSummary(booking),
+                });
+            }
+
+            movingQuantity = quantity ?? inside;
+            if (movingQuantity > inside) {
+                throw new BadRequestException(`Only ${inside} on this ticket ${inside === 1 ? 'is' : 'are'} inside`, {
+                    reason: TICKET_REJECTION_REASONS.QUANTITY_EXCEEDED,
+                    ticket: this.toTicketSummary(booking),
+                });
+            }
+
+            seatsToMove = insideSeats.slice(0, movingQuantity);
+        }
+
+        return await this.recordMovement(booking, scheduleId, movingQuantity, seatsToMove, method, context, {
+            ...scan,
+            direction: CheckInDirection.OUT,
+        });
+    }
+
+    /**
+     * Record people re-entering (direction IN) or going out (direction OUT) on an admitted booking
+     */
+    private async recordMovement(
+        booking: CheckInBooking,
+        scheduleId: string,
+        quantity: number,
+        seats: CheckInSeat[],
+        method: CheckInMethod,
+        context: CheckInContext,
+        scan: ScanOptions & { direction: CheckInDirection }
+    ) {
+        const isReEntry = scan.direction === CheckInDirection.IN;
+        const scannedAt = scan.scannedAt ?? new Date();
+        const insideQuantity = booking.insideQuantity + (isReEntry ? quantity : -quantity);
+        const seatIds = seats.map((seat) => seat.id);
+
+        const checkIn = await prisma.$transaction(async (tx: any) => {
+            const recorded = await bookingRepository.recordPresence(
+                booking.id,
+                booking.insideQuantity,
+                insideQuantity,
+                isReEntry ? quantity : 0,
+                tx
+            );
+            if (!recorded) {
+                throw this.concurrentScan();
+            }
+
+            const created = await checkInRepository.create({
+                bookingId: booking.id,
+                scheduleId,
+                workerId: context.workerId,
+                quantity,
+                method,
+                direction: scan.direction,
+                isReEntry,
+                locationGateId: scan.gate?.id ?? null,
+                deviceId: context.deviceId ?? null,
+                scannedAt,
+                clientScanId: scan.clientScanId ?? null,
+            }, tx);
+
+            if (seatIds.length > 0) {
+                const movedSeats = await bookingRepository.setSeatsInside(seatIds, isReEntry, tx);
+                if (movedSeats !== seatIds.length) {
+                    throw this.concurrentScan();
+                }
+            }
+
+            return created;
+        });
+
+        logger.info(
+            `Booking ${booking.bookingNumber} ${isReEntry ? 're-entry' : 'exit'} recorded by worker ` +
+            `${context.workerId}: ${quantity}, inside ${insideQuantity}/${booking.usedQuantity}`
+        );
+
+        return {
+            direction: scan.direction,
+            isReEntry,
+            admitted: isReEntry ? quantity : 0,
+            exited: isReEntry ? 0 : quantity,
+            checkInId: checkIn.id,
+            seatIds,
+            ticket: this.toTicketSummary({
+                ...booking,
+                insideQuantity,
+                reEntryCount: booking.reEntryCount + (isReEntry ? quantity : 0),
+                bookingSeats: booking.bookingSeats.map((seat: CheckInSeat) =>
+                    seatIds.includes(seat.id) ? { ...seat, isInside: isReEntry } : seat
+                ),
+            }),
+        };
+    }
+
+    /**
+     * Validate a scanned QR code at the gate and let its holder(s) in or out
+     */
+    async scanTicket(input: ScanTicketInput, context: CheckInContext) {
+        await this.assertCanCheckIn(context.workerId, input.scheduleId);
+
+        const gate = input.locationGateId ? await this.getGate(input.locationGateId) : null;
+        const { booking, bookingSeatId } = await this.findScannedBooking(input.code, input.scheduleId);
+
+        return await this.passGate(booking, input.scheduleId, input.quantity, CheckInMethod.QR_SCAN, context, {
+            bookingSeatId,
+            gate,
+            direction: input.direction,
+        });
+    }
+
+    /**
+     * Admit people on a booking looked up by ID (manual check-in without the QR code)
+     * locationGateId is required at venues with active gates, as for scans
+     */
+    async checkInBooking(bookingId: string, quantity: number, context: CheckInContext, locationGateId?: string) {
+        const booking = await bookingRepository.findForCheckIn(bookingId);
+        if (!booking) {
+            throw new NotFoundException('Booking not found');
+        }
+
+        if (!booking.scheduleId) {
+            throw new BadRequestException('This booking has no schedule to check in to');
+        }
+
+        await this.assertCanCheckIn(context.workerId, booking.scheduleId);
+
+        const gate = locationGateId ? await this.getGate(locationGateId) : null;
+
+        return await this.passGate(booking, booking.scheduleId, quantity, CheckInMethod.MANUAL, context, { gate });
+    }
+
+    /**
+     * Get the public key gate devices verify offline manifests with
+     */
+    getManifestKey() {
+        return getManifestPublicKey();
+    }
+
+    /**
+     * Build the offline manifest of a schedule for a gate device
+     * Lists every paid ticket by the SHA-256 hash of its QR code with its remaining entries, who is
+     * inside and whether its holder shows rotating codes, with the event's re-entry policy and the venue's
+     * gates, signed with the manifest key so devices can verify the content as issued by us.
+     * Rotating code secrets are left out, so a copied manifest cannot produce codes; their codes are
+     * checked when the scans are synced
+     */
+    async getManifest(scheduleId: string, workerId: string, language: SupportedLanguage) {
+        const window = await this.getCheckInWindow(workerId, scheduleId);
+
+        const event = await eventRepository.findById(window.eventId);
+        if (!event) {
+            throw new NotFoundException('Event not found');
+        }
+
+        const bookings = await this.attachQrCodes<ManifestBooking>(await bookingRepository.findForManifest(scheduleId));
+        const gates = await locationGateRepository.findByLocationId(event.locationId, true);
+
+        const tickets = bookings
+            .filter((booking) => booking.qrCode)
+            .map((booking) => ({
+                codeHash: hashTicketCode(booking.qrCode!),
+                bookingId: booking.id,
+                bookingNumber: booking.bookingNumber,
+                status: booking.status,
+                holderName: booking.user.name,
+                quantity: booking.quantity,
+                usedQuantity: booking.usedQuantity,
+                remainingEntries: booking.quantity - booking.usedQuantity,
+                insideQuantity: booking.insideQuantity,
+                reEntryCount: booking.reEntryCount,
+                usesRotatingCodes: booking.ticketSecret !== null,
+                bookingItems: booking.bookingItems.map((item) => ({
+                    name: localizeField(item.name, language),
+                    quantity: item.quantity,
+                })),
+                seats: booking.bookingSeats.map((seat) => ({
+                    bookingSeatId: seat.id,
+                    codeHash: seat.qrCode ? hashTicketCode(seat.qrCode) : null,
+                    zoneCode: seat.zoneCode,
+                    sectionCode: seat.sectionCode,
+                    rowNumberSnapshot: seat.rowNumberSnapshot,
+                    seatNumberSnapshot: seat.seatNumberSnapshot,
+                    admittedAt: seat.admittedAt,
+                    isInside: seat.isInside,
+                })),
+            }));
+
+        const manifest = {
+            keyId: getManifestPublicKey().keyId,
+            scheduleId,
+            checkInOpensAt: window.opensAt.toISOString(),
+            checkInClosesAt: window.closesAt.toISOString(),
+            generatedAt: new Date().toISOString(),
+            reEntryPolicy: event.reEntryPolicy,
+            maxReEntries: event.maxReEntries,
+            rotatingCode: {
+                prefix: ROTATING_CODE_PREFIX,
+                digits: ROTATING_CODE_DIGITS,
+            },
+            gates: gates.map((gate: ScanGate & { code: string; name: unknown }) => ({
+                locationGateId: gate.id,
+                code: gate.code,
+                name: localizeField(gate.name, language),
+                allowsGeneralAdmission: gate.allowsGeneralAdmission,
+                zoneCodes: gate.gateZones.map((gateZone) => gateZone.locationZone.code),
+            })),
+            ticketCount: tickets.length,
+            tickets,
+        };
+
+        return {
+            ...manifest,
+            signature: signManifest(manifest),
+        };
+    }
+
+    /**
+     * Reconcile a batch of scans a gate device made offline
+     * Scans are applied in scan-time order, entries and exits alike, at the gate the device scans for.
+     * A scan already synced by the device is reported as DUPLICATE.
+     * A ticket that ran out of entries (e.g. scanned at two gates) is reported as CONFLICT with the
+     * admission that used it; a scan asking for more entries than are left admits what is left.
+     */
+    async syncScans(input: SyncScansInput, context: CheckInContext & { deviceId: string }) {
+        const window = await this.getCheckInWindow(context.workerId, input.scheduleId);
+        const gate = input.locationGateId ? await this.getGate(input.locationGateId) : null;
+
+        const synced = await checkInRepository.findByClientScanIds(
+            context.deviceId,
+            input.scans.map((scan) => scan.scanId)
+        );
+        const syncedByScanId = new Map(synced.map((checkIn) => [checkIn.clientScanId, checkIn]));
+
+        const now = new Date();
+        const results = new Map<string, ScanSyncResult>();
+        const scans = [...input.scans].sort(
+            (a, b) => new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime()
+        );
+
+        for (const scan of scans) {
+            const previous = syncedByScanId.get(scan.scanId);
+            if (previous) {
+                results.set(scan.scanId, {
+                    scanId: scan.scanId,
+                    status: SCAN_SYNC_STATUSES.DUPLICATE,
+                    admitted: 0,
+                    checkInId: previous.id,
+                });
+                continue;
+            }
+
+            // Device clocks can run ahead; a scan cannot have happened after it was uploaded
+            const scannedAt = new Date(Math.min(new Date(scan.scannedAt).getTime(), now.getTime()));
+
+            results.set(scan.scanId, await this.syncScan(scan, scannedAt, input.scheduleId, window, gate, context));
+        }
+
+        const report = input.scans.map((scan) => results.get(scan.scanId)!);
+        const count = (status: string) => report.filter((result) => result.status === status).length;
+
+        logger.info(
+            `Synced ${report.length} offline scan(s) for schedule ${input.scheduleId} from device ${context.deviceId}`
+        );
+
+        return {
+            scheduleId: input.scheduleId,
+            deviceId: context.deviceId,
+            summary: {
+                total: report.length,
+                admitted: count(SCAN_SYNC_STATUSES.ADMITTED),
+                exited: count(SCAN_SYNC_STATUSES.EXITED),
+                duplicate: count(SCAN_SYNC_STATUSES.DUPLICATE),
+                conflict: count(SCAN_SYNC_STATUSES.CONFLICT),
+                rejected: count(SCAN_SYNC_STATUSES.REJECTED),
+            },
+            results: report,
+        };
+    }
+
+    /**
+     * Apply one offline scan; never throws for a ticket that cannot be admitted
+     */
+    private async syncScan(
+        scan: SyncScansInput['scans'][number],
+        scannedAt: Date,
+        scheduleId: string,
+        window: { opensAt: Date; closesAt: Date },
+        gate: ScanGate | null,
+        context: CheckInContext
+    ): Promise<ScanSyncResult> {
+        // Retried when an online gate admits on the same booking at the same moment
+        for (let attempt = 1; ; attempt++) {
+            try {
+                this.assertWithinWindow(window, scannedAt);
+
+                const { booking, bookingSeatId } = await this.findScannedBooking(scan.code, scheduleId, scannedAt);
+
+                // A seat code always moves its one seat; a group entry asking for more
+                // first admissions than are left admits what is left
+                const direction = scan.direction ?? CheckInDirection.IN;
+                const remainingEntries = booking.quantity - booking.usedQuantity;
+                const partial = direction === CheckInDirection.IN &&
+                    !bookingSeatId &&
+                    remainingEntries > 0 &&
+                    scan.quantity !== undefined &&
+                    scan.quantity > remainingEntries;
+
+                const result = await this.passGate(
+                    booking,
+                    scheduleId,
+                    bookingSeatId ? undefined : partial ? remainingEntries : scan.quantity,
+                    CheckInMethod.OFFLINE_SYNC,
+                    context,
+                    { scannedAt, clientScanId: scan.scanId, bookingSeatId, gate, direction }
+                );
+
+                let status: ScanSyncResult['status'] = SCAN_SYNC_STATUSES.ADMITTED;
+                if (partial) {
+                    status = SCAN_SYNC_STATUSES.CONFLICT;
+                } else if (direction === CheckInDirection.OUT) {
+                    status = SCAN_SYNC_STATUSES.EXITED;
+                }
+
+                return {
+                    scanId: scan.scanId,
+                    status,
+                    ...(partial && {
+                        reason: TICKET_REJECTION_REASONS.QUANTITY_EXCEEDED,
+                        message: `Only ${remainingEntries} of ${scan.quantity} entries were left on this ticket`,
+                    }),
+                    admitted: result.admitted,
+                    exited: result.exited,
+                    checkInId: result.checkInId,
+                    bookingNumber: result.ticket.bookingNumber,
+                };
+            } catch (error: any) {
+                if (error?.code === 'P2002') {
+                    // Synced by a concurrent upload of the same batch
+                    return { scanId: scan.scanId, status: SCAN_SYNC_STATUSES.DUPLICATE, admitted: 0 };
+                }
+
+                if (!(error instanceof HttpException)) {
+                    throw error;
+                }
+
+                const reason = error.errors?.reason;
+                if (reason === TICKET_REJECTION_REASONS.CONCURRENT_SCAN && attempt < 3) {
+                    continue;
+                }
+
+                const base = {
+                    scanId: scan.scanId,
+                    reason,
+                    message: error.message,
+                    admitted: 0,
+                    bookingNumber: error.errors?.ticket?.bookingNumber,
+                };
+
+                // Let in (or out) already, e.g. at another gate
+                if (
+                    reason === TICKET_REJECTION_REASONS.ALREADY_USED ||
+                    reason === TICKET_REJECTION_REASONS.ALREADY_INSIDE ||
+                    reason === TICKET_REJECTION_REASONS.NOT_INSIDE
+                ) {
+                    const latest = await checkInRepository.findLatestByBookingId(error.errors.ticket.bookingId);
+                    return {
+                        ...base,
+                        status: SCAN_SYNC_STATUSES.CONFLICT,
+                        conflictingCheckIn: latest
+                            ? { id: latest.id, deviceId: latest.deviceId, scannedAt: latest.scannedAt }
+                            : undefined,
+                    };
+                }
+
+                return { ...base, status: SCAN_SYNC_STATUSES.REJECTED };
+            }
+        }
+    }
+}
+
+export const ticketService = new TicketService();
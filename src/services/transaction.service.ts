@@ -6,6 +6,7 @@ import {
 } from '../exceptions/http.exception';
 import { TransactionRepository } from '../repositories/transaction.repository';
 import { WalletRepository } from '../repositories/wallet.repository';
+import { waitlistService } from './waitlist.service';
 
 const transactionRepository = new TransactionRepository();
 const walletRepository = new WalletRepository();
@@ -160,6 +161,10 @@ export class TransactionService {
 
             logger.info(`Transaction ${transactionId} cancelled.`);
 
+            await waitlistService.releaseToWaitlist(
+                cancelledTransaction.bookings.map((booking: { scheduleId: string | null }) => booking.scheduleId)
+            );
+
             return {
                 success: true,
                 message: 'Transaction cancelled successfully',
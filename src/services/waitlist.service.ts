@@ -0,0 +1,381 @@
+import { WaitlistEntry, WaitlistStatus } from '@prisma/client';
+
+import { config, logger } from '../config';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '../exceptions/http.exception';
+import eventRepository from '../repositories/event.repository';
+import { LocationRepository } from '../repositories/location.repository';
+import { notificationRepository } from '../repositories/notification.repository';
+import { scheduleRepository } from '../repositories/schedule.repository';
+import { waitlistRepository } from '../repositories/waitlist.repository';
+import { JoinWaitlistInput } from '../schemas/waitlist.schema';
+import { localizeField, SupportedLanguage } from '../utils/i18n.util';
+import { prisma } from '../utils/prisma.client';
+import { scheduleService } from './schedule.service';
+
+const locationRepository = new LocationRepository();
+
+// Key of the general-admission line of a schedule (seated lines are keyed by zone)
+const GENERAL_ADMISSION = 'GA';
+
+export class WaitlistService {
+    /**
+     * Tickets of a schedule (a zone of it for seated events) a user could buy now
+     * Tickets held by other users' open offers are not counted; null means unlimited
+     */
+    private async getAvailableQuantity(
+        schedule: { id: string; capacity: number | null; soldQuantity: number },
+        locationZoneId: string | null,
+        userId: string | null,
+        tx: any = prisma
+    ): Promise<number | null> {
+        const offered = await waitlistRepository.countOfferedQuantity(schedule.id, locationZoneId, userId, tx);
+
+        if (locationZoneId) {
+            const freeSeats = await waitlistRepository.countFreeZoneSeats(schedule.id, locationZoneId, tx);
+            return Math.max(freeSeats - offered, 0);
+        }
+
+        if (schedule.capacity === null) {
+            return null;
+        }
+        return Math.max(schedule.capacity - schedule.soldQuantity - offered, 0);
+    }
+
+    /**
+     * Join the waitlist of a sold-out schedule
+     * Only allowed when fewer tickets than the desired quantity are left
+     */
+    async joinWaitlist(userId: string, data: JoinWaitlistInput) {
+        const event = await eventRepository.findById(data.eventId);
+        if (!event) {
+            throw new NotFoundException('Event not found');
+        }
+        if (!event.active) {
+            throw new BadRequestException('Event is not active');
+        }
+
+        const schedule = await scheduleService.resolveBookableSchedule(data.eventId, data.scheduleId);
+
+        const locationZoneId = data.locationZoneId ?? null;
+        if (event.haveSeats) {
+            if (!locationZoneId) {
+                throw new BadRequestException('Seated events are waitlisted per zone. Please select a zone.');
+            }
+            const locationZone = await locationRepository.findLocationZoneById(locationZoneId);
+            if (!locationZone || locationZone.locationId !== event.locationId) {
+                throw new NotFoundException('Location zone not found in the event location');
+            }
+        } else if (locationZoneId) {
+            throw new BadRequestException('Zones are only available for seated events');
+        }
+
+        const existing = await waitlistRepository.findActiveEntry(userId, schedule.id, locationZoneId);
+        if (existing) {
+            throw new ConflictException('You are already on the waitlist for this schedule');
+        }
+
+        const available = await this.getAvailableQuantity(schedule, locationZoneId, userId);
+        if (available === null || available >= data.quantity) {
+            throw new BadRequestException('Tickets are still available for this schedule');
+        }
+
+        const entry = await waitlistRepository.create({
+            userId,
+            eventId: data.eventId,
+            scheduleId: schedule.id,
+            locationZoneId,
+            quantity: data.quantity,
+        });
+
+        logger.info(`User ${userId} joined the waitlist of schedule ${schedule.id} for ${data.quantity} ticket(s)`);
+
+        return {
+            ...entry,
+            position: await waitlistRepository.getPosition(entry),
+        };
+    }
+
+    /**
+     * Get the waitlist entries of a user
+     * Waiting entries carry their position in line
+     */
+    async getMyEntries(userId: string, activeOnly = false) {
+        const entries = await waitlistRepository.findByUserId(userId, activeOnly);
+
+        return await Promise.all(
+            entries.map(async (entry: WaitlistEntry) => ({
+                ...entry,
+                position: entry.status === WaitlistStatus.WAITING
+                    ? await waitlistRepository.getPosition(entry)
+                    : null,
+            }))
+        );
+    }
+
+    /**
+     * Leave the waitlist
+     * Tickets held by an open offer go to the next people in line
+     */
+    async leaveWaitlist(userId: string, entryId: string) {
+        const entry = await waitlistRepository.findById(entryId);
+        if (!entry) {
+            throw new NotFoundException('Waitlist entry not found');
+        }
+        if (entry.userId !== userId) {
+            throw new ForbiddenException('This waitlist entry does not belong to you');
+        }
+        if (entry.status !== WaitlistStatus.WAITING && entry.status !== WaitlistStatus.OFFERED) {
+            throw new BadRequestException(`Cannot leave a waitlist entry with status: ${entry.status}`);
+        }
+
+        const cancelled = await waitlistRepository.cancel(entryId);
+
+        if (entry.status === WaitlistStatus.OFFERED) {
+            await this.releaseToWaitlist([entry.scheduleId]);
+        }
+
+        return cancelled;
+    }
+
+    /**
+     * Offer freed tickets of a schedule to the next people in line
+     * Entries are taken in line order; an entry is offered when its whole quantity is free.
+     * Each offer holds the tickets for WAITLIST_OFFER_DURATION and sends an in-app notification
+     * Returns the number of offers made
+     */
+    async processSchedule(scheduleId: string): Promise<number> {
+        return await prisma.$transaction(async (tx: any) => {
+            await waitlistRepository.lockSchedule(scheduleId, tx);
+
+            const now = new Date();
+            await waitlistRepository.expireOffers(now, scheduleId, tx);
+
+            const schedule = await tx.schedule.findUnique({
+                where: { id: scheduleId },
+                select: {
+                    id: true,
+                    endAt: true,
+                    capacity: true,
+                    soldQuantity: true,
+                    event: {
+                        select: { id: true, name: true },
+                    },
+                },
+            });
+            if (!schedule || schedule.endAt < now) {
+                return 0;
+            }
+
+            const waiting = await waitlistRepository.findWaiting(scheduleId, tx);
+            if (waiting.length === 0) {
+                return 0;
+            }
+
+            const offerExpiresAt = new Date(now.getTime() + config.WAITLIST_OFFER_DURATION * 1000);
+            const available = new Map<string, number | null>();
+            let offers = 0;
+
+            for (const entry of waiting) {
+                const key = entry.locationZoneId ?? GENERAL_ADMISSION;
+                if (!available.has(key)) {
+                    available.set(key, await this.getAvailableQuantity(schedule, entry.locationZoneId, null, tx));
+                }
+
+                const free = available.get(key)!;
+                if (free !== null && free < entry.quantity) {
+                    continue;
+                }
+                available.set(key, free === null ? null : free - entry.quantity);
+
+                await waitlistRepository.offer(entry.id, now, offerExpiresAt, tx);
+
+                const language = (entry.user.selectedLanguage ?? 'en') as SupportedLanguage;
+                const eventName = localizeField(schedule.event.name, language);
+                const zoneName = entry.locationZone ? ` (${localizeField(entry.locationZone.name, language)})` : '';
+
+                await notificationRepository.create({
+                    userId: entry.userId,
+                    title: 'Tickets available',
+                    message: `${entry.quantity} ticket(s) for ${eventName}${zoneName} are held for you until ${offerExpiresAt.toISOString()}. Complete your purchase before then.`,
+                    meta: {
+                        type: 'WAITLIST_OFFER',
+                        waitlistEntryId: entry.id,
+                        eventId: schedule.event.id,
+                        scheduleId,
+                        locationZoneId: entry.locationZoneId,
+                        quantity: entry.quantity,
+                        offerExpiresAt: offerExpiresAt.toISOString(),
+                    },
+                }, tx);
+
+                offers++;
+            }
+
+            if (offers > 0) {
+                logger.info(`Waitlist: ${offers} offer(s) made for schedule ${scheduleId}`);
+            }
+
+            return offers;
+        });
+    }
+
+    /**
+     * Offer tickets freed on schedules (cancellations, refunds, expired sessions) to their waitlists
+     * Never throws: failures are logged so the operation that freed the tickets is not affected
+     */
+    async releaseToWaitlist(scheduleIds: Array<string | null | undefined>) {
+        const uniqueIds = Array.from(new Set(scheduleIds.filter((id): id is string => !!id)));
+
+        for (const scheduleId of uniqueIds) {
+            try {
+                await this.processSchedule(scheduleId);
+            } catch (error) {
+                logger.error(`Waitlist processing failed for schedule ${scheduleId}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Expire passed offers (their tickets go to the next people in line)
+     * and the entries of schedules that have ended
+     */
+    async expireStaleOffers() {
+        const now = new Date();
+
+        const scheduleIds = await waitlistRepository.expireOffers(now);
+        const endedCount = await waitlistRepository.expireEndedSchedules(now);
+
+        if (scheduleIds.length > 0 || endedCount > 0) {
+            logger.info(
+                `Waitlist: offers expired on ${scheduleIds.length} schedule(s), ${endedCount} entries of ended schedules expired`
+            );
+        }
+
+        await this.releaseToWaitlist(scheduleIds);
+    }
+
+    /**
+     * Check that seats of a zone can be held by a user
+     * Seats offered to other users on the waitlist are kept for them during their purchase window
+     * @throws ConflictException if taking the seats would eat into open offers
+     */
+    async assertZoneSeatsAvailable(scheduleId: string, locationZoneId: string, userId: string, seatCount: number) {
+        const offered = await waitlistRepository.countOfferedQuantity(scheduleId, locationZoneId, userId);
+        if (offered === 0) {
+            return;
+        }
+
+        const freeSeats = await waitlistRepository.countFreeZoneSeats(scheduleId, locationZoneId);
+        if (freeSeats - offered < seatCount) {
+            throw new ConflictException(
+                'The remaining seats in this zone are held for people on the waitlist. Please try again later.'
+            );
+        }
+    }
+
+    /**
+     * Seats held by other users' open offers per zone of a schedule
+     */
+    async getOfferedSeatsByZone(scheduleId: string, locationZoneIds: string[], userId: string) {
+        const offered = new Map<string, number>();
+        for (const locationZoneId of locationZoneIds) {
+            offered.set(
+                locationZoneId,
+                await waitlistRepository.countOfferedQuantity(scheduleId, locationZoneId, userId)
+            );
+        }
+        return offered;
+    }
+
+    /**
+     * Close the waitlist entries of schedules a user just bought tickets for
+     */
+    async markPurchased(userId: string, scheduleIds: Array<string | null | undefined>, tx?: any) {
+        const uniqueIds = Array.from(new Set(scheduleIds.filter((id): id is string => !!id)));
+        await waitlistRepository.markPurchased(userId, uniqueIds, tx);
+    }
+
+    /**
+     * Waitlist length per schedule and zone of an event
+     * Counts entries still in line: waiting ones and those holding an open offer
+     */
+    async getEventSummary(eventId: string) {
+        const event = await eventRepository.findById(eventId);
+        if (!event) {
+            throw new NotFoundException('Event not found');
+        }
+
+        const [schedules, groups] = await Promise.all([
+            scheduleRepository.findInventoryByEventId(eventId),
+            waitlistRepository.getEventSummary(eventId),
+        ]);
+
+        return schedules.map((schedule: typeof schedules[number]) => {
+            const scheduleGroups = groups.filter((group) => group.scheduleId === schedule.id);
+
+            const lines = new Map<string, {
+                locationZoneId: string | null;
+                waitingEntries: number;
+                waitingQuantity: number;
+                offeredEntries: number;
+                offeredQuantity: number;
+            }>();
+
+            for (const group of scheduleGroups) {
+                const key = group.locationZoneId ?? GENERAL_ADMISSION;
+                const line = lines.get(key) ?? {
+                    locationZoneId: group.locationZoneId,
+                    waitingEntries: 0,
+                    waitingQuantity: 0,
+                    offeredEntries: 0,
+                    offeredQuantity: 0,
+                };
+
+                if (group.status === WaitlistStatus.WAITING) {
+                    line.waitingEntries += group._count._all;
+                    line.waitingQuantity += group._sum.quantity ?? 0;
+                } else {
+                    line.offeredEntries += group._count._all;
+                    line.offeredQuantity += group._sum.quantity ?? 0;
+                }
+                lines.set(key, line);
+            }
+
+            const zones = Array.from(lines.values());
+
+            return {
+                scheduleId: schedule.id,
+                startAt: schedule.startAt,
+                endAt: schedule.endAt,
+                capacity: schedule.capacity,
+                soldQuantity: schedule.soldQuantity,
+                waitingEntries: zones.reduce((sum, line) => sum + line.waitingEntries, 0),
+                waitingQuantity: zones.reduce((sum, line) => sum + line.waitingQuantity, 0),
+                offeredEntries: zones.reduce((sum, line) => sum + line.offeredEntries, 0),
+                offeredQuantity: zones.reduce((sum, line) => sum + line.offeredQuantity, 0),
+                zones,
+            };
+        });
+    }
+
+    /**
+     * Get the entries of a schedule in line order
+     */
+    async getScheduleEntries(
+        scheduleId: string,
+        page: number,
+        limit: number,
+        filters?: { status?: WaitlistStatus; locationZoneId?: string }
+    ) {
+        const result = await waitlistRepository.findBySchedule(scheduleId, page, limit, filters);
+
+        return {
+            success: true,
+            message: 'Waitlist entries retrieved successfully',
+            data: result.data,
+            pagination: result.pagination,
+        };
+    }
+}
+
+export const waitlistService = new WaitlistService();
@@ -1,11 +1,18 @@
 import { logger } from "../config";
-import { WalletTopUpResponse } from '../dtos/response/wallet.response.dto';
-import { BadRequestException, ForbiddenException, HttpException, NotFoundException } from "../exceptions/http.exception";
+import {
+    WalletTopUpResponse,
+    WalletVoucherPurchaseResponse,
+    WalletVoucherRedemptionResponse,
+} from '../dtos/response/wallet.response.dto';
+import { BadRequestException, ConflictException, ForbiddenException, HttpException, NotFoundException } from "../exceptions/http.exception";
+import { giftVoucherRepository } from '../repositories/gift-voucher.repository';
 import { PaymentMethodRepository } from '../repositories/payment-method.repository';
 import { MAX_PENDING_TRANSACTIONS, TransactionRepository } from '../repositories/transaction.repository';
 import { WalletRepository } from '../repositories/wallet.repository';
+import { PurchaseGiftVoucherInput, RedeemGiftVoucherInput } from '../schemas/gift-voucher.schema';
 import { WalletTopUpInput } from '../schemas/transaction.schema';
 import { PaginatedResponse } from '../utils/pagination.util';
+import { giftVoucherService } from './gift-voucher.service';
 
 const walletRepository = new WalletRepository();
 const transactionRepository = new TransactionRepository();
@@ -284,6 +291,183 @@ export class WalletService {
         }
     }
 
+    /**
+     * Redeem a gift voucher into the user's wallet of the voucher currency
+     * Creates the wallet if needed and records a completed DEPOSIT on the gift voucher channel
+     * @param userId User ID
+     * @param redeemData Redemption request data
+     * @returns Updated wallet, deposit transaction and redeemed voucher
+     */
+    async redeemGiftVoucher(userId: string, redeemData: RedeemGiftVoucherInput): Promise<WalletVoucherRedemptionResponse> {
+        try {
+            if (!userId) {
+                throw new BadRequestException('User ID is required');
+            }
+
+            const voucher = await giftVoucherService.getRedeemableVoucher(redeemData.code);
+
+            const existingWallet = await walletRepository.findByUserIdAndCurrency(userId, voucher.currency);
+            if (existingWallet && !existingWallet.active) {
+                throw new BadRequestException('Wallet is not active');
+            }
+
+            const result = await giftVoucherRepository.redeem(voucher.id, userId);
+            if (!result) {
+                throw new ConflictException('Gift voucher is no longer available');
+            }
+
+            const { wallet, transaction } = result;
+
+            logger.info(`Gift voucher ${voucher.code} redeemed by user ${userId} into wallet ${wallet.id}: ${wallet.previousAmount} -> ${wallet.amount}`);
+
+            return {
+                success: true,
+                message: 'Gift voucher redeemed successfully',
+                data: {
+                    wallet: {
+                        id: wallet.id,
+                        amount: wallet.amount,
+                        previousAmount: wallet.previousAmount,
+                        currency: wallet.currency,
+                        active: wallet.active,
+                        createdAt: wallet.createdAt,
+                        updatedAt: wallet.updatedAt,
+                    },
+                    transaction: {
+                        id: transaction.id,
+                        amount: transaction.amount,
+                        currency: transaction.currency,
+                        platform: transaction.platform,
+                        channel: transaction.channel,
+                        action: transaction.action,
+                        status: transaction.status,
+                        completedBy: transaction.completedBy || undefined,
+                        completedAt: transaction.completedAt || undefined,
+                        createdAt: transaction.createdAt,
+                        updatedAt: transaction.updatedAt,
+                    },
+                    voucher: {
+                        code: result.voucher.code,
+                        amount: result.voucher.amount,
+                        currency: result.voucher.currency,
+                        redeemedAt: result.voucher.redeemedAt!,
+                    },
+                },
+            };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            logger.error("Redeem gift voucher error:", error);
+            throw new BadRequestException("Failed to redeem gift voucher");
+        }
+    }
+
+    /**
+     * Buy a gift voucher with the balance of the user's wallet of the voucher currency
+     * Records a completed PURCHASE on the gift voucher channel; the code can be shared and redeemed by anyone
+     * @param userId User ID
+     * @param purchaseData Purchase request data
+     * @returns Updated wallet, purchase transaction and the new voucher
+     */
+    async purchaseGiftVoucher(userId: string, purchaseData: PurchaseGiftVoucherInput): Promise<WalletVoucherPurchaseResponse> {
+        try {
+            if (!userId) {
+                throw new BadRequestException('User ID is required');
+            }
+
+            const currency = purchaseData.currency ?? 'AED';
+            const existingWallet = await walletRepository.findByUserIdAndCurrency(userId, currency);
+            if (!existingWallet) {
+                throw new NotFoundException(`No ${currency} wallet found`);
+            }
+            if (!existingWallet.active) {
+                throw new BadRequestException('Wallet is not active');
+            }
+
+            const result = await giftVoucherService.purchaseVoucher(userId, { ...purchaseData, currency });
+            if (!result) {
+                throw new BadRequestException('Insufficient wallet balance');
+            }
+
+            const { wallet, transaction, voucher } = result;
+
+            logger.info(`Gift voucher ${voucher.code} bought by user ${userId} from wallet ${wallet.id}: ${wallet.previousAmount} -> ${wallet.amount}`);
+
+            return {
+                success: true,
+                message: 'Gift voucher purchased successfully',
+                data: {
+                    wallet: {
+                        id: wallet.id,
+                        amount: wallet.amount,
+                        previousAmount: wallet.previousAmount,
+                        currency: wallet.currency,
+                        active: wallet.active,
+                        createdAt: wallet.createdAt,
+                        updatedAt: wallet.updatedAt,
+                    },
+                    transaction: {
+                        id: transaction.id,
+                        amount: transaction.amount,
+                        currency: transaction.currency,
+                        platform: transaction.platform,
+                        channel: transaction.channel,
+                        action: transaction.action,
+                        status: transaction.status,
+                        completedBy: transaction.completedBy || undefined,
+                        completedAt: transaction.completedAt || undefined,
+                        createdAt: transaction.createdAt,
+                        updatedAt: transaction.updatedAt,
+                    },
+                    voucher: {
+                        id: voucher.id,
+                        code: voucher.code,
+                        amount: voucher.amount,
+                        currency: voucher.currency,
+                        expiresAt: voucher.expiresAt,
+                        createdAt: voucher.createdAt,
+                    },
+                },
+            };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            logger.error("Purchase gift voucher error:", error);
+            throw new BadRequestException("Failed to purchase gift voucher");
+        }
+    }
+
+    /**
+     * Get the gift vouchers the user bought, with their current status
+     * @param userId User ID
+     * @param page Page number
+     * @param limit Items per page
+     * @returns Paginated vouchers
+     */
+    async getPurchasedGiftVouchers(userId: string, page: number, limit: number): Promise<PaginatedResponse<any>> {
+        if (!userId) {
+            throw new BadRequestException('User ID is required');
+        }
+
+        const paginatedResult = await giftVoucherService.getPurchasedVouchers(userId, page, limit);
+
+        return {
+            data: paginatedResult.data.map(voucher => ({
+                id: voucher.id,
+                code: voucher.code,
+                amount: voucher.amount,
+                currency: voucher.currency,
+                status: voucher.status,
+                expiresAt: voucher.expiresAt,
+                redeemedAt: voucher.redeemedAt,
+                createdAt: voucher.createdAt,
+            })),
+            pagination: paginatedResult.pagination,
+        };
+    }
+
     /**
      * Get all transactions for a specific wallet
      * @param userId User ID
@@ -0,0 +1,109 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+
+import { logger } from '../config';
+import { SeatAvailabilityStatus } from '../repositories/seat-selection.repository';
+
+/**
+ * What happened to the seats
+ * - held: added to a seat-selection session
+ * - released: removed from a session, session cancelled/expired, or booking cancelled
+ * - booked: reserved by a customer or admin booking
+ * - admin_locked: pre-reserved by an admin
+ */
+export type SeatChangeType = 'held' | 'released' | 'booked' | 'admin_locked';
+
+/**
+ * Seat state change pushed to seat-map subscribers of a schedule
+ */
+export interface SeatChangeEvent {
+    scheduleId: string;
+    type: SeatChangeType;
+    status: SeatAvailabilityStatus;
+    seatIds: string[];
+    occurredAt: string;
+}
+
+const STATUS_BY_CHANGE: Record<SeatChangeType, SeatAvailabilityStatus> = {
+    held: 'held',
+    released: 'available',
+    booked: 'reserved',
+    admin_locked: 'reserved',
+};
+
+// Keep-alive comment interval so proxies don't close idle streams
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// In-process bus: subscribers only receive changes made by this server instance
+const seatEvents = new EventEmitter();
+seatEvents.setMaxListeners(0);
+
+/**
+ * Publish a seat state change for a schedule
+ * No-op when there are no seats
+ */
+export function publishSeatChange(scheduleId: string, type: SeatChangeType, seatIds: string[]): void {
+    if (seatIds.length === 0) {
+        return;
+    }
+
+    const event: SeatChangeEvent = {
+        scheduleId,
+        type,
+        status: STATUS_BY_CHANGE[type],
+        seatIds,
+        occurredAt: new Date().toISOString(),
+    };
+
+    seatEvents.emit(scheduleId, event);
+}
+
+/**
+ * Subscribe to seat state changes of a schedule
+ * @returns Unsubscribe function
+ */
+export function subscribeToSeatChanges(
+    scheduleId: string,
+    listener: (event: SeatChangeEvent) => void
+): () => void {
+    seatEvents.on(scheduleId, listener);
+    return () => {
+        seatEvents.off(scheduleId, listener);
+    };
+}
+
+/**
+ * Open a Server-Sent Events stream of seat changes for a schedule
+ * Sends a `ready` event on connect, then a `seats` event per change
+ * The stream stays open until the client disconnects
+ */
+export function openSeatChangeStream(req: Request, res: Response, scheduleId: string): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const send = (chunk: string) => {
+        res.write(chunk);
+        // Compression middleware buffers output until flushed
+        res.flush?.();
+    };
+
+    send(`event: ready\ndata: ${JSON.stringify({ scheduleId })}\n\n`);
+
+    const unsubscribe = subscribeToSeatChanges(scheduleId, (event) => {
+        send(`event: seats\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    logger.info(`Seat stream opened for schedule ${scheduleId}`);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        logger.info(`Seat stream closed for schedule ${scheduleId}`);
+    });
+}
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+
+import { config } from '../config';
+
+// Version prefix of ticket QR codes, bumped if the payload format changes
+const TICKET_CODE_PREFIX = 'WLT1';
+
+// Prefix of rotating ticket codes shown by the holder's app: WLD1.<bookingId>.<digits>
+export const ROTATING_CODE_PREFIX = 'WLD1';
+
+// Digits of a rotating code (HMAC-SHA1 based, as in TOTP)
+export const ROTATING_CODE_DIGITS = 8;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Offline manifests are signed with Ed25519, so gate devices can verify them without being able to sign
+export const MANIFEST_SIGNATURE_ALGORITHM = 'Ed25519';
+
+const manifestPrivateKey = crypto.createPrivateKey(config.TICKET_MANIFEST_PRIVATE_KEY);
+const manifestPublicKey = crypto.createPublicKey(manifestPrivateKey);
+
+export interface TicketCodePayload {
+  bookingId: string;
+  scheduleId: string | null;
+  // Set on the code of a single seat of a seated booking
+  bookingSeatId?: string | null;
+}
+
+/**
+ * Sign the encoded payload of a ticket code
+ */
+const sign = (encodedPayload: string): string => {
+  return crypto
+    .createHmac('sha256', config.TICKET_SIGNING_SECRET)
+    .update(`${TICKET_CODE_PREFIX}.${encodedPayload}`)
+    .digest('base64url');
+};
+
+/**
+ * Generate a signed QR code for a booking (or one of its seats)
+ * Every call embeds a new random nonce, so a re-issued code never matches the previous one
+ * @param payload Booking (and schedule, seat) the ticket admits to
+ * @returns Code with format: WLT1.<payload>.<signature>
+ */
+export const generateTicketCode = (payload: TicketCodePayload): string => {
+  const encodedPayload = Buffer.from(
+    JSON.stringify({
+      b: payload.bookingId,
+      s: payload.scheduleId,
+      ...(payload.bookingSeatId && { t: payload.bookingSeatId }),
+      n: crypto.randomBytes(12).toString('base64url'),
+    })
+  ).toString('base64url');
+
+  return `${TICKET_CODE_PREFIX}.${encodedPayload}.${sign(encodedPayload)}`;
+};
+
+/**
+ * Verify the signature of a ticket code
+ * @param code Scanned QR code
+ * @returns Decoded payload if the code was issued by us, null if it is malformed or tampered with
+ */
+export const verifyTicketCode = (code: string): TicketCodePayload | null => {
+  const [prefix, encodedPayload, signature, ...rest] = code.split('.');
+  if (prefix !== TICKET_CODE_PREFIX || !encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    if (typeof decoded.b !== 'string') {
+      return null;
+    }
+    return {
+      bookingId: decoded.b,
+      scheduleId: typeof decoded.s === 'string' ? decoded.s : null,
+      bookingSeatId: typeof decoded.t === 'string' ? decoded.t : null,
+    };
+  } catch (_error) {
+    return null;
+  }
+};
+
+/**
+ * Hash a ticket code for offline manifests
+ * Gate devices hash the scanned code and look it up, so a leaked manifest does not contain usable codes
+ */
+export const hashTicketCode = (code: string): string => {
+  return crypto.createHash('sha256').update(code).digest('hex');
+};
+
+/**
+ * Sign an offline check-in manifest so its content can be verified as issued by us
+ * @returns Ed25519 signature (base64url) of the JSON of the manifest
+ */
+export const signManifest = (manifest: object): string => {
+  return crypto.sign(null, Buffer.from(JSON.stringify(manifest)), manifestPrivateKey).toString('base64url');
+};
+
+/**
+ * Get the public key gate devices verify manifest signatures with
+ * keyId (SHA-256 hex of the key, first 16 characters) tells devices when the key was rotated
+ */
+export const getManifestPublicKey = (): { algorithm: string; keyId: string; publicKey: string } => {
+  const der = manifestPublicKey.export({ type: 'spki', format: 'der' });
+
+  return {
+    algorithm: MANIFEST_SIGNATURE_ALGORITHM,
+    keyId: crypto.createHash('sha256').update(der).digest('hex').slice(0, 16),
+    publicKey: manifestPublicKey.export({ type: 'spki', format: 'pem' }).toString(),
+  };
+};
+
+/**
+ * Generate a random ticket secret (base32, 160 bits as recommended for TOTP)
+ */
+export const generateTicketSecret = (): string => {
+  const bytes = crypto.randomBytes(20);
+  let bits = '';
+  for (const byte of bytes) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+
+  let secret = '';
+  for (let index = 0; index < bits.length; index += 5) {
+    secret += BASE32_ALPHABET[parseInt(bits.slice(index, index + 5).padEnd(5, '0'), 2)];
+  }
+  return secret;
+};
+
+/**
+ * Decode a base32 ticket secret into the HMAC key
+ */
+const decodeTicketSecret = (secret: string): Buffer => {
+  let bits = '';
+  for (const char of secret.toUpperCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value >= 0) {
+      bits += value.toString(2).padStart(5, '0');
+    }
+  }
+
+  const bytes: number[] = [];
+  for (let index = 0; index + 8 <= bits.length; index += 8) {
+    bytes.push(parseInt(bits.slice(index, index + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Compute the rotating code of a ticket secret for a time step (TOTP, RFC 6238)
+ */
+const computeRotatingCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', decodeTicketSecret(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** ROTATING_CODE_DIGITS).toString().padStart(ROTATING_CODE_DIGITS, '0');
+};
+
+/**
+ * Generate the rotating code a ticket secret shows at a time
+ */
+export const generateRotatingCode = (secret: string, at: Date = new Date()): string => {
+  return computeRotatingCode(secret, Math.floor(at.getTime() / 1000 / config.ROTATING_TICKET_CODE_PERIOD));
+};
+
+/**
+ * Verify a rotating code against a ticket secret at a time
+ * Codes of ROTATING_TICKET_CODE_DRIFT steps before or after are accepted for clock drift
+ */
+export const verifyRotatingCode = (secret: string, code: string, at: Date = new Date()): boolean => {
+  const step = Math.floor(at.getTime() / 1000 / config.ROTATING_TICKET_CODE_PERIOD);
+  const received = Buffer.from(code);
+
+  for (let drift = -config.ROTATING_TICKET_CODE_DRIFT; drift <= config.ROTATING_TICKET_CODE_DRIFT; drift++) {
+    const expected = Buffer.from(computeRotatingCode(secret, step + drift));
+    if (expected.length === received.length && crypto.timingSafeEqual(expected, received)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Parse a scanned rotating ticket code
+ * @returns Booking and code digits, null if the code is not a rotating code
+ */
+export const parseRotatingCode = (code: string): { bookingId: string; digits: string } | null => {
+  const [prefix, bookingId, digits, ...rest] = code.split('.');
+  if (prefix !== ROTATING_CODE_PREFIX || !bookingId || !digits || rest.length > 0) {
+    return null;
+  }
+
+  if (!new RegExp(`^\\d{${ROTATING_CODE_DIGITS}}$`).test(digits)) {
+    return null;
+  }
+
+  return { bookingId, digits };
+};